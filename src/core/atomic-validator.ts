@@ -4,13 +4,71 @@
  * Based on Context7 MCP patterns and real-world failure analysis
  */
 
-import { ValidationResult, ProjectState, ValidationIssue } from './migration-engine.js';
+import {
+  ValidationResult,
+  ProjectState,
+  FileImport,
+  WorkspacePackage,
+} from './migration-engine.js';
+import { ProjectScanner } from './project-scanner.js';
+import { PackageManager } from './package-manager.js';
+import {
+  ParaSdkManifest,
+  SUPPORTED_PARA_SDK_MAJORS,
+  getInstalledParaSdkManifest,
+  getParaSdkManifest,
+} from './para-sdk.js';
+
+// Package name fragments and import types of the wallet SDKs that Para replaces
+const OLD_WALLET_PACKAGES = [
+  'privy',
+  'reown',
+  'web3modal',
+  '@rainbow-me/rainbowkit',
+  'connectkit',
+  '@dynamic-labs/',
+  '@web3-onboard/',
+  'thirdweb',
+  'walletconnect',
+  '@solana/wallet-adapter-react',
+];
+const OLD_WALLET_IMPORT_TYPES: Array<FileImport['type']> = [
+  'privy',
+  'reown',
+  'web3modal',
+  'rainbowkit',
+  'connectkit',
+  'dynamic',
+  'web3onboard',
+  'thirdweb',
+  'walletconnect',
+  'solana',
+];
+// The Solana strategy keeps the adapter's connection context and base types next to Para
+const KEPT_WALLET_PACKAGES = ['@solana/wallet-adapter-react', '@solana/wallet-adapter-base'];
+
+function isOldWalletPackage(dep: string): boolean {
+  return OLD_WALLET_PACKAGES.some((pattern) => dep.includes(pattern));
+}
+
+/**
+ * An old wallet package a finished migration must no longer depend on
+ */
+function isReplacedWalletPackage(dep: string): boolean {
+  return isOldWalletPackage(dep) && !KEPT_WALLET_PACKAGES.includes(dep);
+}
+
+function isOldWalletImport(imp: FileImport): boolean {
+  return OLD_WALLET_IMPORT_TYPES.includes(imp.type) && !KEPT_WALLET_PACKAGES.includes(imp.from);
+}
 
 /**
  * Atomic Validator
  * Provides comprehensive validation for migration operations
  */
 export class AtomicValidator {
+  constructor(private sdk: ParaSdkManifest = getParaSdkManifest()) {}
+
   /**
    * Pre-flight validation - ensures migration can proceed
    */
@@ -90,6 +148,14 @@ export class AtomicValidator {
       result.issues.push(...paraDepsCheck.issues);
     }
 
+    // Code written for another Para SDK line than the one installed
+    const sdkVersionCheck = this.validateParaSdkVersion(projectState);
+    if (!sdkVersionCheck.valid) {
+      result.valid = false;
+      result.issues.push(...sdkVersionCheck.issues);
+    }
+    result.warnings.push(...sdkVersionCheck.warnings);
+
     return result;
   }
 
@@ -131,13 +197,7 @@ export class AtomicValidator {
   private checkMigratableContent(state: ProjectState): ValidationResult {
     const result: ValidationResult = { valid: true, issues: [], warnings: [] };
 
-    const oldWalletDeps = Object.keys(state.dependencies).filter(
-      (dep) =>
-        dep.includes('privy') ||
-        dep.includes('reown') ||
-        dep.includes('web3modal') ||
-        dep.includes('walletconnect')
-    );
+    const oldWalletDeps = Object.keys(state.dependencies).filter(isOldWalletPackage);
 
     if (oldWalletDeps.length === 0) {
       result.valid = false;
@@ -145,7 +205,7 @@ export class AtomicValidator {
         severity: 'critical',
         code: 'NO_MIGRATABLE_CONTENT',
         message: 'No wallet providers detected for migration',
-        fix: 'Ensure the project uses Privy, ReOwn, Web3Modal, or WalletConnect',
+        fix: 'Ensure the project uses Privy, ReOwn, Web3Modal, RainbowKit, ConnectKit, Dynamic, thirdweb, Web3Onboard, Solana wallet-adapter, or WalletConnect',
       });
     }
 
@@ -183,54 +243,87 @@ export class AtomicValidator {
   }
 
   // Post-migration validation methods (Critical Issues from real-world experience)
-  private validateParaModalPresent(state: ProjectState): ValidationResult {
+  validateParaModalPresent(state: ProjectState): ValidationResult {
     const result: ValidationResult = { valid: true, issues: [], warnings: [] };
+    const sdk = this.getSdk(state);
+    if (!sdk.components.includes('ParaModal')) {
+      return result; // this SDK line renders the modal from ParaProvider
+    }
 
     // Check if ParaModal is imported and used in provider files
-    const hasParaModalImport = state.imports.some(
-      (imp) => imp.import.includes('ParaModal') && imp.from.includes('para')
-    );
-
-    if (!hasParaModalImport) {
+    const importsParaModal = (s: ProjectState) =>
+      s.imports.some((imp) => imp.import.includes('ParaModal') && imp.from.includes('para'));
+
+    const apps = this.getParaApps(state);
+    if (apps.length > 0) {
+      // Workspaces: each app needs a ParaModal, possibly from a shared package it depends on
+      for (const { app, entryPoint } of apps.filter((a) => !a.reachable.some(importsParaModal))) {
+        result.valid = false;
+        result.issues.push({
+          severity: 'critical',
+          code: 'MISSING_PARA_MODAL',
+          message: `❌ CRITICAL ISSUE #1: ParaModal component missing for ${app.name} - neither it nor its workspace dependencies render one`,
+          file: entryPoint,
+          fix: `Add <ParaModal /> inside the <ParaProvider> this app renders. Import: import { ParaModal } from "${sdk.packages.react}"`,
+        });
+      }
+    } else if (!importsParaModal(state)) {
       result.valid = false;
       result.issues.push({
         severity: 'critical',
         code: 'MISSING_PARA_MODAL',
         message: '❌ CRITICAL ISSUE #1: ParaModal component missing',
-        fix: 'Add <ParaModal /> inside your <ParaProvider>. Import: import { ParaModal } from "@para-wallet/react"',
+        fix: `Add <ParaModal /> inside your <ParaProvider>. Import: import { ParaModal } from "${sdk.packages.react}"`,
       });
     }
 
     return result;
   }
 
-  private validateParaCssImports(state: ProjectState): ValidationResult {
+  validateParaCssImports(state: ProjectState): ValidationResult {
     const result: ValidationResult = { valid: true, issues: [], warnings: [] };
+    const sdk = this.getSdk(state);
 
-    const hasParaCss = state.styles.some((style) => style.isParaStyle);
+    const importsParaCss = (s: ProjectState) =>
+      s.styles.some((style) => style.isParaStyle && style.import.includes(sdk.css));
 
-    if (!hasParaCss) {
+    const apps = this.getParaApps(state);
+    if (apps.length > 0) {
+      // Workspaces: a shared package may import the CSS on behalf of the apps using it
+      for (const { app, entryPoint } of apps.filter((a) => !a.reachable.some(importsParaCss))) {
+        result.valid = false;
+        result.issues.push({
+          severity: 'critical',
+          code: 'MISSING_PARA_CSS',
+          message: `❌ CRITICAL ISSUE #2: Para SDK CSS not imported for ${app.name}`,
+          file: entryPoint,
+          fix: `Add import "${sdk.css}" to ${entryPoint}`,
+        });
+      }
+    } else if (!importsParaCss(state)) {
       result.valid = false;
       result.issues.push({
         severity: 'critical',
         code: 'MISSING_PARA_CSS',
         message: '❌ CRITICAL ISSUE #2: Para SDK CSS not imported',
-        fix: 'Add import "@para-wallet/react/styles.css" to your main entry point (main.tsx, layout.tsx, or _app.tsx)',
+        fix: `Add import "${sdk.css}" to your main entry point (main.tsx, layout.tsx, or _app.tsx)`,
       });
     }
 
     return result;
   }
 
-  private validateEnvironmentEnum(state: ProjectState): ValidationResult {
+  validateEnvironmentEnum(state: ProjectState): ValidationResult {
     const result: ValidationResult = { valid: true, issues: [], warnings: [] };
+    const sdk = this.getSdk(state);
 
-    // Check for string usage instead of Environment enum
+    // Check for string usage instead of Environment enum (props hold expression source text)
     const hasStringEnv = state.providers.some(
       (provider) =>
-        (provider.provider === 'ParaProvider' &&
-          JSON.stringify(provider.props).includes('"development"')) ||
-        JSON.stringify(provider.props).includes('"production"')
+        provider.provider === 'ParaProvider' &&
+        Object.values(provider.props).some((value) =>
+          /env\s*[:=]\s*\{?\s*["'`](development|production)["'`]/i.test(String(value))
+        )
     );
 
     if (hasStringEnv) {
@@ -239,19 +332,28 @@ export class AtomicValidator {
         severity: 'critical',
         code: 'STRING_ENVIRONMENT',
         message: '❌ CRITICAL ISSUE #3: Using string instead of Environment enum',
-        fix: 'Import Environment from "@para-wallet/core" and use Environment.DEVELOPMENT instead of "development"',
+        fix: `Import ${sdk.environment.name} from "${sdk.environment.from}" and use ${sdk.environment.name}.DEVELOPMENT instead of "development"`,
       });
     }
 
     return result;
   }
 
-  private validateOldDependenciesRemoved(state: ProjectState): ValidationResult {
+  /**
+   * `allowImported` accepts packages code still imports from - a migration keeps them for the
+   * call sites it could not convert
+   */
+  validateOldDependenciesRemoved(state: ProjectState, allowImported = false): ValidationResult {
     const result: ValidationResult = { valid: true, issues: [], warnings: [] };
 
-    const oldDeps = Object.keys(state.dependencies).filter(
-      (dep) => dep.includes('privy') || dep.includes('reown') || dep.includes('web3modal')
-    );
+    const imported = (dep: string) =>
+      allowImported && state.imports.some((i) => i.from === dep || i.from.startsWith(`${dep}/`));
+    const installed = Object.keys(state.dependencies).filter(isReplacedWalletPackage);
+    const oldDeps = installed.filter((dep) => !imported(dep));
+
+    for (const dep of installed.filter(imported)) {
+      result.warnings.push(`${dep} is still imported - remove it once those imports are migrated`);
+    }
 
     if (oldDeps.length > 0) {
       result.valid = false;
@@ -259,7 +361,7 @@ export class AtomicValidator {
         severity: 'critical',
         code: 'OLD_DEPENDENCIES_PRESENT',
         message: `❌ CRITICAL ISSUE #4: Old wallet dependencies still present: ${oldDeps.join(', ')}`,
-        fix: `Run: npm uninstall ${oldDeps.join(' ')}`,
+        fix: `Run: ${this.getPackageManager(state).removeCommand(oldDeps)}`,
       });
     }
 
@@ -268,6 +370,7 @@ export class AtomicValidator {
 
   private validateParaDependenciesPresent(state: ProjectState): ValidationResult {
     const result: ValidationResult = { valid: true, issues: [], warnings: [] };
+    const sdk = this.getSdk(state);
 
     const hasParaDep = Object.keys(state.dependencies).some((dep) => dep.includes('para'));
 
@@ -277,20 +380,72 @@ export class AtomicValidator {
         severity: 'critical',
         code: 'MISSING_PARA_DEPENDENCY',
         message: '❌ CRITICAL ISSUE #5: Para SDK dependency missing',
-        fix: 'Run: npm install @para-wallet/react',
+        fix: `Run: ${this.getPackageManager(state).addCommand(sdk.dependencies, sdk)}`,
       });
     }
 
     return result;
   }
 
+  /**
+   * Check Para imports and provider setup against the SDK line in package.json
+   */
+  validateParaSdkVersion(state: ProjectState): ValidationResult {
+    const result: ValidationResult = { valid: true, issues: [], warnings: [] };
+    const sdk = this.getSdk(state);
+
+    // Names some Para SDK line exports - anything else is left to the compiler
+    const knownExports = new Set(
+      SUPPORTED_PARA_SDK_MAJORS.map((major) => getParaSdkManifest(major)).flatMap((m) => [
+        ...m.components,
+        ...m.hooks,
+      ])
+    );
+    const available = new Set([...sdk.components, ...sdk.hooks]);
+
+    for (const imp of state.imports.filter((i) => i.from === sdk.packages.react)) {
+      const names = imp.import.match(/\{([^}]*)\}/)?.[1].split(',') ?? [];
+      for (const name of names.map((n) => n.trim().split(/\s+as\s+/)[0]).filter(Boolean)) {
+        if (!knownExports.has(name) || available.has(name)) continue;
+
+        result.valid = false;
+        result.issues.push({
+          severity: 'critical',
+          code: 'UNSUPPORTED_PARA_EXPORT',
+          message: `${name} is not exported by ${sdk.packages.react} ${sdk.major}.x, the version in package.json`,
+          file: imp.file,
+          line: imp.line,
+          fix:
+            name === 'ParaModal'
+              ? `Remove ParaModal - ${sdk.major}.x renders the modal from ParaProvider`
+              : `Re-run the migration with targetSdkVersion set to the installed version`,
+        });
+      }
+    }
+
+    const paraProvider = state.providers.find((p) => p.provider === 'ParaProvider');
+    for (const wrapper of sdk.providerWrappers) {
+      if (paraProvider && !state.providers.some((p) => p.provider === wrapper)) {
+        result.valid = false;
+        result.issues.push({
+          severity: 'critical',
+          code: 'MISSING_PROVIDER_WRAPPER',
+          message: `${sdk.packages.react} ${sdk.major}.x needs ParaProvider rendered inside <${wrapper}>`,
+          file: paraProvider.file,
+          line: paraProvider.line,
+          fix: `Wrap ParaProvider in <${wrapper}>`,
+        });
+      }
+    }
+
+    return result;
+  }
+
   // Completion validation methods
-  private validateNoOldImports(state: ProjectState): ValidationResult {
+  validateNoOldImports(state: ProjectState): ValidationResult {
     const result: ValidationResult = { valid: true, issues: [], warnings: [] };
 
-    const oldImports = state.imports.filter(
-      (imp) => imp.type === 'privy' || imp.type === 'reown' || imp.type === 'web3modal'
-    );
+    const oldImports = state.imports.filter(isOldWalletImport);
 
     if (oldImports.length > 0) {
       result.valid = false;
@@ -341,6 +496,46 @@ export class AtomicValidator {
     return result;
   }
 
+  /**
+   * Manifest of the Para SDK line the project installs, the configured one before that
+   */
+  private getSdk(state: ProjectState): ParaSdkManifest {
+    return getInstalledParaSdkManifest(state.dependencies) ?? this.sdk;
+  }
+
+  private getPackageManager(state: ProjectState): PackageManager {
+    return new PackageManager(state.packageManager ?? 'npm');
+  }
+
+  /**
+   * Workspace apps - packages with an entry point - that use Para, with the package states
+   * they reach through workspace dependencies (the app's own state comes first)
+   */
+  private getParaApps(
+    state: ProjectState
+  ): Array<{ app: WorkspacePackage; entryPoint: string; reachable: ProjectState[] }> {
+    const packages = state.packages ?? [];
+
+    return packages.flatMap((app) => {
+      const entryPoint = state.entryPoints.find(
+        (file) => ProjectScanner.getOwningPackage(state, file) === app
+      );
+      if (!entryPoint) return [];
+
+      const reached = [app];
+      for (const pkg of reached) {
+        for (const name of pkg.workspaceDependencies) {
+          const dependency = packages.find((p) => p.name === name);
+          if (dependency && !reached.includes(dependency)) reached.push(dependency);
+        }
+      }
+
+      const reachable = reached.map((pkg) => ProjectScanner.getPackageState(state, pkg));
+      const usesPara = reachable.some((s) => s.imports.some((imp) => imp.type === 'para'));
+      return usesPara ? [{ app, entryPoint, reachable }] : [];
+    });
+  }
+
   /**
    * Calculate migration success percentage
    */
@@ -350,18 +545,14 @@ export class AtomicValidator {
 
     // Dependencies (30 points)
     const hasParaDep = Object.keys(state.dependencies).some((dep) => dep.includes('para'));
-    const hasOldDeps = Object.keys(state.dependencies).some(
-      (dep) => dep.includes('privy') || dep.includes('reown') || dep.includes('web3modal')
-    );
+    const hasOldDeps = Object.keys(state.dependencies).some(isReplacedWalletPackage);
 
     if (hasParaDep) score += 15;
     if (!hasOldDeps) score += 15;
 
     // Imports (25 points)
     const hasParaImports = state.imports.some((imp) => imp.from.includes('para'));
-    const hasOldImports = state.imports.some(
-      (imp) => imp.type === 'privy' || imp.type === 'reown' || imp.type === 'web3modal'
-    );
+    const hasOldImports = state.imports.some(isOldWalletImport);
 
     if (hasParaImports) score += 15;
     if (!hasOldImports) score += 10;
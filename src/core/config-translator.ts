@@ -0,0 +1,182 @@
+/**
+ * Provider Config Translator
+ * Maps the props of an old provider onto ParaProvider config with a declarative configMapping
+ */
+
+import { ProviderUsage, ValidationIssue } from './migration-engine.js';
+import { parseObjectLiteral } from './project-scanner.js';
+
+// Old prop or `prop.key` path -> Para config path such as `paraModalConfig.theme`, null to drop it
+export type ConfigMapping = Readonly<Record<string, string | null>>;
+
+export interface TransformedConfig {
+  config: Record<string, string>; // Para config path -> expression source text
+  unmapped?: string[]; // values without a Para equivalent, e.g. a login method
+}
+
+/**
+ * Translates the value of one old prop path, given the props next to it
+ * Returns null when the value cannot be translated - the path is then left for review
+ */
+export type ConfigTransform = (
+  value: string,
+  siblings: Record<string, string>
+) => TransformedConfig | null;
+
+export interface ConfigTranslation {
+  config: Record<string, string>; // Para config path -> expression source text
+  unmapped: string[]; // old prop paths without a mapping - left for review, never dropped
+  review?: ValidationIssue; // set when anything is unmapped
+}
+
+export interface RenderOptions {
+  comments?: Record<string, string>; // Para config path -> note appended to its line
+  unmapped?: string[]; // old prop paths listed in a closing review comment
+  from?: string; // what the unmapped paths were read from, e.g. `PrivyProvider`
+  quote?: string; // quote of the file the config is written to, for the string literals it holds
+}
+
+export class ConfigTranslator {
+  constructor(
+    private mapping: ConfigMapping,
+    private transforms: Readonly<Record<string, ConfigTransform>> = {}
+  ) {}
+
+  /**
+   * Translate the props of `provider`
+   * Inline object literals are walked when the mapping or a transform names keys inside them.
+   * Values a transform only partly translates are listed as `path[value]`.
+   */
+  translate(provider: ProviderUsage): ConfigTranslation {
+    const config: Record<string, string> = {};
+    const unmapped: string[] = [];
+
+    const paths = [...Object.keys(this.mapping), ...Object.keys(this.transforms)];
+
+    const visit = (props: Record<string, unknown>, prefix: string): void => {
+      for (const [key, value] of Object.entries(props)) {
+        const path = `${prefix}${key}`;
+        const transform = this.transforms[path];
+        const translated = transform
+          ? transform(
+              String(value),
+              Object.fromEntries(Object.entries(props).map(([k, v]) => [k, String(v)]))
+            )
+          : null;
+        if (translated) {
+          Object.assign(config, translated.config);
+          unmapped.push(...(translated.unmapped ?? []).map((item) => `${path}[${item}]`));
+          continue;
+        }
+
+        if (path in this.mapping) {
+          const target = this.mapping[path];
+          if (target) config[target] = String(value);
+          continue;
+        }
+
+        const nested = paths.some((k) => k.startsWith(`${path}.`))
+          ? parseObjectLiteral(String(value))
+          : null;
+        if (nested) {
+          visit(nested, `${path}.`);
+        } else {
+          unmapped.push(path);
+        }
+      }
+    };
+    visit(provider.props, '');
+
+    return {
+      config,
+      unmapped,
+      ...(unmapped.length > 0
+        ? {
+            review: {
+              severity: 'warning',
+              code: 'UNMAPPED_PROVIDER_CONFIG',
+              message: `${provider.provider} settings without a Para equivalent: ${unmapped.join(', ')}`,
+              file: provider.file,
+              line: provider.line,
+              fix: 'Port these settings to the ParaProvider config by hand, or drop them',
+            },
+          }
+        : {}),
+    };
+  }
+
+  /**
+   * Object literal source for Para config paths, two spaces per level - a value read from the
+   * variable of the same name is written as a shorthand property, and string literals take
+   * `options.quote` when given
+   */
+  static render(config: Record<string, string>, options: RenderOptions = {}): string {
+    type Tree = Map<string, Tree | string>;
+    const tree: Tree = new Map();
+
+    for (const [path, value] of Object.entries(config)) {
+      const keys = path.split('.');
+      let node = tree;
+      for (const key of keys.slice(0, -1)) {
+        const child = node.get(key);
+        const next: Tree = child instanceof Map ? child : new Map();
+        node.set(key, next);
+        node = next;
+      }
+      node.set(keys[keys.length - 1], value);
+    }
+
+    const lines = (node: Tree, indent: string, prefix: string): string[] =>
+      [...node].flatMap(([key, value]) => {
+        if (value instanceof Map) {
+          return [
+            `${indent}${key}: {`,
+            ...lines(value, `${indent}  `, `${prefix}${key}.`),
+            `${indent}},`,
+          ];
+        }
+        const comment = options.comments?.[`${prefix}${key}`];
+        const literal = options.quote ? requote(value, options.quote) : value;
+        const entry = value === key ? key : `${key}: ${reindent(literal, indent)}`;
+        return [`${indent}${entry},${comment ? ` // ${comment}` : ''}`];
+      });
+
+    const body = lines(tree, '  ', '');
+    if (options.unmapped && options.unmapped.length > 0) {
+      body.push(
+        `  // Not mapped from ${options.from ?? 'the old provider'} - review manually: ${options.unmapped.join(', ')}`
+      );
+    }
+
+    return `{\n${body.join('\n')}\n}`;
+  }
+}
+
+/**
+ * Write a string literal value, or a list of them, with `quote` - other expressions are code
+ * copied from the old provider and stay as written, as do literals holding a quote or an escape
+ */
+function requote(value: string, quote: string): string {
+  const literal = /(['"])((?:\\.|(?!\1)[^\\\n])*)\1/g;
+  if (!/^[\s[\],]*$/.test(value.replace(literal, ''))) return value;
+
+  return value.replace(literal, (text, _delimiter, body: string) =>
+    /['"\\]/.test(body) ? text : `${quote}${body}${quote}`
+  );
+}
+
+/**
+ * Move the continuation lines of a multi-line expression to `indent`
+ */
+function reindent(value: string, indent: string): string {
+  const continuation = value.split('\n').slice(1);
+  if (continuation.length === 0) return value;
+
+  const depth = Math.min(
+    ...continuation.filter((line) => line.trim()).map((line) => line.match(/^\s*/)![0].length)
+  );
+  return [
+    value.split('\n')[0],
+    ...continuation.map((line) => `${indent}${line.slice(depth)}`),
+  ].join('\n');
+}
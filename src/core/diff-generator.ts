@@ -0,0 +1,219 @@
+/**
+ * Unified Diff Generator
+ * Applies a plan in memory and renders a git-compatible patch of what it would change
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ReplacementOperation, ValidationIssue } from './migration-engine.js';
+import { OperationExecutor, OperationError } from './operation-executor.js';
+import { PLAN_DIRECTORY } from './plan-store.js';
+
+const CONTEXT_LINES = 3;
+
+export interface PlanDiff {
+  patch: string; // unified diff, applies with `git apply` from the project root
+  files: string[];
+  issues: ValidationIssue[]; // operations that would fail against the current files
+}
+
+interface DiffLine {
+  type: ' ' | '-' | '+';
+  text: string; // includes the trailing newline when the line has one
+}
+
+export class DiffGenerator {
+  constructor(private projectPath: string) {}
+
+  async generate(operations: ReplacementOperation[]): Promise<PlanDiff> {
+    const executor = new OperationExecutor(this.projectPath);
+    const originals = new Map<string, string>();
+    const updated = new Map<string, string>();
+    const created = new Set<string>();
+    const issues: ValidationIssue[] = [];
+
+    for (const operation of operations) {
+      try {
+        const file = OperationExecutor.getTargetFile(operation);
+
+        if (!originals.has(file)) {
+          const content = await fs
+            .readFile(path.join(this.projectPath, file), 'utf-8')
+            .catch(() => null);
+
+          if (content === null && operation.type === 'file') {
+            created.add(file);
+          } else if (content === null) {
+            throw new OperationError({
+              severity: 'critical',
+              code: 'FILE_NOT_FOUND',
+              message: `Operation ${operation.id}: cannot read ${file}`,
+              file,
+            });
+          }
+
+          originals.set(file, content ?? '');
+          updated.set(file, content ?? '');
+        }
+
+        updated.set(
+          file,
+          created.has(file) && operation.type === 'file'
+            ? operation.newValue
+            : executor.apply(updated.get(file)!, operation)
+        );
+      } catch (error) {
+        if (!(error instanceof OperationError)) throw error;
+        issues.push({ ...error.issue, severity: operation.critical ? 'critical' : 'warning' });
+      }
+    }
+
+    const files = [...originals.keys()]
+      .filter((file) => originals.get(file) !== updated.get(file))
+      .sort();
+
+    const patch = files
+      .map((file) =>
+        this.diffFile(file, originals.get(file)!, updated.get(file)!, created.has(file))
+      )
+      .join('');
+
+    return { patch, files, issues };
+  }
+
+  /**
+   * Write the patch next to the saved plan, returns the project-relative path
+   */
+  async writePatch(planId: string, patch: string): Promise<string> {
+    const file = path.posix.join(PLAN_DIRECTORY, `${planId}.patch`);
+    await fs.mkdir(path.join(this.projectPath, PLAN_DIRECTORY), { recursive: true });
+    await fs.writeFile(path.join(this.projectPath, file), patch);
+    return file;
+  }
+
+  private diffFile(file: string, before: string, after: string, created: boolean): string {
+    const lines = this.diffLines(this.splitLines(before), this.splitLines(after));
+    let output = created
+      ? `diff --git a/${file} b/${file}\nnew file mode 100644\n--- /dev/null\n+++ b/${file}\n`
+      : `diff --git a/${file} b/${file}\n--- a/${file}\n+++ b/${file}\n`;
+
+    for (const hunk of this.groupHunks(lines)) {
+      output += hunk;
+    }
+
+    return output;
+  }
+
+  private splitLines(content: string): string[] {
+    return content.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+  }
+
+  /**
+   * Line diff via LCS, after trimming the common prefix and suffix
+   */
+  private diffLines(before: string[], after: string[]): DiffLine[] {
+    let prefix = 0;
+    while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+      prefix++;
+    }
+
+    let suffix = 0;
+    while (
+      suffix < before.length - prefix &&
+      suffix < after.length - prefix &&
+      before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const oldMiddle = before.slice(prefix, before.length - suffix);
+    const newMiddle = after.slice(prefix, after.length - suffix);
+    const columns = newMiddle.length + 1;
+    const table = new Uint32Array((oldMiddle.length + 1) * columns);
+
+    for (let i = oldMiddle.length - 1; i >= 0; i--) {
+      for (let j = newMiddle.length - 1; j >= 0; j--) {
+        table[i * columns + j] =
+          oldMiddle[i] === newMiddle[j]
+            ? table[(i + 1) * columns + j + 1] + 1
+            : Math.max(table[(i + 1) * columns + j], table[i * columns + j + 1]);
+      }
+    }
+
+    const lines: DiffLine[] = before.slice(0, prefix).map((text) => ({ type: ' ', text }));
+    let i = 0;
+    let j = 0;
+    while (i < oldMiddle.length || j < newMiddle.length) {
+      if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+        lines.push({ type: ' ', text: oldMiddle[i++] });
+        j++;
+      } else if (
+        j >= newMiddle.length ||
+        (i < oldMiddle.length && table[(i + 1) * columns + j] >= table[i * columns + j + 1])
+      ) {
+        lines.push({ type: '-', text: oldMiddle[i++] });
+      } else {
+        lines.push({ type: '+', text: newMiddle[j++] });
+      }
+    }
+
+    lines.push(
+      ...before.slice(before.length - suffix).map((text) => ({ type: ' ' as const, text }))
+    );
+    return lines;
+  }
+
+  /**
+   * Render changed regions as hunks with surrounding context
+   */
+  private groupHunks(lines: DiffLine[]): string[] {
+    const hunks: string[] = [];
+    let index = 0;
+    let oldLine = 0;
+    let newLine = 0;
+
+    while (index < lines.length) {
+      if (lines[index].type === ' ') {
+        index++;
+        oldLine++;
+        newLine++;
+        continue;
+      }
+
+      // Extend the hunk while changes are close enough to share context
+      const start = Math.max(0, index - CONTEXT_LINES);
+      let end = index;
+      let lastChange = index;
+      while (end < lines.length && end - lastChange <= CONTEXT_LINES * 2 + 1) {
+        if (lines[end].type !== ' ') lastChange = end;
+        end++;
+      }
+      end = Math.min(lines.length, lastChange + CONTEXT_LINES + 1);
+
+      const leading = index - start;
+      const hunkLines = lines.slice(start, end);
+      const oldCount = hunkLines.filter((line) => line.type !== '+').length;
+      const newCount = hunkLines.filter((line) => line.type !== '-').length;
+      const oldStart = oldCount > 0 ? oldLine - leading + 1 : oldLine - leading;
+      const newStart = newCount > 0 ? newLine - leading + 1 : newLine - leading;
+
+      let hunk = `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@\n`;
+      for (const line of hunkLines) {
+        hunk += line.type + line.text;
+        if (!line.text.endsWith('\n')) {
+          hunk += '\n\\ No newline at end of file\n';
+        }
+      }
+      hunks.push(hunk);
+
+      // Advance counters past the hunk
+      for (let k = index; k < end; k++) {
+        if (lines[k].type !== '+') oldLine++;
+        if (lines[k].type !== '-') newLine++;
+      }
+      index = end;
+    }
+
+    return hunks;
+  }
+}
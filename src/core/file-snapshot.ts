@@ -0,0 +1,72 @@
+/**
+ * File Snapshot
+ * Transactional layer for atomic migrations - byte-for-byte capture and restore
+ */
+
+import { Buffer } from 'node:buffer';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Lockfiles are snapshotted with package.json so dependency changes roll back cleanly
+export const LOCKFILES = [
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lockb',
+  'bun.lock',
+];
+
+export class FileSnapshot {
+  // null marks a file that did not exist when the snapshot was taken
+  private entries = new Map<string, Buffer | null>();
+
+  constructor(private projectPath: string) {}
+
+  /**
+   * Capture the current bytes of every file (project-relative paths)
+   */
+  async capture(files: string[]): Promise<void> {
+    for (const file of files) {
+      if (this.entries.has(file)) continue;
+
+      try {
+        this.entries.set(file, await fs.readFile(path.join(this.projectPath, file)));
+      } catch (error) {
+        this.entries.set(file, null);
+      }
+    }
+  }
+
+  get files(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  /**
+   * Put a file back exactly as captured
+   * Returns true when the file had changed and was restored
+   */
+  async restore(file: string): Promise<boolean> {
+    if (!this.entries.has(file)) {
+      throw new Error(`No snapshot taken for ${file}`);
+    }
+
+    const original = this.entries.get(file)!;
+    const fullPath = path.join(this.projectPath, file);
+    const current = await fs.readFile(fullPath).catch(() => null);
+
+    if (original === null) {
+      if (current === null) return false;
+      await fs.rm(fullPath);
+      return true;
+    }
+
+    if (current !== null && current.equals(original)) {
+      return false;
+    }
+
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, original);
+    return true;
+  }
+}
@@ -4,15 +4,36 @@
  * Based on Context7 MCP patterns and real-world learnings
  */
 
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ProjectScanner } from './project-scanner.js';
+import { OperationExecutor, OperationError } from './operation-executor.js';
+import { FileSnapshot, LOCKFILES } from './file-snapshot.js';
+import { StrategyFactory } from './replacement-strategy.js';
+import { AtomicValidator } from './atomic-validator.js';
+import { PlanStore } from './plan-store.js';
+import { OperationMerger, StrategyOperations } from './operation-merger.js';
+import { PackageManager, PackageManagerName } from './package-manager.js';
+import { ParaSdkManifest, getInstalledParaSdkManifest, getParaSdkManifest } from './para-sdk.js';
 
 // Core Types
 export interface ProjectState {
+  projectPath: string;
   dependencies: Record<string, string>;
   imports: FileImport[];
   providers: ProviderUsage[];
   hooks: HookUsage[];
   styles: StyleImport[];
   entryPoints: string[];
+  packages?: WorkspacePackage[]; // workspace monorepos only - the root package comes first
+  packageManager?: PackageManagerName; // detected from the lockfile
+}
+
+export interface WorkspacePackage {
+  name: string; // package.json name, the directory when unnamed
+  path: string; // project-relative directory, '' for the root package
+  dependencies: Record<string, string>;
+  workspaceDependencies: string[]; // names of the workspace packages it depends on
 }
 
 export interface FileImport {
@@ -20,15 +41,36 @@ export interface FileImport {
   line: number;
   import: string;
   from: string;
-  type: 'privy' | 'reown' | 'web3modal' | 'wagmi' | 'para' | 'other';
+  type:
+    | 'privy'
+    | 'reown'
+    | 'web3modal'
+    | 'walletconnect'
+    | 'rainbowkit'
+    | 'connectkit'
+    | 'dynamic'
+    | 'thirdweb'
+    | 'web3onboard'
+    | 'solana'
+    | 'wagmi'
+    | 'para'
+    | 'other';
+  references?: HookReference[]; // project module imports only: reads of the names they bind
 }
 
 export interface ProviderUsage {
   file: string;
   line: number;
   provider: string;
-  props: Record<string, unknown>;
+  props: Record<string, unknown>; // prop name -> expression source text
   active: boolean;
+  source: string; // full JSX element or factory call text
+  children: string; // JSX children text, empty for self-closing elements and calls
+  indent?: string; // JSX elements: leading whitespace of the line the element starts on
+  statement?: string; // factory calls: the enclosing `call();` or `const x = call();` statement
+  references?: HookReference[]; // factory results bound by `statement`: later reads in the file
+  bindings?: LocalBinding[]; // factory calls: top-level names nothing but the call reads
+  constants?: Record<string, string>; // factory calls: same-file const array literals its props read
 }
 
 export interface HookUsage {
@@ -37,6 +79,21 @@ export interface HookUsage {
   hook: string;
   from: string;
   usage: string;
+  references?: HookReference[]; // reads of the names the hook result is bound to
+  scope?: number; // line of the enclosing function - hooks of one component share it
+}
+
+export interface HookReference {
+  line: number;
+  name: string; // local binding being read
+  expression: string; // widest member access chain or direct call rooted at the binding
+}
+
+export interface LocalBinding {
+  name: string;
+  line: number;
+  statement: string; // the `const` declaring it, or the import statement binding it
+  imported: boolean;
 }
 
 export interface StyleImport {
@@ -47,16 +104,21 @@ export interface StyleImport {
 }
 
 export interface MigrationPlan {
-  strategy: MigrationStrategy;
+  id?: string; // content-hashed ID, set once the plan is saved to .para-migration/
+  strategy: MigrationStrategy; // first of `strategies`
+  strategies: MigrationStrategy[]; // combined migrations list every strategy, highest priority first
   replacements: ReplacementOperation[];
+  conflicts: ValidationIssue[]; // operations dropped while merging strategies and setups a strategy cannot migrate
+  manualReview: ValidationIssue[]; // hook call sites and provider settings left for manual review
   validations: ValidationCheck[];
   rollbackPlan: RollbackOperation[];
   estimatedTime: number; // in seconds
+  installCommand: string; // run once the migrated package.json files are written
 }
 
 export interface ReplacementOperation {
   id: string;
-  type: 'dependency' | 'import' | 'provider' | 'hook' | 'style';
+  type: 'dependency' | 'import' | 'provider' | 'hook' | 'style' | 'file'; // 'file' creates file with newValue
   file?: string;
   line?: number;
   oldValue: string;
@@ -73,7 +135,8 @@ export interface ValidationCheck {
 
 export interface RollbackOperation {
   operationId: string;
-  action: () => Promise<void>;
+  file: string; // project-relative file restored from the snapshot
+  action: () => Promise<boolean>; // resolves true when the file was restored
 }
 
 export interface ValidationResult {
@@ -97,8 +160,19 @@ export interface MigrationResult {
   failedOperations: string[];
   validationResults: ValidationResult[];
   rollbackExecuted: boolean;
+  restoredFiles: string[];
   duration: number; // in milliseconds
   issues: ValidationIssue[];
+  lockfileUpdated: boolean;
+  installCommand?: string; // set when package.json changed and node_modules still needs installing
+}
+
+export interface PlanOptions {
+  targetSdkVersion?: string; // Para SDK line to migrate to, e.g. `2` or `^2.1.0`
+}
+
+export interface MigrationOptions {
+  updateLockfile?: boolean; // re-resolve the lockfile offline from the local package cache
 }
 
 // Migration Strategy Enum
@@ -107,6 +181,12 @@ export enum MigrationStrategy {
   REOWN_TO_PARA = 'reown-to-para',
   WEB3MODAL_TO_PARA = 'web3modal-to-para',
   WALLETCONNECT_TO_PARA = 'walletconnect-to-para',
+  RAINBOWKIT_TO_PARA = 'rainbowkit-to-para',
+  CONNECTKIT_TO_PARA = 'connectkit-to-para',
+  DYNAMIC_TO_PARA = 'dynamic-to-para',
+  THIRDWEB_TO_PARA = 'thirdweb-to-para',
+  WEB3ONBOARD_TO_PARA = 'web3onboard-to-para',
+  SOLANA_WALLET_ADAPTER_TO_PARA = 'solana-wallet-adapter-to-para',
 }
 
 // Replacement Maps
@@ -138,6 +218,38 @@ export const HOOK_REPLACEMENT_MAP = {
     useWeb3ModalState: 'useAccount',
     useDisconnect: 'useDisconnect',
   },
+  'rainbowkit-to-para': {
+    useConnectModal: 'useModal',
+    useAccountModal: 'useModal',
+    useChainModal: 'useModal',
+  },
+  'connectkit-to-para': {
+    useModal: 'useModal', // same name - only rewritten when imported from connectkit
+  },
+  'dynamic-to-para': {
+    // Split per destructured property: primaryWallet -> useWallet, user -> useAccount,
+    // handleLogOut -> useLogout, setShowAuthFlow -> useModal
+    useDynamicContext: 'useAccount',
+  },
+  'thirdweb-to-para': {
+    // Account and chain come from wagmi's useAccount on the generated wagmi config
+    useActiveAccount: 'useAccount',
+    useActiveWalletChain: 'useAccount',
+    useActiveWallet: 'useWallet',
+    useDisconnect: 'useLogout',
+  },
+  'web3onboard-to-para': {
+    // Tuple results are split across Para (useWallet, useModal, useLogout) and wagmi hooks
+    useConnectWallet: 'useModal',
+    useSetChain: 'useSwitchChain',
+    useWallets: 'useWallet',
+  },
+  'solana-wallet-adapter-to-para': {
+    // useWallet is split into Para hooks plus a @solana/web3.js signer for publicKey and
+    // signing; useConnection keeps working under Para's Solana connector
+    useWallet: 'useWallet',
+    useWalletModal: 'useModal',
+  },
 } as const;
 
 export const PROVIDER_REPLACEMENT_MAP = {
@@ -146,9 +258,12 @@ export const PROVIDER_REPLACEMENT_MAP = {
     replacement: 'ParaProvider',
     requiredComponents: ['ParaModal'],
     configMapping: {
-      appId: 'apiKey',
+      appId: null, // a Privy app ID is not a Para API key - replaced by PARA_API_KEY
       clientId: null, // remove
-      config: 'paraClientConfig',
+      // loginMethods, appearance.theme, createOnLogin, chains and externalWallets are
+      // translated by PrivyToParaStrategy - their values don't map one to one
+      'config.appearance.accentColor': 'paraModalConfig.theme.accentColor',
+      'config.appearance.logo': 'paraModalConfig.logo',
     },
   },
   'reown-to-para': {
@@ -156,9 +271,104 @@ export const PROVIDER_REPLACEMENT_MAP = {
     replacement: 'ParaProvider',
     requiredComponents: ['ParaModal'],
     configMapping: {
-      projectId: null, // remove
-      metadata: 'metadata',
-      wagmiConfig: 'wagmiConfig',
+      projectId: null, // a WalletConnect project ID is not a Para API key - replaced by PARA_API_KEY
+      adapters: null, // the WagmiAdapter's wagmi config stays on WagmiProvider
+      // networks, features.email/socials and themeVariables are translated by ReownToParaStrategy
+      themeMode: 'paraModalConfig.theme.mode',
+      'features.analytics': null, // WalletConnect Cloud analytics
+      siweConfig: null, // Sign-In With Ethereum moves to the generated useParaSiwe hook
+      'metadata.name': 'config.appName',
+      'metadata.description': null, // WalletConnect pairing metadata - Para's connector sets its own
+      'metadata.url': null,
+      'metadata.icons': null,
+      wagmiConfig: null, // Para's EVM connector takes the chains of the config WagmiProvider is given
+    },
+  },
+  'web3modal-to-para': {
+    component: 'createWeb3Modal',
+    replacement: 'ParaProvider',
+    requiredComponents: ['ParaModal'],
+    configMapping: {
+      projectId: null, // a WalletConnect project ID is not a Para API key - replaced by PARA_API_KEY
+      wagmiConfig: null, // Para's EVM connector takes the chains of the config WagmiProvider is given
+      // themeVariables are translated by Web3ModalToParaStrategy
+      themeMode: 'paraModalConfig.theme.mode',
+      siweConfig: null, // Sign-In With Ethereum moves to the generated useParaSiwe hook
+    },
+  },
+  'walletconnect-to-para': {
+    component: 'walletConnect',
+    replacement: 'ParaProvider',
+    requiredComponents: ['ParaModal'],
+    configMapping: {
+      projectId: null, // a WalletConnect project ID is not a Para API key - replaced by PARA_API_KEY
+      'metadata.name': 'config.appName',
+      'metadata.description': null, // WalletConnect pairing metadata - Para's connector sets its own
+      'metadata.url': null,
+      'metadata.icons': null,
+      showQrModal: null, // the Para modal shows the WalletConnect QR code itself
+    },
+  },
+  'rainbowkit-to-para': {
+    component: 'RainbowKitProvider',
+    replacement: 'ParaProvider',
+    requiredComponents: ['ParaModal'],
+    configMapping: {
+      'appInfo.appName': 'config.appName',
+      'appInfo.learnMoreUrl': null, // remove
+      theme: null, // remove - RainbowKit theme objects don't apply to the Para modal
+      modalSize: null, // remove
+      initialChain: null, // remove
+    },
+  },
+  'connectkit-to-para': {
+    component: 'ConnectKitProvider',
+    replacement: 'ParaProvider',
+    requiredComponents: ['ParaModal'],
+    configMapping: {
+      theme: null, // remove
+      mode: null, // remove
+      customTheme: null, // remove
+      options: null, // remove
+    },
+  },
+  'dynamic-to-para': {
+    component: 'DynamicContextProvider',
+    replacement: 'ParaProvider',
+    requiredComponents: ['ParaModal'],
+    configMapping: {
+      'settings.environmentId': null, // not a Para API key - replaced by PARA_API_KEY
+      // walletConnectors and events/eventsCallbacks are translated by DynamicToParaStrategy
+    },
+  },
+  'thirdweb-to-para': {
+    component: 'ThirdwebProvider',
+    replacement: 'ParaProvider',
+    requiredComponents: ['ParaModal'],
+    configMapping: {
+      client: null, // createThirdwebClient clientId is replaced by PARA_API_KEY
+    },
+  },
+  'web3onboard-to-para': {
+    component: 'Web3OnboardProvider',
+    replacement: 'ParaProvider',
+    requiredComponents: ['ParaModal'],
+    configMapping: {
+      wallets: 'externalWalletConfig.wallets',
+      chains: 'externalWalletConfig.evmConnector.config.chains',
+      'appMetadata.name': 'config.appName',
+    },
+  },
+  'solana-wallet-adapter-to-para': {
+    component: 'ConnectionProvider',
+    replacement: 'ParaProvider',
+    requiredComponents: ['ParaModal'],
+    configMapping: {
+      // Props are read as `<Provider>.<prop>` across the nested adapter providers
+      'ConnectionProvider.endpoint': 'externalWalletConfig.solanaConnector.config.endpoint',
+      // WalletProvider.wallets is translated by SolanaWalletAdapterToParaStrategy from the
+      // adapter packages the provider file imports
+      'WalletProvider.autoConnect': null, // remove - Para reconnects the last session itself
     },
   },
 } as const;
@@ -171,22 +381,15 @@ export class MigrationEngine {
   private state: ProjectState | null = null;
   private plan: MigrationPlan | null = null;
   private rollbackPlan: RollbackOperation[] = [];
+  private snapshot: FileSnapshot | null = null;
+  private scanner = new ProjectScanner();
+  private validator = new AtomicValidator();
 
   /**
    * Phase 1: Scan and analyze current project state
    */
-  async scanProjectState(_projectPath: string): Promise<ProjectState> {
-    const state: ProjectState = {
-      dependencies: {},
-      imports: [],
-      providers: [],
-      hooks: [],
-      styles: [],
-      entryPoints: [],
-    };
-
-    // Implementation would scan files using fs module
-    // Currently returns empty state for interface compliance
+  async scanProjectState(projectPath: string): Promise<ProjectState> {
+    const state = await this.scanner.scan(projectPath);
 
     this.state = state;
     return state;
@@ -194,32 +397,119 @@ export class MigrationEngine {
 
   /**
    * Phase 2: Create atomic replacement plan
+   * Several strategies are merged in the given order - earlier ones win conflicting edits
+   * Targets the Para SDK line the project already declares unless one is given
    */
-  async createReplacementPlan(strategy: MigrationStrategy): Promise<MigrationPlan> {
+  async createReplacementPlan(
+    strategy: MigrationStrategy | MigrationStrategy[],
+    options: PlanOptions = {}
+  ): Promise<MigrationPlan> {
     if (!this.state) {
       throw new Error('Must scan project state first');
     }
 
+    const strategies = [...new Set(Array.isArray(strategy) ? strategy : [strategy])];
+    if (strategies.length === 0) {
+      throw new Error('At least one migration strategy is required');
+    }
+
+    const sdk = options.targetSdkVersion
+      ? getParaSdkManifest(options.targetSdkVersion)
+      : (getInstalledParaSdkManifest(this.state.dependencies) ?? getParaSdkManifest());
+
+    const batches: StrategyOperations[] = [];
+    const manualReview: ValidationIssue[] = [];
+    const conflicts: ValidationIssue[] = [];
+    for (const name of strategies) {
+      const replacementStrategy = StrategyFactory.createStrategy(name, sdk);
+      if (!(await replacementStrategy.validate(this.state))) {
+        throw new Error(`Project at ${this.state.projectPath} does not use ${name} providers`);
+      }
+
+      // Generate replacement operations based on strategy
+      batches.push({ strategy: name, operations: await replacementStrategy.execute(this.state) });
+      manualReview.push(...(replacementStrategy.getReviewIssues?.() ?? []));
+      conflicts.push(...(replacementStrategy.getConflicts?.() ?? []));
+    }
+
+    const merger = new OperationMerger();
+    const merged = merger.merge(batches, this.state.hooks, await this.readSources(batches));
+    const operations = this.addSdkDependencies(
+      this.keepImportedPackages(
+        this.withoutCoveredCssImports(
+          merger.mergeImportStatements(merged.operations, this.state.imports),
+          sdk
+        ),
+        manualReview
+      ),
+      sdk
+    );
     const plan: MigrationPlan = {
-      strategy,
-      replacements: [],
+      strategy: strategies[0],
+      strategies,
+      replacements: this.pinDependencyVersions(
+        this.state.packages ? this.targetWorkspacePackages(operations, this.state) : operations,
+        sdk
+      ),
+      conflicts: [...merged.conflicts, ...conflicts],
+      manualReview,
       validations: [],
       rollbackPlan: [],
       estimatedTime: 0,
+      installCommand: this.getPackageManager().installCommand(),
     };
 
-    // Generate replacement operations based on strategy
-    plan.replacements = await this.generateReplacements(strategy);
-
     // Generate validation checks
-    plan.validations = await this.generateValidations(strategy);
+    plan.validations = await this.generateValidations(strategies);
 
     // Generate rollback plan
     plan.rollbackPlan = await this.generateRollbackPlan(plan.replacements);
+    this.rollbackPlan = plan.rollbackPlan;
 
     // Estimate time based on operations
     plan.estimatedTime = this.estimateTime(plan.replacements);
 
+    // Persist so a later call can apply exactly this reviewed plan
+    plan.id = await new PlanStore(this.state.projectPath).save(
+      plan,
+      plan.rollbackPlan.map((rollbackOp) => rollbackOp.file)
+    );
+
+    this.plan = plan;
+    return plan;
+  }
+
+  /**
+   * Load a previously saved plan, refusing it if the project changed since it was made
+   */
+  async loadPlan(projectPath: string, planId: string): Promise<MigrationPlan> {
+    const store = new PlanStore(projectPath);
+    const stored = await store.load(planId);
+
+    const changedFiles = await store.findChangedFiles(stored);
+    if (changedFiles.length > 0) {
+      throw new Error(
+        `Migration plan ${planId} is stale - files changed since it was created: ${changedFiles.join(', ')}`
+      );
+    }
+
+    this.state = await this.scanner.scan(projectPath);
+
+    const strategies = stored.strategies ?? [stored.strategy]; // plans saved before combined migrations
+    const plan: MigrationPlan = {
+      id: stored.planId,
+      strategy: stored.strategy,
+      strategies,
+      replacements: stored.replacements,
+      conflicts: stored.conflicts ?? [],
+      manualReview: stored.manualReview ?? [],
+      validations: await this.generateValidations(strategies),
+      rollbackPlan: await this.generateRollbackPlan(stored.replacements),
+      estimatedTime: stored.estimatedTime,
+      installCommand: this.getPackageManager().installCommand(),
+    };
+
+    this.rollbackPlan = plan.rollbackPlan;
     this.plan = plan;
     return plan;
   }
@@ -227,7 +517,7 @@ export class MigrationEngine {
   /**
    * Phase 3: Execute atomic migration
    */
-  async executeAtomicMigration(): Promise<MigrationResult> {
+  async executeAtomicMigration(options: MigrationOptions = {}): Promise<MigrationResult> {
     if (!this.plan) {
       throw new Error('Must create replacement plan first');
     }
@@ -239,10 +529,37 @@ export class MigrationEngine {
       failedOperations: [],
       validationResults: [],
       rollbackExecuted: false,
+      restoredFiles: [],
       duration: 0,
       issues: [],
+      lockfileUpdated: false,
     };
 
+    // A snapshot left by an earlier run must never be restored over this one
+    this.snapshot = null;
+
+    // A critical edit dropped while merging strategies, or a setup a strategy cannot migrate,
+    // would leave the project half-migrated
+    const blocking = this.plan.conflicts.filter((c) => c.severity === 'critical');
+    const changesDependencies = this.plan.replacements.some((op) => op.type === 'dependency');
+    if (
+      changesDependencies &&
+      options.updateLockfile &&
+      !this.getPackageManager().canUpdateLockfileOffline()
+    ) {
+      blocking.push({
+        severity: 'critical',
+        code: 'LOCKFILE_UPDATE_UNSUPPORTED',
+        message: `${this.getPackageManager().name} has no offline lockfile-only install - updating the lockfile would reach the registry`,
+        fix: `Run without updateLockfile, then run: ${this.plan.installCommand}`,
+      });
+    }
+    if (blocking.length > 0) {
+      result.issues.push(...blocking);
+      result.duration = Date.now() - startTime;
+      return result;
+    }
+
     try {
       // Pre-flight validation
       const preValidation = await this.runValidations('pre');
@@ -253,13 +570,19 @@ export class MigrationEngine {
         throw new Error('Pre-flight validation failed');
       }
 
+      // Snapshot every file the plan touches before the first write
+      this.snapshot = new FileSnapshot(this.state!.projectPath);
+      await this.snapshot.capture(this.rollbackPlan.map((rollbackOp) => rollbackOp.file));
+
       // Execute all replacement operations atomically
+      const executor = new OperationExecutor(this.state!.projectPath);
       for (const operation of this.plan.replacements) {
         try {
-          await this.executeOperation(operation);
+          await executor.execute(operation);
           result.completedOperations.push(operation.id);
         } catch (error) {
           result.failedOperations.push(operation.id);
+          result.issues.push(this.toOperationIssue(operation, error));
 
           if (operation.critical) {
             throw new Error(`Critical operation failed: ${operation.id}`);
@@ -267,6 +590,23 @@ export class MigrationEngine {
         }
       }
 
+      if (changesDependencies && options.updateLockfile) {
+        try {
+          await this.getPackageManager().updateLockfile(this.state!.projectPath);
+          result.lockfileUpdated = true;
+        } catch (error) {
+          result.issues.push({
+            severity: 'critical',
+            code: 'LOCKFILE_UPDATE_FAILED',
+            message: `${this.getPackageManager().name} could not update the lockfile offline: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+            fix: `Run without updateLockfile, then run: ${this.plan.installCommand}`,
+          });
+          throw new Error('Lockfile update failed');
+        }
+      }
+
       // Post-migration validation
       const postValidation = await this.runValidations('post');
       result.validationResults.push(postValidation);
@@ -277,18 +617,23 @@ export class MigrationEngine {
       }
 
       result.success = true;
+      if (changesDependencies) {
+        result.installCommand = this.plan.installCommand;
+      }
     } catch (error) {
-      // Execute rollback on failure
-      try {
-        await this.executeRollback();
-        result.rollbackExecuted = true;
-      } catch (rollbackError) {
-        result.issues.push({
-          severity: 'critical',
-          code: 'ROLLBACK_FAILED',
-          message: `Rollback failed: ${rollbackError}`,
-          fix: 'Manual intervention required',
-        });
+      // Execute rollback on failure - nothing was written before this run's snapshot
+      if (this.snapshot) {
+        try {
+          result.restoredFiles = await this.executeRollback();
+          result.rollbackExecuted = true;
+        } catch (rollbackError) {
+          result.issues.push({
+            severity: 'critical',
+            code: 'ROLLBACK_FAILED',
+            message: `Rollback failed: ${rollbackError}`,
+            fix: 'Manual intervention required',
+          });
+        }
       }
     }
 
@@ -300,6 +645,8 @@ export class MigrationEngine {
    * Phase 4: Validate migration completion
    */
   async validateCompletion(): Promise<ValidationResult> {
+    await this.refreshState();
+
     const result: ValidationResult = {
       valid: true,
       issues: [],
@@ -313,6 +660,7 @@ export class MigrationEngine {
       this.checkEnvironmentEnumUsage(),
       this.checkNoOldDependencies(),
       this.checkNoOldImports(),
+      this.checkParaSdkVersion(),
     ];
 
     for (const check of criticalChecks) {
@@ -328,34 +676,13 @@ export class MigrationEngine {
   }
 
   // Private helper methods
-  private async generateReplacements(strategy: MigrationStrategy): Promise<ReplacementOperation[]> {
-    const operations: ReplacementOperation[] = [];
-
-    // Generate dependency replacements
-    operations.push(...(await this.generateDependencyReplacements(strategy)));
-
-    // Generate import replacements
-    operations.push(...(await this.generateImportReplacements(strategy)));
-
-    // Generate provider replacements
-    operations.push(...(await this.generateProviderReplacements(strategy)));
-
-    // Generate hook replacements
-    operations.push(...(await this.generateHookReplacements(strategy)));
-
-    // Generate style additions
-    operations.push(...(await this.generateStyleOperations()));
-
-    return operations;
-  }
-
-  private async generateValidations(strategy: MigrationStrategy): Promise<ValidationCheck[]> {
+  private async generateValidations(strategies: MigrationStrategy[]): Promise<ValidationCheck[]> {
     return [
       {
         id: 'pre-dependencies',
         type: 'pre',
         description: 'Check old dependencies are present',
-        validator: () => this.validateOldDependenciesPresent(strategy),
+        validator: () => this.validateOldDependenciesPresent(strategies),
       },
       {
         id: 'post-para-modal',
@@ -372,8 +699,14 @@ export class MigrationEngine {
       {
         id: 'post-no-old-deps',
         type: 'post',
-        description: 'Check old dependencies are removed',
-        validator: () => this.checkNoOldDependencies(),
+        description: 'Check old dependencies are removed, except ones code still imports',
+        validator: () => this.checkNoOldDependencies(true),
+      },
+      {
+        id: 'post-sdk-version',
+        type: 'post',
+        description: 'Check Para code matches the installed SDK version',
+        validator: () => this.checkParaSdkVersion(),
       },
     ];
   }
@@ -381,17 +714,202 @@ export class MigrationEngine {
   private async generateRollbackPlan(
     operations: ReplacementOperation[]
   ): Promise<RollbackOperation[]> {
-    // Create inverse operations for rollback
-    return operations.map((op) => ({
-      operationId: op.id,
-      action: async () => {
-        // Implementation would restore original values based on operation type
-        // eslint-disable-next-line no-console
-        console.log(`Rolling back operation ${op.id}`);
-      },
+    // One restore per touched file, plus package.json and every lockfile
+    const owners = new Map<string, string>();
+    for (const op of operations) {
+      if (op.type !== 'dependency' && !op.file) continue;
+
+      const file = OperationExecutor.getTargetFile(op);
+      if (!owners.has(file)) owners.set(file, op.id);
+    }
+
+    for (const file of ['package.json', ...LOCKFILES]) {
+      if (!owners.has(file)) owners.set(file, 'snapshot');
+    }
+
+    return [...owners].map(([file, operationId]) => ({
+      operationId,
+      file,
+      action: async () => (this.snapshot ? this.snapshot.restore(file) : false),
     }));
   }
 
+  /**
+   * Point dependency operations at the workspace package.json files they belong to
+   * Removals go to every package that declares the dependency; additions go to those packages
+   * and to the packages whose source files the plan rewrites, falling back to the root
+   */
+  private targetWorkspacePackages(
+    operations: ReplacementOperation[],
+    state: ProjectState
+  ): ReplacementOperation[] {
+    const packages = state.packages!;
+    const manifest = (pkg: WorkspacePackage) => path.posix.join(pkg.path, 'package.json');
+    const declaring = (dep: string) => packages.filter((pkg) => dep in pkg.dependencies);
+
+    const touched = new Set<WorkspacePackage>();
+    for (const op of operations) {
+      if (op.type === 'dependency' && op.oldValue && !op.file) {
+        declaring(op.oldValue).forEach((pkg) => touched.add(pkg));
+      } else if (op.type !== 'dependency' && op.file) {
+        const owner = ProjectScanner.getOwningPackage(state, op.file);
+        if (owner) touched.add(owner);
+      }
+    }
+
+    return operations.flatMap((op) => {
+      if (op.type !== 'dependency' || op.file) return [op];
+
+      const targets = op.oldValue
+        ? declaring(op.oldValue)
+        : packages.filter((pkg) => touched.has(pkg));
+      if (targets.length === 0) return [{ ...op, file: 'package.json' }];
+
+      return targets.map((pkg) => ({
+        ...op,
+        id: targets.length > 1 ? `${op.id}-${pkg.path || 'root'}` : op.id,
+        file: manifest(pkg),
+      }));
+    });
+  }
+
+  /**
+   * Add known-compatible versions to the packages the plan installs
+   */
+  private pinDependencyVersions(
+    operations: ReplacementOperation[],
+    sdk: ParaSdkManifest
+  ): ReplacementOperation[] {
+    return operations.map((op) =>
+      op.type === 'dependency' && op.newValue
+        ? { ...op, newValue: PackageManager.pin(op.newValue, sdk) }
+        : op
+    );
+  }
+
+  /**
+   * Current content of the source files the strategies edit
+   */
+  private async readSources(batches: StrategyOperations[]): Promise<Map<string, string>> {
+    const files = new Set(
+      batches.flatMap(({ operations }) =>
+        operations
+          .filter((op) => op.type !== 'dependency' && op.type !== 'file' && op.file)
+          .map((op) => op.file!)
+      )
+    );
+    const sources = new Map<string, string>();
+
+    for (const file of files) {
+      const content = await fs
+        .readFile(path.join(this.state!.projectPath, file), 'utf-8')
+        .catch(() => null);
+      if (content !== null) sources.set(file, content);
+    }
+    return sources;
+  }
+
+  /**
+   * Drop the removal of a package that migrated code still imports - hooks and helpers the
+   * strategies could not convert stay on their original import, which must keep resolving
+   */
+  private keepImportedPackages(
+    operations: ReplacementOperation[],
+    reviews: ValidationIssue[]
+  ): ReplacementOperation[] {
+    const rewritten = new Map(
+      operations
+        .filter((op) => op.type === 'import' && op.file)
+        .map((op) => [`${op.file}:${op.line}:${op.oldValue}`, op.newValue])
+    );
+    const kept = new Set<string>();
+
+    for (const op of operations) {
+      if (op.type !== 'dependency' || !op.oldValue || op.newValue) continue;
+
+      const specifier = new RegExp(
+        `(['"])${op.oldValue.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(/[^'"]*)?\\1`
+      );
+      const remaining = this.state!.imports.filter((i) => {
+        if (i.from !== op.oldValue && !i.from.startsWith(`${op.oldValue}/`)) return false;
+        const newValue = rewritten.get(`${i.file}:${i.line}:${i.import}`);
+        return newValue === undefined || specifier.test(newValue);
+      });
+      if (remaining.length === 0) continue;
+
+      kept.add(op.id);
+      reviews.push({
+        severity: 'warning',
+        code: 'OLD_PACKAGE_KEPT',
+        message: `${op.oldValue} stays installed - still imported by ${[...new Set(remaining.map((i) => i.file))].join(', ')}`,
+        file: remaining[0].file,
+        line: remaining[0].line,
+        fix: `Move the remaining ${op.oldValue} imports onto Para, then remove the package`,
+      });
+    }
+
+    return operations.filter((op) => !kept.has(op.id));
+  }
+
+  /**
+   * Install the rest of the SDK line's packages and its peer dependencies next to the Para
+   * package the plan adds - generated code imports from them, e.g. Environment on 1.x
+   */
+  /**
+   * An entry point needs no inserted Para CSS import when a stylesheet swap in the same plan
+   * already imports it for the app - in a workspace, for the package owning the entry point
+   */
+  private withoutCoveredCssImports(
+    operations: ReplacementOperation[],
+    sdk: ParaSdkManifest
+  ): ReplacementOperation[] {
+    const owner = (file: string) =>
+      this.state!.packages ? ProjectScanner.getOwningPackage(this.state!, file) : null;
+    const swapped = operations.filter(
+      (op) => op.type === 'style' && op.oldValue && op.newValue.includes(sdk.css)
+    );
+
+    return operations.filter(
+      (op) =>
+        !(
+          op.type === 'style' &&
+          !op.oldValue &&
+          op.newValue.includes(sdk.css) &&
+          swapped.some((swap) => owner(swap.file!) === owner(op.file!))
+        )
+    );
+  }
+
+  private addSdkDependencies(
+    operations: ReplacementOperation[],
+    sdk: ParaSdkManifest
+  ): ReplacementOperation[] {
+    const added = operations
+      .filter((op) => op.type === 'dependency' && !op.oldValue)
+      .map((op) => op.newValue);
+    if (!added.includes(sdk.packages.react)) return operations;
+
+    const missing = [...sdk.dependencies, ...sdk.peerDependencies].filter(
+      (dep) => !(dep in this.state!.dependencies) && !added.includes(dep)
+    );
+    return [
+      ...operations,
+      ...missing.map(
+        (dep): ReplacementOperation => ({
+          id: `add-${dep}`,
+          type: 'dependency',
+          oldValue: '',
+          newValue: dep,
+          critical: true,
+        })
+      ),
+    ];
+  }
+
+  private getPackageManager(): PackageManager {
+    return new PackageManager(this.state?.packageManager ?? 'npm');
+  }
+
   private estimateTime(operations: ReplacementOperation[]): number {
     // Estimate based on operation complexity
     const base = 30; // 30 seconds base
@@ -399,25 +917,22 @@ export class MigrationEngine {
     return base + operations.length * perOperation;
   }
 
-  private async executeOperation(operation: ReplacementOperation): Promise<void> {
-    // Implementation would depend on operation type
-    switch (operation.type) {
-      case 'dependency':
-        await this.executeDependencyOperation(operation);
-        break;
-      case 'import':
-        await this.executeImportOperation(operation);
-        break;
-      case 'provider':
-        await this.executeProviderOperation(operation);
-        break;
-      case 'hook':
-        await this.executeHookOperation(operation);
-        break;
-      case 'style':
-        await this.executeStyleOperation(operation);
-        break;
-    }
+  private toOperationIssue(operation: ReplacementOperation, error: unknown): ValidationIssue {
+    const issue: ValidationIssue =
+      error instanceof OperationError
+        ? error.issue
+        : {
+            severity: 'critical',
+            code: 'OPERATION_FAILED',
+            message: `Operation ${operation.id} failed: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+            file: operation.file,
+            line: operation.line,
+          };
+
+    // Non-critical operations are reported but don't block the migration
+    return { ...issue, severity: operation.critical ? 'critical' : 'warning' };
   }
 
   private async runValidations(type: 'pre' | 'post'): Promise<ValidationResult> {
@@ -425,6 +940,11 @@ export class MigrationEngine {
       throw new Error('No plan available for validation');
     }
 
+    // Post-migration checks must see the files as they are now
+    if (type === 'post') {
+      await this.refreshState();
+    }
+
     const validations = this.plan.validations.filter((v) => v.type === type);
     const result: ValidationResult = {
       valid: true,
@@ -444,111 +964,69 @@ export class MigrationEngine {
     return result;
   }
 
-  private async executeRollback(): Promise<void> {
-    for (const rollbackOp of this.rollbackPlan.reverse()) {
-      await rollbackOp.action();
+  private async executeRollback(): Promise<string[]> {
+    const restoredFiles: string[] = [];
+
+    for (const rollbackOp of [...this.rollbackPlan].reverse()) {
+      if (await rollbackOp.action()) {
+        restoredFiles.push(rollbackOp.file);
+      }
     }
-  }
 
-  // Critical validation methods (based on real-world learnings)
-  private async checkParaModalPresent(): Promise<ValidationResult> {
-    // Check if <ParaModal /> is present in provider files
-    return {
-      valid: true, // Implementation would check for ParaModal component
-      issues: [],
-      warnings: [],
-    };
+    return restoredFiles;
   }
 
-  private async checkCssImportsPresent(): Promise<ValidationResult> {
-    // Check if Para CSS styles are imported
-    return {
-      valid: true, // Implementation would check for ParaModal component
-      issues: [],
-      warnings: [],
-    };
-  }
+  private async refreshState(): Promise<ProjectState> {
+    if (!this.state) {
+      throw new Error('Must scan project state first');
+    }
 
-  private async checkEnvironmentEnumUsage(): Promise<ValidationResult> {
-    // Check if Environment enum is used instead of string
-    return {
-      valid: true, // Implementation would check for ParaModal component
-      issues: [],
-      warnings: [],
-    };
+    this.state = await this.scanner.scan(this.state.projectPath);
+    return this.state;
   }
 
-  private async checkNoOldDependencies(): Promise<ValidationResult> {
-    // Check if old wallet dependencies are removed
-    return {
-      valid: true, // Implementation would check for ParaModal component
-      issues: [],
-      warnings: [],
-    };
-  }
-
-  private async checkNoOldImports(): Promise<ValidationResult> {
-    // Check if old wallet imports are removed
-    return {
-      valid: true, // Implementation would check for ParaModal component
-      issues: [],
-      warnings: [],
-    };
+  // Critical validation methods (based on real-world learnings)
+  private async checkParaModalPresent(): Promise<ValidationResult> {
+    return this.validator.validateParaModalPresent(this.state!);
   }
 
-  // Placeholder methods for operation generation
-  private async generateDependencyReplacements(
-    _strategy: MigrationStrategy
-  ): Promise<ReplacementOperation[]> {
-    return []; // Implementation would generate appropriate replacements
+  private async checkCssImportsPresent(): Promise<ValidationResult> {
+    return this.validator.validateParaCssImports(this.state!);
   }
 
-  private async generateImportReplacements(
-    _strategy: MigrationStrategy
-  ): Promise<ReplacementOperation[]> {
-    return []; // Implementation would generate appropriate replacements
+  private async checkEnvironmentEnumUsage(): Promise<ValidationResult> {
+    return this.validator.validateEnvironmentEnum(this.state!);
   }
 
-  private async generateProviderReplacements(
-    _strategy: MigrationStrategy
-  ): Promise<ReplacementOperation[]> {
-    return []; // Implementation would generate appropriate replacements
+  private async checkNoOldDependencies(allowImported = false): Promise<ValidationResult> {
+    return this.validator.validateOldDependenciesRemoved(this.state!, allowImported);
   }
 
-  private async generateHookReplacements(
-    _strategy: MigrationStrategy
-  ): Promise<ReplacementOperation[]> {
-    return []; // Implementation would generate appropriate replacements
+  private async checkParaSdkVersion(): Promise<ValidationResult> {
+    return this.validator.validateParaSdkVersion(this.state!);
   }
 
-  private async generateStyleOperations(): Promise<ReplacementOperation[]> {
-    return []; // Implementation would generate appropriate replacements
+  private async checkNoOldImports(): Promise<ValidationResult> {
+    return this.validator.validateNoOldImports(this.state!);
   }
 
   private async validateOldDependenciesPresent(
-    _strategy: MigrationStrategy
+    strategies: MigrationStrategy[]
   ): Promise<ValidationResult> {
-    return { valid: true, issues: [], warnings: [] }; // Implementation would validate dependencies
-  }
-
-  // Placeholder execution methods
-  private async executeDependencyOperation(_operation: ReplacementOperation): Promise<void> {
-    // Implementation would execute the specific operation type
-  }
+    const result: ValidationResult = { valid: true, issues: [], warnings: [] };
 
-  private async executeImportOperation(_operation: ReplacementOperation): Promise<void> {
-    // Implementation would execute the specific operation type
-  }
-
-  private async executeProviderOperation(_operation: ReplacementOperation): Promise<void> {
-    // Implementation would execute the specific operation type
-  }
-
-  private async executeHookOperation(_operation: ReplacementOperation): Promise<void> {
-    // Implementation would execute the specific operation type
-  }
+    for (const strategy of strategies) {
+      if (!(await StrategyFactory.createStrategy(strategy).validate(this.state!))) {
+        result.valid = false;
+        result.issues.push({
+          severity: 'critical',
+          code: 'STRATEGY_NOT_APPLICABLE',
+          message: `No ${strategy} dependencies or imports found - nothing to migrate`,
+          fix: 'Re-run analyze_project to detect the right migration strategy',
+        });
+      }
+    }
 
-  private async executeStyleOperation(_operation: ReplacementOperation): Promise<void> {
-    // Implementation would execute the specific operation type
+    return result;
   }
 }
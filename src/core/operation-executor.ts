@@ -0,0 +1,341 @@
+/**
+ * File-level Operation Executor
+ * Applies ReplacementOperations to package.json and source files
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { ReplacementOperation, ValidationIssue } from './migration-engine.js';
+
+const DEPENDENCY_SECTIONS = [
+  'dependencies',
+  'devDependencies',
+  'peerDependencies',
+  'optionalDependencies',
+] as const;
+
+/**
+ * Raised when an operation cannot be applied - carries the issue to report
+ */
+export class OperationError extends Error {
+  constructor(public readonly issue: ValidationIssue) {
+    super(issue.message);
+    this.name = 'OperationError';
+  }
+}
+
+/**
+ * Operation Executor
+ * Every rewrite checks that `oldValue` is still present before touching the file
+ */
+export class OperationExecutor {
+  // Lines each file gained or lost at a line by the edits written so far, in order
+  private shifts = new Map<string, Array<{ line: number; delta: number }>>();
+
+  constructor(private projectPath: string) {}
+
+  /**
+   * Project-relative file an operation writes to
+   */
+  static getTargetFile(operation: ReplacementOperation): string {
+    if (operation.type === 'dependency') {
+      return operation.file ?? 'package.json';
+    }
+
+    if (!operation.file) {
+      throw new OperationError({
+        severity: 'critical',
+        code: 'MISSING_TARGET_FILE',
+        message: `Operation ${operation.id} has no target file`,
+        fix: 'Re-create the migration plan from a fresh project scan',
+      });
+    }
+
+    return operation.file;
+  }
+
+  async execute(operation: ReplacementOperation): Promise<void> {
+    const file = OperationExecutor.getTargetFile(operation);
+    const fullPath = path.join(this.projectPath, file);
+
+    let content: string;
+    try {
+      content = await fs.readFile(fullPath, 'utf-8');
+    } catch (error) {
+      if (operation.type === 'file') {
+        await fs.mkdir(path.dirname(fullPath), { recursive: true });
+        await fs.writeFile(fullPath, operation.newValue);
+        return;
+      }
+
+      throw new OperationError({
+        severity: 'critical',
+        code: 'FILE_NOT_FOUND',
+        message: `Operation ${operation.id}: cannot read ${file}`,
+        file,
+        fix: 'Re-create the migration plan from a fresh project scan',
+      });
+    }
+
+    // Operations record scanned lines - follow them past the lines earlier edits added
+    const updated = this.apply(content, {
+      ...operation,
+      line: this.shiftLine(file, operation.line),
+    });
+    if (updated !== content) {
+      await fs.writeFile(fullPath, updated);
+      this.recordShift(file, content, updated);
+    }
+  }
+
+  private shiftLine(file: string, line?: number): number | undefined {
+    if (line === undefined) return line;
+
+    return (this.shifts.get(file) ?? []).reduce(
+      (current, shift) =>
+        current > shift.line ? Math.max(shift.line, current + shift.delta) : current,
+      line
+    );
+  }
+
+  private recordShift(file: string, content: string, updated: string): void {
+    const before = content.split('\n');
+    const after = updated.split('\n');
+    const delta = after.length - before.length;
+    if (delta === 0) return;
+
+    let index = 0;
+    while (before[index] === after[index]) index++;
+    this.shifts.set(file, [...(this.shifts.get(file) ?? []), { line: index + 1, delta }]);
+  }
+
+  /**
+   * Pure transform: returns the file content after applying the operation
+   */
+  apply(content: string, operation: ReplacementOperation): string {
+    switch (operation.type) {
+      case 'dependency':
+        return this.applyDependencyOperation(content, operation);
+      case 'provider':
+      case 'hook':
+        return this.applySourceReplacement(content, operation);
+      case 'import':
+      case 'style':
+        return operation.oldValue
+          ? this.applySourceReplacement(content, operation)
+          : this.applyInsertion(content, operation);
+      case 'file':
+        return this.applyFileCreation(content, operation);
+    }
+  }
+
+  private applyDependencyOperation(content: string, operation: ReplacementOperation): string {
+    const file = OperationExecutor.getTargetFile(operation);
+
+    let packageJson: Record<string, any>;
+    try {
+      packageJson = JSON.parse(content);
+    } catch (error) {
+      throw new OperationError({
+        severity: 'critical',
+        code: 'INVALID_PACKAGE_JSON',
+        message: `Operation ${operation.id}: ${file} is not valid JSON`,
+        file,
+      });
+    }
+
+    const added = operation.newValue ? this.parsePackageSpec(operation.newValue) : null;
+
+    if (operation.oldValue) {
+      const section = DEPENDENCY_SECTIONS.find(
+        (name) => packageJson[name] && operation.oldValue in packageJson[name]
+      );
+
+      if (!section) {
+        throw new OperationError({
+          severity: 'critical',
+          code: 'DEPENDENCY_NOT_FOUND',
+          message: `Operation ${operation.id}: "${operation.oldValue}" is no longer in ${file}`,
+          file,
+          fix: 'Re-run analyze_project and create a new migration plan',
+        });
+      }
+
+      // Rebuild the section so a swapped package keeps its position
+      const entries = Object.entries(packageJson[section] as Record<string, string>).flatMap(
+        ([name, version]): Array<[string, string]> => {
+          if (name !== operation.oldValue) return [[name, version]];
+          return added ? [[added.name, added.version]] : [];
+        }
+      );
+      packageJson[section] = Object.fromEntries(entries);
+    } else if (added) {
+      const alreadyPresent = DEPENDENCY_SECTIONS.some(
+        (name) => packageJson[name] && added.name in packageJson[name]
+      );
+
+      if (!alreadyPresent) {
+        // Insert before the first name sorting after it - existing entries keep their order
+        const entries = Object.entries((packageJson.dependencies ?? {}) as Record<string, string>);
+        const index = entries.findIndex(([name]) => name.localeCompare(added.name) > 0);
+        entries.splice(index === -1 ? entries.length : index, 0, [added.name, added.version]);
+        packageJson.dependencies = Object.fromEntries(entries);
+      }
+    }
+
+    const indent = content.match(/^[ \t]+(?=")/m)?.[0] ?? '  ';
+    const trailingNewline = content.endsWith('\n') ? '\n' : '';
+    return JSON.stringify(packageJson, null, indent) + trailingNewline;
+  }
+
+  private applySourceReplacement(content: string, operation: ReplacementOperation): string {
+    const file = OperationExecutor.getTargetFile(operation);
+    const index = OperationExecutor.locate(content, operation.oldValue, operation.line);
+
+    if (index === -1) {
+      throw new OperationError({
+        severity: 'critical',
+        code: 'OLD_VALUE_NOT_FOUND',
+        message: `Operation ${operation.id}: expected code not found in ${file}${
+          operation.line ? `:${operation.line}` : ''
+        }`,
+        file,
+        line: operation.line,
+        fix: 'The file changed since the plan was created - re-run analyze_project',
+      });
+    }
+
+    const before = content.slice(0, index);
+    const after = content.slice(index + operation.oldValue.length);
+
+    if (operation.newValue) {
+      return before + operation.newValue + after;
+    }
+
+    // Removing a whole statement - drop the line it leaves empty
+    const lineStart = before.lastIndexOf('\n') + 1;
+    const lineEnd = after.indexOf('\n');
+    const restOfLine = lineEnd === -1 ? after : after.slice(0, lineEnd);
+
+    if (before.slice(lineStart).trim() === '' && restOfLine.trim() === '') {
+      const rest = lineEnd === -1 ? '' : after.slice(lineEnd + 1);
+
+      // A line removed between blank lines, or above one at the top, leaves only one of them
+      const blankAbove = lineStart === 0 || /(^|\n)[ \t]*\n$/.test(content.slice(0, lineStart));
+      return content.slice(0, lineStart) + (blankAbove ? rest.replace(/^[ \t]*\n/, '') : rest);
+    }
+
+    return before + after;
+  }
+
+  /**
+   * Created files are only accepted when they already hold exactly the generated content
+   */
+  private applyFileCreation(content: string, operation: ReplacementOperation): string {
+    if (content === operation.newValue) {
+      return content;
+    }
+
+    const file = OperationExecutor.getTargetFile(operation);
+    throw new OperationError({
+      severity: 'critical',
+      code: 'FILE_EXISTS',
+      message: `Operation ${operation.id}: ${file} already exists`,
+      file,
+      fix: `Move ${file} out of the way or re-create the migration plan`,
+    });
+  }
+
+  /**
+   * Insert a statement after the import block - a side-effect import such as the Para CSS, or
+   * an import followed by module-level setup, which is written as planned
+   */
+  private applyInsertion(content: string, operation: ReplacementOperation): string {
+    const file = OperationExecutor.getTargetFile(operation);
+    const sourceFile = ts.createSourceFile(file, content, ts.ScriptTarget.Latest, true);
+    const anchor = this.findImportAnchor(sourceFile);
+
+    if (operation.newValue.includes('\n')) {
+      if (content.includes(operation.newValue.split('\n')[0])) return content;
+      return anchor
+        ? `${content.slice(0, anchor.end)}\n${operation.newValue}${content.slice(anchor.end)}`
+        : `${operation.newValue}\n\n${content}`;
+    }
+
+    const statement = operation.newValue.trim().replace(/;$/, '');
+
+    // Already imported, with either quotes - nothing to do
+    const swapped = statement.replace(/['"]/g, (q) => (q === "'" ? '"' : "'"));
+    if (content.includes(statement) || content.includes(swapped)) {
+      return content;
+    }
+
+    // Follow the quotes and semicolons of the statement it goes after
+    const usesSemicolons = anchor ? anchor.getText(sourceFile).endsWith(';') : true;
+    const quote =
+      anchor && ts.isImportDeclaration(anchor)
+        ? anchor.moduleSpecifier.getText(sourceFile)[0]
+        : null;
+    const quoted = quote ? statement.replace(/(['"])([^'"]*)\1/, `${quote}$2${quote}`) : statement;
+    const line = usesSemicolons ? `${quoted};` : quoted;
+
+    if (!anchor) {
+      return `${line}\n${content}`;
+    }
+
+    return `${content.slice(0, anchor.end)}\n${line}${content.slice(anchor.end)}`;
+  }
+
+  /**
+   * The last import, or a directive such as 'use client' when the file has no imports
+   */
+  private findImportAnchor(sourceFile: ts.SourceFile): ts.Statement | undefined {
+    let anchor: ts.Statement | undefined;
+    for (const node of sourceFile.statements) {
+      if (ts.isImportDeclaration(node)) {
+        anchor = node;
+      } else if (ts.isExpressionStatement(node) && ts.isStringLiteral(node.expression) && !anchor) {
+        anchor = node;
+      } else {
+        break;
+      }
+    }
+    return anchor;
+  }
+
+  /**
+   * Find the occurrence of `value` closest to the recorded line
+   */
+  static locate(content: string, value: string, line?: number): number {
+    if (!value) return -1;
+
+    let best = -1;
+    let bestDistance = Infinity;
+
+    for (
+      let index = content.indexOf(value);
+      index !== -1;
+      index = content.indexOf(value, index + 1)
+    ) {
+      if (line === undefined) return index;
+
+      const occurrenceLine = content.slice(0, index).split('\n').length;
+      const distance = Math.abs(occurrenceLine - line);
+      if (distance < bestDistance) {
+        best = index;
+        bestDistance = distance;
+      }
+    }
+
+    return best;
+  }
+
+  private parsePackageSpec(spec: string): { name: string; version: string } {
+    const versionIndex = spec.lastIndexOf('@');
+    if (versionIndex > 0) {
+      return { name: spec.slice(0, versionIndex), version: spec.slice(versionIndex + 1) };
+    }
+    return { name: spec, version: 'latest' };
+  }
+}
@@ -0,0 +1,376 @@
+/**
+ * Operation Merger
+ * Combines the operations of several strategies into one plan without conflicting edits
+ */
+
+import {
+  FileImport,
+  HookUsage,
+  MigrationStrategy,
+  ReplacementOperation,
+  ValidationIssue,
+} from './migration-engine.js';
+import { OperationExecutor } from './operation-executor.js';
+import { mergeParaProviders } from './replacement-strategy.js';
+
+export interface StrategyOperations {
+  strategy: MigrationStrategy;
+  operations: ReplacementOperation[];
+}
+
+export interface MergedOperations {
+  operations: ReplacementOperation[];
+  conflicts: ValidationIssue[]; // operations left out because an earlier strategy edits the same code - critical ones block the migration
+}
+
+interface AcceptedOperation {
+  strategy: MigrationStrategy;
+  operation: ReplacementOperation;
+}
+
+export class OperationMerger {
+  /**
+   * Strategies are merged in order and earlier ones win: a later operation is dropped when it
+   * repeats an accepted edit, and reported when it touches code an earlier strategy rewrites.
+   * A ParaProvider nested in an earlier one is folded into it instead, and hook calls repeated
+   * in one component (`hooks` tells the components apart) share the earlier call. Statements
+   * appended after code an earlier strategy rewrites are appended to that rewrite.
+   * Operations of one strategy never conflict with each other - they are planned to run in order.
+   * `sources` holds the scanned content of the files edited, to tell edits on one line apart.
+   */
+  merge(
+    batches: StrategyOperations[],
+    hooks: HookUsage[] = [],
+    sources: Map<string, string> = new Map()
+  ): MergedOperations {
+    const accepted: AcceptedOperation[] = [];
+    const conflicts: ValidationIssue[] = [];
+
+    for (const { strategy, operations } of batches) {
+      const earlier = [...accepted];
+
+      for (const original of operations) {
+        const imported = this.withoutImportedSpecifiers(original, earlier);
+        if (!imported || earlier.some((e) => this.isSameEdit(e.operation, imported))) {
+          continue;
+        }
+        const operation = this.withoutRepeatedHookCalls(imported, earlier, hooks);
+
+        const anchor = this.isAppend(operation)
+          ? earlier.find((e) => this.isSameTarget(e.operation, operation))
+          : undefined;
+        if (anchor && !this.isAppend(anchor.operation)) {
+          const appended = operation.newValue.slice(operation.oldValue.length);
+          anchor.operation = {
+            ...anchor.operation,
+            newValue: anchor.operation.newValue
+              ? anchor.operation.newValue + appended
+              : appended.replace(/^\n/, ''),
+          };
+          continue;
+        }
+
+        const conflict = earlier.find((e) => this.overlaps(e.operation, operation, sources));
+        const merged =
+          conflict?.operation.type === 'provider' && operation.type === 'provider'
+            ? mergeParaProviders(
+                conflict.operation.newValue,
+                operation.oldValue,
+                operation.newValue
+              )
+            : null;
+
+        if (conflict && merged) {
+          conflict.operation = { ...conflict.operation, newValue: merged };
+          continue;
+        }
+        if (conflict) {
+          const file = OperationExecutor.getTargetFile(operation);
+          conflicts.push({
+            severity: operation.critical ? 'critical' : 'warning',
+            code: 'CONFLICTING_OPERATION',
+            message: `Skipped ${operation.id} (${strategy}): ${file}${
+              operation.line ? `:${operation.line}` : ''
+            } is already changed by ${conflict.operation.id} (${conflict.strategy})`,
+            file,
+            line: operation.line,
+            fix: `Port the ${strategy} change by hand once the migration has run`,
+          });
+          continue;
+        }
+
+        // IDs only need to be unique within one strategy - suffix the later duplicate
+        const id = accepted.some((a) => a.operation.id === operation.id)
+          ? `${operation.id}-${strategy}`
+          : operation.id;
+        accepted.push({ strategy, operation: { ...operation, id } });
+      }
+    }
+
+    return { operations: accepted.map((a) => a.operation), conflicts };
+  }
+
+  /**
+   * Fold `const { open } = useModal()` into the same call an earlier strategy already adds to
+   * the component, e.g. Privy's login and Web3Modal's open both becoming Para's useModal()
+   */
+  private withoutRepeatedHookCalls(
+    operation: ReplacementOperation,
+    earlier: AcceptedOperation[],
+    hooks: HookUsage[]
+  ): ReplacementOperation {
+    const scopeOf = (op: ReplacementOperation) =>
+      op.type === 'hook'
+        ? hooks.find((h) => h.file === op.file && h.line === op.line && h.usage === op.oldValue)
+            ?.scope
+        : undefined;
+    const scope = scopeOf(operation);
+    if (scope === undefined) return operation;
+
+    const call = /^([ \t]*)const \{ ([^}]*) \} = (use[\w$]*)\(\)(;?)$/;
+    const lines = operation.newValue.split('\n').filter((line) => {
+      const [, , names, hook] = line.match(call) ?? [];
+      const target = earlier.find(
+        (e) =>
+          e.operation.file === operation.file &&
+          scopeOf(e.operation) === scope &&
+          e.operation.newValue.split('\n').some((l) => l.match(call)?.[3] === hook)
+      );
+      if (!hook || !target) return true;
+
+      target.operation = {
+        ...target.operation,
+        newValue: target.operation.newValue
+          .split('\n')
+          .map((l) => {
+            const match = l.match(call);
+            if (match?.[3] !== hook) return l;
+            const combined = [...new Set([...match[2].split(', '), ...names.split(', ')])];
+            return `${match[1]}const { ${combined.join(', ')} } = ${hook}()${match[4]}`;
+          })
+          .join('\n'),
+      };
+      return false;
+    });
+
+    const newValue = lines.join('\n').trimStart();
+    return newValue === operation.newValue ? operation : { ...operation, newValue };
+  }
+
+  private isSameEdit(a: ReplacementOperation, b: ReplacementOperation): boolean {
+    return (
+      a.type === b.type &&
+      OperationExecutor.getTargetFile(a) === OperationExecutor.getTargetFile(b) &&
+      a.oldValue === b.oldValue &&
+      a.newValue === b.newValue
+    );
+  }
+
+  /**
+   * An edit that keeps the code it targets and only adds after it, e.g. an import added after
+   * the last import of a file
+   */
+  private isAppend(operation: ReplacementOperation): boolean {
+    return (
+      operation.type === 'import' &&
+      operation.oldValue !== '' &&
+      operation.newValue.startsWith(`${operation.oldValue}\n`)
+    );
+  }
+
+  private isSameTarget(a: ReplacementOperation, b: ReplacementOperation): boolean {
+    return (
+      a.type !== 'dependency' &&
+      a.type !== 'file' &&
+      a.file === b.file &&
+      a.line === b.line &&
+      a.oldValue === b.oldValue
+    );
+  }
+
+  private overlaps(
+    a: ReplacementOperation,
+    b: ReplacementOperation,
+    sources: Map<string, string>
+  ): boolean {
+    if (OperationExecutor.getTargetFile(a) !== OperationExecutor.getTargetFile(b)) {
+      return false;
+    }
+
+    if (a.type === 'dependency' || b.type === 'dependency') {
+      return a.type === b.type && this.getPackageName(a) === this.getPackageName(b);
+    }
+
+    if (a.type === 'file' || b.type === 'file') {
+      return a.type === b.type;
+    }
+
+    if (a.line === undefined || b.line === undefined) {
+      return false; // insertions after the import block don't touch existing code
+    }
+
+    // Edits on one line only conflict when the code they replace intersects
+    const source = sources.get(a.file!);
+    const spans = source !== undefined ? [a, b].map((op) => this.getSpan(source, op)) : [];
+    if (spans.length === 2 && spans.every(Boolean)) {
+      const [[aStart, aEnd], [bStart, bEnd]] = spans as Array<[number, number]>;
+      return aStart < bEnd && bStart < aEnd;
+    }
+
+    const lastLine = (op: ReplacementOperation) => op.line! + op.oldValue.split('\n').length - 1;
+    return a.line <= lastLine(b) && b.line <= lastLine(a);
+  }
+
+  /**
+   * Character range an edit replaces in the scanned file - empty after the code it appends to
+   */
+  private getSpan(source: string, operation: ReplacementOperation): [number, number] | null {
+    const start = OperationExecutor.locate(source, operation.oldValue, operation.line);
+    if (start === -1) return null;
+
+    const end = start + operation.oldValue.length;
+    return this.isAppend(operation) ? [end, end] : [start, end];
+  }
+
+  private getPackageName(operation: ReplacementOperation): string {
+    return (operation.oldValue || operation.newValue).replace(/(?!^)@.*$/, '');
+  }
+
+  /**
+   * Drop named imports an earlier strategy already adds to the same file, e.g. both Privy
+   * and Web3Modal importing ParaProvider. Returns null when nothing is left to change.
+   */
+  private withoutImportedSpecifiers(
+    operation: ReplacementOperation,
+    earlier: AcceptedOperation[]
+  ): ReplacementOperation | null {
+    if (operation.type !== 'import' || earlier.length === 0) return operation;
+
+    const imported = new Set(
+      earlier
+        .filter((e) => e.operation.type === 'import' && e.operation.file === operation.file)
+        .flatMap((e) => this.getImportLines(e.operation.newValue))
+        .flatMap(({ from, specifiers }) => specifiers.map((specifier) => `${from}:${specifier}`))
+    );
+
+    const lines = operation.newValue.split('\n').flatMap((line) => {
+      const [parsed] = this.getImportLines(line);
+      if (!parsed) return [line];
+
+      const specifiers = parsed.specifiers.filter((s) => !imported.has(`${parsed.from}:${s}`));
+      if (specifiers.length === 0) return [];
+      return [line.replace(/\{[^}]*\}/, `{ ${specifiers.join(', ')} }`)];
+    });
+
+    const newValue = lines.join('\n');
+    if (newValue === operation.newValue) return operation;
+    if (newValue === operation.oldValue) return null;
+    return { ...operation, newValue };
+  }
+
+  /**
+   * One named import per module in each file: a statement the plan adds for a module the file
+   * already imports from - in a line it keeps or in another planned statement - is folded into
+   * that import. `imports` are the scanned imports of the project.
+   */
+  mergeImportStatements(
+    operations: ReplacementOperation[],
+    imports: FileImport[]
+  ): ReplacementOperation[] {
+    const merged = operations.map((operation) => ({ ...operation }));
+    const files = new Set(
+      merged.filter((op) => op.type === 'import' && op.file).map((op) => op.file!)
+    );
+
+    for (const file of files) {
+      const targets = new Map<
+        string,
+        { statement: string; operation?: ReplacementOperation; kept?: FileImport }
+      >();
+      for (const kept of imports.filter(
+        (i) =>
+          i.file === file &&
+          /^import\s*\{[^}]*\}\s*from\s/.test(i.import) &&
+          !merged.some((op) => op.file === file && op.line === i.line && op.oldValue === i.import)
+      )) {
+        if (!targets.has(kept.from)) targets.set(kept.from, { statement: kept.import, kept });
+      }
+
+      for (const operation of merged.filter((op) => op.type === 'import' && op.file === file)) {
+        for (const line of operation.newValue.split('\n')) {
+          const [parsed] = this.getImportLines(line);
+          if (!parsed) continue;
+
+          const target = targets.get(parsed.from);
+          if (!target) {
+            targets.set(parsed.from, { statement: line, operation });
+            continue;
+          }
+
+          // A kept import is rewritten to take the specifiers
+          if (!target.operation) {
+            target.operation = {
+              id: `merge-import-${file}-${target.kept!.line}`,
+              type: 'import',
+              file,
+              line: target.kept!.line,
+              oldValue: target.kept!.import,
+              newValue: target.kept!.import,
+              critical: true,
+            };
+            merged.push(target.operation);
+          }
+          const statement = this.addSpecifiers(target.statement, parsed.specifiers);
+          target.operation.newValue = target.operation.newValue.replace(
+            target.statement,
+            statement
+          );
+          target.statement = statement;
+
+          const lines = operation.newValue.split('\n');
+          lines.splice(lines.lastIndexOf(line), 1);
+          operation.newValue = operation.oldValue
+            ? lines.join('\n')
+            : lines.join('\n').replace(/^\n+/, '');
+        }
+      }
+    }
+
+    // An insertion whose statements all went into other imports has nothing left to add
+    return merged.filter((op) => op.type !== 'import' || op.oldValue || op.newValue.trim());
+  }
+
+  /**
+   * Add `specifiers` to the braces of a named import, one per line when it lists them so
+   */
+  private addSpecifiers(statement: string, specifiers: string[]): string {
+    return statement.replace(/\{([^}]*)\}/, (braces, body: string) => {
+      const listed = body
+        .split(',')
+        .map((specifier) => specifier.trim())
+        .filter(Boolean);
+      const added = specifiers.filter((specifier) => !listed.includes(specifier));
+      if (added.length === 0) return braces;
+      if (!body.includes('\n')) return `{ ${[...listed, ...added].join(', ')} }`;
+
+      const indent = body.match(/\n([ \t]*)\S/)?.[1] ?? '  ';
+      return `{${added.reduce(
+        (text, specifier) => text.replace(/,?(\s*)$/, `,\n${indent}${specifier}$1`),
+        body
+      )}}`;
+    });
+  }
+
+  private getImportLines(source: string): Array<{ from: string; specifiers: string[] }> {
+    return source.split('\n').flatMap((line) => {
+      const match = line.match(/^import\s*\{([^}]*)\}\s*from\s*(['"])([^'"]+)\2;?\s*$/);
+      if (!match) return [];
+
+      const specifiers = match[1]
+        .split(',')
+        .map((specifier) => specifier.trim())
+        .filter(Boolean);
+      return [{ from: match[3], specifiers }];
+    });
+  }
+}
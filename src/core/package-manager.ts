@@ -0,0 +1,156 @@
+/**
+ * Package Manager
+ * Detects npm, yarn, pnpm or bun from the lockfile and builds the matching commands
+ */
+
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { ParaSdkManifest, getParaSdkManifest } from './para-sdk.js';
+
+const execFileAsync = promisify(execFile);
+
+export type PackageManagerName = 'npm' | 'yarn' | 'pnpm' | 'bun';
+
+// Checked in order - a project that switched managers may still carry the old lockfile
+const LOCKFILE_MANAGERS: Array<[string, PackageManagerName]> = [
+  ['bun.lock', 'bun'],
+  ['bun.lockb', 'bun'],
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['package-lock.json', 'npm'],
+  ['npm-shrinkwrap.json', 'npm'],
+];
+
+const UPDATE_LOCKFILE_TIMEOUT = 120_000; // 2 minutes
+
+export class PackageManager {
+  constructor(readonly name: PackageManagerName) {}
+
+  /**
+   * Lockfile first, then the package.json `packageManager` field, then npm
+   */
+  static async detect(projectPath: string): Promise<PackageManager> {
+    for (const [lockfile, name] of LOCKFILE_MANAGERS) {
+      try {
+        await fs.access(path.join(projectPath, lockfile));
+        return new PackageManager(name);
+      } catch (error) {
+        // Not this manager
+      }
+    }
+
+    try {
+      const packageJson = JSON.parse(
+        await fs.readFile(path.join(projectPath, 'package.json'), 'utf-8')
+      );
+      const name = String(packageJson.packageManager ?? '').split('@')[0];
+      if (LOCKFILE_MANAGERS.some(([, manager]) => manager === name)) {
+        return new PackageManager(name as PackageManagerName);
+      }
+    } catch (error) {
+      // No readable package.json - fall back to npm
+    }
+
+    return new PackageManager('npm');
+  }
+
+  /**
+   * Add the known-compatible version to a bare package name, e.g. `wagmi` -> `wagmi@^2.12.0`
+   */
+  static pin(spec: string, sdk: ParaSdkManifest = getParaSdkManifest()): string {
+    if (spec.lastIndexOf('@') > 0 || !(spec in sdk.versions)) {
+      return spec;
+    }
+    return `${spec}@${sdk.versions[spec]}`;
+  }
+
+  addCommand(packages: string[], sdk?: ParaSdkManifest): string {
+    const verb = this.name === 'npm' ? 'install' : 'add';
+    return `${this.name} ${verb} ${packages.map((spec) => PackageManager.pin(spec, sdk)).join(' ')}`;
+  }
+
+  removeCommand(packages: string[]): string {
+    const verb = this.name === 'npm' ? 'uninstall' : 'remove';
+    return `${this.name} ${verb} ${packages.join(' ')}`;
+  }
+
+  installCommand(): string {
+    return `${this.name} install`;
+  }
+
+  runCommand(script: string): string {
+    return `${this.name} run ${script}`;
+  }
+
+  /**
+   * Whether the lockfile can be re-resolved from the local cache alone - bun has no offline
+   * switch, so its lockfile-only install would reach the registry
+   */
+  canUpdateLockfileOffline(): boolean {
+    return this.name !== 'bun';
+  }
+
+  /**
+   * Re-resolve the lockfile against the rewritten package.json files
+   * Resolves from the local cache only and skips install scripts
+   */
+  async updateLockfile(projectPath: string): Promise<void> {
+    const modulesFolder = await fs.mkdtemp(path.join(os.tmpdir(), 'para-lockfile-'));
+    try {
+      const [command, ...args] = await this.getLockfileCommand(projectPath, modulesFolder);
+      await execFileAsync(command, args, {
+        cwd: projectPath,
+        timeout: UPDATE_LOCKFILE_TIMEOUT,
+        // Yarn Berry has no --offline flag - turning its network setting off does the same
+        env: { ...process.env, YARN_ENABLE_NETWORK: '0' },
+      });
+    } finally {
+      await fs.rm(modulesFolder, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Yarn classic has no lockfile-only mode, so it installs into the throwaway `modulesFolder`
+   * and leaves the project's node_modules alone
+   */
+  async getLockfileCommand(projectPath: string, modulesFolder: string): Promise<string[]> {
+    switch (this.name) {
+      case 'npm':
+        return ['npm', 'install', '--package-lock-only', '--offline', '--ignore-scripts'];
+      case 'pnpm':
+        return ['pnpm', 'install', '--lockfile-only', '--offline', '--ignore-scripts'];
+      case 'yarn':
+        return (await PackageManager.isYarnBerry(projectPath))
+          ? ['yarn', 'install', '--mode=update-lockfile']
+          : ['yarn', 'install', '--offline', '--ignore-scripts', '--modules-folder', modulesFolder];
+      case 'bun':
+        throw new Error('bun has no offline lockfile-only install');
+    }
+  }
+
+  /**
+   * Yarn 2+ writes `__metadata` into yarn.lock and reads .yarnrc.yml instead of .yarnrc
+   */
+  private static async isYarnBerry(projectPath: string): Promise<boolean> {
+    const lockfile = await fs
+      .readFile(path.join(projectPath, 'yarn.lock'), 'utf-8')
+      .catch(() => '');
+    if (/^__metadata:/m.test(lockfile)) return true;
+
+    try {
+      await fs.access(path.join(projectPath, '.yarnrc.yml'));
+      return true;
+    } catch (error) {
+      // Not configured as Berry
+    }
+
+    const packageJson = await fs
+      .readFile(path.join(projectPath, 'package.json'), 'utf-8')
+      .then((content) => JSON.parse(content))
+      .catch(() => ({}));
+    return /^yarn@(?:[2-9]|\d{2,})\./.test(String(packageJson.packageManager ?? ''));
+  }
+}
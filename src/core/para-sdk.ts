@@ -0,0 +1,271 @@
+/**
+ * Para SDK Manifest
+ * Package names, exports, CSS path and Environment location for each supported SDK line
+ */
+
+export interface ParaSdkManifest {
+  major: number;
+  packages: {
+    react: string; // ParaProvider, ParaModal and the hooks
+    core: string;
+    evmConnectors: string;
+    solanaWeb3: string; // ParaSolanaWeb3Signer for @solana/web3.js v1
+  };
+  dependencies: string[]; // what a Para app installs
+  peerDependencies: string[]; // installed next to packages.react, not pulled in by it
+  versions: Record<string, string>; // known-compatible ranges, including the wagmi/viem peers
+  components: string[]; // exported from packages.react
+  providerWrappers: string[]; // providers ParaProvider must be rendered inside
+  hooks: string[]; // exported from packages.react
+  css: string;
+  environment: { name: string; from: string };
+}
+
+export interface ProviderWrapper {
+  from: string;
+  imports: string[]; // named imports the wrapper and its setup use
+  props: string;
+  setup?: string; // module-level statement the props read
+}
+
+// sdk.providerWrappers entry, or a provider a strategy adds for the hooks it migrates to, ->
+// how a file renders it around ParaProvider
+const PROVIDER_WRAPPERS: Record<string, ProviderWrapper> = {
+  QueryClientProvider: {
+    from: '@tanstack/react-query',
+    imports: ['QueryClient', 'QueryClientProvider'],
+    props: 'client={queryClient}',
+    setup: 'const queryClient = new QueryClient()',
+  },
+  WagmiProvider: {
+    from: 'wagmi',
+    imports: ['WagmiProvider'],
+    props: 'config={wagmiConfig}', // the generated wagmi config the file imports
+  },
+};
+
+const PARA_SDK_MANIFESTS: Record<number, ParaSdkManifest> = {
+  1: {
+    major: 1,
+    packages: {
+      react: '@getpara/react-sdk',
+      core: '@getpara/core-sdk',
+      evmConnectors: '@getpara/evm-wallet-connectors',
+      solanaWeb3: '@getpara/solana-web3.js-v1-integration',
+    },
+    dependencies: ['@getpara/react-sdk', '@getpara/core-sdk'],
+    peerDependencies: [],
+    versions: {
+      '@getpara/react-sdk': '^1.10.0',
+      '@getpara/core-sdk': '^1.10.0',
+      '@getpara/evm-wallet-connectors': '^1.10.0',
+      '@getpara/solana-web3.js-v1-integration': '^1.10.0',
+      '@tanstack/react-query': '^5.0.0',
+      wagmi: '^2.12.0',
+      viem: '^2.21.0',
+    },
+    components: ['ParaProvider', 'ParaModal'],
+    providerWrappers: [],
+    hooks: [
+      'useAccount',
+      'useClient',
+      'useLogout',
+      'useModal',
+      'useSignMessage',
+      'useSignTransaction',
+      'useWallet',
+    ],
+    css: '@getpara/react-sdk/styles.css',
+    environment: { name: 'Environment', from: '@getpara/core-sdk' },
+  },
+  2: {
+    major: 2,
+    packages: {
+      react: '@getpara/react-sdk',
+      core: '@getpara/core-sdk',
+      evmConnectors: '@getpara/evm-wallet-connectors',
+      solanaWeb3: '@getpara/solana-web3.js-v1-integration',
+    },
+    // v2 re-exports Environment from the React SDK and expects a react-query client
+    dependencies: ['@getpara/react-sdk'],
+    peerDependencies: ['@tanstack/react-query'],
+    versions: {
+      '@getpara/react-sdk': '^2.0.0',
+      '@getpara/core-sdk': '^2.0.0',
+      '@getpara/evm-wallet-connectors': '^2.0.0',
+      '@getpara/solana-web3.js-v1-integration': '^2.0.0',
+      '@tanstack/react-query': '^5.0.0',
+      wagmi: '^2.14.0',
+      viem: '^2.22.0',
+    },
+    components: ['ParaProvider'], // the modal is rendered by ParaProvider itself
+    providerWrappers: ['QueryClientProvider'],
+    hooks: [
+      'useAccount',
+      'useClient',
+      'useLogout',
+      'useModal',
+      'useSignMessage',
+      'useSignTransaction',
+      'useWallet',
+    ],
+    css: '@getpara/react-sdk/styles.css',
+    environment: { name: 'Environment', from: '@getpara/react-sdk' },
+  },
+};
+
+export const DEFAULT_PARA_SDK_MAJOR = 1;
+
+export const SUPPORTED_PARA_SDK_MAJORS = Object.keys(PARA_SDK_MANIFESTS).map(Number);
+
+/**
+ * Manifest for a major version, or for a version range such as `^2.1.0` or `2.x`
+ * No version (or `latest`) selects the default SDK line
+ */
+export function getParaSdkManifest(version?: number | string): ParaSdkManifest {
+  if (version === undefined || version === 'latest') {
+    return PARA_SDK_MANIFESTS[DEFAULT_PARA_SDK_MAJOR];
+  }
+
+  const major = typeof version === 'number' ? version : Number(version.match(/\d+/)?.[0]);
+  const manifest = PARA_SDK_MANIFESTS[major];
+  if (!manifest) {
+    throw new Error(
+      `Unsupported Para SDK version ${version} - supported: ${SUPPORTED_PARA_SDK_MAJORS.map(
+        (m) => `${m}.x`
+      ).join(', ')}`
+    );
+  }
+
+  return manifest;
+}
+
+/**
+ * Manifest for the Para SDK a project declares, null when it has none or an unsupported one
+ */
+export function getInstalledParaSdkManifest(
+  dependencies: Record<string, string>
+): ParaSdkManifest | null {
+  const version = dependencies[getParaSdkManifest().packages.react];
+  if (!version) return null;
+
+  try {
+    return getParaSdkManifest(/\d/.test(version) ? version : undefined);
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * ParaProvider around `children`, keeping their indentation - the one template generated
+ * providers and migrated ones share. `config` is an object literal of ParaProvider's props,
+ * e.g. `{ paraClientConfig: { apiKey, env }, externalWalletConfig: { ... } }`, and each of its
+ * keys is rendered as a prop of its own. SDK lines that export ParaModal get it rendered inside
+ * the provider; `wrappers` are rendered around it, outermost first.
+ */
+export function renderParaProvider(
+  sdk: ParaSdkManifest,
+  config: string,
+  children: string,
+  column = '',
+  wrappers: string[] = []
+): string {
+  // Children written inline move onto their own lines, one level inside the provider
+  const block = /\n[ \t]*$/.test(children)
+    ? children
+    : `\n${children.trim() ? `${column}  ${children.trim()}\n` : ''}${column}`;
+  const indent = block.match(/\n([ \t]*)$/)![1];
+  const inner = `${indent}  `;
+  const props = config.startsWith('{\n')
+    ? configToProps(
+        config
+          .split('\n')
+          .map((line, index) => (index === 0 ? line : indent + line))
+          .join('\n'),
+        indent
+      )
+    : `${inner}{...${config}}`;
+
+  const modal = sdk.components.includes('ParaModal')
+    ? `
+${inner}{/* ⚠️ CRITICAL: ParaModal is REQUIRED - #1 missing piece in failed migrations */}
+${inner}<ParaModal />`
+    : '';
+
+  const provider = `<ParaProvider
+${props}
+${indent}>${block.trimEnd()}${modal}
+${indent}</ParaProvider>`;
+
+  return [...wrappers].reverse().reduce(
+    (element, name) => `<${name} ${PROVIDER_WRAPPERS[name].props}>
+${inner}${element.replace(/\n(?=[^\n])/g, '\n  ')}
+${indent}</${name}>`,
+    provider
+  );
+}
+
+/**
+ * The top-level entries of an object literal or JSX props written one per line at `column`,
+ * each with its continuation lines - comment lines are entries of their own
+ */
+function getTopLevelEntries(lines: string[], column: string): string[] {
+  return lines.reduce<string[]>((entries, line) => {
+    const start = line.startsWith(column) && /^[^\s}\])]/.test(line.slice(column.length));
+    if (start || entries.length === 0) return [...entries, line];
+    entries[entries.length - 1] += `\n${line}`;
+    return entries;
+  }, []);
+}
+
+/**
+ * JSX props for a config object literal whose closing brace is at `indent` - `key: value,`
+ * becomes `key={value}` in place, keeping line comments
+ */
+export function configToProps(config: string, indent = ''): string {
+  return getTopLevelEntries(config.split('\n').slice(1, -1), `${indent}  `)
+    .map((entry) =>
+      entry
+        .replace(/^([ \t]*)([\w$]+): ([\s\S]*),((?: \/\/[^\n]*)?)$/, '$1$2={$3}$4')
+        .replace(/^([ \t]*)([\w$]+),((?: \/\/[^\n]*)?)$/, '$1$2={$2}$3')
+    )
+    .join('\n');
+}
+
+/**
+ * The config object literal for JSX props written one per line at `indent` plus two spaces,
+ * closing at `indent` - the reverse of configToProps
+ */
+export function propsToConfig(props: string, indent = ''): string {
+  const entries = getTopLevelEntries(props.split('\n'), `${indent}  `).map((entry) =>
+    entry.replace(/^([ \t]*)([\w$]+)=\{([\s\S]*)\}((?: \/\/[^\n]*)?)$/, '$1$2: $3,$4')
+  );
+  return `{\n${entries.join('\n')}\n${indent}}`;
+}
+
+/**
+ * Import statements and module-level setup for the `wrappers` renderParaProvider adds
+ * Names `bound` reports the file already has are neither imported nor declared again
+ */
+export function renderProviderWrapperSetup(
+  wrappers: string[],
+  quote = "'",
+  semicolon = '',
+  bound: (name: string) => boolean = () => false
+): { imports: string[]; setup: string[] } {
+  return {
+    imports: wrappers.flatMap((name) => {
+      const names = PROVIDER_WRAPPERS[name].imports.filter((imported) => !bound(imported));
+      return names.length > 0
+        ? [
+            `import { ${names.join(', ')} } from ${quote}${PROVIDER_WRAPPERS[name].from}${quote}${semicolon}`,
+          ]
+        : [];
+    }),
+    setup: wrappers.flatMap((name) => {
+      const { setup } = PROVIDER_WRAPPERS[name];
+      const declared = setup?.match(/^(?:const|let)\s+([\w$]+)/)?.[1];
+      return setup && !(declared && bound(declared)) ? [`${setup}${semicolon}`] : [];
+    }),
+  };
+}
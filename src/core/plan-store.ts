@@ -0,0 +1,113 @@
+/**
+ * Migration Plan Store
+ * Persists reviewed plans under content-hashed IDs in the target project
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  MigrationPlan,
+  MigrationStrategy,
+  ReplacementOperation,
+  ValidationIssue,
+} from './migration-engine.js';
+
+export const PLAN_DIRECTORY = '.para-migration';
+
+export interface StoredPlan {
+  planId: string;
+  strategy: MigrationStrategy;
+  strategies?: MigrationStrategy[]; // missing from plans saved before combined migrations
+  createdAt: string;
+  replacements: ReplacementOperation[];
+  conflicts?: ValidationIssue[];
+  manualReview?: ValidationIssue[]; // missing from plans saved before hook codemods
+  estimatedTime: number;
+  fileHashes: Record<string, string | null>; // null marks a file that did not exist
+}
+
+export class PlanStore {
+  constructor(private projectPath: string) {}
+
+  /**
+   * Save a plan together with the hashes of every file it touches
+   * The plan ID is derived from the content, so an identical plan maps to the same ID
+   */
+  async save(plan: MigrationPlan, files: string[]): Promise<string> {
+    const fileHashes = await this.hashFiles(files);
+    const planId = createHash('sha256')
+      .update(
+        JSON.stringify({
+          strategies: plan.strategies,
+          replacements: plan.replacements,
+          fileHashes,
+        })
+      )
+      .digest('hex')
+      .slice(0, 16);
+
+    const stored: StoredPlan = {
+      planId,
+      strategy: plan.strategy,
+      strategies: plan.strategies,
+      createdAt: new Date().toISOString(),
+      replacements: plan.replacements,
+      conflicts: plan.conflicts,
+      manualReview: plan.manualReview,
+      estimatedTime: plan.estimatedTime,
+      fileHashes,
+    };
+
+    await fs.mkdir(this.planDirectory, { recursive: true });
+    await fs.writeFile(this.planFile(planId), JSON.stringify(stored, null, 2) + '\n');
+    return planId;
+  }
+
+  async load(planId: string): Promise<StoredPlan> {
+    if (!/^[a-f0-9]+$/.test(planId)) {
+      throw new Error(`Invalid migration plan ID: ${planId}`);
+    }
+
+    try {
+      return JSON.parse(await fs.readFile(this.planFile(planId), 'utf-8'));
+    } catch (error) {
+      throw new Error(
+        `Migration plan ${planId} not found in ${path.join(this.projectPath, PLAN_DIRECTORY)}`
+      );
+    }
+  }
+
+  /**
+   * Files whose content no longer matches what the plan was created against
+   */
+  async findChangedFiles(stored: StoredPlan): Promise<string[]> {
+    const current = await this.hashFiles(Object.keys(stored.fileHashes));
+    return Object.keys(stored.fileHashes).filter(
+      (file) => current[file] !== stored.fileHashes[file]
+    );
+  }
+
+  private get planDirectory(): string {
+    return path.join(this.projectPath, PLAN_DIRECTORY, 'plans');
+  }
+
+  private planFile(planId: string): string {
+    return path.join(this.planDirectory, `${planId}.json`);
+  }
+
+  private async hashFiles(files: string[]): Promise<Record<string, string | null>> {
+    const hashes: Record<string, string | null> = {};
+
+    for (const file of [...files].sort()) {
+      try {
+        const content = await fs.readFile(path.join(this.projectPath, file));
+        hashes[file] = createHash('sha256').update(content).digest('hex');
+      } catch (error) {
+        hashes[file] = null;
+      }
+    }
+
+    return hashes;
+  }
+}
@@ -0,0 +1,965 @@
+/**
+ * AST-based Project Scanner
+ * Parses every source file with the TypeScript compiler to build an accurate ProjectState
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import {
+  ProjectState,
+  FileImport,
+  LocalBinding,
+  ProviderUsage,
+  WorkspacePackage,
+} from './migration-engine.js';
+import { PackageManager } from './package-manager.js';
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
+const STYLE_EXTENSIONS = ['.css', '.scss', '.sass', '.less'];
+const IGNORED_DIRECTORIES = ['node_modules', 'dist', 'build', 'out', 'coverage'];
+
+// Import sources are classified in order - first match wins
+const IMPORT_SOURCE_PATTERNS: Array<[FileImport['type'], RegExp]> = [
+  ['privy', /^@privy-io\//],
+  ['reown', /^@reown\//],
+  ['web3modal', /^@web3modal\//],
+  ['walletconnect', /^@walletconnect\//],
+  ['rainbowkit', /^@rainbow-me\/rainbowkit(\/|$)/],
+  ['connectkit', /^connectkit(\/|$)/],
+  ['dynamic', /^@dynamic-labs\//],
+  ['web3onboard', /^@web3-onboard\//],
+  ['thirdweb', /^(thirdweb|@thirdweb-dev\/[^/]+)(\/|$)/],
+  ['solana', /^@solana\/wallet-adapter-/],
+  ['wagmi', /^(wagmi|@wagmi\/.+)(\/|$)/],
+  ['para', /^@(getpara|para-wallet)\//],
+];
+
+// Elements strategies replace that don't follow the *Provider naming convention:
+// app wrappers and the web components modal libraries render as connect buttons
+const PROVIDER_COMPONENTS = [
+  'AppKit',
+  'Web3Modal',
+  'DynamicWagmiConnector',
+  'w3m-button',
+  'w3m-connect-button',
+  'w3m-account-button',
+  'w3m-network-button',
+  'appkit-button',
+  'appkit-connect-button',
+  'appkit-account-button',
+  'appkit-network-button',
+];
+
+// Factory calls that configure wallets outside of JSX (modals, wagmi config and connectors)
+const PROVIDER_FACTORY_CALLS = [
+  'createAppKit',
+  'createWeb3Modal',
+  'createConfig',
+  'getDefaultConfig',
+  'defaultWagmiConfig',
+  'walletConnect',
+  'createThirdwebClient',
+  'init',
+  'createSIWEConfig',
+];
+
+// Classes constructed outside of JSX to configure wallets, e.g. `new WagmiAdapter({ ... })`
+const PROVIDER_FACTORY_CLASSES = ['WagmiAdapter'];
+
+// Project modules - relative paths and the usual `@/` and `~/` aliases
+const PROJECT_MODULE = /^(\.|[@~]\/)/;
+
+// Packages whose default export is a wallet module factory, e.g. `injectedModule()`
+const FACTORY_MODULES = [/^@web3-onboard\//];
+
+// Calls that mark a file as the place where React mounts the app
+export const RENDER_CALLS = ['createRoot', 'hydrateRoot', 'render'];
+
+/**
+ * Read `{ key: value }` source text as key -> expression source text
+ * Returns null when the text is not an object literal (e.g. an identifier)
+ */
+export function parseObjectLiteral(text: string): Record<string, string> | null {
+  const sourceFile = ts.createSourceFile(
+    'literal.tsx',
+    `(${text})`,
+    ts.ScriptTarget.Latest,
+    true,
+    ts.ScriptKind.TSX
+  );
+  const statement = sourceFile.statements[0];
+
+  if (
+    !statement ||
+    !ts.isExpressionStatement(statement) ||
+    !ts.isParenthesizedExpression(statement.expression) ||
+    !ts.isObjectLiteralExpression(statement.expression.expression)
+  ) {
+    return null;
+  }
+
+  const props: Record<string, string> = {};
+  for (const property of statement.expression.expression.properties) {
+    if (ts.isPropertyAssignment(property)) {
+      props[property.name.getText(sourceFile)] = property.initializer.getText(sourceFile);
+    } else if (ts.isShorthandPropertyAssignment(property)) {
+      props[property.name.text] = property.name.text;
+    } else if (ts.isMethodDeclaration(property) && property.body) {
+      // `onLogout() {}` is read as the equivalent function expression
+      const isAsync = property.modifiers?.some((m) => m.kind === ts.SyntaxKind.AsyncKeyword);
+      const parameters = property.parameters.map((p) => p.getText(sourceFile)).join(', ');
+      props[property.name.getText(sourceFile)] =
+        `${isAsync ? 'async ' : ''}function (${parameters}) ${property.body.getText(sourceFile)}`;
+    }
+  }
+
+  return props;
+}
+
+/**
+ * Project Scanner
+ * Walks the project tree and records imports, providers, hooks and styles with file/line data
+ */
+export class ProjectScanner {
+  /**
+   * Every package a manifest declares, across all dependency sections
+   */
+  static getDeclaredDependencies(manifest: Record<string, any>): Record<string, string> {
+    return {
+      ...manifest.optionalDependencies,
+      ...manifest.peerDependencies,
+      ...manifest.devDependencies,
+      ...manifest.dependencies,
+    };
+  }
+
+  /**
+   * Workspace package that owns a project-relative file - the deepest enclosing package
+   */
+  static getOwningPackage(state: ProjectState, file: string): WorkspacePackage | undefined {
+    return (state.packages ?? [])
+      .filter((pkg) => pkg.path === '' || file.startsWith(`${pkg.path}/`))
+      .reduce<
+        WorkspacePackage | undefined
+      >((owner, pkg) => (!owner || pkg.path.length > owner.path.length ? pkg : owner), undefined);
+  }
+
+  /**
+   * Per-package view of a workspace scan - paths stay relative to the workspace root
+   */
+  static getPackageState(state: ProjectState, pkg: WorkspacePackage): ProjectState {
+    const owns = (item: { file: string }) =>
+      ProjectScanner.getOwningPackage(state, item.file) === pkg;
+
+    return {
+      projectPath: state.projectPath,
+      dependencies: pkg.dependencies,
+      imports: state.imports.filter(owns),
+      providers: state.providers.filter(owns),
+      hooks: state.hooks.filter(owns),
+      styles: state.styles.filter(owns),
+      entryPoints: state.entryPoints.filter((file) => owns({ file })),
+    };
+  }
+
+  async scan(projectPath: string): Promise<ProjectState> {
+    const packages = await this.findWorkspacePackages(projectPath);
+    const state: ProjectState = {
+      projectPath,
+      // Strategies see every wallet dependency, wherever it is declared
+      dependencies: packages
+        ? Object.assign({}, ...[...packages].reverse().map((pkg) => pkg.dependencies))
+        : await this.readDependencies(projectPath),
+      imports: [],
+      providers: [],
+      hooks: [],
+      styles: [],
+      entryPoints: [],
+      ...(packages ? { packages } : {}),
+      packageManager: (await PackageManager.detect(projectPath)).name,
+    };
+
+    const sourceFiles = await this.findSourceFiles(projectPath);
+
+    for (const filePath of sourceFiles) {
+      let content: string;
+      try {
+        content = await fs.readFile(filePath, 'utf-8');
+      } catch (error) {
+        continue; // Ignore files we can't read
+      }
+
+      const file = this.toRelativePath(projectPath, filePath);
+      this.scanSourceFile(file, content, state);
+    }
+
+    return state;
+  }
+
+  /**
+   * Parse a single file and append everything it contributes to the state
+   */
+  scanSourceFile(file: string, content: string, state: ProjectState): void {
+    const sourceFile = ts.createSourceFile(
+      file,
+      content,
+      ts.ScriptTarget.Latest,
+      true,
+      this.getScriptKind(file)
+    );
+
+    const importedNames = new Map<string, { name: string; from: string }>();
+    const projectImports = new Map<string, FileImport>(); // local name -> its import
+    let rendersApp = false;
+
+    const lineOf = (node: ts.Node): number =>
+      sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+
+    // Imports and styles live at the top level only
+    for (const statement of sourceFile.statements) {
+      // `require('./styles.css')` loads a stylesheet just like a bare import
+      const required = ts.isExpressionStatement(statement)
+        ? this.getRequiredModule(statement.expression)
+        : null;
+      if (required && this.isStyleModule(required)) {
+        state.styles.push({
+          file,
+          line: lineOf(statement),
+          import: statement.getText(sourceFile),
+          isParaStyle: this.classifyImport(required) === 'para',
+        });
+        continue;
+      }
+
+      if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) {
+        continue;
+      }
+
+      const from = statement.moduleSpecifier.text;
+      const text = statement.getText(sourceFile);
+
+      if (!statement.importClause && this.isStyleModule(from)) {
+        state.styles.push({
+          file,
+          line: lineOf(statement),
+          import: text,
+          isParaStyle: this.classifyImport(from) === 'para',
+        });
+        continue;
+      }
+
+      const fileImport: FileImport = {
+        file,
+        line: lineOf(statement),
+        import: text,
+        from,
+        type: this.classifyImport(from),
+      };
+      state.imports.push(fileImport);
+
+      for (const [localName, importedName] of this.getImportedBindings(statement)) {
+        importedNames.set(localName, { name: importedName, from });
+        if (PROJECT_MODULE.test(from)) {
+          fileImport.references = [];
+          projectImports.set(localName, fileImport);
+        }
+      }
+    }
+
+    const visit = (node: ts.Node): void => {
+      if (
+        ts.isIdentifier(node) &&
+        projectImports.has(node.text) &&
+        !ts.isImportSpecifier(node.parent) &&
+        !ts.isImportClause(node.parent) &&
+        !ts.isNamespaceImport(node.parent) &&
+        !this.isDeclarationOrKey(node)
+      ) {
+        const reference = this.getReadExpression(node);
+        projectImports.get(node.text)!.references!.push({
+          line: lineOf(reference),
+          name: node.text,
+          expression: reference.getText(sourceFile),
+        });
+      }
+
+      if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node)) {
+        const provider = this.getJsxProvider(node, sourceFile);
+        if (provider) {
+          state.providers.push({ file, line: lineOf(node), ...provider });
+        }
+      }
+
+      if (
+        ts.isNewExpression(node) &&
+        ts.isIdentifier(node.expression) &&
+        PROVIDER_FACTORY_CLASSES.includes(node.expression.text) &&
+        importedNames.has(node.expression.text)
+      ) {
+        state.providers.push(this.getFactoryUsage(node, node.expression.text, file, sourceFile));
+      }
+
+      if (ts.isCallExpression(node)) {
+        const callee = this.getCalleeName(node);
+
+        if (callee && RENDER_CALLS.includes(callee)) {
+          rendersApp = true;
+
+          // The rendered root element is recorded under the render call's name
+          const root = node.arguments.find(
+            (argument): argument is ts.JsxElement | ts.JsxSelfClosingElement =>
+              ts.isJsxElement(argument) || ts.isJsxSelfClosingElement(argument)
+          );
+          if (root) {
+            state.providers.push({
+              file,
+              line: lineOf(root),
+              ...this.getJsxUsage(root, sourceFile),
+              provider: callee,
+            });
+          }
+        }
+
+        const binding = ts.isIdentifier(node.expression)
+          ? importedNames.get(node.expression.text)
+          : undefined;
+        const isFactoryModule =
+          binding?.name === 'default' &&
+          FACTORY_MODULES.some((pattern) => pattern.test(binding.from));
+
+        if (
+          callee &&
+          ((PROVIDER_FACTORY_CALLS.includes(callee) && importedNames.has(callee)) ||
+            isFactoryModule)
+        ) {
+          state.providers.push(this.getFactoryUsage(node, callee, file, sourceFile));
+        }
+
+        if (binding && /^use[A-Z0-9]/.test(binding.name)) {
+          const usageNode = this.getHookUsageNode(node);
+          state.hooks.push({
+            file,
+            line: lineOf(usageNode),
+            hook: binding.name,
+            from: binding.from,
+            usage: usageNode.getText(sourceFile),
+            references: this.getHookReferences(usageNode, sourceFile).map((reference) => ({
+              line: lineOf(reference),
+              name: reference.getText(sourceFile).match(/^[\w$]+/)![0],
+              expression: reference.getText(sourceFile),
+            })),
+            scope: this.getScope(node, lineOf),
+          });
+        }
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+
+    // Entry points are recognised relative to the package that owns the file
+    const packagePath = ProjectScanner.getOwningPackage(state, file)?.path;
+    if (this.isEntryPoint(packagePath ? file.slice(packagePath.length + 1) : file, rendersApp)) {
+      state.entryPoints.push(file);
+    }
+  }
+
+  private async readDependencies(projectPath: string): Promise<Record<string, string>> {
+    try {
+      const packageJson = JSON.parse(
+        await fs.readFile(path.join(projectPath, 'package.json'), 'utf-8')
+      );
+      return ProjectScanner.getDeclaredDependencies(packageJson);
+    } catch (error) {
+      return {}; // No package.json or unreadable - treat as no dependencies
+    }
+  }
+
+  /**
+   * Packages of a pnpm (pnpm-workspace.yaml) or npm/yarn (`workspaces` field) monorepo,
+   * null for a single-package project
+   */
+  async findWorkspacePackages(projectPath: string): Promise<WorkspacePackage[] | null> {
+    const rootPackage = await this.readPackageJson(projectPath);
+    const workspaces = rootPackage?.workspaces;
+    const patterns: string[] = [
+      ...(Array.isArray(workspaces) ? workspaces : (workspaces?.packages ?? [])),
+      ...(await this.readPnpmWorkspacePatterns(projectPath)),
+    ];
+    if (patterns.length === 0) return null;
+
+    const included = new Set<string>();
+    for (const pattern of patterns.filter((p) => !p.startsWith('!'))) {
+      for (const dir of await this.expandWorkspacePattern(projectPath, pattern)) {
+        included.add(dir);
+      }
+    }
+    for (const pattern of patterns.filter((p) => p.startsWith('!'))) {
+      for (const dir of await this.expandWorkspacePattern(projectPath, pattern.slice(1))) {
+        included.delete(dir);
+      }
+    }
+
+    const manifests: Array<[string, Record<string, any>]> = [['', rootPackage ?? {}]];
+    for (const dir of [...included].filter(Boolean).sort()) {
+      const manifest = await this.readPackageJson(path.join(projectPath, dir));
+      if (manifest) manifests.push([dir, manifest]);
+    }
+
+    const names = manifests.map(([dir, manifest]) =>
+      String(manifest.name ?? (dir || path.basename(projectPath)))
+    );
+
+    return manifests.map(([dir, manifest], index) => ({
+      name: names[index],
+      path: dir,
+      dependencies: ProjectScanner.getDeclaredDependencies(manifest),
+      workspaceDependencies: Object.keys(ProjectScanner.getDeclaredDependencies(manifest)).filter(
+        (dep) => dep !== names[index] && names.includes(dep)
+      ),
+    }));
+  }
+
+  private async readPackageJson(dir: string): Promise<Record<string, any> | null> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(dir, 'package.json'), 'utf-8'));
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * `packages:` entries of pnpm-workspace.yaml - the only key the scanner needs
+   */
+  private async readPnpmWorkspacePatterns(projectPath: string): Promise<string[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(projectPath, 'pnpm-workspace.yaml'), 'utf-8');
+    } catch (error) {
+      return [];
+    }
+
+    const patterns: string[] = [];
+    let inPackages = false;
+    for (const line of content.split('\n')) {
+      if (/^\S/.test(line)) {
+        inPackages = /^packages\s*:/.test(line);
+        continue;
+      }
+
+      const entry = line.match(/^\s*-\s*(['"]?)([^'"#]+?)\1\s*(#.*)?$/);
+      if (inPackages && entry) patterns.push(entry[2]);
+    }
+
+    return patterns;
+  }
+
+  /**
+   * Project-relative directories matching a workspace glob such as `apps/*` or `packages/**`
+   */
+  private async expandWorkspacePattern(projectPath: string, pattern: string): Promise<string[]> {
+    const segments = pattern.replace(/^\.\//, '').replace(/\/+$/, '').split('/');
+    let dirs = [''];
+
+    for (const segment of segments) {
+      const next: string[] = [];
+
+      for (const dir of dirs) {
+        if (segment === '**') {
+          next.push(dir, ...(await this.listDirectories(projectPath, dir, true)));
+        } else if (segment.includes('*')) {
+          const matcher = new RegExp(
+            `^${segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`
+          );
+          next.push(
+            ...(await this.listDirectories(projectPath, dir, false)).filter((child) =>
+              matcher.test(path.posix.basename(child))
+            )
+          );
+        } else {
+          next.push(path.posix.join(dir, segment));
+        }
+      }
+
+      dirs = next;
+    }
+
+    return dirs;
+  }
+
+  private async listDirectories(
+    projectPath: string,
+    dir: string,
+    recursive: boolean
+  ): Promise<string[]> {
+    let entries;
+    try {
+      entries = await fs.readdir(path.join(projectPath, dir), { withFileTypes: true });
+    } catch (error) {
+      return [];
+    }
+
+    const dirs: string[] = [];
+    for (const entry of entries) {
+      if (
+        !entry.isDirectory() ||
+        entry.name.startsWith('.') ||
+        IGNORED_DIRECTORIES.includes(entry.name)
+      ) {
+        continue;
+      }
+
+      const child = path.posix.join(dir, entry.name);
+      dirs.push(child);
+      if (recursive) dirs.push(...(await this.listDirectories(projectPath, child, true)));
+    }
+
+    return dirs.sort();
+  }
+
+  private async findSourceFiles(projectPath: string): Promise<string[]> {
+    const files: string[] = [];
+
+    async function scanDirectory(dir: string) {
+      let entries;
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch (error) {
+        return; // Ignore directories we can't read
+      }
+
+      // Sort for deterministic ordering across platforms
+      entries.sort((a, b) => a.name.localeCompare(b.name));
+
+      for (const entry of entries) {
+        const fullPath = path.join(dir, entry.name);
+
+        if (
+          entry.isDirectory() &&
+          !entry.name.startsWith('.') &&
+          !IGNORED_DIRECTORIES.includes(entry.name)
+        ) {
+          await scanDirectory(fullPath);
+        } else if (
+          entry.isFile() &&
+          !entry.name.endsWith('.d.ts') &&
+          SOURCE_EXTENSIONS.includes(path.extname(entry.name))
+        ) {
+          files.push(fullPath);
+        }
+      }
+    }
+
+    await scanDirectory(projectPath);
+    return files;
+  }
+
+  private toRelativePath(projectPath: string, filePath: string): string {
+    return path.relative(projectPath, filePath).split(path.sep).join('/');
+  }
+
+  private getScriptKind(file: string): ts.ScriptKind {
+    switch (path.extname(file)) {
+      case '.tsx':
+        return ts.ScriptKind.TSX;
+      case '.jsx':
+        return ts.ScriptKind.JSX;
+      case '.js':
+        return ts.ScriptKind.JSX; // .js files commonly contain JSX in React projects
+      default:
+        return ts.ScriptKind.TS;
+    }
+  }
+
+  private classifyImport(from: string): FileImport['type'] {
+    const match = IMPORT_SOURCE_PATTERNS.find(([, pattern]) => pattern.test(from));
+    return match ? match[0] : 'other';
+  }
+
+  private isStyleModule(from: string): boolean {
+    return STYLE_EXTENSIONS.includes(path.extname(from));
+  }
+
+  /**
+   * Module specifier of a `require('...')` call
+   */
+  private getRequiredModule(expression: ts.Expression): string | null {
+    if (
+      ts.isCallExpression(expression) &&
+      ts.isIdentifier(expression.expression) &&
+      expression.expression.text === 'require' &&
+      expression.arguments.length === 1 &&
+      ts.isStringLiteral(expression.arguments[0])
+    ) {
+      return expression.arguments[0].text;
+    }
+    return null;
+  }
+
+  /**
+   * Map local binding names to the names they are exported under
+   */
+  private getImportedBindings(statement: ts.ImportDeclaration): Array<[string, string]> {
+    const bindings: Array<[string, string]> = [];
+    const clause = statement.importClause;
+    if (!clause) return bindings;
+
+    if (clause.name) {
+      bindings.push([clause.name.text, 'default']);
+    }
+
+    if (clause.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+      for (const element of clause.namedBindings.elements) {
+        bindings.push([element.name.text, (element.propertyName ?? element.name).text]);
+      }
+    }
+
+    return bindings;
+  }
+
+  private getJsxProvider(
+    node: ts.JsxElement | ts.JsxSelfClosingElement,
+    sourceFile: ts.SourceFile
+  ): Omit<ProviderUsage, 'file' | 'line'> | null {
+    const opening = ts.isJsxElement(node) ? node.openingElement : node;
+    const tagName = opening.tagName.getText(sourceFile);
+
+    if (!tagName.endsWith('Provider') && !PROVIDER_COMPONENTS.includes(tagName)) {
+      return null;
+    }
+
+    return this.getJsxUsage(node, sourceFile);
+  }
+
+  private getJsxUsage(
+    node: ts.JsxElement | ts.JsxSelfClosingElement,
+    sourceFile: ts.SourceFile
+  ): Omit<ProviderUsage, 'file' | 'line'> {
+    const opening = ts.isJsxElement(node) ? node.openingElement : node;
+    const tagName = opening.tagName.getText(sourceFile);
+    const props: Record<string, unknown> = {};
+    for (const attribute of opening.attributes.properties) {
+      if (ts.isJsxSpreadAttribute(attribute)) {
+        const spread = attribute.expression.getText(sourceFile);
+        props[`...${spread}`] = spread;
+        continue;
+      }
+
+      const name = attribute.name.getText(sourceFile);
+      const initializer = attribute.initializer;
+
+      if (!initializer) {
+        props[name] = 'true';
+      } else if (ts.isStringLiteral(initializer)) {
+        props[name] = JSON.stringify(initializer.text);
+      } else if (ts.isJsxExpression(initializer) && initializer.expression) {
+        props[name] = initializer.expression.getText(sourceFile);
+      }
+    }
+
+    const children = ts.isJsxElement(node)
+      ? sourceFile.text.slice(node.openingElement.end, node.closingElement.getStart(sourceFile))
+      : '';
+    const start = node.getStart(sourceFile);
+    const lineStart =
+      sourceFile.getLineStarts()[sourceFile.getLineAndCharacterOfPosition(start).line];
+
+    return {
+      provider: tagName,
+      props,
+      active: true,
+      source: node.getText(sourceFile),
+      children,
+      indent: sourceFile.text.slice(lineStart, start).match(/^[ \t]*/)![0],
+    };
+  }
+
+  /**
+   * Read `{ key: value }` literal arguments as key -> expression source text
+   */
+  private getObjectLiteralProps(
+    argument: ts.Expression | undefined,
+    sourceFile: ts.SourceFile
+  ): Record<string, unknown> {
+    const props: Record<string, unknown> = {};
+    if (!argument || !ts.isObjectLiteralExpression(argument)) return props;
+
+    for (const property of argument.properties) {
+      if (ts.isPropertyAssignment(property)) {
+        props[property.name.getText(sourceFile)] = property.initializer.getText(sourceFile);
+      } else if (ts.isShorthandPropertyAssignment(property)) {
+        props[property.name.text] = property.name.text;
+      }
+    }
+
+    return props;
+  }
+
+  /**
+   * A factory call or constructor, with the statement and reads of the name it is bound to
+   */
+  private getFactoryUsage(
+    node: ts.CallExpression | ts.NewExpression,
+    provider: string,
+    file: string,
+    sourceFile: ts.SourceFile
+  ): ProviderUsage {
+    const statement = this.getHookUsageNode(node);
+    const lineOf = (n: ts.Node): number =>
+      sourceFile.getLineAndCharacterOfPosition(n.getStart(sourceFile)).line + 1;
+    const props = this.getObjectLiteralProps(node.arguments?.[0], sourceFile);
+    const constants = this.getArrayConstants(sourceFile, Object.values(props).map(String));
+    const bindings = this.getExclusiveBindings(node, sourceFile);
+
+    return {
+      file,
+      line: lineOf(node),
+      provider,
+      props,
+      ...(Object.keys(constants).length > 0 ? { constants } : {}),
+      ...(bindings.length > 0 ? { bindings } : {}),
+      active: true,
+      source: node.getText(sourceFile),
+      children: '',
+      ...(ts.isVariableStatement(statement) || ts.isExpressionStatement(statement)
+        ? { statement: statement.getText(sourceFile) }
+        : {}),
+      ...(ts.isVariableStatement(statement)
+        ? {
+            references: this.getHookReferences(statement, sourceFile).map((reference) => ({
+              line: lineOf(reference),
+              name: reference.getText(sourceFile).match(/^[\w$]+/)![0],
+              expression: reference.getText(sourceFile),
+            })),
+          }
+        : {}),
+    };
+  }
+
+  /**
+   * Top-level `const` declarations and imported names that only `node` reads - removing a
+   * factory call leaves them unused. Exported declarations may be read by other files.
+   */
+  private getExclusiveBindings(node: ts.Node, sourceFile: ts.SourceFile): LocalBinding[] {
+    const lineOf = (n: ts.Node): number =>
+      sourceFile.getLineAndCharacterOfPosition(n.getStart(sourceFile)).line + 1;
+    const bindings = new Map<string, LocalBinding>();
+
+    for (const statement of sourceFile.statements) {
+      if (ts.isImportDeclaration(statement)) {
+        for (const [local] of this.getImportedBindings(statement)) {
+          bindings.set(local, {
+            name: local,
+            line: lineOf(statement),
+            statement: statement.getText(sourceFile),
+            imported: true,
+          });
+        }
+      } else if (
+        ts.isVariableStatement(statement) &&
+        statement.declarationList.flags & ts.NodeFlags.Const &&
+        statement.declarationList.declarations.length === 1 &&
+        ts.isIdentifier(statement.declarationList.declarations[0].name) &&
+        !statement.modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword)
+      ) {
+        const name = statement.declarationList.declarations[0].name.text;
+        bindings.set(name, {
+          name,
+          line: lineOf(statement),
+          statement: statement.getText(sourceFile),
+          imported: false,
+        });
+      }
+    }
+
+    const inside = new Set<string>();
+    const outside = new Set<string>();
+    const visit = (current: ts.Node): void => {
+      if (
+        ts.isIdentifier(current) &&
+        bindings.has(current.text) &&
+        !ts.isImportSpecifier(current.parent) &&
+        !ts.isImportClause(current.parent) &&
+        !this.isDeclarationOrKey(current)
+      ) {
+        const within =
+          current.getStart(sourceFile) >= node.getStart(sourceFile) && current.end <= node.end;
+        (within ? inside : outside).add(current.text);
+      }
+      ts.forEachChild(current, visit);
+    };
+    visit(sourceFile);
+
+    return [...inside].filter((name) => !outside.has(name)).map((name) => bindings.get(name)!);
+  }
+
+  /**
+   * Top-level `const name = [...]` declarations of a file that `values` read by name,
+   * e.g. `networks` for `new WagmiAdapter({ networks })`
+   */
+  private getArrayConstants(sourceFile: ts.SourceFile, values: string[]): Record<string, string> {
+    const constants: Record<string, string> = {};
+    for (const statement of sourceFile.statements) {
+      if (
+        !ts.isVariableStatement(statement) ||
+        !(statement.declarationList.flags & ts.NodeFlags.Const)
+      ) {
+        continue;
+      }
+
+      for (const declaration of statement.declarationList.declarations) {
+        let initializer = declaration.initializer;
+        while (
+          initializer &&
+          (ts.isAsExpression(initializer) || ts.isSatisfiesExpression(initializer))
+        ) {
+          initializer = initializer.expression;
+        }
+
+        if (
+          ts.isIdentifier(declaration.name) &&
+          initializer &&
+          ts.isArrayLiteralExpression(initializer) &&
+          values.includes(declaration.name.text)
+        ) {
+          constants[declaration.name.text] = initializer.getText(sourceFile);
+        }
+      }
+    }
+    return constants;
+  }
+
+  private getCalleeName(node: ts.CallExpression): string | null {
+    if (ts.isIdentifier(node.expression)) return node.expression.text;
+    if (ts.isPropertyAccessExpression(node.expression)) return node.expression.name.text;
+    return null;
+  }
+
+  /**
+   * Line of the function a hook is called in, e.g. the component body
+   */
+  private getScope(node: ts.Node, lineOf: (node: ts.Node) => number): number | undefined {
+    for (let parent = node.parent; parent; parent = parent.parent) {
+      if (ts.isFunctionLike(parent)) return lineOf(parent);
+    }
+    return undefined;
+  }
+
+  /**
+   * The statement a hook or factory call belongs to, e.g. `const { user } = usePrivy();`
+   */
+  private getHookUsageNode(call: ts.CallExpression | ts.NewExpression): ts.Node {
+    let node: ts.Node = call;
+    while (
+      ts.isAwaitExpression(node.parent) ||
+      ts.isAsExpression(node.parent) ||
+      ts.isNonNullExpression(node.parent) ||
+      ts.isParenthesizedExpression(node.parent)
+    ) {
+      node = node.parent;
+    }
+
+    if (ts.isVariableDeclaration(node.parent) && node.parent.initializer === node) {
+      const statement = node.parent.parent.parent;
+      if (
+        ts.isVariableStatement(statement) &&
+        statement.declarationList.declarations.length === 1
+      ) {
+        return statement;
+      }
+      return node.parent;
+    }
+
+    if (ts.isExpressionStatement(node.parent)) {
+      return node.parent;
+    }
+
+    return call;
+  }
+
+  /**
+   * Expressions that read the names a hook statement binds, later in the same scope
+   * Each is widened to its member access chain, or to the call when the name is called directly
+   */
+  private getHookReferences(usageNode: ts.Node, sourceFile: ts.SourceFile): ts.Node[] {
+    if (!ts.isVariableStatement(usageNode)) return [];
+
+    const names = new Set<string>();
+    const collectNames = (name: ts.BindingName): void => {
+      if (ts.isIdentifier(name)) {
+        names.add(name.text);
+      } else {
+        name.elements.forEach((element) => {
+          if (ts.isBindingElement(element)) collectNames(element.name);
+        });
+      }
+    };
+    usageNode.declarationList.declarations.forEach((declaration) => collectNames(declaration.name));
+
+    const references: ts.Node[] = [];
+    const visit = (node: ts.Node): void => {
+      if (
+        ts.isIdentifier(node) &&
+        names.has(node.text) &&
+        node.getStart(sourceFile) > usageNode.end &&
+        !this.isDeclarationOrKey(node)
+      ) {
+        references.push(this.getReadExpression(node));
+        return;
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    visit(usageNode.parent);
+    return references;
+  }
+
+  /**
+   * A read of `name` widened to its member access chain, or to the call when it is called
+   */
+  private getReadExpression(node: ts.Identifier): ts.Node {
+    let reference: ts.Node = node;
+    while (
+      (ts.isPropertyAccessExpression(reference.parent) ||
+        ts.isElementAccessExpression(reference.parent) ||
+        ts.isNonNullExpression(reference.parent)) &&
+      reference.parent.expression === reference
+    ) {
+      reference = reference.parent;
+    }
+    if (reference === node && ts.isCallExpression(node.parent) && node.parent.expression === node) {
+      reference = node.parent;
+    }
+
+    return reference;
+  }
+
+  private isDeclarationOrKey(node: ts.Identifier): boolean {
+    const parent = node.parent;
+    return (
+      ((ts.isPropertyAccessExpression(parent) ||
+        ts.isPropertyAssignment(parent) ||
+        ts.isJsxAttribute(parent) ||
+        ts.isVariableDeclaration(parent) ||
+        ts.isParameter(parent) ||
+        ts.isFunctionDeclaration(parent) ||
+        ts.isBindingElement(parent)) &&
+        parent.name === node) ||
+      (ts.isBindingElement(parent) && parent.propertyName === node)
+    );
+  }
+
+  private isEntryPoint(file: string, rendersApp: boolean): boolean {
+    const withoutExtension = file.replace(/\.(t|j)sx?$/, '');
+
+    // Next.js root layout and custom App
+    if (/^(src\/)?app\/layout$/.test(withoutExtension)) return true;
+    if (/^(src\/)?pages\/_app$/.test(withoutExtension)) return true;
+
+    // Vite / CRA style entry files that mount the React tree
+    return /^(src\/)?(main|index)$/.test(withoutExtension) && rendersApp;
+  }
+}
@@ -3,107 +3,5614 @@
  * Handles different migration strategies with atomic operations
  */
 
+import path from 'path';
+import { RENDER_CALLS, parseObjectLiteral } from './project-scanner.js';
+import {
+  ParaSdkManifest,
+  configToProps,
+  getParaSdkManifest,
+  propsToConfig,
+  renderParaProvider,
+  renderProviderWrapperSetup,
+} from './para-sdk.js';
+import {
+  ConfigMapping,
+  ConfigTransform,
+  ConfigTranslator,
+  TransformedConfig,
+} from './config-translator.js';
 import {
   MigrationStrategy,
   ReplacementOperation,
   ProjectState,
+  ProviderUsage,
+  FileImport,
+  HookUsage,
+  HookReference,
+  LocalBinding,
+  ValidationIssue,
   HOOK_REPLACEMENT_MAP,
   PROVIDER_REPLACEMENT_MAP,
 } from './migration-engine.js';
 
-export interface ReplacementStrategy {
-  strategy: MigrationStrategy;
-  execute(state: ProjectState): Promise<ReplacementOperation[]>;
-  validate(state: ProjectState): Promise<boolean>;
-  getEstimatedTime(): number;
+interface HookRewrite {
+  usage: string; // statements replacing the hook call
+  hooks: string[]; // hooks those statements call
+  references: ReplacementOperation[]; // rewrites of reads of the old result
+  argumentReview?: ValidationIssue; // set when calls lost arguments the new hook does not take
+}
+
+/**
+ * Where one property of an old hook's result comes from after the migration
+ */
+interface HookPropertyCodemod {
+  hook: string; // replacement hook
+  key: string; // property destructured from its result
+  name?: string; // local name for values reached through a member path, e.g. `address`
+  derive?: (value: string) => string; // builds the old value from the new one, e.g. `!isLoading`
+  dropArguments?: boolean; // calls lose their arguments, e.g. `login({ loginMethods })` -> `openModal()`
+}
+
+// Old property, or member path such as `user.wallet.address`, -> its replacement
+type HookCodemod = Record<string, HookPropertyCodemod>;
+
+// A read of a WagmiAdapter, in its own file or one that imports it
+interface AdapterRead {
+  file: string;
+  line: number;
+  expression: string; // e.g. `wagmiAdapter.wagmiConfig`
+  newValue: string | null; // the plain wagmi config read, null when the adapter itself is read
+}
+
+interface HookMigration {
+  operations: ReplacementOperation[]; // the call site and the reads of its result
+  hooks: string[]; // hooks the migrated call site calls
+  review?: ValidationIssue; // set when the codemod could not convert the call site - it keeps the old hook
+  reason?: string; // why the codemod could not convert it
+  argumentReview?: ValidationIssue; // set when converted calls lost their arguments
+}
+
+export interface ReplacementStrategy {
+  strategy: MigrationStrategy;
+  execute(state: ProjectState): Promise<ReplacementOperation[]>;
+  validate(state: ProjectState): Promise<boolean>;
+  getEstimatedTime(): number;
+  getReviewIssues?(): ValidationIssue[]; // call sites and settings the last execute() could not convert
+  getConflicts?(): ValidationIssue[]; // setups the last execute() cannot migrate - they block the plan
+}
+
+// Web3Modal and AppKit themeVariables -> Para modal theme
+const W3M_THEME_VARIABLES: Record<string, string> = {
+  '--w3m-accent': 'accentColor',
+  '--w3m-font-family': 'font',
+};
+
+// Sign-In With Ethereum packages of Web3Modal and AppKit
+const SIWE_PACKAGES = ['@web3modal/siwe', '@reown/appkit-siwe'];
+
+// Names the generated SIWE module exports in place of those packages
+const SIWE_EXPORTS = [
+  'createSIWEConfig',
+  'formatMessage',
+  'SIWEConfig',
+  'SIWESession',
+  'SIWECreateMessageArgs',
+  'SIWEVerifyMessageArgs',
+];
+
+// wagmi config factories whose chains and transports Para's EVM connector takes over
+const WAGMI_CONFIG_FACTORIES = [
+  'createConfig',
+  'getDefaultConfig',
+  'defaultWagmiConfig',
+  'WagmiAdapter',
+];
+
+// @reown/appkit/networks types that viem's Chain stands in for
+const NETWORK_TYPES = ['AppKitNetwork'];
+
+// Next.js route handlers and API routes
+const SERVER_ROUTE = /(^|\/)(app\/(.+\/)?route|pages\/api\/.+)\.[jt]s$/;
+
+// Framework dependency -> how its bundler exposes the Para API key to browser code
+const PARA_API_KEY_READS: Record<string, string> = {
+  next: 'process.env.NEXT_PUBLIC_PARA_API_KEY',
+  vite: 'import.meta.env.VITE_PARA_API_KEY',
+  'react-scripts': 'process.env.REACT_APP_PARA_API_KEY',
+};
+
+/**
+ * Rewrite the named specifiers and module source of an import statement
+ * Specifiers missing from `names` are kept, names mapped to '' are dropped along with
+ * duplicates created by the mapping. Returns '' when nothing is left to import.
+ */
+function rewriteImport(statement: string, names: Record<string, string>, from: string): string {
+  let rewritten = statement;
+  const named = statement.match(/\{([^}]*)\}/);
+
+  if (named) {
+    const specifiers = named[1]
+      .split(',')
+      .map((specifier) => specifier.trim())
+      .filter(Boolean)
+      .flatMap((specifier) => {
+        const [imported, local] = specifier.split(/\s+as\s+/);
+        const replacement = names[imported] ?? imported;
+        if (!replacement) return [];
+        return local ? [`${replacement} as ${local}`] : replacement.split(/,\s*/);
+      });
+
+    if (specifiers.length > 0) {
+      rewritten = rewritten.replace(named[0], `{ ${[...new Set(specifiers)].join(', ')} }`);
+    } else if (/^import\s+[\w$]+\s*,/.test(statement)) {
+      rewritten = rewritten.replace(/\s*,\s*\{[^}]*\}/, ''); // keep the default import
+    } else {
+      return '';
+    }
+  }
+
+  return rewritten.replace(/(['"])[^'"]+\1(?=\s*;?\s*$)/, `$1${from}$1`);
+}
+
+/**
+ * Named specifiers of an import statement, null for default and namespace imports
+ */
+function getNamedSpecifiers(statement: string): Array<{ imported: string; local: string }> | null {
+  const named = statement.match(/^import\s*(?:type\s+)?\{([^}]*)\}\s*from/);
+  if (!named) return null;
+
+  return named[1]
+    .split(',')
+    .map((specifier) => specifier.trim())
+    .filter(Boolean)
+    .map((specifier) => {
+      const [imported, local] = specifier.split(/\s+as\s+/);
+      return { imported, local: local ?? imported };
+    });
+}
+
+/**
+ * Quote character the module specifier of an import statement is written with
+ */
+function getQuote(statement?: string): string {
+  return statement?.match(/(['"])[^'"]+\1\s*;?\s*$/)?.[1] ?? "'";
+}
+
+/**
+ * Quote of the string literals in `file`, read from its first import
+ */
+function getFileQuote(state: ProjectState, file: string): string {
+  return getQuote(state.imports.find((i) => i.file === file)?.import);
+}
+
+/**
+ * Write the module specifier of a generated import statement with `quote`
+ */
+function withQuote(statement: string, quote: string): string {
+  return statement.replace(/(['"])([^'"]+)\1$/, `${quote}$2${quote}`);
+}
+
+/**
+ * Hooks of an import the replacement map has no Para equivalent for
+ */
+function getUnmappedHooks(
+  importUsage: FileImport,
+  names: Record<string, string>
+): Array<{ imported: string; local: string }> {
+  return (getNamedSpecifiers(importUsage.import) ?? []).filter(
+    ({ imported }) => /^use[A-Z0-9]/.test(imported) && !(imported in names)
+  );
+}
+
+/**
+ * Import statement that keeps the given names on the source they came from
+ */
+function renderKeptImport(
+  importUsage: FileImport,
+  kept: Array<{ imported: string; local: string }>
+): string {
+  if (kept.length === 0) return '';
+
+  const semicolon = importUsage.import.trim().endsWith(';') ? ';' : '';
+  const quote = getQuote(importUsage.import);
+  const names = kept.map(({ imported, local }) =>
+    imported === local ? imported : `${imported} as ${local}`
+  );
+  return `import { ${names.join(', ')} } from ${quote}${importUsage.from}${quote}${semicolon}`;
+}
+
+/**
+ * Remove the declarations and imports only a replaced factory call read, unless `replacement`
+ * still reads them. Imports `operations` already rewrite lose the names in their rewrite.
+ */
+function removeUnusedBindings(
+  operations: ReplacementOperation[],
+  call: ProviderUsage,
+  replacement: string
+): void {
+  const code = replacement.replace(/(^|\s)\/\/[^\n]*/g, '$1'); // comments may name them
+  const statements = new Map<string, LocalBinding[]>();
+  for (const binding of call.bindings ?? []) {
+    const read = new RegExp(`(?<![\\w$.])${binding.name.replace(/\$/g, '\\$')}(?![\\w$])`);
+    if (!read.test(code)) {
+      statements.set(binding.statement, [...(statements.get(binding.statement) ?? []), binding]);
+    }
+  }
+
+  for (const [statement, bindings] of statements) {
+    const { line, imported } = bindings[0];
+    const names = bindings.map((binding) => binding.name);
+    const getSource = (text: string) => text.match(/(['"])([^'"]+)\1\s*;?\s*$/)?.[2];
+    const from = getSource(statement);
+
+    // Default and namespace imports bind one name - a default next to named ones is left
+    const withoutNames = (text: string): string | null => {
+      const specifiers = getNamedSpecifiers(text);
+      if (!specifiers) return /^import\s+(?:\*\s+as\s+)?[\w$]+\s+from\b/.test(text) ? '' : null;
+
+      const removed = specifiers.filter(({ local }) => names.includes(local));
+      return rewriteImport(
+        text,
+        Object.fromEntries(removed.map(({ imported }) => [imported, ''])),
+        from!
+      );
+    };
+
+    const planned = operations.findIndex(
+      (o) => o.file === call.file && o.line === line && o.oldValue === statement
+    );
+    if (planned !== -1) {
+      if (!imported || operations[planned].type !== 'import') continue;
+
+      // Only the statements still importing from the same module bind the names
+      operations[planned] = {
+        ...operations[planned],
+        newValue: operations[planned].newValue
+          .split('\n')
+          .map((text) => (getSource(text) === from ? (withoutNames(text) ?? text) : text))
+          .filter(Boolean)
+          .join('\n'),
+      };
+      continue;
+    }
+
+    const newValue = imported ? withoutNames(statement) : '';
+    if (newValue === null) continue;
+
+    operations.push({
+      id: `remove-unused-${call.file}-${line}`,
+      type: imported ? 'import' : 'provider',
+      file: call.file,
+      line,
+      oldValue: statement,
+      newValue,
+      critical: false,
+    });
+  }
+}
+
+/**
+ * Whether a hook call destructures its result rather than keeping the object
+ */
+function isDestructured(hook: HookUsage): boolean {
+  return /^(?:const|let|var)\s*\{/.test(hook.usage);
+}
+
+/**
+ * apiKey and env settings every generated ParaProvider config starts with
+ * The key is read from the env var the project's framework exposes to the browser - without a
+ * known framework it falls back to PARA_API_KEY and the provider is flagged for review
+ */
+function getParaClientDefaults(
+  sdk: ParaSdkManifest,
+  state: ProjectState,
+  provider?: { file: string; line: number }
+): { config: Record<string, string>; review?: ValidationIssue } {
+  const framework = Object.keys(PARA_API_KEY_READS).find((dep) => dep in state.dependencies);
+  const config = {
+    'paraClientConfig.apiKey': framework
+      ? PARA_API_KEY_READS[framework]
+      : 'process.env.PARA_API_KEY',
+    'paraClientConfig.env': `${sdk.environment.name}.DEVELOPMENT`,
+  };
+  if (framework) return { config };
+
+  return {
+    config,
+    review: {
+      severity: 'warning',
+      code: 'PARA_API_KEY_ENV',
+      message: 'ParaProvider reads its API key from process.env.PARA_API_KEY',
+      file: provider?.file,
+      line: provider?.line,
+      fix: 'Expose PARA_API_KEY to browser code the way your bundler expects, e.g. a prefixed env var',
+    },
+  };
+}
+
+/**
+ * What a file rendering ParaProvider imports from packages.react - the components, plus
+ * Environment on SDK lines that export it there
+ */
+function getProviderExports(sdk: ParaSdkManifest): string[] {
+  return sdk.environment.from === sdk.packages.react
+    ? [...sdk.components, sdk.environment.name]
+    : sdk.components;
+}
+
+/**
+ * Environment import for SDK lines that export it outside packages.react, '' otherwise
+ */
+function renderEnvironmentImport(sdk: ParaSdkManifest, quote = "'", semicolon = ''): string {
+  return sdk.environment.from === sdk.packages.react
+    ? ''
+    : `import { ${sdk.environment.name} } from ${quote}${sdk.environment.from}${quote}${semicolon}`;
+}
+
+/**
+ * Import statements for a file that renders ParaProvider
+ */
+function renderProviderImports(sdk: ParaSdkManifest, quote = "'", semicolon = ''): string {
+  return [
+    `import { ${getProviderExports(sdk).join(', ')} } from ${quote}${sdk.packages.react}${quote}${semicolon}`,
+    renderEnvironmentImport(sdk, quote, semicolon),
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Providers ParaProvider must be rendered inside that do not enclose `replaced` yet - the
+ * element ParaProvider takes the place of or goes around. One rendered inside it, such as the
+ * QueryClientProvider of Privy's setup, does not count.
+ */
+function getMissingWrappers(
+  sdk: ParaSdkManifest,
+  state: ProjectState,
+  replaced: { file: string; source: string },
+  wrappers = sdk.providerWrappers
+): string[] {
+  return wrappers.filter(
+    (wrapper) =>
+      !state.providers.some(
+        (p) =>
+          p.provider === wrapper &&
+          p.file === replaced.file &&
+          p.source !== replaced.source &&
+          p.source.includes(replaced.source)
+      )
+  );
+}
+
+/**
+ * Insertion of the imports and setup for the wrappers rendered around ParaProvider in place of
+ * `replaced` - names the file already binds, such as the queryClient of a QueryClientProvider
+ * it renders elsewhere, are reused
+ */
+function getWrapperSetupOperations(
+  sdk: ParaSdkManifest,
+  state: ProjectState,
+  replaced: { file: string; source: string },
+  wrappers = getMissingWrappers(sdk, state, replaced)
+): ReplacementOperation[] {
+  const { file } = replaced;
+  const bound = (name: string) =>
+    state.imports.some(
+      (i) => i.file === file && getNamedSpecifiers(i.import)?.some((s) => s.local === name)
+    ) ||
+    state.providers.some(
+      (p) => p.file === file && Object.values(p.props).some((value) => String(value) === name)
+    );
+
+  const statement = state.imports.find((i) => i.file === file)?.import;
+  const { imports, setup } = renderProviderWrapperSetup(
+    wrappers,
+    getQuote(statement),
+    !statement || statement.trim().endsWith(';') ? ';' : '',
+    bound
+  );
+  if (imports.length === 0 && setup.length === 0) return [];
+
+  return [
+    {
+      id: `add-para-wrappers-${file}`,
+      type: 'import',
+      file,
+      oldValue: '',
+      newValue: [...imports, ...(setup.length > 0 ? ['', ...setup] : [])].join('\n'),
+      critical: true,
+    },
+  ];
+}
+
+/**
+ * Generated modules live next to the first file that uses them - or in `directory` beside
+ * Next.js's pages/ and app/, where every module would become a route
+ */
+function getGeneratedFile(file: string, name: string, directory: string): string {
+  const route = /^((?:[^/]+\/)*?)(?:pages|app)\//.exec(file);
+  return path.posix.join(
+    route ? path.posix.join(route[1], directory) : path.posix.dirname(file),
+    name
+  );
+}
+
+/**
+ * Generated connect buttons live next to the first file that rendered the old one
+ */
+function getConnectButtonFile(file: string): string {
+  const extension = /\.tsx?$/.test(file) ? '.tsx' : '.jsx';
+  return getGeneratedFile(file, `ParaConnectButton${extension}`, 'components');
+}
+
+/**
+ * Generated wagmi config modules live next to the file that renders ParaProvider
+ */
+function getWagmiConfigFile(providerFile: string): string {
+  const extension = /\.tsx?$/.test(providerFile) ? '.ts' : '.js';
+  return path.posix.join(path.posix.dirname(providerFile), `wagmiConfig${extension}`);
+}
+
+/**
+ * wagmi config module for a library that managed chains itself - `transports` entries read
+ * `[chain.id]: http(...)`
+ */
+function generateWagmiConfig(library: string, chains: string[], transports: string[]): string {
+  return `import { createConfig, http } from 'wagmi';
+import { ${chains.join(', ')} } from 'wagmi/chains';
+
+/**
+ * Chains ${library} managed itself - the app's wagmi config and Para's EVM connector are both
+ * created from them
+ */
+export const chains = [${chains.join(', ')}] as const;
+
+export const transports = {
+${transports.map((transport) => `  ${transport}`).join('\n')}
+};
+
+export const wagmiConfig = createConfig({ chains, transports });
+`;
+}
+
+/**
+ * Module specifier that imports `target` from `file`, both project-relative
+ */
+function relativeImport(file: string, target: string): string {
+  const specifier = path.posix.relative(path.posix.dirname(file), target).replace(/\.[jt]sx?$/, '');
+  return specifier.startsWith('.') ? specifier : `./${specifier}`;
+}
+
+/**
+ * Rename destructured properties while keeping the local names the component already uses
+ * `const { openConnectModal } = useModal()` -> `const { openModal: openConnectModal } = useModal()`
+ */
+function renameDestructured(usage: string, renames: Record<string, string>): string {
+  return usage.replace(/\{([^}]*)\}(?=\s*=)/, (pattern, body: string) => {
+    let renamed = body;
+    for (const [from, to] of Object.entries(renames)) {
+      renamed = renamed
+        .replace(new RegExp(`\\b${from}(\\s*:)`), `${to}$1`)
+        .replace(new RegExp(`(^|[\\s,])${from}\\b(?!\\s*:)`), `$1${to}: ${from}`);
+    }
+    return `{${renamed}}`;
+  });
+}
+
+/**
+ * wagmi createConfig options built from a modal library's getDefaultConfig call,
+ * indented like the call it replaces
+ */
+function renderWagmiConfig(config: ProviderUsage): { options: string; review?: ValidationIssue } {
+  const { props } = config;
+  const indent = config.source.match(/\n([ \t]*)\S[^\n]*$/)?.[1] ?? '';
+  const chains = String(props.chains ?? '[mainnet]');
+  const transports = props.transports ?? renderTransports(chains, config.constants);
+
+  const entries = [`chains: ${chains}`, `transports: ${transports ?? '{}'}`];
+  if (props.ssr) entries.push(`ssr: ${props.ssr}`);
+  if (props.storage) entries.push(`storage: ${props.storage}`);
+
+  const options = `{\n${entries.map((entry) => `${indent}  ${entry},`).join('\n')}\n${indent}}`;
+  if (transports) return { options };
+
+  return {
+    options,
+    review: {
+      severity: 'warning',
+      code: 'UNLISTED_CHAINS',
+      message: `${config.provider} chains \`${chains}\` are not a chain list in this file - the wagmi config gets no transports for them`,
+      file: config.file,
+      line: config.line,
+      fix: 'Add a `[chain.id]: http()` transport for each chain to the wagmi config',
+    },
+  };
+}
+
+/**
+ * A chains binding as the non-empty tuple wagmi's createConfig takes - WagmiAdapter networks may
+ * be typed as a plain array. Array literals are inferred as tuples and kept.
+ */
+function renderChainTuple(chains: string): string {
+  return /^[\w$.]+$/.test(chains) ? `[${chains}[0], ...${chains}.slice(1)]` : chains;
+}
+
+/**
+ * viem imports replacing an @reown/appkit/networks import - its chains are viem's, and
+ * AppKitNetwork is typed as viem's Chain. `dropped` are the types viem has no equivalent for.
+ */
+function renderChainImports(importUsage: FileImport): { statements: string; dropped: string[] } {
+  const { import: statement } = importUsage;
+  const specifiers = getNamedSpecifiers(statement);
+  if (!specifiers) return { statements: rewriteImport(statement, {}, 'viem/chains'), dropped: [] };
+
+  const typeOnly = /^import\s+type\b/.test(statement);
+  const chains: string[] = [];
+  const types = new Set<string>();
+  const dropped: string[] = [];
+  for (const specifier of specifiers) {
+    const imported = specifier.imported.replace(/^type\s+/, '');
+    const local = specifier.local.replace(/^type\s+/, '');
+    if (NETWORK_TYPES.includes(imported)) {
+      types.add(local === 'Chain' ? 'Chain' : `Chain as ${local}`);
+    } else if (typeOnly || imported !== specifier.imported) {
+      dropped.push(local);
+    } else {
+      chains.push(imported === local ? imported : `${imported} as ${local}`);
+    }
+  }
+
+  const quote = getQuote(statement);
+  const semicolon = statement.trim().endsWith(';') ? ';' : '';
+  const render = (keyword: string, names: string[], from: string) =>
+    names.length > 0
+      ? `import ${keyword}{ ${names.join(', ')} } from ${quote}${from}${quote}${semicolon}`
+      : '';
+  return {
+    statements: [render('', chains, 'viem/chains'), render('type ', [...types], 'viem')]
+      .filter(Boolean)
+      .join('\n'),
+    dropped,
+  };
+}
+
+/**
+ * wagmi http transports for a chains expression, one `[chain.id]: http()` entry per chain
+ * `constants` resolves a chains binding to the array literal it is declared with - null when
+ * the chains cannot be listed
+ */
+function renderTransports(chains: string, constants: Record<string, string> = {}): string | null {
+  const chainList = (constants[chains] ?? chains).match(/^\[([\w$.,\s]*)\]$/);
+  if (!chainList) return null;
+
+  return `{ ${chainList[1]
+    .split(',')
+    .map((chain) => chain.trim())
+    .filter(Boolean)
+    .map((chain) => `[${chain}.id]: http()`)
+    .join(', ')} }`;
+}
+
+/**
+ * EVM connector chains and their http transports, with `defaultChain` moved to the front
+ * Chains that cannot be listed get no transports and are left for review
+ */
+function renderChainConfig(chains: string, defaultChain?: string): TransformedConfig {
+  const chainList = chains.match(/^\[([\w$.,\s]*)\]$/);
+  let ordered = chains;
+  if (defaultChain && chainList) {
+    ordered = `[${[
+      defaultChain,
+      ...chainList[1]
+        .split(',')
+        .map((chain) => chain.trim())
+        .filter((chain) => chain && chain !== defaultChain),
+    ].join(', ')}]`;
+  } else if (defaultChain) {
+    ordered = `[${defaultChain}, ...${chains}.filter((chain) => chain.id !== ${defaultChain}.id)]`;
+  }
+
+  const transports = renderTransports(ordered);
+  return {
+    config: {
+      'externalWalletConfig.evmConnector.config.chains': ordered,
+      ...(transports ? { 'externalWalletConfig.evmConnector.config.transports': transports } : {}),
+    },
+    unmapped: transports ? [] : ['transports'],
+  };
+}
+
+/**
+ * EVM connector parameters for the wagmi config `binding` names in `file` - the chains and
+ * transports of the factory call it is created with, never the Config instance, so every
+ * strategy hands ParaProvider the same `{ chains, transports }` form. `imports` are what `file`
+ * needs for them. A config the scan cannot trace is left for review.
+ */
+function getEvmConnectorConfig(
+  state: ProjectState,
+  binding: string,
+  file: string
+): { config: Record<string, string>; imports: Record<string, string[]>; review?: ValidationIssue } {
+  // WagmiAdapter exposes its config as `adapter.wagmiConfig`
+  const name = binding.replace(/\.wagmiConfig$/, '');
+  const declaration = new RegExp(
+    `^(?:export\\s+)?(?:const|let|var)\\s+${name.replace(/\$/g, '\\$')}\\s*=`
+  );
+  const factories = state.providers.filter((p) => WAGMI_CONFIG_FACTORIES.includes(p.provider));
+  const config = factories
+    .filter((p) => /^[\w$]+$/.test(name) && declaration.test(p.statement ?? ''))
+    .sort((a, b) => Number(b.file === file) - Number(a.file === file))
+    // createConfig(getDefaultConfig({ ... })) - the options are on the inner call
+    .flatMap((p) => [
+      p,
+      ...factories.filter((f) => f.file === p.file && p.source.includes(f.source)),
+    ])
+    .find((p) => p.props.chains || p.props.networks);
+
+  const chainsText = String(config?.props.chains ?? config?.props.networks ?? '');
+  const chains = config?.constants?.[chainsText] ?? chainsText;
+  // Transports written here call wagmi's http(), which `file` imports itself
+  const generated = !config?.props.transports;
+  const transports = generated ? renderTransports(chains) : String(config!.props.transports);
+  const imports =
+    config && transports
+      ? getCopiedImports(state, config.file, file, generated ? chains : `${chains} ${transports}`)
+      : null;
+  const importsHttp = state.imports.some(
+    (i) => i.file === file && getNamedSpecifiers(i.import)?.some((s) => s.local === 'http')
+  );
+  if (imports && generated && !importsHttp) {
+    imports.wagmi = [...new Set([...(imports.wagmi ?? []), 'http'])];
+  }
+
+  if (config && transports && imports) {
+    return {
+      config: {
+        'externalWalletConfig.evmConnector.config.chains':
+          config.provider === 'WagmiAdapter' ? renderChainTuple(chains) : chains,
+        'externalWalletConfig.evmConnector.config.transports': transports,
+      },
+      imports,
+    };
+  }
+
+  return {
+    config: { 'externalWalletConfig.evmConnector.config.chains': `${binding}.chains` },
+    imports: {},
+    review: {
+      severity: 'warning',
+      code: 'UNRESOLVED_WAGMI_CONFIG',
+      message: `The chains and transports of the wagmi config \`${binding}\` could not be read - ParaProvider gets its chains but no transports`,
+      file,
+      fix: 'Set externalWalletConfig.evmConnector.config.transports to the transports of the wagmi config',
+    },
+  };
+}
+
+/**
+ * Imports `file` needs for an expression copied out of `source` - the names it reads, imported
+ * from where `source` imports them. Null when it reads a name `source` declares itself.
+ */
+function getCopiedImports(
+  state: ProjectState,
+  source: string,
+  file: string,
+  expression: string
+): Record<string, string[]> | null {
+  const imports: Record<string, string[]> = {};
+  if (source === file) return imports;
+
+  const named = (statement: FileImport, local: string) =>
+    getNamedSpecifiers(statement.import)?.find((s) => s.local === local);
+  const names = new Set(
+    expression
+      .replace(/(['"`])(?:\\.|(?!\1)[^\\])*\1/g, "''")
+      .match(/(?<![\w$.])[A-Za-z_$][\w$]*(?![\w$]|\s*:)/g)
+  );
+
+  for (const name of names) {
+    if (['as', 'const', 'true', 'false', 'null', 'undefined'].includes(name)) continue;
+    if (state.imports.some((i) => i.file === file && named(i, name))) continue;
+
+    const origin = state.imports.find((i) => i.file === source && named(i, name));
+    if (!origin) return null;
+
+    const { imported } = named(origin, name)!;
+    const from = origin.from.startsWith('.')
+      ? relativeImport(file, path.posix.join(path.posix.dirname(source), origin.from))
+      : origin.from;
+    imports[from] = [...(imports[from] ?? []), imported === name ? name : `${imported} as ${name}`];
+  }
+  return imports;
+}
+
+/**
+ * Imports of the top-level binding `name` of `file` from other project files, with the local
+ * name each one binds
+ */
+function getBindingImports(
+  state: ProjectState,
+  file: string,
+  name: string
+): Array<[FileImport, string]> {
+  const normalize = (module: string) => module.replace(/\.[jt]sx?$/, '').replace(/\/index$/, '');
+  const module = normalize(file);
+
+  return state.imports.flatMap((importUsage): Array<[FileImport, string]> => {
+    if (!importUsage.references) return [];
+
+    // `@/config` and `~/config` aliases are matched by their path under the project
+    const target = normalize(
+      importUsage.from.startsWith('.')
+        ? path.posix.join(path.posix.dirname(importUsage.file), importUsage.from)
+        : importUsage.from.slice(2)
+    );
+    const specifier = getNamedSpecifiers(importUsage.import)?.find((s) => s.imported === name);
+
+    return specifier && (module === target || module.endsWith(`/${target}`))
+      ? [[importUsage, specifier.local]]
+      : [];
+  });
+}
+
+/**
+ * Add named imports to `file`: into the statement for the module that `operations` already
+ * write or the file already has, otherwise as a new import after the existing ones
+ */
+function addNamedImports(
+  operations: ReplacementOperation[],
+  state: ProjectState,
+  file: string,
+  imports: Record<string, string[]>
+): void {
+  for (const [from, names] of Object.entries(imports)) {
+    const statement = new RegExp(
+      `import\\s*\\{[^}]*\\}\\s*from\\s*(['"])${from.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')}\\1`
+    );
+    const merge = (text: string) =>
+      text.replace(statement, (match) =>
+        match.replace(/\{([^}]*)\}/, (_, body: string) => {
+          const specifiers = body
+            .split(',')
+            .map((specifier) => specifier.trim())
+            .filter(Boolean);
+          return `{ ${[...new Set([...specifiers, ...names])].join(', ')} }`;
+        })
+      );
+
+    const planned = operations.findIndex(
+      (o) => o.file === file && o.type === 'import' && statement.test(o.newValue)
+    );
+    if (planned !== -1) {
+      operations[planned] = {
+        ...operations[planned],
+        newValue: merge(operations[planned].newValue),
+      };
+      continue;
+    }
+
+    const existing = state.imports.find(
+      (i) => i.file === file && i.from === from && getNamedSpecifiers(i.import)
+    );
+    const rewritten = existing
+      ? operations.findIndex(
+          (o) => o.file === file && o.line === existing.line && o.oldValue === existing.import
+        )
+      : -1;
+    // A new statement follows the module's import, or else the first import of the file
+    const model = existing?.import ?? state.imports.find((i) => i.file === file)?.import;
+    const quote = getQuote(model);
+    const semicolon = model?.trim().endsWith(';') ? ';' : '';
+    const added = `import { ${names.join(', ')} } from ${quote}${from}${quote}${semicolon}`;
+
+    if (rewritten !== -1) {
+      // The statement is rewritten away from the module - the names get their own import
+      operations[rewritten] = {
+        ...operations[rewritten],
+        newValue: [operations[rewritten].newValue, added].filter(Boolean).join('\n'),
+      };
+    } else if (existing) {
+      operations.push({
+        id: `add-import-${file}-${existing.line}`,
+        type: 'import',
+        file,
+        line: existing.line,
+        oldValue: existing.import,
+        newValue: merge(existing.import),
+        critical: true,
+      });
+    } else {
+      operations.push({
+        id: `add-import-${file}-${from}`,
+        type: 'import',
+        file,
+        oldValue: '',
+        newValue: added,
+        critical: true,
+      });
+    }
+  }
+}
+
+/**
+ * Values of a string array literal such as `['email', 'google']`, null for anything else
+ */
+function parseStringList(text: string): string[] | null {
+  const list = text.trim().match(/^\[([^\]]*)\]$/);
+  if (!list) return null;
+
+  const values = list[1]
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .map((item) => item.match(/^(['"`])([\w-]*)\1$/)?.[2]);
+  return values.every((value): value is string => value !== undefined) ? values : null;
+}
+
+/**
+ * Source operation rewriting one read of a hook's result, e.g. `account.address` -> `address`
+ */
+function rewriteReference(
+  hook: HookUsage,
+  reference: HookReference,
+  newValue: string
+): ReplacementOperation {
+  return {
+    id: `replace-reference-${hook.file}-${hook.line}-${hook.references!.indexOf(reference)}`,
+    type: 'hook',
+    file: hook.file,
+    line: reference.line,
+    oldValue: reference.expression,
+    newValue,
+    critical: false, // hooks can be updated gradually
+  };
+}
+
+/**
+ * Line comment for the Para apiKey naming the old credential it replaces - the value is shown
+ * only when it is a string literal, never an expression such as `projectId!`
+ */
+function apiKeyComment(credential: string, value: unknown): Record<string, string> {
+  if (!value) return {};
+  const literal = /^(['"])[^'"]*\1$|^`[^`$]*`$/.test(String(value).trim());
+  return { 'paraClientConfig.apiKey': `replaces ${credential}${literal ? ` ${value}` : ''}` };
+}
+
+/**
+ * ParaProvider config for an old provider - `defaults` overridden by its props translated with
+ * a PROVIDER_REPLACEMENT_MAP configMapping. Props the mapping does not cover are listed for review.
+ * String literals are written with `quote`, the quote of the file the config goes to.
+ */
+function translateProviderConfig(
+  provider: ProviderUsage,
+  mapping: ConfigMapping,
+  defaults: Record<string, string>,
+  quote: string,
+  comments: Record<string, string> = {},
+  transforms: Record<string, ConfigTransform> = {}
+): { config: string; review?: ValidationIssue } {
+  const translation = new ConfigTranslator(mapping, transforms).translate(provider);
+  const kept = Object.entries(defaults).filter(
+    ([path]) => !Object.keys(translation.config).some((p) => p.startsWith(`${path}.`))
+  );
+
+  return {
+    config: ConfigTranslator.render(
+      { ...Object.fromEntries(kept), ...translation.config },
+      { comments, unmapped: translation.unmapped, from: provider.provider, quote }
+    ),
+    review: translation.review,
+  };
+}
+
+/**
+ * Web3Modal/AppKit themeVariables onto the Para modal theme - CSS variables Para has no
+ * setting for are left for review
+ */
+function translateThemeVariables(value: string): TransformedConfig | null {
+  const variables = parseObjectLiteral(value);
+  if (!variables) return null;
+
+  const config: Record<string, string> = {};
+  const unmapped: string[] = [];
+  for (const [key, variable] of Object.entries(variables)) {
+    const name = key.replace(/^(['"])(.*)\1$/, '$2');
+    const paraKey = W3M_THEME_VARIABLES[name];
+    if (paraKey) {
+      config[`paraModalConfig.theme.${paraKey}`] = variable;
+    } else {
+      unmapped.push(name);
+    }
+  }
+  return { config, unmapped };
+}
+
+/**
+ * Fold the ParaProvider that the replacement of `element` renders into an earlier ParaProvider
+ * whose children still hold that element: settings the outer config lacks are added to it and
+ * the inner ParaProvider gives way to its children, so a wrapper it was moved into such as
+ * WagmiProvider stays and holds them directly. Null when the providers set one setting to
+ * different values or spread a config object.
+ */
+export function mergeParaProviders(outer: string, element: string, inner: string): string | null {
+  const shape = /<ParaProvider\n([ \t]*[\w$/{][\s\S]*?)\n([ \t]*)>([\s\S]*)\n\2<\/ParaProvider>/;
+  const outerMatch = outer.match(shape);
+  const innerMatch = inner.match(shape);
+  if (!outerMatch || !innerMatch || !outer.includes(element)) return null;
+
+  const config = mergeConfigLiterals(
+    propsToConfig(outerMatch[1], outerMatch[2]),
+    propsToConfig(innerMatch[1], innerMatch[2]),
+    outerMatch[2],
+    innerMatch[2]
+  );
+  if (!config) return null;
+
+  // The inner provider's modal is dropped - the outer one renders it
+  const children = innerMatch[3].replace(/\n[ \t]*\{\/\* [^\n]*\n[ \t]*<ParaModal \/>$/, '');
+
+  return outer
+    .replace(outerMatch[1], () => configToProps(config, outerMatch[2]))
+    .replace(element, () =>
+      inner.replace(innerMatch[0], () =>
+        unwrapChildren(`${children}\n${innerMatch[2]}`, innerMatch[2], true)
+      )
+    );
+}
+
+/**
+ * Merge two config object literals written one key per line, closing braces at `outerIndent`
+ * and `innerIndent`: keys only `inner` sets are added and nested objects are merged key by
+ * key, e.g. Privy's paraModalConfig.oAuthMethods next to a Web3Modal paraModalConfig.theme.
+ * Null when one leaf key has different values.
+ */
+function mergeConfigLiterals(
+  outer: string,
+  inner: string,
+  outerIndent: string,
+  innerIndent: string
+): string | null {
+  const outerConfig = parseObjectLiteral(outer);
+  const innerConfig = parseObjectLiteral(inner);
+  if (!outerConfig || !innerConfig) return null;
+
+  const normalize = (value: string) => value.replace(/\s+/g, ' ');
+  const outerKey = `${outerIndent}  `;
+  const innerKey = `${innerIndent}  `;
+  let merged = outer;
+  const added: string[] = [];
+
+  for (const [key, value] of Object.entries(innerConfig)) {
+    const current = outerConfig[key];
+    if (current === undefined) {
+      added.push(
+        `${outerKey}${key}: ${value
+          .split('\n')
+          .map((line, index) => (index === 0 ? line : outerKey + line.slice(innerKey.length)))
+          .join('\n')},`
+      );
+      continue;
+    }
+    if (normalize(current) === normalize(value)) continue;
+
+    // Only objects written across lines take more keys
+    const entry = `\n${outerKey}${key}: ${current}`;
+    const nested =
+      current.includes('\n') && value.includes('\n') && merged.includes(entry)
+        ? mergeConfigLiterals(current, value, outerKey, innerKey)
+        : null;
+    if (!nested) return null;
+    merged = merged.replace(entry, () => `\n${outerKey}${key}: ${nested}`);
+  }
+
+  const closing = merged.lastIndexOf('\n');
+  return [merged.slice(0, closing), ...added].join('\n') + merged.slice(closing);
+}
+
+/**
+ * Keep only the children of a wrapper element, one indentation level shallower - `nested` when
+ * the wrapper is itself a child element, where several children need no fragment
+ */
+function unwrapChildren(children: string, column: string, nested = false): string {
+  const indent = children.match(/\n([ \t]*)$/)?.[1] ?? column;
+  const trimmed = children.trim();
+  const topLevel = trimmed
+    .split('\n')
+    .filter(
+      (line, index) =>
+        index === 0 ||
+        (line.startsWith(`${indent}  `) && /^[<{]/.test(line.slice(indent.length + 2)))
+    );
+
+  // A fragment keeps the children where they were, a single child moves up one level
+  return topLevel.length > 1 && !nested
+    ? `<>\n${indent}  ${trimmed}\n${indent}</>`
+    : trimmed.split(`\n${indent}  `).join(`\n${indent}`);
+}
+
+/**
+ * Put ParaProvider inside an existing wrapper such as WagmiProvider
+ */
+function wrapChildrenWithParaProvider(
+  sdk: ParaSdkManifest,
+  provider: ProviderUsage,
+  config: string,
+  wrappers: string[] = []
+): string {
+  const indent = provider.children.match(/\n([ \t]*)$/)?.[1] ?? provider.indent ?? '';
+  const paraProvider = renderParaProvider(
+    sdk,
+    config,
+    provider.children.replace(/\n/g, '\n  '),
+    `${indent}  `,
+    wrappers
+  );
+
+  return provider.source.replace(provider.children, `\n${indent}  ${paraProvider}\n${indent}`);
+}
+
+/**
+ * Put ParaProvider around an existing provider tree such as WagmiProvider
+ */
+function wrapWithParaProvider(
+  sdk: ParaSdkManifest,
+  provider: ProviderUsage,
+  config: string,
+  wrappers: string[] = []
+): string {
+  const indent = provider.indent ?? provider.source.match(/\n([ \t]*)\S[^\n]*$/)?.[1] ?? '';
+  return renderParaProvider(
+    sdk,
+    config,
+    `\n${indent}  ${provider.source.replace(/\n/g, '\n  ')}\n${indent}`,
+    '',
+    wrappers
+  );
+}
+
+/**
+ * Split a hook's destructured properties across replacement hooks
+ * `properties` maps each old property to [new hook, new property]; calls of the names bound
+ * to `dropArguments` properties lose their arguments. Also handles `const x = useHook()`
+ * when every read is `x.<property>` of one replacement hook. Returns null for anything else.
+ */
+function splitHookProperties(
+  hook: HookUsage,
+  properties: Record<string, [string, string]>,
+  dropArguments: string[] = []
+): HookRewrite | null {
+  const semicolon = hook.usage.trim().endsWith(';') ? ';' : '';
+  const references = hook.references ?? [];
+  const operations: ReplacementOperation[] = [];
+
+  const local = hook.usage.match(/^(?:const|let)\s+([\w$]+)\s*=\s*[\w$]+\(\)\s*;?$/)?.[1];
+  if (local) {
+    const reads = references.map((r) => r.expression.match(/^[\w$]+(\??\.)([\w$]+)/));
+    const hooks = new Set(reads.map((read) => (read && properties[read[2]]?.[0]) ?? null));
+    if (reads.length === 0 || hooks.size !== 1 || hooks.has(null)) {
+      return null;
+    }
+
+    references.forEach((reference, index) => {
+      const [access, dot, property] = reads[index]!;
+      const key = properties[property][1];
+      if (key !== property) {
+        operations.push(
+          rewriteReference(
+            hook,
+            reference,
+            `${local}${dot}${key}${reference.expression.slice(access.length)}`
+          )
+        );
+      }
+    });
+
+    const [newHook] = [...hooks] as string[];
+    return {
+      usage: hook.usage.replace(`${hook.hook}()`, `${newHook}()`),
+      hooks: [newHook],
+      references: operations,
+    };
+  }
+
+  const destructuring = hook.usage.match(/^(?:const|let)\s*\{([^}]*)\}\s*=\s*[\w$]+\(\)\s*;?$/);
+  if (!destructuring) return null;
+
+  const bindings = destructuring[1]
+    .split(',')
+    .map((element) => element.trim())
+    .filter(Boolean)
+    .map((element): [string, string] => {
+      const [property, name] = element.split(/\s*:\s*/);
+      return [property, name ?? property];
+    });
+  if (bindings.some(([property]) => !properties[property])) return null;
+
+  const destructured = new Map<string, string[]>();
+  const dropped: HookReference[] = [];
+  for (const [property, name] of bindings) {
+    const [newHook, key] = properties[property];
+    destructured.set(newHook, [
+      ...(destructured.get(newHook) ?? []),
+      key === name ? key : `${key}: ${name}`,
+    ]);
+
+    if (dropArguments.includes(key)) {
+      for (const reference of references.filter(
+        (r) => r.name === name && /^[\w$]+\([\s\S]+\)$/.test(r.expression)
+      )) {
+        operations.push(rewriteReference(hook, reference, `${name}()`));
+        dropped.push(reference);
+      }
+    }
+  }
+
+  const statements = [...destructured].map(
+    ([newHook, names]) => `const { ${names.join(', ')} } = ${newHook}()${semicolon}`
+  );
+
+  return {
+    // Hooks sit at the top of a component body - one indentation level deep
+    usage: statements.join('\n  '),
+    hooks: [...destructured.keys()],
+    references: operations,
+    argumentReview: getDroppedArgumentsReview(hook, dropped),
+  };
+}
+
+/**
+ * Rewrite a hook call site and every read of its result with a codemod
+ * Handles `const { a, b: c } = useHook()` and `const x = useHook()` read as `x.a`. Returns
+ * why the call site cannot be converted safely when a read has no entry in the codemod.
+ */
+function runHookCodemod(hook: HookUsage, codemod: HookCodemod): HookRewrite | string {
+  const semicolon = hook.usage.trim().endsWith(';') ? ';' : '';
+  const references = hook.references ?? [];
+  const object = hook.usage.match(/^(?:const|let)\s+([\w$]+)\s*=\s*[\w$]+\(\)\s*;?$/)?.[1];
+  const pattern = hook.usage.match(/^(?:const|let)\s*\{([^}]*)\}\s*=\s*[\w$]+\(\)\s*;?$/)?.[1];
+
+  // Old property -> the name it was destructured as, and what follows it in each read
+  const reads = new Map<string, { alias?: string; tails: Array<[HookReference, string]> }>();
+  if (object) {
+    for (const reference of references) {
+      const access = reference.expression.match(/^[\w$]+(?:\?\.|!?\.)([\w$]+)/);
+      if (!access) return `\`${reference.expression}\` uses the whole ${hook.hook}() result`;
+
+      const read = reads.get(access[1]) ?? { tails: [] };
+      read.tails.push([reference, reference.expression.slice(access[0].length)]);
+      reads.set(access[1], read);
+    }
+  } else if (pattern !== undefined) {
+    for (const element of pattern
+      .split(',')
+      .map((e) => e.trim())
+      .filter(Boolean)) {
+      const binding = element.match(/^([\w$]+)(?:\s*:\s*([\w$]+))?$/);
+      if (!binding) return `the destructuring pattern \`${element}\` is not supported`;
+
+      const [, property, alias] = binding;
+      const local = alias ?? property;
+      reads.set(property, {
+        alias,
+        tails: references
+          .filter((r) => r.name === local)
+          .map((r): [HookReference, string] => [r, r.expression.slice(local.length)]),
+      });
+    }
+  } else {
+    return `${hook.hook}() is called with arguments or its result is not assigned`;
+  }
+
+  const destructured = new Map<string, Set<string>>(); // new hook -> destructured names
+  const helpers = new Map<string, string>(); // local -> value derived from a destructured one
+  const locals = new Map<string, string>(); // local -> what it holds, to catch clashing names
+  const operations: ReplacementOperation[] = [];
+  const dropped: HookReference[] = []; // calls whose arguments the new hook does not take
+
+  const declare = (local: string, value: string): boolean => {
+    if (locals.has(local) && locals.get(local) !== value) return false;
+    locals.set(local, value);
+    return true;
+  };
+  const bind = (codemodEntry: HookPropertyCodemod, local: string): boolean => {
+    const { hook: newHook, key, derive } = codemodEntry;
+    // `data` is named after the hook, e.g. `const { data: wallet } = useWallet()`
+    const name = derive
+      ? key === 'data'
+        ? newHook[3].toLowerCase() + newHook.slice(4)
+        : key
+      : local;
+    const names = destructured.get(newHook) ?? new Set<string>();
+    names.add(name === key ? key : `${key}: ${name}`);
+    destructured.set(newHook, names);
+
+    if (!declare(name, `${newHook}().${key}`)) return false;
+    if (!derive) return true;
+    helpers.set(local, derive(name));
+    return declare(local, derive(name));
+  };
+  const rewrite = (reference: HookReference, newValue: string) => {
+    if (newValue !== reference.expression) {
+      operations.push(rewriteReference(hook, reference, newValue));
+    }
+  };
+
+  for (const [property, { alias, tails }] of reads) {
+    const direct = codemod[property];
+    if (direct) {
+      const local = alias ?? (direct.derive ? property : (direct.name ?? direct.key));
+      if (!bind(direct, local)) return `\`${local}\` would be declared twice`;
+
+      for (const [reference, tail] of tails) {
+        const drops = direct.dropArguments && /^\([\s\S]+\)$/.test(tail);
+        if (drops) dropped.push(reference);
+        rewrite(reference, `${local}${drops ? '()' : tail}`);
+      }
+      continue;
+    }
+
+    // Member paths below the property, e.g. `user.wallet.address`
+    const paths = Object.keys(codemod)
+      .filter((key) => key.startsWith(`${property}.`) || key.startsWith(`${property}[`))
+      .map((key): [string, RegExp] => [
+        key,
+        new RegExp(
+          `^${key
+            .slice(property.length)
+            .replace(/\.([\w$]+)|\[(\d+)\]/g, (_, name: string, index: string) =>
+              name ? `(?:\\?\\.|!?\\.)${name}` : `(?:\\?\\.)?!?\\[${index}\\]`
+            )}(?![\\w$])`
+        ),
+      ]);
+    if (paths.length === 0) return `\`${property}\` has no Para equivalent`;
+
+    for (const [reference, tail] of tails) {
+      const match = paths
+        .map(([key, path]) => [key, tail.match(path)?.[0]] as const)
+        .find(([, access]) => access !== undefined);
+      if (!match) return `\`${reference.expression}\` has no Para equivalent`;
+
+      const [key, access] = match;
+      const entry = codemod[key];
+      const local =
+        entry.name ??
+        key
+          .split(/[.[\]]/)
+          .filter(Boolean)
+          .pop()!;
+      if (!bind(entry, local)) return `\`${local}\` would be declared twice`;
+
+      const rest = tail.slice(access!.length);
+      rewrite(
+        reference,
+        `${local}${access!.includes('?.') && rest.startsWith('.') ? '?' : ''}${rest}`
+      );
+    }
+  }
+
+  const statements = [
+    ...[...destructured].map(
+      ([newHook, names]) => `const { ${[...names].join(', ')} } = ${newHook}()${semicolon}`
+    ),
+    ...[...helpers].map(([local, value]) => `const ${local} = ${value}${semicolon}`),
+  ];
+  if (statements.length === 0) return `the ${hook.hook}() result is never read`;
+
+  return {
+    // Hooks sit at the top of a component body - one indentation level deep
+    usage: statements.join('\n  '),
+    hooks: [...destructured.keys()],
+    references: operations,
+    argumentReview: getDroppedArgumentsReview(hook, dropped),
+  };
+}
+
+/**
+ * Review item for calls a codemod rewrote without their arguments, e.g. `open({ view: 'Networks' })`
+ * -> `openModal()` - the call may no longer do what it did
+ */
+function getDroppedArgumentsReview(
+  hook: HookUsage,
+  dropped: HookReference[]
+): ValidationIssue | undefined {
+  if (dropped.length === 0) return undefined;
+
+  return {
+    severity: 'warning',
+    code: 'HOOK_NEEDS_REVIEW',
+    message: `${dropped.map((r) => `\`${r.expression}\``).join(', ')} ${
+      dropped.length === 1 ? 'loses its' : 'lose their'
+    } arguments - the Para replacement for ${hook.hook}() takes none`,
+    file: hook.file,
+    line: dropped[0].line,
+    fix: 'Check each call still does what it did, e.g. opens the same modal view',
+  };
+}
+
+/**
+ * Hooks that replace each hook imported by `importUsage`, from its call sites in that file
+ */
+function getMigratedHookImports(
+  importUsage: FileImport,
+  hookMigrations: Map<HookUsage, HookMigration>
+): Record<string, string> {
+  const hooks = new Map<string, Set<string>>();
+  for (const [hook, migration] of hookMigrations) {
+    if (hook.file !== importUsage.file || hook.from !== importUsage.from) continue;
+    hooks.set(hook.hook, new Set([...(hooks.get(hook.hook) ?? []), ...migration.hooks]));
+  }
+
+  return Object.fromEntries([...hooks].map(([hook, names]) => [hook, [...names].join(', ')]));
+}
+
+/**
+ * Hooks of an import that keep their original source because a call site was not converted
+ */
+function getKeptHooks(
+  importUsage: FileImport,
+  hookMigrations: Map<HookUsage, HookMigration>
+): Array<{ imported: string; local: string }> {
+  const kept = [...hookMigrations]
+    .filter(([hook, migration]) => migration.review && hook.file === importUsage.file)
+    .map(([hook]) => hook);
+
+  return (getNamedSpecifiers(importUsage.import) ?? []).filter(({ imported }) =>
+    kept.some((hook) => hook.hook === imported && hook.from === importUsage.from)
+  );
+}
+
+/**
+ * Migrate one hook call site with its codemod
+ * Call sites the codemod cannot convert stay on the old hook and are reported for review
+ */
+function migrateHookCallSite(
+  hook: HookUsage,
+  codemod: HookCodemod | undefined,
+  fallbackHook: string
+): HookMigration {
+  const rewrite = codemod ? runHookCodemod(hook, codemod) : `${hook.hook}() has no codemod`;
+  const hookOperation = (newValue: string): ReplacementOperation => ({
+    id: `replace-hook-${hook.file}-${hook.line}`,
+    type: 'hook',
+    file: hook.file,
+    line: hook.line,
+    oldValue: hook.usage,
+    newValue,
+    critical: false, // hooks can be updated gradually
+  });
+
+  if (typeof rewrite !== 'string') {
+    return {
+      // Reads first, while the call site still spans the lines they were recorded against
+      operations: [...rewrite.references, hookOperation(rewrite.usage)],
+      hooks: rewrite.hooks,
+      argumentReview: rewrite.argumentReview,
+    };
+  }
+
+  return {
+    operations: [],
+    hooks: [],
+    reason: rewrite,
+    review: {
+      severity: 'warning',
+      code: 'HOOK_NEEDS_REVIEW',
+      message: `${hook.hook}() stays imported from ${hook.from} - ${rewrite}`,
+      file: hook.file,
+      line: hook.line,
+      fix: `Rewrite the reads of the ${hook.hook}() result against ${fallbackHook}()`,
+    },
+  };
+}
+
+/**
+ * Call sites left on their old hook and converted calls that lost their arguments
+ */
+function getHookMigrationReviews(hookMigrations: Map<HookUsage, HookMigration>): ValidationIssue[] {
+  return [...hookMigrations.values()].flatMap((m) =>
+    [m.review, m.argumentReview].filter((issue): issue is ValidationIssue => !!issue)
+  );
+}
+
+/**
+ * Para stand-in for the connect button of a modal library
+ * `custom` adds the `.Custom` render-prop form of that library, backed by wagmi's useAccount
+ */
+function generateConnectButton(
+  sdk: ParaSdkManifest,
+  typescript: boolean,
+  custom?: 'connectkit' | 'rainbowkit'
+): string {
+  const imports = [
+    ...(custom && typescript ? ["import type { ReactNode } from 'react';"] : []),
+    ...(custom ? ["import { useAccount } from 'wagmi';"] : []),
+    `import { useModal } from '${sdk.packages.react}';`,
+  ];
+
+  const button = `/**
+ * Drop-in replacement for wallet library connect buttons - opens the Para modal
+ * Props specific to the replaced button (client, theme, ...) are accepted and ignored
+ */
+export function ParaConnectButton({ label = 'Connect Wallet' }${
+    typescript ? ': { label?: string; [prop: string]: unknown }' : ''
+  }) {
+  const { openModal } = useModal();
+
+  return (
+    <button type="button" onClick={() => openModal()}>
+      {label}
+    </button>
+  );
+}
+`;
+
+  if (!custom) {
+    return `${imports.join('\n')}\n\n${button}`;
+  }
+  if (custom === 'rainbowkit') {
+    return `${imports.join('\n')}\n\n${button}${generateRainbowKitCustom(typescript)}`;
+  }
+
+  const renderProps = typescript
+    ? `
+export interface ParaConnectButtonRenderProps {
+  isConnected: boolean;
+  isConnecting: boolean;
+  show: () => void;
+  hide: () => void;
+  address?: string;
+  truncatedAddress?: string;
+  ensName?: string;
+  chain?: ReturnType<typeof useAccount>['chain'];
+}
+`
+    : '';
+  const childrenType = typescript
+    ? ': { children: (props: ParaConnectButtonRenderProps) => ReactNode }'
+    : '';
+
+  return `${imports.join('\n')}
+
+${button}${renderProps}
+/**
+ * Render-prop form - passes the same arguments as ConnectKitButton.Custom
+ */
+ParaConnectButton.Custom = function Custom({ children }${childrenType}) {
+  const { openModal, closeModal } = useModal();
+  const { address, isConnected, isConnecting, chain } = useAccount();
+  const truncatedAddress = address ? \`\${address.slice(0, 6)}…\${address.slice(-4)}\` : undefined;
+
+  return (
+    <>
+      {children({
+        isConnected,
+        isConnecting,
+        show: () => openModal(),
+        hide: () => closeModal(),
+        address,
+        truncatedAddress,
+        ensName: undefined,
+        chain,
+      })}
+    </>
+  );
+};
+`;
+}
+
+/**
+ * `ParaConnectButton.Custom` with the render props of RainbowKit's ConnectButton.Custom
+ * Every modal opener opens the Para modal, which covers account and network switching
+ */
+function generateRainbowKitCustom(typescript: boolean): string {
+  const renderProps = typescript
+    ? `
+export interface ParaConnectButtonRenderProps {
+  account?: { address: string; displayName: string; hasPendingTransactions: boolean };
+  chain?: { id: number; name?: string; hasIcon: boolean; unsupported?: boolean };
+  mounted: boolean;
+  openAccountModal: () => void;
+  openChainModal: () => void;
+  openConnectModal: () => void;
+  accountModalOpen: boolean;
+  chainModalOpen: boolean;
+  connectModalOpen: boolean;
+}
+`
+    : '';
+  const childrenType = typescript
+    ? ': { children: (props: ParaConnectButtonRenderProps) => ReactNode }'
+    : '';
+
+  return `${renderProps}
+/**
+ * Render-prop form - passes the same arguments as RainbowKit's ConnectButton.Custom
+ */
+ParaConnectButton.Custom = function Custom({ children }${childrenType}) {
+  const { openModal, isOpen } = useModal();
+  const { address, isConnected, chain } = useAccount();
+
+  return (
+    <>
+      {children({
+        account:
+          isConnected && address
+            ? {
+                address,
+                displayName: \`\${address.slice(0, 6)}…\${address.slice(-4)}\`,
+                hasPendingTransactions: false,
+              }
+            : undefined,
+        chain: chain ? { id: chain.id, name: chain.name, hasIcon: false } : undefined,
+        mounted: true,
+        openAccountModal: () => openModal(),
+        openChainModal: () => openModal(),
+        openConnectModal: () => openModal(),
+        accountModalOpen: isOpen,
+        chainModalOpen: isOpen,
+        connectModalOpen: isOpen,
+      })}
+    </>
+  );
+};
+`;
+}
+
+/**
+ * URL path a Next.js route file serves, e.g. `src/app/api/siwe/nonce/route.ts` -> `/api/siwe/nonce`
+ */
+function getRouteUrl(file: string): string {
+  const url = file
+    .match(/(?:^|\/)(?:app|pages)(\/.*)$/)![1]
+    .replace(/\/route\.[jt]s$|(\/index)?\.[jt]s$/, '')
+    .replace(/\/\([^/]*\)/g, ''); // route groups
+
+  return url || '/';
+}
+
+/**
+ * SIWE keeps the createSIWEConfig callbacks - only their import moves, onto a generated module
+ * whose useParaSiwe hook signs with wagmi's useSignMessage. Server routes the callbacks call
+ * are reported as needing no changes, and helpers the module does not export, such as the
+ * verifySignature of a NextAuth route, keep their import of the SIWE package.
+ */
+function migrateSiwe(
+  state: ProjectState,
+  siweImports: FileImport[]
+): { operations: ReplacementOperation[]; reviews: ValidationIssue[] } {
+  const operations: ReplacementOperation[] = [];
+  const reviews: ValidationIssue[] = [];
+  const configs = state.providers.filter(
+    (p) => p.provider === 'createSIWEConfig' && siweImports.some((i) => i.file === p.file)
+  );
+  const siweFile = configs[0]
+    ? getGeneratedFile(
+        configs[0].file,
+        `useParaSiwe${/\.tsx?$/.test(configs[0].file) ? '.ts' : '.js'}`,
+        'hooks'
+      )
+    : null;
+
+  if (siweFile) {
+    operations.push({
+      id: 'add-para-siwe',
+      type: 'file',
+      file: siweFile,
+      oldValue: '',
+      newValue: generateSiweModule(siweFile.endsWith('.ts')),
+      critical: true,
+    });
+
+    for (const dep of ['wagmi', 'viem'].filter((d) => !(d in state.dependencies))) {
+      operations.push({
+        id: `add-${dep}`,
+        type: 'dependency',
+        oldValue: '',
+        newValue: dep,
+        critical: true,
+      });
+    }
+  }
+
+  for (const config of configs) {
+    reviews.push({
+      severity: 'warning',
+      code: 'SIWE_SIGN_IN',
+      message: 'Para does not run Sign-In With Ethereum on connect',
+      file: config.file,
+      line: config.line,
+      fix: `Call signIn() from useParaSiwe(siweConfig) in ${siweFile} once a wallet is connected`,
+    });
+  }
+
+  // Server routes cannot import the generated module - it uses React hooks
+  for (const importUsage of siweImports) {
+    const names = (getNamedSpecifiers(importUsage.import) ?? []).map(({ imported }) =>
+      imported.replace(/^type\s+/, '')
+    );
+    const unsupported =
+      siweFile && !SERVER_ROUTE.test(importUsage.file)
+        ? names.filter((name) => !SIWE_EXPORTS.includes(name))
+        : names;
+
+    if (unsupported.length > 0 || !getNamedSpecifiers(importUsage.import)) {
+      reviews.push({
+        severity: 'warning',
+        code: 'SIWE_HELPER_USED',
+        message: `${unsupported.join(', ') || importUsage.import} from ${importUsage.from} has no Para equivalent`,
+        file: importUsage.file,
+        line: importUsage.line,
+        fix: 'Parse and verify SIWE messages with parseSiweMessage and verifySiweMessage from viem/siwe',
+      });
+    }
+
+    // Helpers without a stand-in stay on the package, which stays installed for them
+    if (!siweFile || unsupported.length === names.length) continue;
+
+    const keep = (kept: string[]) =>
+      Object.fromEntries(
+        names
+          .filter((name) => !kept.includes(name))
+          .flatMap((name) => [
+            [name, ''],
+            [`type ${name}`, ''],
+          ])
+      );
+    const moved = names.filter((name) => !unsupported.includes(name));
+
+    operations.push({
+      id: `replace-import-${importUsage.file}-${importUsage.line}`,
+      type: 'import',
+      file: importUsage.file,
+      line: importUsage.line,
+      oldValue: importUsage.import,
+      newValue: [
+        rewriteImport(importUsage.import, keep(moved), relativeImport(importUsage.file, siweFile)),
+        unsupported.length > 0
+          ? rewriteImport(importUsage.import, keep(unsupported), importUsage.from)
+          : '',
+      ]
+        .filter(Boolean)
+        .join('\n'),
+      critical: true,
+    });
+  }
+
+  // Para wallets sign the same EIP-4361 message - the nonce, verify and session routes stay
+  const callbacks = configs.map((config) => config.source).join('\n');
+  const usesNextAuth = configs.some((config) =>
+    state.imports.some((i) => i.file === config.file && i.from.startsWith('next-auth'))
+  );
+  const routes = [...new Set(state.imports.map((i) => i.file))].filter(
+    (file) => SERVER_ROUTE.test(file) && !siweImports.some((i) => i.file === file)
+  );
+
+  for (const route of routes) {
+    const url = getRouteUrl(route);
+    const served = url.includes('[...nextauth]')
+      ? usesNextAuth
+      : new RegExp(`${url.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\w/-])`).test(callbacks);
+
+    if (served) {
+      reviews.push({
+        severity: 'info',
+        code: 'SIWE_SERVER_ROUTE',
+        message: `${url} serves Sign-In With Ethereum and needs no changes`,
+        file: route,
+      });
+    }
+  }
+
+  return { operations, reviews };
+}
+
+/**
+ * Stand-in for the SIWE package: createSIWEConfig and formatMessage, plus a hook that runs the
+ * sign-in the modal used to run on connect
+ */
+function generateSiweModule(typescript: boolean): string {
+  const types = typescript
+    ? `
+export interface SIWESession {
+  address: string;
+  chainId: number;
+}
+
+export interface SIWECreateMessageArgs {
+  address: string; // CAIP-10, e.g. eip155:1:0x...
+  chainId: number;
+  domain: string;
+  uri: string;
+  nonce: string;
+  version: '1';
+  statement?: string;
+  iat?: string;
+}
+
+export interface SIWEVerifyMessageArgs {
+  message: string;
+  signature: string;
+}
+
+export interface SIWEConfig {
+  getMessageParams?: () => Promise<{ domain: string; uri: string; statement?: string }>;
+  createMessage?: (args: SIWECreateMessageArgs) => string;
+  getNonce: (address?: string) => Promise<string>;
+  verifyMessage: (args: SIWEVerifyMessageArgs) => Promise<boolean>;
+  getSession: () => Promise<SIWESession | null>;
+  signOut: () => Promise<boolean>;
+  [option: string]: unknown;
+}
+`
+    : '';
+  const type = (annotation: string) => (typescript ? annotation : '');
+
+  return `import { useCallback } from 'react';
+import { createSiweMessage } from 'viem/siwe';
+import { useAccount, useSignMessage } from 'wagmi';
+${types}
+/**
+ * Keeps the nonce, verify, session and sign-out callbacks as they were written
+ */
+export function createSIWEConfig(config${type(': SIWEConfig')})${type(': SIWEConfig')} {
+  return config;
+}
+
+/**
+ * EIP-4361 message - the format the modal library's formatMessage produced
+ */
+export function formatMessage(args${type(": Omit<SIWECreateMessageArgs, 'address'>")}, address${type(': string')})${type(': string')} {
+  return createSiweMessage({
+    address: address.split(':').pop()${type(' as `0x${string}`')},
+    chainId: args.chainId,
+    domain: args.domain,
+    uri: args.uri,
+    nonce: args.nonce,
+    version: args.version,
+    statement: args.statement,
+    issuedAt: args.iat ? new Date(args.iat) : undefined,
+  });
+}
+
+/**
+ * Sign-In With Ethereum for the connected Para wallet, using the app's SIWE callbacks
+ */
+export function useParaSiwe(config${type(': SIWEConfig')}) {
+  const { address, chainId } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+
+  const signIn = useCallback(async () => {
+    if (!address || !chainId) throw new Error('Connect a wallet before signing in');
+
+    const params = await config.getMessageParams?.();
+    const args = {
+      address: \`eip155:\${chainId}:\${address}\`,
+      chainId,
+      domain: params?.domain ?? window.location.host,
+      uri: params?.uri ?? window.location.origin,
+      nonce: await config.getNonce(address),
+      version: '1'${type(' as const')},
+      statement: params?.statement,
+      iat: new Date().toISOString(),
+    };
+    const message = config.createMessage ? config.createMessage(args) : formatMessage(args, args.address);
+    const signature = await signMessageAsync({ message });
+
+    if (!(await config.verifyMessage({ message, signature }))) {
+      throw new Error('SIWE message verification failed');
+    }
+    return config.getSession();
+  }, [address, chainId, config, signMessageAsync]);
+
+  return { signIn, signOut: config.signOut, getSession: config.getSession };
+}
+`;
+}
+
+/**
+ * Privy to Para Replacement Strategy
+ * Complete replacement approach - no compatibility layer
+ */
+export class PrivyToParaStrategy implements ReplacementStrategy {
+  strategy = MigrationStrategy.PRIVY_TO_PARA;
+
+  // Privy hook -> codemod for its call sites; reads without an entry are left for review
+  private static readonly HOOK_CODEMODS: Record<string, HookCodemod> = {
+    usePrivy: {
+      ready: { hook: 'useAccount', key: 'isLoading', derive: (isLoading) => `!${isLoading}` },
+      authenticated: {
+        hook: 'useAccount',
+        key: 'data',
+        derive: (account) => `!!${account}?.isConnected`,
+      },
+      login: { hook: 'useModal', key: 'openModal', dropArguments: true },
+      connectWallet: { hook: 'useModal', key: 'openModal', dropArguments: true },
+      logout: { hook: 'useLogout', key: 'logoutAsync' },
+      'user.wallet.address': {
+        hook: 'useWallet',
+        key: 'data',
+        name: 'address',
+        derive: (wallet) => `${wallet}?.address`,
+      },
+    },
+    useWallets: {
+      ready: { hook: 'useAccount', key: 'isLoading', derive: (isLoading) => `!${isLoading}` },
+      'wallets[0].address': {
+        hook: 'useWallet',
+        key: 'data',
+        name: 'address',
+        derive: (wallet) => `${wallet}?.address`,
+      },
+    },
+    useLogin: {
+      login: { hook: 'useModal', key: 'openModal', dropArguments: true },
+    },
+    useLogout: {
+      logout: { hook: 'useLogout', key: 'logoutAsync' },
+    },
+  };
+
+  // Privy loginMethods -> Para OAuth methods; email and sms toggle Para's own login fields
+  private static readonly OAUTH_METHODS: Record<string, string> = {
+    google: 'GOOGLE',
+    twitter: 'TWITTER',
+    discord: 'DISCORD',
+    apple: 'APPLE',
+    farcaster: 'FARCASTER',
+    telegram: 'TELEGRAM',
+  };
+
+  // Privy externalWallets keys -> Para external wallets
+  private static readonly EXTERNAL_WALLETS: Record<string, string> = {
+    coinbaseWallet: 'COINBASE',
+    walletConnect: 'WALLETCONNECT',
+  };
+
+  // Privy config values that need more than a configMapping path
+  private static readonly CONFIG_TRANSFORMS: Record<string, ConfigTransform> = {
+    'config.loginMethods': (value) => {
+      const methods = parseStringList(value);
+      if (!methods) return null;
+
+      const oAuthMethods = methods.filter((m) => m in PrivyToParaStrategy.OAUTH_METHODS);
+      const layout = methods.flatMap((m) => {
+        if (m === 'wallet') return ['EXTERNAL:FULL'];
+        return m === 'email' || m === 'sms' || oAuthMethods.includes(m) ? ['AUTH:FULL'] : [];
+      });
+
+      return {
+        config: {
+          'paraModalConfig.oAuthMethods': `[${oAuthMethods
+            .map((m) => `"${PrivyToParaStrategy.OAUTH_METHODS[m]}"`)
+            .join(', ')}]`,
+          ...(methods.includes('email') ? {} : { 'paraModalConfig.disableEmailLogin': 'true' }),
+          ...(methods.includes('sms') ? {} : { 'paraModalConfig.disablePhoneLogin': 'true' }),
+          'paraModalConfig.authLayout': `[${[...new Set(layout)].map((l) => `"${l}"`).join(', ')}]`,
+        },
+        unmapped: methods.filter(
+          (m) => !['email', 'sms', 'wallet'].includes(m) && !oAuthMethods.includes(m)
+        ),
+      };
+    },
+    'config.appearance.theme': (value) => {
+      // Privy takes 'light', 'dark' or a background color
+      const theme = value.match(/^(['"`])(.*)\1$/)?.[2] ?? '';
+      const key =
+        theme === 'light' || theme === 'dark'
+          ? 'mode'
+          : /^#[0-9a-f]{3,8}$/i.test(theme)
+            ? 'backgroundColor'
+            : null;
+      return key ? { config: { [`paraModalConfig.theme.${key}`]: value } } : null;
+    },
+    'config.embeddedWallets.createOnLogin': (value) => PrivyToParaStrategy.createOnLogin(value),
+    'config.embeddedWallets.ethereum.createOnLogin': (value) =>
+      PrivyToParaStrategy.createOnLogin(value),
+    'config.defaultChain': (value, siblings) =>
+      // supportedChains puts the default chain first
+      siblings.supportedChains ? { config: {} } : renderChainConfig(`[${value}]`),
+    'config.supportedChains': (value, siblings) => renderChainConfig(value, siblings.defaultChain),
+    'config.externalWallets': (value) => {
+      const externalWallets = parseObjectLiteral(value);
+      if (!externalWallets) return null;
+
+      const wallets: string[] = [];
+      const unmapped: string[] = [];
+      for (const [key, options] of Object.entries(externalWallets)) {
+        const wallet = PrivyToParaStrategy.EXTERNAL_WALLETS[key];
+        if (!wallet) {
+          unmapped.push(key);
+        } else if (!/\benabled\s*:\s*false\b/.test(options)) {
+          wallets.push(wallet);
+        }
+      }
+
+      const config: Record<string, string> = {};
+      if (wallets.length > 0) {
+        config['externalWalletConfig.wallets'] = `[${wallets.map((w) => `"${w}"`).join(', ')}]`;
+      }
+      return { config, unmapped };
+    },
+  };
+
+  private reviews: ValidationIssue[] = [];
+  private conflicts: ValidationIssue[] = [];
+
+  constructor(private sdk: ParaSdkManifest = getParaSdkManifest()) {}
+
+  async execute(state: ProjectState): Promise<ReplacementOperation[]> {
+    const operations: ReplacementOperation[] = [];
+    this.reviews = [];
+    this.conflicts = [];
+
+    // Provider configs are translated up front - translated chains need wagmi's http transport
+    const providerOperations = state.providers
+      .filter((p) => p.provider === 'PrivyProvider')
+      .map(
+        (provider): ReplacementOperation => ({
+          id: `replace-provider-${provider.file}-${provider.line}`,
+          type: 'provider',
+          file: provider.file,
+          line: provider.line,
+          oldValue: provider.source,
+          newValue: this.generateParaProvider(provider, state),
+          critical: true,
+        })
+      );
+    const transportFiles = new Set(
+      providerOperations.filter((op) => /\bhttp\(\)/.test(op.newValue)).map((op) => op.file)
+    );
+
+    // Hook codemods run first - the imports follow the hooks they produce
+    const hookMigrations = new Map<HookUsage, HookMigration>();
+    for (const hook of state.hooks.filter((h) => h.from.includes('privy'))) {
+      const newHook = this.getHookReplacement(hook.hook);
+      if (newHook) {
+        hookMigrations.set(
+          hook,
+          migrateHookCallSite(hook, PrivyToParaStrategy.HOOK_CODEMODS[hook.hook], newHook)
+        );
+      }
+    }
+
+    // PrivyProvider is replaced - a call site left on its Privy hook would throw on render
+    for (const [hook, migration] of hookMigrations) {
+      if (migration.argumentReview) this.reviews.push(migration.argumentReview);
+      if (!migration.review) continue;
+
+      this.conflicts.push({
+        ...migration.review,
+        severity: 'critical',
+        message: `${hook.hook}() cannot run once PrivyProvider is replaced - ${migration.reason}`,
+        fix: `${migration.review.fix}, then re-run the migration`,
+      });
+    }
+
+    // 1. Remove Privy dependencies that are actually installed (CRITICAL)
+    const privyDependencies: Record<string, string> = {
+      '@privy-io/react-auth': 'remove-privy-deps',
+      '@privy-io/wagmi': 'remove-privy-wagmi',
+    };
+
+    for (const [dep, id] of Object.entries(privyDependencies)) {
+      if (dep in state.dependencies) {
+        operations.push({
+          id,
+          type: 'dependency',
+          oldValue: dep,
+          newValue: '', // remove completely
+          critical: true,
+        });
+      }
+    }
+
+    // 2. Add Para dependency (CRITICAL)
+    operations.push({
+      id: 'add-para-react',
+      type: 'dependency',
+      oldValue: '',
+      newValue: this.sdk.packages.react,
+      critical: true,
+    });
+
+    if (transportFiles.size > 0) {
+      for (const dep of ['wagmi', 'viem'].filter((d) => !(d in state.dependencies))) {
+        operations.push({
+          id: `add-${dep}`,
+          type: 'dependency',
+          oldValue: '',
+          newValue: dep,
+          critical: true,
+        });
+      }
+    }
+
+    // 3. Replace all imports atomically
+    for (const importUsage of state.imports.filter((i) => i.type === 'privy')) {
+      operations.push({
+        id: `replace-import-${importUsage.file}-${importUsage.line}`,
+        type: 'import',
+        file: importUsage.file,
+        line: importUsage.line,
+        oldValue: importUsage.import,
+        newValue: this.getParaImportReplacement(
+          importUsage,
+          hookMigrations,
+          transportFiles.has(importUsage.file) ? state : null
+        ),
+        critical: true,
+      });
+    }
+
+    // 4. Replace provider with ParaProvider + ParaModal (CRITICAL)
+    for (const providerOperation of providerOperations) {
+      operations.push(
+        providerOperation,
+        ...getWrapperSetupOperations(this.sdk, state, {
+          file: providerOperation.file!,
+          source: providerOperation.oldValue,
+        })
+      );
+    }
+
+    // 5. Rewrite hook call sites and the reads of their results
+    for (const migration of hookMigrations.values()) {
+      operations.push(...migration.operations);
+    }
+
+    // 6. Add Para CSS imports (CRITICAL)
+    for (const entryPoint of state.entryPoints) {
+      operations.push({
+        id: `add-para-css-${entryPoint}`,
+        type: 'style',
+        file: entryPoint,
+        oldValue: '',
+        newValue: `import '${this.sdk.css}'`,
+        critical: true,
+      });
+    }
+
+    return operations;
+  }
+
+  getReviewIssues(): ValidationIssue[] {
+    return this.reviews;
+  }
+
+  getConflicts(): ValidationIssue[] {
+    return this.conflicts;
+  }
+
+  async validate(state: ProjectState): Promise<boolean> {
+    // Validate that Privy dependencies are present
+    const hasPrivyAuth = Object.keys(state.dependencies).includes('@privy-io/react-auth');
+    const hasPrivyImports = state.imports.some((i) => i.type === 'privy');
+
+    return hasPrivyAuth || hasPrivyImports;
+  }
+
+  getEstimatedTime(): number {
+    return 180; // 3 minutes for complete Privy replacement
+  }
+
+  /**
+   * `transportState` is passed for files whose ParaProvider config got http transports
+   */
+  private getParaImportReplacement(
+    importUsage: FileImport,
+    hookMigrations: Map<HookUsage, HookMigration>,
+    transportState: ProjectState | null = null
+  ): string {
+    // @privy-io/wagmi re-exports wagmi APIs - point them back at wagmi itself
+    const target = importUsage.from.includes('@privy-io/wagmi') ? 'wagmi' : this.sdk.packages.react;
+
+    const statement = rewriteImport(
+      importUsage.import,
+      {
+        ...HOOK_REPLACEMENT_MAP['privy-to-para'],
+        ...getMigratedHookImports(importUsage, hookMigrations),
+        PrivyProvider: getProviderExports(this.sdk).join(', '),
+      },
+      target
+    );
+    const kept = renderKeptImport(importUsage, getKeptHooks(importUsage, hookMigrations));
+    if (!/\bPrivyProvider\b/.test(importUsage.import)) {
+      return [statement, kept].filter(Boolean).join('\n');
+    }
+
+    const semicolon = importUsage.import.trim().endsWith(';') ? ';' : '';
+    const quote = getQuote(importUsage.import);
+    const hasHttp = transportState?.imports.some(
+      (i) => i.file === importUsage.file && i.from === 'wagmi' && /\bhttp\b/.test(i.import)
+    );
+    return [
+      statement,
+      kept,
+      renderEnvironmentImport(this.sdk, quote, semicolon),
+      transportState && !hasHttp ? `import { http } from ${quote}wagmi${quote}${semicolon}` : '',
+    ]
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  private static createOnLogin(value: string): TransformedConfig | null {
+    // Para always creates an embedded wallet eventually - Privy's 'off' has no equivalent
+    return /^(['"`])(all-users|users-without-wallets)\1$/.test(value)
+      ? { config: { 'embeddedWalletConfig.createOnLogin': value } }
+      : null;
+  }
+
+  private getHookReplacement(privyHook: string): string | null {
+    const replacements = HOOK_REPLACEMENT_MAP['privy-to-para'];
+    return replacements[privyHook as keyof typeof replacements] || null;
+  }
+
+  private generateParaProvider(provider: ProviderUsage, state: ProjectState): string {
+    const client = getParaClientDefaults(this.sdk, state, provider);
+    if (client.review) this.reviews.push(client.review);
+
+    const { config, review } = translateProviderConfig(
+      provider,
+      PROVIDER_REPLACEMENT_MAP['privy-to-para'].configMapping,
+      {
+        ...client.config,
+        'embeddedWalletConfig.createOnLogin': '"all-users"',
+        'embeddedWalletConfig.showWalletUiOnLogin': 'true',
+      },
+      getFileQuote(state, provider.file),
+      apiKeyComment('Privy appId', provider.props.appId),
+      PrivyToParaStrategy.CONFIG_TRANSFORMS
+    );
+    if (review) this.reviews.push(review);
+
+    return renderParaProvider(
+      this.sdk,
+      config,
+      provider.children,
+      provider.indent,
+      getMissingWrappers(this.sdk, state, provider)
+    );
+  }
+}
+
+/**
+ * ReOwn to Para Replacement Strategy
+ */
+export class ReownToParaStrategy implements ReplacementStrategy {
+  strategy = MigrationStrategy.REOWN_TO_PARA;
+
+  // AppKit web components - every one of them opens the Para modal instead
+  private static readonly WEB_COMPONENTS = [
+    'appkit-button',
+    'appkit-connect-button',
+    'appkit-account-button',
+    'appkit-network-button',
+  ];
+
+  // AppKit and Web3Modal hook -> codemod for its call sites; theme and event hooks need review
+  private static readonly HOOK_CODEMODS: Record<string, HookCodemod> = {
+    useAppKit: {
+      open: { hook: 'useModal', key: 'openModal', dropArguments: true }, // no AppKit views
+      close: { hook: 'useModal', key: 'closeModal' },
+    },
+    useAppKitAccount: {
+      address: { hook: 'useWallet', key: 'data', derive: (wallet) => `${wallet}?.address` },
+      isConnected: {
+        hook: 'useAccount',
+        key: 'data',
+        derive: (account) => `!!${account}?.isConnected`,
+      },
+    },
+    useAppKitState: {
+      open: { hook: 'useModal', key: 'isOpen' },
+    },
+  };
+
+  // AppKit features.socials -> Para OAuth methods
+  private static readonly SOCIALS: Record<string, string> = {
+    google: 'GOOGLE',
+    x: 'TWITTER',
+    discord: 'DISCORD',
+    farcaster: 'FARCASTER',
+    apple: 'APPLE',
+    facebook: 'FACEBOOK',
+  };
+
+  // createAppKit options that need more than a configMapping path
+  private static readonly CONFIG_TRANSFORMS: Record<string, ConfigTransform> = {
+    networks: (value, siblings) => renderChainConfig(value, siblings.defaultNetwork),
+    defaultNetwork: (value, siblings) =>
+      // networks puts the default network first
+      siblings.networks ? { config: {} } : renderChainConfig(`[${value}]`),
+    'features.email': (value): TransformedConfig | null => {
+      if (value !== 'true' && value !== 'false') return null;
+      return { config: value === 'false' ? { 'paraModalConfig.disableEmailLogin': 'true' } : {} };
+    },
+    'features.socials': (value) => {
+      if (value === 'false') return { config: { 'paraModalConfig.oAuthMethods': '[]' } };
+
+      const socials = parseStringList(value);
+      if (!socials) return null;
+
+      const methods = socials.filter((social) => social in ReownToParaStrategy.SOCIALS);
+      return {
+        config: {
+          'paraModalConfig.oAuthMethods': `[${methods
+            .map((social) => `"${ReownToParaStrategy.SOCIALS[social]}"`)
+            .join(', ')}]`,
+        },
+        unmapped: socials.filter((social) => !methods.includes(social)),
+      };
+    },
+    themeVariables: translateThemeVariables,
+  };
+
+  private reviews: ValidationIssue[] = [];
+
+  constructor(private sdk: ParaSdkManifest = getParaSdkManifest()) {}
+
+  async execute(state: ProjectState): Promise<ReplacementOperation[]> {
+    const operations: ReplacementOperation[] = [];
+
+    // Hook codemods run first - the imports follow the hooks they produce
+    const hookMigrations = new Map<HookUsage, HookMigration>();
+    for (const hook of state.hooks.filter((h) => this.isReownHook(h.hook))) {
+      const newHook = this.getReownHookReplacement(hook.hook);
+      if (newHook) {
+        const codemod = ReownToParaStrategy.HOOK_CODEMODS[hook.hook.replace('Web3Modal', 'AppKit')];
+        hookMigrations.set(hook, migrateHookCallSite(hook, codemod, newHook));
+      }
+    }
+    this.reviews = getHookMigrationReviews(hookMigrations);
+
+    // createAppKit options are translated once, for the ParaProvider around the wagmi tree
+    const reownImports = state.imports.filter(
+      (i) =>
+        !SIWE_PACKAGES.includes(i.from) &&
+        (i.type === 'reown' || i.from.includes('reown') || i.from.includes('web3modal'))
+    );
+    const appKitCalls = state.providers.filter(
+      (p) =>
+        p.provider === 'createAppKit' &&
+        reownImports.some((i) => i.file === p.file && /\bcreateAppKit\b/.test(i.import))
+    );
+    const wagmiTree = appKitCalls.length > 0 ? this.getWagmiTree(state) : undefined;
+
+    // WagmiAdapter becomes a plain wagmi config - reads of adapter.wagmiConfig move onto it
+    const adapters = state.providers.filter(
+      (p) =>
+        p.provider === 'WagmiAdapter' &&
+        /^(?:export\s+)?(?:const|let|var)\s+[\w$]+\s*=/.test(p.statement ?? '')
+    );
+    const adapterReads = adapters.flatMap((adapter) => this.getAdapterReads(adapter, state));
+    const rewire = (file: string, text: string): string =>
+      adapterReads
+        .filter((read) => read.file === file && read.newValue !== null)
+        .reduce((rewired, read) => rewired.split(read.expression).join(read.newValue!), text);
+
+    const wagmiProvider = state.providers.find((p) => p.provider === 'WagmiProvider');
+    const appKitFile = wagmiTree?.file ?? appKitCalls[0]?.file;
+    const evmConnector = getEvmConnectorConfig(
+      state,
+      String(wagmiProvider?.props.config ?? 'wagmiConfig'),
+      appKitFile ?? ''
+    );
+    const appKitConfig = appKitCalls[0]
+      ? rewire(
+          wagmiProvider?.file ?? '',
+          this.generateParaConfig(appKitCalls[0], evmConnector.config, state, appKitFile!)
+        )
+      : '';
+
+    // defaultWagmiConfig is Web3Modal's wrapper around createConfig
+    const defaultConfigs = state.providers.filter(
+      (p) =>
+        p.provider === 'defaultWagmiConfig' &&
+        reownImports.some((i) => i.file === p.file && /\bdefaultWagmiConfig\b/.test(i.import))
+    );
+
+    // wagmi names each file now needs
+    const hydrates = state.imports.some((i) => /\bcookieToInitialState\b/.test(i.import));
+    const wagmiNames = new Map<string, string[]>();
+    const needWagmi = (file: string, names: string[]) =>
+      wagmiNames.set(file, [...(wagmiNames.get(file) ?? []), ...names]);
+
+    if (wagmiTree && /\bhttp\(\)/.test(appKitConfig)) needWagmi(wagmiTree.file, ['http']);
+    for (const config of defaultConfigs) needWagmi(config.file, ['createConfig', 'http']);
+    for (const adapter of adapters) {
+      needWagmi(adapter.file, [
+        'createConfig',
+        ...(adapter.props.transports ? [] : ['http']),
+        ...(this.needsCookieStorage(adapter, hydrates) ? ['cookieStorage', 'createStorage'] : []),
+      ]);
+    }
+
+    // 1. Remove ALL ReOwn dependencies (complete cleanup)
+    const reownDependencies = [
+      '@reown/appkit',
+      '@reown/appkit-adapter-wagmi',
+      '@reown/appkit-react',
+      '@reown/appkit-siwe',
+      '@web3modal/wagmi',
+      '@web3modal/siwe',
+      '@web3modal/ethereum',
+    ];
+
+    reownDependencies.forEach((dep) => {
+      if (Object.keys(state.dependencies).includes(dep)) {
+        operations.push({
+          id: `remove-${dep.replace(/[@/]/g, '-')}`,
+          type: 'dependency',
+          oldValue: dep,
+          newValue: '',
+          critical: true,
+        });
+      }
+    });
+
+    // 2. Add Para dependency
+    operations.push({
+      id: 'add-para-react',
+      type: 'dependency',
+      oldValue: '',
+      newValue: this.sdk.packages.react,
+      critical: true,
+    });
+
+    // Generate a ParaConnectButton for the <appkit-*> web components
+    const buttons = state.providers.filter((p) =>
+      ReownToParaStrategy.WEB_COMPONENTS.includes(p.provider)
+    );
+    const buttonFile = buttons[0] ? getConnectButtonFile(buttons[0].file) : null;
+
+    if (buttonFile) {
+      operations.push({
+        id: 'add-para-connect-button',
+        type: 'file',
+        file: buttonFile,
+        oldValue: '',
+        newValue: generateConnectButton(this.sdk, buttonFile.endsWith('.tsx')),
+        critical: true,
+      });
+    }
+
+    // 3. Replace ALL ReOwn/Web3Modal imports, adding the Para and wagmi imports files now need
+    const importFiles = new Set([
+      ...(wagmiTree ? [wagmiTree.file] : []),
+      ...wagmiNames.keys(),
+      ...buttons.map((p) => p.file),
+    ]);
+    const extraImports = new Map(
+      [...importFiles].map((file) => [
+        file,
+        this.getFileImports(
+          file,
+          state,
+          file === wagmiTree?.file,
+          wagmiNames.get(file) ?? [],
+          buttonFile
+        ),
+      ])
+    );
+
+    for (const importUsage of reownImports) {
+      const first = reownImports.find((i) => i.file === importUsage.file) === importUsage;
+      const statements = [
+        this.getParaImportReplacement(importUsage, hookMigrations, wagmiTree?.file),
+        ...(first ? (extraImports.get(importUsage.file) ?? []) : []),
+      ];
+
+      operations.push({
+        id: `replace-import-${importUsage.file}-${importUsage.line}`,
+        type: 'import',
+        file: importUsage.file,
+        line: importUsage.line,
+        oldValue: importUsage.import,
+        newValue: statements.filter(Boolean).join('\n'),
+        critical: true,
+      });
+    }
+
+    // Files without ReOwn imports get theirs after their last import
+    for (const [file, statements] of extraImports) {
+      const anchor = state.imports
+        .filter((i) => i.file === file)
+        .sort((a, b) => b.line - a.line)[0];
+
+      if (!reownImports.some((i) => i.file === file) && statements.length > 0 && anchor) {
+        operations.push({
+          id: `add-para-import-${file}`,
+          type: 'import',
+          file,
+          line: anchor.line,
+          oldValue: anchor.import,
+          newValue: [anchor.import, ...statements].join('\n'),
+          critical: true,
+        });
+      }
+    }
+
+    // 4. Replace ALL ReOwn JSX providers (AppKit, Web3Modal, etc.)
+    const reownProviders = state.providers.filter(
+      (p) =>
+        !p.provider.startsWith('create') &&
+        (p.provider.includes('AppKit') || p.provider.includes('Web3Modal'))
+    );
+
+    for (const provider of reownProviders) {
+      const providerConnector = getEvmConnectorConfig(
+        state,
+        String(wagmiProvider?.props.config ?? 'wagmiConfig'),
+        provider.file
+      );
+      if (providerConnector.review) this.reviews.push(providerConnector.review);
+
+      operations.push({
+        id: `replace-provider-${provider.file}-${provider.line}`,
+        type: 'provider',
+        file: provider.file,
+        line: provider.line,
+        oldValue: provider.source,
+        newValue: this.generateParaProvider(provider, providerConnector.config, state),
+        critical: true,
+      });
+      operations.push(...getWrapperSetupOperations(this.sdk, state, provider));
+      addNamedImports(operations, state, provider.file, providerConnector.imports);
+    }
+
+    // 5. createAppKit goes away - its options live on the ParaProvider, or in an exported
+    // config when there is no wagmi tree to put one around
+    for (const call of appKitCalls) {
+      const semicolon = call.statement?.trim().endsWith(';') ? ';' : '';
+      // A binding nothing reads goes away with the call - exported ones may be read elsewhere
+      const unread =
+        /^(?:const|let|var)\s/.test(call.statement ?? '') && (call.references ?? []).length === 0;
+      const bare = call.statement?.startsWith(call.source) || unread;
+      const paraConfig = [
+        ...(wagmiTree
+          ? []
+          : ['// No WagmiProvider found - wrap the app in <ParaProvider {...paraConfig}>']),
+        `export const paraConfig = ${appKitConfig}${semicolon}`,
+      ].join('\n');
+
+      if (!bare) {
+        this.reviews.push({
+          severity: 'warning',
+          code: 'APPKIT_INSTANCE_USED',
+          message: 'The createAppKit() result is kept as a plain Para config object',
+          file: call.file,
+          line: call.line,
+          fix: 'Replace calls on the AppKit instance with the useModal() hook',
+        });
+      }
+
+      operations.push({
+        id: `replace-appkit-${call.file}-${call.line}`,
+        type: 'provider',
+        file: call.file,
+        line: call.line,
+        oldValue: bare ? call.statement! : call.source,
+        newValue: bare ? (wagmiTree ? '' : paraConfig) : appKitConfig,
+        critical: true,
+      });
+    }
+
+    // 6. ParaProvider + ParaModal go around the app's wagmi tree (CRITICAL)
+    if (wagmiTree) {
+      operations.push({
+        id: `replace-provider-${wagmiTree.file}-${wagmiTree.line}`,
+        type: 'provider',
+        file: wagmiTree.file,
+        line: wagmiTree.line,
+        oldValue: wagmiTree.source,
+        newValue: wrapWithParaProvider(
+          this.sdk,
+          { ...wagmiTree, source: rewire(wagmiTree.file, wagmiTree.source) },
+          appKitConfig,
+          getMissingWrappers(this.sdk, state, wagmiTree)
+        ),
+        critical: true,
+      });
+      operations.push(...getWrapperSetupOperations(this.sdk, state, wagmiTree));
+    }
+
+    // Swap web components - after the providers, whose source may contain them
+    for (const button of buttons) {
+      operations.push({
+        id: `replace-button-${button.file}-${button.line}`,
+        type: 'provider',
+        file: button.file,
+        line: button.line,
+        oldValue: button.source,
+        newValue: button.source
+          .replace(/^<appkit-[\w-]+/, '<ParaConnectButton')
+          .replace(/<\/appkit-[\w-]+>$/, '</ParaConnectButton>'),
+        critical: true,
+      });
+    }
+
+    // createAppKit without networks keeps the chains of the app's wagmi config
+    const appKitOptions = appKitCalls[0]?.props;
+    if (appKitFile && appKitOptions && !appKitOptions.networks && !appKitOptions.defaultNetwork) {
+      if (evmConnector.review) this.reviews.push(evmConnector.review);
+      addNamedImports(operations, state, appKitFile, evmConnector.imports);
+    }
+
+    // 7. WagmiAdapter and defaultWagmiConfig become plain wagmi createConfig calls (CRITICAL)
+    for (const config of defaultConfigs) {
+      const { options, review } = renderWagmiConfig(config);
+      if (review) this.reviews.push(review);
+
+      operations.push({
+        id: `replace-config-${config.file}-${config.line}`,
+        type: 'provider',
+        file: config.file,
+        line: config.line,
+        oldValue: config.source,
+        newValue: `createConfig(${options})`,
+        critical: true,
+      });
+    }
+
+    for (const adapter of adapters) {
+      operations.push({
+        id: `replace-adapter-${adapter.file}-${adapter.line}`,
+        type: 'provider',
+        file: adapter.file,
+        line: adapter.line,
+        oldValue: adapter.statement!,
+        newValue: this.generateWagmiConfig(adapter, hydrates),
+        critical: true,
+      });
+    }
+
+    // Reads inside code replaced above were rewired there or go away with it
+    const replaced = [...appKitCalls, ...(wagmiTree ? [wagmiTree] : [])];
+    const isReplaced = (read: AdapterRead) =>
+      replaced.some(
+        (p) =>
+          p.file === read.file &&
+          read.line >= p.line &&
+          read.line < p.line + p.source.split('\n').length
+      );
+
+    adapterReads
+      .filter((read) => !isReplaced(read))
+      .forEach((read, index) => {
+        if (read.newValue === null) {
+          this.reviews.push({
+            severity: 'warning',
+            code: 'WAGMI_ADAPTER_READ',
+            message: `\`${read.expression}\` reads the WagmiAdapter, which is now a plain wagmi config`,
+            file: read.file,
+            line: read.line,
+            fix: 'Use the wagmi config directly - Para connects wallets through its EVM connector',
+          });
+          return;
+        }
+
+        operations.push({
+          id: `rewire-adapter-read-${read.file}-${read.line}-${index}`,
+          type: 'provider',
+          file: read.file,
+          line: read.line,
+          oldValue: read.expression,
+          newValue: read.newValue,
+          critical: true,
+        });
+      });
+
+    for (const adapter of adapters) {
+      for (const [importUsage, local] of this.getAdapterImports(adapter, state)) {
+        const name = this.getAdapterName(adapter);
+        const used = adapterReads.some(
+          (read) =>
+            read.file === importUsage.file && read.expression.startsWith(local) && !isReplaced(read)
+        );
+
+        operations.push({
+          id: `replace-import-${importUsage.file}-${importUsage.line}`,
+          type: 'import',
+          file: importUsage.file,
+          line: importUsage.line,
+          oldValue: importUsage.import,
+          newValue: rewriteImport(
+            importUsage.import,
+            { [name]: used ? 'wagmiConfig' : '' },
+            importUsage.from
+          ),
+          critical: true,
+        });
+      }
+    }
+
+    // 8. Sign-In With Ethereum keeps its callbacks, signed through wagmi
+    const siwe = migrateSiwe(
+      state,
+      state.imports.filter((i) => SIWE_PACKAGES.includes(i.from))
+    );
+    operations.push(...siwe.operations.filter((o) => !operations.some((op) => op.id === o.id)));
+    this.reviews.push(...siwe.reviews);
+
+    // 9. Rewrite ReOwn hook call sites and the reads of their results
+    for (const migration of hookMigrations.values()) {
+      operations.push(...migration.operations);
+    }
+
+    // 10. Add Para CSS imports (CRITICAL)
+    for (const entryPoint of state.entryPoints) {
+      operations.push({
+        id: `add-para-css-${entryPoint}`,
+        type: 'style',
+        file: entryPoint,
+        oldValue: '',
+        newValue: `import '${this.sdk.css}'`,
+        critical: true,
+      });
+    }
+
+    // Declarations and imports only the createAppKit calls read - once every rewrite is planned
+    for (const call of appKitCalls) removeUnusedBindings(operations, call, appKitConfig);
+
+    return operations;
+  }
+
+  async validate(state: ProjectState): Promise<boolean> {
+    const reownPatterns = ['reown', 'web3modal', 'appkit'];
+
+    const hasReownDeps = Object.keys(state.dependencies).some((dep) =>
+      reownPatterns.some((pattern) => dep.includes(pattern))
+    );
+
+    const hasReownImports = state.imports.some((i) =>
+      reownPatterns.some((pattern) => i.from.includes(pattern) || i.type === 'reown')
+    );
+
+    const hasReownProviders = state.providers.some((p) =>
+      reownPatterns.some((pattern) => p.provider.toLowerCase().includes(pattern))
+    );
+
+    return hasReownDeps || hasReownImports || hasReownProviders;
+  }
+
+  getEstimatedTime(): number {
+    return 150; // 2.5 minutes for ReOwn replacement
+  }
+
+  getReviewIssues(): ValidationIssue[] {
+    return this.reviews;
+  }
+
+  /**
+   * `treeFile` holds the wagmi tree ParaProvider goes around - createAppKit imports elsewhere
+   * are dropped along with the call
+   */
+  private getParaImportReplacement(
+    importUsage: FileImport,
+    hookMigrations: Map<HookUsage, HookMigration>,
+    treeFile?: string
+  ): string {
+    const reownImport = importUsage.import;
+
+    // Network definitions are plain viem chains
+    if (importUsage.from === '@reown/appkit/networks') {
+      const { statements, dropped } = renderChainImports(importUsage);
+      if (dropped.length > 0) {
+        this.reviews.push({
+          severity: 'warning',
+          code: 'UNMAPPED_NETWORK_TYPE',
+          message: `viem has no equivalent for ${dropped.map((name) => `\`${name}\``).join(', ')} from @reown/appkit/networks - the import is dropped`,
+          file: importUsage.file,
+          line: importUsage.line,
+          fix: "Type these values with viem's Chain, or remove the annotations",
+        });
+      }
+      return statements;
+    }
+
+    const rendersProvider =
+      /\bcreateWeb3Modal\b/.test(reownImport) ||
+      (/\bcreateAppKit\b/.test(reownImport) && (!treeFile || treeFile === importUsage.file));
+    const names: Record<string, string> = {
+      ...HOOK_REPLACEMENT_MAP['reown-to-para'],
+      ...getMigratedHookImports(importUsage, hookMigrations),
+      createAppKit: rendersProvider ? getProviderExports(this.sdk).join(', ') : '',
+      createWeb3Modal: getProviderExports(this.sdk).join(', '),
+      defaultWagmiConfig: '', // becomes wagmi's createConfig
+      WagmiAdapter: '', // becomes wagmi's createConfig
+    };
+
+    const statement = rewriteImport(reownImport, names, this.sdk.packages.react);
+    const kept = renderKeptImport(importUsage, getKeptHooks(importUsage, hookMigrations));
+    const semicolon = reownImport.trim().endsWith(';') ? ';' : '';
+    return [
+      statement,
+      kept,
+      rendersProvider ? renderEnvironmentImport(this.sdk, getQuote(reownImport), semicolon) : '',
+    ]
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  /**
+   * The WagmiProvider/QueryClientProvider pair ParaProvider goes around - the outer one,
+   * unless it is a wrapper the Para SDK must be rendered inside
+   */
+  private getWagmiTree(state: ProjectState): ProviderUsage | undefined {
+    const wagmiProvider = state.providers.find((p) => p.provider === 'WagmiProvider');
+    if (!wagmiProvider) return undefined;
+
+    const queryProvider = state.providers.find(
+      (p) =>
+        p.file === wagmiProvider.file &&
+        p.provider === 'QueryClientProvider' &&
+        p.source.includes(wagmiProvider.source)
+    );
+    return queryProvider && !this.sdk.providerWrappers.includes(queryProvider.provider)
+      ? queryProvider
+      : wagmiProvider;
+  }
+
+  /**
+   * Imports a file needs for the ParaProvider and ParaConnectButton it gains, and the wagmi names
+   * it now uses
+   */
+  private getFileImports(
+    file: string,
+    state: ProjectState,
+    hasParaProvider: boolean,
+    wagmiNames: string[],
+    buttonFile: string | null
+  ): string[] {
+    const fileImports = state.imports.filter((i) => i.file === file);
+    const semicolon = fileImports[0]?.import.trim().endsWith(';') ? ';' : '';
+    const quote = getQuote(fileImports[0]?.import);
+    const statements: string[] = [];
+
+    if (hasParaProvider && !fileImports.some((i) => /\bcreateAppKit\b/.test(i.import))) {
+      statements.push(renderProviderImports(this.sdk, quote, semicolon));
+    }
+
+    const existing = fileImports
+      .filter((i) => i.from === 'wagmi')
+      .map((i) => i.import)
+      .join('\n');
+    const missing = [...new Set(wagmiNames)].filter(
+      (name) => !new RegExp(`\\b${name}\\b`).test(existing)
+    );
+    if (missing.length > 0) {
+      statements.push(`import { ${missing.join(', ')} } from ${quote}wagmi${quote}${semicolon}`);
+    }
+
+    const hasButton = state.providers.some(
+      (p) => p.file === file && ReownToParaStrategy.WEB_COMPONENTS.includes(p.provider)
+    );
+    if (buttonFile && hasButton) {
+      statements.push(
+        `import { ParaConnectButton } from ${quote}${relativeImport(file, buttonFile)}${quote}${semicolon}`
+      );
+    }
+
+    return statements;
+  }
+
+  private getAdapterName(adapter: ProviderUsage): string {
+    return adapter.statement!.match(/^(?:export\s+)?(?:const|let|var)\s+([\w$]+)/)![1];
+  }
+
+  /**
+   * Imports of a WagmiAdapter from other project files, with the local name each one binds
+   */
+  private getAdapterImports(
+    adapter: ProviderUsage,
+    state: ProjectState
+  ): Array<[FileImport, string]> {
+    return getBindingImports(state, adapter.file, this.getAdapterName(adapter));
+  }
+
+  /**
+   * Reads of a WagmiAdapter - `adapter.wagmiConfig` moves onto the plain wagmi config
+   */
+  private getAdapterReads(adapter: ProviderUsage, state: ProjectState): AdapterRead[] {
+    const toRead = (file: string, reference: HookReference, local: string): AdapterRead => {
+      const rest = reference.expression.slice(local.length).match(/^\??\.wagmiConfig\b(.*)$/s);
+      return {
+        file,
+        line: reference.line,
+        expression: reference.expression,
+        newValue: rest
+          ? `${local === this.getAdapterName(adapter) ? 'wagmiConfig' : local}${rest[1]}`
+          : null,
+      };
+    };
+
+    return [
+      ...(adapter.references ?? []).map((reference) =>
+        toRead(adapter.file, reference, this.getAdapterName(adapter))
+      ),
+      ...this.getAdapterImports(adapter, state).flatMap(([importUsage, local]) =>
+        importUsage
+          .references!.filter((reference) => reference.name === local)
+          .map((reference) => toRead(importUsage.file, reference, local))
+      ),
+    ];
+  }
+
+  /**
+   * Cookie storage keeps cookieToInitialState hydration working when the adapter relied on
+   * AppKit's SSR defaults
+   */
+  private needsCookieStorage(adapter: ProviderUsage, hydrates: boolean): boolean {
+    return hydrates && Boolean(adapter.props.ssr) && !adapter.props.storage;
+  }
+
+  /**
+   * `const wagmiConfig = createConfig({ ... })` with the adapter's chains, transports, ssr and
+   * storage - its projectId only configured AppKit's WalletConnect connector
+   */
+  private generateWagmiConfig(adapter: ProviderUsage, hydrates: boolean): string {
+    const declaration = adapter.statement!.match(/^(?:export\s+)?(?:const|let|var)/)![0];
+    const semicolon = adapter.statement!.trim().endsWith(';') ? ';' : '';
+    const unmapped = Object.keys(adapter.props).filter(
+      (key) => !['networks', 'projectId', 'transports', 'ssr', 'storage'].includes(key)
+    );
+    if (unmapped.length > 0) {
+      this.reviews.push({
+        severity: 'warning',
+        code: 'UNMAPPED_PROVIDER_CONFIG',
+        message: `WagmiAdapter settings without a wagmi equivalent: ${unmapped.join(', ')}`,
+        file: adapter.file,
+        line: adapter.line,
+        fix: 'Port these settings to the wagmi createConfig call by hand, or drop them',
+      });
+    }
+
+    // Transports are listed from the networks before they are spread into a tuple
+    const networks = adapter.props.networks ? String(adapter.props.networks) : undefined;
+    const { options, review } = renderWagmiConfig({
+      ...adapter,
+      props: {
+        ...adapter.props,
+        chains: networks && renderChainTuple(networks),
+        transports:
+          adapter.props.transports ??
+          (networks && renderTransports(networks, adapter.constants)) ??
+          undefined,
+        ...(this.needsCookieStorage(adapter, hydrates)
+          ? { storage: 'createStorage({ storage: cookieStorage })' }
+          : {}),
+      },
+    });
+    if (review) this.reviews.push(review);
+
+    return `${declaration} wagmiConfig = createConfig(${options})${semicolon}`;
+  }
+
+  private generateParaProvider(
+    provider: ProviderUsage,
+    evmConnector: Record<string, string>,
+    state: ProjectState
+  ): string {
+    return renderParaProvider(
+      this.sdk,
+      this.generateParaConfig(provider, evmConnector, state, provider.file),
+      provider.children,
+      provider.indent,
+      getMissingWrappers(this.sdk, state, provider)
+    );
+  }
+
+  /**
+   * ParaProvider config translated from AppKit props or createAppKit options, for `file`
+   */
+  private generateParaConfig(
+    options: ProviderUsage,
+    evmConnector: Record<string, string>,
+    state: ProjectState,
+    file: string
+  ): string {
+    const client = getParaClientDefaults(this.sdk, state, options);
+    if (client.review) this.reviews.push(client.review);
+
+    const { config, review } = translateProviderConfig(
+      options,
+      PROVIDER_REPLACEMENT_MAP['reown-to-para'].configMapping,
+      {
+        ...client.config,
+        'embeddedWalletConfig.createOnLogin': '"all-users"',
+        'embeddedWalletConfig.showWalletUiOnLogin': 'true',
+        'externalWalletConfig.wallets': '["WALLETCONNECT", "METAMASK", "COINBASE"]',
+        ...evmConnector,
+      },
+      getFileQuote(state, file),
+      apiKeyComment('WalletConnect projectId', options.props.projectId),
+      ReownToParaStrategy.CONFIG_TRANSFORMS
+    );
+    if (review) this.reviews.push(review);
+
+    return config;
+  }
+
+  private isReownHook(hookName: string): boolean {
+    const reownHooks = [
+      'useAppKit',
+      'useAppKitAccount',
+      'useAppKitTheme',
+      'useAppKitState',
+      'useAppKitEvents',
+      'useWeb3Modal',
+      'useWeb3ModalAccount',
+      'useWeb3ModalTheme',
+      'useWeb3ModalState',
+    ];
+    return reownHooks.includes(hookName);
+  }
+
+  private getReownHookReplacement(reownHook: string): string | null {
+    const replacements: Record<string, string> = {
+      useAppKit: 'useModal',
+      useAppKitAccount: 'useAccount',
+      useAppKitTheme: 'useModal',
+      useAppKitState: 'useAccount',
+      useAppKitEvents: 'useWallet',
+      useWeb3Modal: 'useModal',
+      useWeb3ModalAccount: 'useAccount',
+      useWeb3ModalTheme: 'useModal',
+      useWeb3ModalState: 'useAccount',
+    };
+
+    return replacements[reownHook] || null;
+  }
+}
+
+/**
+ * Web3Modal to Para Replacement Strategy
+ * createWeb3Modal options move onto a ParaProvider inside the app's WagmiProvider
+ */
+export class Web3ModalToParaStrategy implements ReplacementStrategy {
+  strategy = MigrationStrategy.WEB3MODAL_TO_PARA;
+
+  // Web3Modal web components - every one of them opens the Para modal instead
+  private static readonly WEB_COMPONENTS = [
+    'w3m-button',
+    'w3m-connect-button',
+    'w3m-account-button',
+    'w3m-network-button',
+  ];
+
+  // Hook property -> [replacement hook, property], hooks without an entry are left for review
+  private static readonly HOOK_PROPERTIES: Record<string, Record<string, [string, string]>> = {
+    useWeb3Modal: {
+      open: ['useModal', 'openModal'],
+      close: ['useModal', 'closeModal'],
+    },
+    useWeb3ModalState: {
+      open: ['useModal', 'isOpen'],
+      selectedNetworkId: ['useAccount', 'chainId'],
+    },
+    useWeb3ModalAccount: {
+      address: ['useAccount', 'address'],
+      chainId: ['useAccount', 'chainId'],
+      isConnected: ['useAccount', 'isConnected'],
+      status: ['useAccount', 'status'],
+    },
+    useDisconnect: {
+      disconnect: ['useDisconnect', 'disconnect'],
+    },
+  };
+
+  // Package each replacement hook comes from
+  private static readonly HOOK_SOURCES: Record<string, 'para' | 'wagmi'> = {
+    useModal: 'para',
+    useAccount: 'wagmi',
+    useDisconnect: 'wagmi',
+  };
+
+  private reviews: ValidationIssue[] = [];
+
+  constructor(private sdk: ParaSdkManifest = getParaSdkManifest()) {}
+
+  async execute(state: ProjectState): Promise<ReplacementOperation[]> {
+    const operations: ReplacementOperation[] = [];
+    this.reviews = [];
+    const web3ModalImports = state.imports.filter(
+      (i) => i.type === 'web3modal' && !SIWE_PACKAGES.includes(i.from)
+    );
+    const modalCalls = state.providers.filter((p) => p.provider === 'createWeb3Modal');
+    const wagmiProviders = state.providers.filter((p) => p.provider === 'WagmiProvider');
+    const buttons = state.providers.filter((p) =>
+      Web3ModalToParaStrategy.WEB_COMPONENTS.includes(p.provider)
+    );
+    const hookRewrites = new Map(
+      state.hooks
+        .filter((h) => h.from.startsWith('@web3modal/'))
+        .map((h) => [h, this.rewriteHook(h)] as const)
+    );
+
+    // 1. Remove the installed Web3Modal packages
+    for (const dep of Object.keys(state.dependencies).filter((d) => d.startsWith('@web3modal/'))) {
+      operations.push({
+        id: `remove-${dep.slice(1).replace('/', '-')}`,
+        type: 'dependency',
+        oldValue: dep,
+        newValue: '',
+        critical: true,
+      });
+    }
+
+    // 2. Add Para dependency, plus wagmi when account hooks move onto it
+    operations.push({
+      id: 'add-para-react',
+      type: 'dependency',
+      oldValue: '',
+      newValue: this.sdk.packages.react,
+      critical: true,
+    });
+
+    const needsWagmi = [...hookRewrites.values()].some((rewrite) =>
+      rewrite?.hooks.some((hook) => Web3ModalToParaStrategy.HOOK_SOURCES[hook] === 'wagmi')
+    );
+    if (needsWagmi) {
+      for (const dep of ['wagmi', 'viem'].filter((d) => !(d in state.dependencies))) {
+        operations.push({
+          id: `add-${dep}`,
+          type: 'dependency',
+          oldValue: '',
+          newValue: dep,
+          critical: true,
+        });
+      }
+    }
+
+    // 3. Generate a ParaConnectButton for the <w3m-*> web components
+    const buttonFile = buttons[0] ? getConnectButtonFile(buttons[0].file) : null;
+
+    if (buttonFile) {
+      operations.push({
+        id: 'add-para-connect-button',
+        type: 'file',
+        file: buttonFile,
+        oldValue: '',
+        newValue: generateConnectButton(this.sdk, buttonFile.endsWith('.tsx')),
+        critical: true,
+      });
+    }
+
+    // 4. Replace Web3Modal imports, and add Para imports where providers and buttons change
+    const importFiles = new Set([
+      ...web3ModalImports.map((i) => i.file),
+      ...wagmiProviders.map((p) => p.file),
+      ...buttons.map((p) => p.file),
+    ]);
+
+    for (const file of importFiles) {
+      const extras = this.getFileImports(file, state, buttonFile);
+      const fileImports = web3ModalImports.filter((i) => i.file === file);
+
+      fileImports.forEach((importUsage, index) => {
+        const statements = [this.getImportReplacement(importUsage, state, hookRewrites)];
+        if (index === 0) statements.push(...extras);
+
+        operations.push({
+          id: `replace-import-${importUsage.file}-${importUsage.line}`,
+          type: 'import',
+          file: importUsage.file,
+          line: importUsage.line,
+          oldValue: importUsage.import,
+          newValue: statements.filter(Boolean).join('\n'),
+          critical: true,
+        });
+      });
+
+      // Files without Web3Modal imports get theirs after their last import
+      const anchor = state.imports
+        .filter((i) => i.file === file)
+        .sort((a, b) => b.line - a.line)[0];
+
+      if (fileImports.length === 0 && extras.length > 0 && anchor) {
+        operations.push({
+          id: `add-para-import-${file}`,
+          type: 'import',
+          file,
+          line: anchor.line,
+          oldValue: anchor.import,
+          newValue: [anchor.import, ...extras].join('\n'),
+          critical: true,
+        });
+      }
+    }
+
+    // 5. defaultWagmiConfig becomes a plain wagmi createConfig (CRITICAL)
+    const defaultConfigs = state.providers.filter(
+      (p) =>
+        p.provider === 'defaultWagmiConfig' &&
+        web3ModalImports.some((i) => i.file === p.file && /\bdefaultWagmiConfig\b/.test(i.import))
+    );
+
+    for (const config of defaultConfigs) {
+      const { options, review } = renderWagmiConfig(config);
+      if (review) this.reviews.push(review);
+
+      operations.push({
+        id: `replace-config-${config.file}-${config.line}`,
+        type: 'provider',
+        file: config.file,
+        line: config.line,
+        oldValue: config.source,
+        newValue: `createConfig(${options})`,
+        critical: true,
+      });
+    }
+
+    // 6. createWeb3Modal options move to ParaProvider - or to an exported config without one
+    const options = modalCalls[0];
+
+    for (const call of modalCalls) {
+      const semicolon = call.statement?.trim().endsWith(';') ? ';' : '';
+      const bare = call.statement?.startsWith(call.source);
+      const removed = wagmiProviders.length > 0 && bare;
+      const evmConnector = getEvmConnectorConfig(
+        state,
+        String(call.props.wagmiConfig || 'wagmiConfig'),
+        call.file
+      );
+
+      operations.push({
+        id: `replace-modal-${call.file}-${call.line}`,
+        type: 'provider',
+        file: call.file,
+        line: call.line,
+        oldValue: bare ? call.statement! : call.source,
+        newValue: removed
+          ? ''
+          : `${bare ? 'export const paraConfig = ' : ''}${this.generateParaConfig(
+              call,
+              evmConnector.config,
+              state
+            )}${bare ? semicolon : ''}`,
+        critical: true,
+      });
+      if (!removed) {
+        if (evmConnector.review) this.reviews.push(evmConnector.review);
+        addNamedImports(operations, state, call.file, evmConnector.imports);
+      }
+    }
+
+    // 7. Wrap the WagmiProvider children in ParaProvider + ParaModal (CRITICAL)
+    for (const provider of wagmiProviders) {
+      const evmConnector = getEvmConnectorConfig(
+        state,
+        String(provider.props.config || 'wagmiConfig'),
+        provider.file
+      );
+      if (evmConnector.review) this.reviews.push(evmConnector.review);
+
+      operations.push({
+        id: `replace-provider-${provider.file}-${provider.line}`,
+        type: 'provider',
+        file: provider.file,
+        line: provider.line,
+        oldValue: provider.source,
+        newValue: wrapChildrenWithParaProvider(
+          this.sdk,
+          provider,
+          this.generateParaConfig(options, evmConnector.config, state, provider),
+          getMissingWrappers(this.sdk, state, provider)
+        ),
+        critical: true,
+      });
+      operations.push(...getWrapperSetupOperations(this.sdk, state, provider));
+      addNamedImports(operations, state, provider.file, evmConnector.imports);
+    }
+
+    // 8. Swap web components - after the providers, whose source may contain them
+    for (const button of buttons) {
+      operations.push({
+        id: `replace-button-${button.file}-${button.line}`,
+        type: 'provider',
+        file: button.file,
+        line: button.line,
+        oldValue: button.source,
+        newValue: button.source
+          .replace(/^<w3m-[\w-]+/, '<ParaConnectButton')
+          .replace(/<\/w3m-[\w-]+>$/, '</ParaConnectButton>'),
+        critical: true,
+      });
+    }
+
+    // 9. Split Web3Modal hooks into Para and wagmi hooks
+    for (const [hook, rewrite] of hookRewrites) {
+      if (!rewrite) {
+        this.reviews.push({
+          severity: 'warning',
+          code: 'HOOK_NEEDS_REVIEW',
+          message: `\`${hook.usage}\` has no Para equivalent - ${hook.hook}() stays imported from ${hook.from}, which the migration removes`,
+          file: hook.file,
+          line: hook.line,
+          fix: `Replace ${hook.hook}() with Para useModal() or wagmi hooks, or drop it`,
+        });
+        continue;
+      }
+      if (rewrite.usage === hook.usage) continue;
+      if (rewrite.argumentReview) this.reviews.push(rewrite.argumentReview);
+
+      operations.push(
+        {
+          id: `replace-hook-${hook.file}-${hook.line}`,
+          type: 'hook',
+          file: hook.file,
+          line: hook.line,
+          oldValue: hook.usage,
+          newValue: rewrite.usage,
+          critical: false, // hooks can be updated gradually
+        },
+        ...rewrite.references
+      );
+    }
+
+    // 10. Sign-In With Ethereum keeps its callbacks, signed through wagmi
+    const siwe = migrateSiwe(
+      state,
+      state.imports.filter((i) => SIWE_PACKAGES.includes(i.from))
+    );
+    operations.push(...siwe.operations.filter((o) => !operations.some((op) => op.id === o.id)));
+    this.reviews.push(...siwe.reviews);
+
+    // 11. Add Para CSS imports (CRITICAL)
+    for (const entryPoint of state.entryPoints) {
+      operations.push({
+        id: `add-para-css-${entryPoint}`,
+        type: 'style',
+        file: entryPoint,
+        oldValue: '',
+        newValue: `import '${this.sdk.css}'`,
+        critical: true,
+      });
+    }
+
+    return operations;
+  }
+
+  async validate(state: ProjectState): Promise<boolean> {
+    const hasWeb3ModalDeps = Object.keys(state.dependencies).some((dep) =>
+      dep.includes('web3modal')
+    );
+    const hasWeb3ModalImports = state.imports.some((i) => i.type === 'web3modal');
+
+    return hasWeb3ModalDeps || hasWeb3ModalImports;
+  }
+
+  getEstimatedTime(): number {
+    return 120; // 2 minutes for Web3Modal replacement
+  }
+
+  getReviewIssues(): ValidationIssue[] {
+    return this.reviews;
+  }
+
+  /**
+   * Rewrite one Web3Modal import; names without a Para equivalent stay on it for review
+   */
+  private getImportReplacement(
+    importUsage: FileImport,
+    state: ProjectState,
+    hookRewrites: Map<HookUsage, HookRewrite | null>
+  ): string {
+    const specifiers = getNamedSpecifiers(importUsage.import);
+    if (!specifiers) return '';
+
+    const semicolon = importUsage.import.trim().endsWith(';') ? ';' : '';
+    const quote = getQuote(importUsage.import);
+    const rewrites = [...hookRewrites].filter(([hook]) => hook.file === importUsage.file);
+    const translated = (name: string) =>
+      name === 'createWeb3Modal' ||
+      name === 'defaultWagmiConfig' ||
+      (name in Web3ModalToParaStrategy.HOOK_PROPERTIES &&
+        rewrites.every(([hook, rewrite]) => hook.hook !== name || rewrite));
+
+    const newHooks = rewrites
+      .filter(([hook]) => specifiers.some((s) => s.imported === hook.hook))
+      .flatMap(([, rewrite]) => rewrite?.hooks ?? []);
+    const kept = specifiers.filter((s) => !translated(s.imported));
+    const paraNames = newHooks.filter(
+      (hook) => Web3ModalToParaStrategy.HOOK_SOURCES[hook] === 'para'
+    );
+
+    const existingWagmi = state.imports
+      .filter((i) => i.file === importUsage.file && i.from === 'wagmi')
+      .map((i) => i.import)
+      .join('\n');
+    const wagmiNames = [
+      ...newHooks.filter((hook) => Web3ModalToParaStrategy.HOOK_SOURCES[hook] === 'wagmi'),
+      ...(specifiers.some((s) => s.imported === 'defaultWagmiConfig')
+        ? ['createConfig', 'http']
+        : []),
+    ].filter((name) => !new RegExp(`\\b${name}\\b`).test(existingWagmi));
+
+    return [
+      renderKeptImport(importUsage, kept),
+      paraNames.length > 0
+        ? `import { ${[...new Set(paraNames)].join(', ')} } from ${quote}${this.sdk.packages.react}${quote}${semicolon}`
+        : '',
+      wagmiNames.length > 0
+        ? `import { ${[...new Set(wagmiNames)].join(', ')} } from ${quote}wagmi${quote}${semicolon}`
+        : '',
+    ]
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  /**
+   * Imports a file needs for the ParaProvider and ParaConnectButton it gains
+   */
+  private getFileImports(file: string, state: ProjectState, buttonFile: string | null): string[] {
+    const firstImport = state.imports.find((i) => i.file === file)?.import;
+    const semicolon = firstImport?.trim().endsWith(';') ? ';' : '';
+    const quote = getQuote(firstImport);
+    const statements: string[] = [];
+
+    const keepsConfig = (call: ProviderUsage) =>
+      call.provider === 'createWeb3Modal' &&
+      !(
+        state.providers.some((p) => p.provider === 'WagmiProvider') &&
+        call.statement?.startsWith(call.source)
+      );
+    if (state.providers.some((p) => p.file === file && p.provider === 'WagmiProvider')) {
+      statements.push(renderProviderImports(this.sdk, quote, semicolon));
+    } else if (state.providers.some((p) => p.file === file && keepsConfig(p))) {
+      // The exported paraConfig stays next to createWeb3Modal
+      statements.push(
+        `import { ${this.sdk.environment.name} } from ${quote}${this.sdk.environment.from}${quote}${semicolon}`
+      );
+    }
+
+    const hasButton = state.providers.some(
+      (p) => p.file === file && Web3ModalToParaStrategy.WEB_COMPONENTS.includes(p.provider)
+    );
+    if (buttonFile && hasButton) {
+      statements.push(
+        `import { ParaConnectButton } from ${quote}${relativeImport(file, buttonFile)}${quote}${semicolon}`
+      );
+    }
+
+    return statements;
+  }
+
+  /**
+   * Para config translated from createWeb3Modal options
+   */
+  private generateParaConfig(
+    options: ProviderUsage | undefined,
+    evmConnector: Record<string, string>,
+    state: ProjectState,
+    provider?: ProviderUsage // the WagmiProvider it goes on, an exported paraConfig without one
+  ): string {
+    const client = getParaClientDefaults(this.sdk, state, provider ?? options);
+    if (client.review) this.reviews.push(client.review);
+
+    const defaults = {
+      ...client.config,
+      'externalWalletConfig.wallets': '["WALLETCONNECT", "METAMASK", "COINBASE"]',
+      ...evmConnector,
+    };
+    const quote = getFileQuote(state, (provider ?? options)?.file ?? '');
+    let config = ConfigTranslator.render(defaults, { quote });
+
+    if (options) {
+      const translation = translateProviderConfig(
+        options,
+        PROVIDER_REPLACEMENT_MAP['web3modal-to-para'].configMapping,
+        defaults,
+        quote,
+        apiKeyComment('WalletConnect projectId', options.props.projectId),
+        { themeVariables: translateThemeVariables }
+      );
+      if (translation.review) this.reviews.push(translation.review);
+      config = translation.config;
+    }
+    if (provider) return config;
+
+    const note = [
+      '// No WagmiProvider found - wrap the app in <ParaProvider {...paraConfig}>',
+      ...(this.sdk.components.includes('ParaModal')
+        ? ['// and render <ParaModal /> inside it']
+        : []),
+    ];
+    return config.replace(/^\{\n/, `{\n${note.map((line) => `  ${line}\n`).join('')}`);
+  }
+
+  private rewriteHook(hook: HookUsage): HookRewrite | null {
+    const properties = Web3ModalToParaStrategy.HOOK_PROPERTIES[hook.hook];
+    if (!properties) return null;
+
+    // Para's modal takes no Web3Modal view options
+    return splitHookProperties(hook, properties, ['openModal', 'closeModal']);
+  }
+}
+
+/**
+ * WalletConnect to Para Replacement Strategy
+ * Swaps the wagmi walletConnect() connector for Para's EVM connector - the Para modal
+ * reaches WalletConnect wallets itself. Raw EthereumProvider.init() sites cannot be
+ * rewritten mechanically, so @walletconnect/ethereum-provider stays while they remain, and an
+ * app with no WagmiProvider to host ParaProvider is refused up front.
+ */
+export class WalletConnectToParaStrategy implements ReplacementStrategy {
+  strategy = MigrationStrategy.WALLETCONNECT_TO_PARA;
+
+  private reviews: ValidationIssue[] = [];
+  private conflicts: ValidationIssue[] = [];
+
+  constructor(private sdk: ParaSdkManifest = getParaSdkManifest()) {}
+
+  async execute(state: ProjectState): Promise<ReplacementOperation[]> {
+    const operations: ReplacementOperation[] = [];
+    this.reviews = [];
+    this.conflicts = [];
+    const connectors = state.providers.filter((p) => p.provider === 'walletConnect');
+    const configs = state.providers.filter(
+      (p) => p.provider === 'createConfig' && connectors.some((c) => this.isConnectorOf(c, p))
+    );
+
+    // Connectors configured outside a createConfig literal still need the WalletConnect package
+    const keepsEthereumProvider =
+      state.imports.some((i) => i.from === '@walletconnect/ethereum-provider') ||
+      connectors.some((c) => !configs.some((config) => this.isConnectorOf(c, config)));
+
+    // ParaProvider replaces WagmiProvider - an app driving EthereumProvider directly has none
+    if (!state.providers.some((p) => p.provider === 'WagmiProvider')) {
+      for (const importUsage of state.imports.filter(
+        (i) => i.from === '@walletconnect/ethereum-provider'
+      )) {
+        this.conflicts.push({
+          severity: 'critical',
+          code: 'RAW_ETHEREUM_PROVIDER',
+          message: `${importUsage.file} drives @walletconnect/ethereum-provider directly and there is no WagmiProvider to mount ParaProvider in`,
+          file: importUsage.file,
+          line: importUsage.line,
+          fix: 'Move the EthereumProvider.init() flow onto wagmi with a walletConnect() connector, then re-run the migration',
+        });
+      }
+    }
+
+    // 1. Remove WalletConnect packages
+    const walletConnectDependencies = Object.keys(state.dependencies).filter(
+      (dep) =>
+        dep.startsWith('@walletconnect/') &&
+        !(dep === '@walletconnect/ethereum-provider' && keepsEthereumProvider)
+    );
+
+    for (const dep of walletConnectDependencies) {
+      operations.push({
+        id: `remove-${dep.replace(/[@/]/g, '-')}`,
+        type: 'dependency',
+        oldValue: dep,
+        newValue: '',
+        critical: true,
+      });
+    }
+
+    // 2. Add Para dependency
+    operations.push({
+      id: 'add-para-react',
+      type: 'dependency',
+      oldValue: '',
+      newValue: this.sdk.packages.react,
+      critical: true,
+    });
+
+    // The createConfig each WagmiProvider renders moves into its ParaProvider
+    const moves = new Map<ProviderUsage, ProviderUsage>();
+    for (const provider of state.providers.filter((p) => p.provider === 'WagmiProvider')) {
+      const config = this.getMovedConfig(provider, state);
+      if (config) moves.set(provider, config);
+    }
+
+    // 3. Remove walletConnect() from every createConfig connectors list that stays (CRITICAL)
+    for (const config of configs.filter((c) => ![...moves.values()].includes(c))) {
+      const list = String(config.props.connectors);
+
+      operations.push({
+        id: `replace-connectors-${config.file}-${config.line}`,
+        type: 'provider',
+        file: config.file,
+        line: config.line,
+        oldValue: list,
+        newValue: connectors
+          .filter((c) => this.isConnectorOf(c, config))
+          .reduce((result, c) => this.removeListElement(result, c.source), list),
+        critical: true,
+      });
+    }
+
+    // 4. Drop the walletConnect import where no connector call is left behind
+    const connectorImports = state.imports.filter(
+      (i) =>
+        /^(wagmi|@wagmi\/core)\/connectors$|^@wagmi\/connectors$/.test(i.from) &&
+        /\bwalletConnect\b/.test(i.import) &&
+        connectors
+          .filter((c) => c.file === i.file)
+          .every((c) => configs.some((config) => this.isConnectorOf(c, config)))
+    );
+
+    for (const importUsage of connectorImports) {
+      operations.push({
+        id: `replace-import-${importUsage.file}-${importUsage.line}`,
+        type: 'import',
+        file: importUsage.file,
+        line: importUsage.line,
+        oldValue: importUsage.import,
+        newValue: rewriteImport(importUsage.import, { walletConnect: '' }, importUsage.from),
+        critical: true,
+      });
+    }
+
+    // 5. ParaProvider takes the place of WagmiProvider and builds the wagmi config itself from
+    // the createConfig options, which move into its EVM connector (CRITICAL)
+    for (const [provider, config] of moves) {
+      const connector = connectors.find((c) => c.file === provider.file) ?? connectors[0];
+      const options = connectors
+        .filter((c) => this.isConnectorOf(c, config))
+        .reduce(
+          (result, c) => this.removeListElement(result, c.source),
+          config.source.slice(config.source.indexOf('(') + 1, config.source.lastIndexOf(')'))
+        );
+
+      const wagmiImport = state.imports.find(
+        (i) => i.file === provider.file && i.from === 'wagmi' && /\bWagmiProvider\b/.test(i.import)
+      );
+      if (wagmiImport) {
+        const semicolon = wagmiImport.import.trim().endsWith(';') ? ';' : '';
+        const quote = getQuote(wagmiImport.import);
+        operations.push({
+          id: `add-para-import-${provider.file}`,
+          type: 'import',
+          file: provider.file,
+          line: wagmiImport.line,
+          oldValue: wagmiImport.import,
+          newValue: [
+            rewriteImport(wagmiImport.import, { WagmiProvider: '' }, wagmiImport.from),
+            renderProviderImports(this.sdk, quote, semicolon),
+          ]
+            .filter(Boolean)
+            .join('\n'),
+          critical: true,
+        });
+      }
+
+      operations.push({
+        id: `replace-provider-${provider.file}-${provider.line}`,
+        type: 'provider',
+        file: provider.file,
+        line: provider.line,
+        oldValue: provider.source,
+        newValue: renderParaProvider(
+          this.sdk,
+          this.getParaConfig(
+            provider,
+            connector,
+            { 'externalWalletConfig.evmConnector.config': options },
+            state
+          ),
+          provider.children,
+          provider.indent,
+          getMissingWrappers(this.sdk, state, provider)
+        ),
+        critical: true,
+      });
+      operations.push(...getWrapperSetupOperations(this.sdk, state, provider));
+
+      // The declaration goes, with the imports only it read - the options read them now
+      operations.push({
+        id: `remove-config-${config.file}-${config.line}`,
+        type: 'provider',
+        file: config.file,
+        line: config.line,
+        oldValue: config.statement!,
+        newValue: '',
+        critical: true,
+      });
+      for (const [importUsage, local] of getBindingImports(
+        state,
+        config.file,
+        this.getBindingName(config)
+      ).filter(([i]) => i.file === provider.file)) {
+        const { imported } = getNamedSpecifiers(importUsage.import)!.find(
+          (s) => s.local === local
+        )!;
+        operations.push({
+          id: `replace-import-${importUsage.file}-${importUsage.line}`,
+          type: 'import',
+          file: importUsage.file,
+          line: importUsage.line,
+          oldValue: importUsage.import,
+          newValue: rewriteImport(importUsage.import, { [imported]: '' }, importUsage.from),
+          critical: true,
+        });
+      }
+      addNamedImports(
+        operations,
+        state,
+        provider.file,
+        getCopiedImports(state, config.file, provider.file, options)!
+      );
+    }
+
+    // 6. Add Para CSS imports (CRITICAL)
+    for (const entryPoint of state.entryPoints) {
+      operations.push({
+        id: `add-para-css-${entryPoint}`,
+        type: 'style',
+        file: entryPoint,
+        oldValue: '',
+        newValue: `import '${this.sdk.css}'`,
+        critical: true,
+      });
+    }
+
+    for (const [provider, config] of moves) {
+      removeUnusedBindings(
+        operations,
+        config,
+        config.file === provider.file ? config.source.replace(/^[\w$]+\(/, '(') : ''
+      );
+    }
+
+    return operations;
+  }
+
+  async validate(state: ProjectState): Promise<boolean> {
+    const hasWalletConnectDeps = Object.keys(state.dependencies).some((dep) =>
+      dep.startsWith('@walletconnect/')
+    );
+    const hasWalletConnectImports = state.imports.some((i) => i.type === 'walletconnect');
+    const hasConnector = state.providers.some((p) => p.provider === 'walletConnect');
+
+    return hasWalletConnectDeps || hasWalletConnectImports || hasConnector;
+  }
+
+  getEstimatedTime(): number {
+    return 150; // 2.5 minutes for WalletConnect replacement
+  }
+
+  getReviewIssues(): ValidationIssue[] {
+    return this.reviews;
+  }
+
+  getConflicts(): ValidationIssue[] {
+    return this.conflicts;
+  }
+
+  private getBindingName(config: ProviderUsage): string {
+    return config.statement!.match(/^(?:export\s+)?(?:const|let|var)\s+([\w$]+)/)![1];
+  }
+
+  /**
+   * The createConfig declaration `provider` renders, to move into ParaProvider. A config the scan
+   * cannot trace, reads of it anywhere but WagmiProvider, or options reading declarations of
+   * their own file block the migration and return null.
+   */
+  private getMovedConfig(provider: ProviderUsage, state: ProjectState): ProviderUsage | null {
+    const binding = String(provider.props.config ?? '');
+    const config = state.providers
+      .filter(
+        (p) =>
+          p.provider === 'createConfig' &&
+          /^[\w$]+$/.test(binding) &&
+          new RegExp(
+            `^(?:export\\s+)?(?:const|let|var)\\s+${binding.replace(/\$/g, '\\$')}\\s*=`
+          ).test(p.statement ?? '') &&
+          (p.file === provider.file ||
+            getBindingImports(state, p.file, binding).some(([i]) => i.file === provider.file))
+      )
+      .sort((a, b) => Number(b.file === provider.file) - Number(a.file === provider.file))[0];
+    if (!config || !config.statement?.includes(config.source)) {
+      this.conflicts.push({
+        severity: 'critical',
+        code: 'UNRESOLVED_WAGMI_CONFIG',
+        message: `WagmiProvider renders \`${binding}\`, which is not a createConfig declaration the migration can move into ParaProvider`,
+        file: provider.file,
+        line: provider.line,
+        fix: 'Pass WagmiProvider a `const` initialized with createConfig({...}), then re-run the migration',
+      });
+      return null;
+    }
+
+    const inProvider = (read: { file: string; line: number }) =>
+      read.file === provider.file &&
+      read.line >= provider.line &&
+      read.line < provider.line + provider.source.split('\n').length;
+    const reads = [
+      ...(config.references ?? []).map((reference) => ({ ...reference, file: config.file })),
+      ...getBindingImports(state, config.file, this.getBindingName(config)).flatMap(
+        ([importUsage, local]) =>
+          importUsage
+            .references!.filter((reference) => reference.name === local)
+            .map((reference) => ({ ...reference, file: importUsage.file }))
+      ),
+    ].filter((read) => !inProvider(read));
+
+    if (reads.length > 0) {
+      this.conflicts.push({
+        severity: 'critical',
+        code: 'WAGMI_CONFIG_READ',
+        message: `\`${reads[0].expression}\` (${reads[0].file}:${reads[0].line}) reads the wagmi config outside WagmiProvider - ParaProvider creates that config itself`,
+        file: config.file,
+        line: config.line,
+        fix: 'Read wagmi state through hooks under ParaProvider instead of the config instance, then re-run the migration',
+      });
+      return null;
+    }
+
+    const options = config.source.slice(config.source.indexOf('(') + 1, -1);
+    if (!getCopiedImports(state, config.file, provider.file, options)) {
+      this.conflicts.push({
+        severity: 'critical',
+        code: 'WAGMI_CONFIG_LOCALS',
+        message: `The createConfig options read declarations of ${config.file}, which cannot move into ParaProvider in ${provider.file}`,
+        file: config.file,
+        line: config.line,
+        fix: 'Export the declarations the createConfig options read, then re-run the migration',
+      });
+      return null;
+    }
+
+    return config;
+  }
+
+  private isConnectorOf(connector: ProviderUsage, config: ProviderUsage): boolean {
+    return (
+      connector.file === config.file &&
+      String(config.props.connectors ?? '').includes(connector.source)
+    );
+  }
+
+  /**
+   * Remove one element from array literal source text, together with its separator
+   */
+  private removeListElement(list: string, element: string): string {
+    const index = list.indexOf(element);
+    if (index === -1) return list;
+
+    const before = list.slice(0, index).replace(/\s*$/, '');
+    const after = list.slice(index + element.length).replace(/^\s*,?/, '');
+
+    // Keep the leading whitespace of the next element when this one opened the list
+    if (before.endsWith('[')) {
+      return before + after.replace(/^[ \t]+/, '');
+    }
+
+    // A single-line list loses the comma that now dangles before `]`
+    return (before.endsWith(',') && after.startsWith(']') ? before.slice(0, -1) : before) + after;
+  }
+
+  /**
+   * Para config for a WagmiProvider, translated from the options of the walletConnect()
+   * connector it loses
+   */
+  private getParaConfig(
+    provider: ProviderUsage,
+    connector: ProviderUsage | undefined,
+    evmConnector: Record<string, string>,
+    state: ProjectState
+  ): string {
+    const client = getParaClientDefaults(this.sdk, state, provider);
+    if (client.review) this.reviews.push(client.review);
+
+    const defaults = {
+      ...client.config,
+      'externalWalletConfig.wallets': '["WALLETCONNECT", "METAMASK", "COINBASE"]',
+      ...evmConnector,
+    };
+    const quote = getFileQuote(state, provider.file);
+    if (!connector) return ConfigTranslator.render(defaults, { quote });
+
+    const { config, review } = translateProviderConfig(
+      connector,
+      PROVIDER_REPLACEMENT_MAP['walletconnect-to-para'].configMapping,
+      defaults,
+      quote,
+      apiKeyComment('WalletConnect projectId', connector.props.projectId)
+    );
+    if (review) this.reviews.push(review);
+
+    return config;
+  }
+}
+
+/**
+ * RainbowKit to Para Replacement Strategy
+ * getDefaultConfig becomes a plain wagmi createConfig whose chains Para's EVM connector takes
+ */
+export class RainbowKitToParaStrategy implements ReplacementStrategy {
+  strategy = MigrationStrategy.RAINBOWKIT_TO_PARA;
+
+  private reviews: ValidationIssue[] = [];
+
+  constructor(private sdk: ParaSdkManifest = getParaSdkManifest()) {}
+
+  async execute(state: ProjectState): Promise<ReplacementOperation[]> {
+    const operations: ReplacementOperation[] = [];
+    this.reviews = [];
+    const rainbowImports = state.imports.filter((i) => i.from === '@rainbow-me/rainbowkit');
+
+    // Subpath imports such as @rainbow-me/rainbowkit/wallets need manual migration
+    const keepsPackage = state.imports.some(
+      (i) => i.type === 'rainbowkit' && i.from !== '@rainbow-me/rainbowkit'
+    );
+
+    // 1. Remove RainbowKit
+    if ('@rainbow-me/rainbowkit' in state.dependencies && !keepsPackage) {
+      operations.push({
+        id: 'remove-rainbow-me-rainbowkit',
+        type: 'dependency',
+        oldValue: '@rainbow-me/rainbowkit',
+        newValue: '',
+        critical: true,
+      });
+    }
+
+    // 2. Add Para dependency
+    operations.push({
+      id: 'add-para-react',
+      type: 'dependency',
+      oldValue: '',
+      newValue: this.sdk.packages.react,
+      critical: true,
+    });
+
+    // 3. Generate a ConnectButton replacement, including the .Custom render-prop form
+    const buttonImport = rainbowImports.find((i) => /\bConnectButton\b/.test(i.import));
+    const buttonFile = buttonImport ? getConnectButtonFile(buttonImport.file) : null;
+
+    if (buttonFile) {
+      operations.push({
+        id: 'add-para-connect-button',
+        type: 'file',
+        file: buttonFile,
+        oldValue: '',
+        newValue: generateConnectButton(this.sdk, buttonFile.endsWith('.tsx'), 'rainbowkit'),
+        critical: true,
+      });
+    }
+
+    // 4. Replace RainbowKit imports
+    for (const importUsage of rainbowImports) {
+      operations.push({
+        id: `replace-import-${importUsage.file}-${importUsage.line}`,
+        type: 'import',
+        file: importUsage.file,
+        line: importUsage.line,
+        oldValue: importUsage.import,
+        newValue: this.getParaImportReplacement(importUsage, state, buttonFile),
+        critical: true,
+      });
+    }
+
+    // 5. Turn getDefaultConfig into a plain wagmi createConfig (CRITICAL)
+    const defaultConfigs = state.providers.filter(
+      (p) =>
+        p.provider === 'getDefaultConfig' &&
+        rainbowImports.some((i) => i.file === p.file && /\bgetDefaultConfig\b/.test(i.import))
+    );
+
+    for (const config of defaultConfigs) {
+      const { options, review } = renderWagmiConfig(config);
+      if (review) this.reviews.push(review);
+
+      operations.push({
+        id: `replace-config-${config.file}-${config.line}`,
+        type: 'provider',
+        file: config.file,
+        line: config.line,
+        oldValue: config.source,
+        newValue: `createConfig(${options})`,
+        critical: true,
+      });
+    }
+
+    // 6. Replace RainbowKitProvider with ParaProvider + ParaModal (CRITICAL)
+    for (const provider of state.providers.filter((p) => p.provider === 'RainbowKitProvider')) {
+      // WagmiProvider wraps RainbowKitProvider - its config's chains go to the EVM connector
+      const wagmiProvider = state.providers.find(
+        (p) => p.provider === 'WagmiProvider' && p.file === provider.file
+      );
+      const evmConnector = getEvmConnectorConfig(
+        state,
+        String(wagmiProvider?.props.config || 'wagmiConfig'),
+        provider.file
+      );
+      if (evmConnector.review) this.reviews.push(evmConnector.review);
+
+      operations.push({
+        id: `replace-provider-${provider.file}-${provider.line}`,
+        type: 'provider',
+        file: provider.file,
+        line: provider.line,
+        oldValue: provider.source,
+        newValue: this.generateParaProvider(
+          provider,
+          state,
+          defaultConfigs[0],
+          evmConnector.config
+        ),
+        critical: true,
+      });
+      operations.push(...getWrapperSetupOperations(this.sdk, state, provider));
+      addNamedImports(operations, state, provider.file, evmConnector.imports);
+    }
+
+    // 7. Replace modal hooks, keeping the destructured local names
+    const hookMap: Record<string, string> = HOOK_REPLACEMENT_MAP['rainbowkit-to-para'];
+    for (const hook of state.hooks.filter((h) => h.from === '@rainbow-me/rainbowkit')) {
+      const newHook = hookMap[hook.hook];
+      if (!newHook) {
+        this.reviews.push({
+          severity: 'warning',
+          code: 'HOOK_NEEDS_REVIEW',
+          message: `${hook.hook}() has no Para equivalent - it stays imported from @rainbow-me/rainbowkit, which the migration removes`,
+          file: hook.file,
+          line: hook.line,
+          fix: `Replace ${hook.hook}() with Para or wagmi hooks, or drop it`,
+        });
+      } else if (!isDestructured(hook)) {
+        this.reviews.push({
+          severity: 'warning',
+          code: 'HOOK_NEEDS_REVIEW',
+          message: `\`${hook.usage}\` keeps the ${hook.hook}() result whole - its RainbowKit properties are not on Para useModal()`,
+          file: hook.file,
+          line: hook.line,
+          fix: 'Destructure { openModal, isOpen } from useModal() and use them in place of the RainbowKit properties',
+        });
+      } else {
+        operations.push({
+          id: `replace-hook-${hook.file}-${hook.line}`,
+          type: 'hook',
+          file: hook.file,
+          line: hook.line,
+          oldValue: hook.usage,
+          newValue: renameDestructured(hook.usage.replace(hook.hook, newHook), {
+            openConnectModal: 'openModal',
+            openAccountModal: 'openModal',
+            openChainModal: 'openModal',
+            connectModalOpen: 'isOpen',
+            accountModalOpen: 'isOpen',
+            chainModalOpen: 'isOpen',
+          }),
+          critical: false, // hooks can be updated gradually
+        });
+      }
+    }
+
+    // 8. Swap the RainbowKit stylesheet, then make sure every entry point has Para CSS
+    const rainbowStyles = state.styles.filter((s) =>
+      s.import.includes('@rainbow-me/rainbowkit/styles.css')
+    );
+
+    for (const style of rainbowStyles) {
+      operations.push({
+        id: `replace-style-${style.file}-${style.line}`,
+        type: 'style',
+        file: style.file,
+        line: style.line,
+        oldValue: style.import,
+        newValue: style.import.replace('@rainbow-me/rainbowkit/styles.css', this.sdk.css),
+        critical: true,
+      });
+    }
+
+    for (const entryPoint of state.entryPoints) {
+      if (rainbowStyles.some((s) => s.file === entryPoint)) continue;
+
+      operations.push({
+        id: `add-para-css-${entryPoint}`,
+        type: 'style',
+        file: entryPoint,
+        oldValue: '',
+        newValue: `import '${this.sdk.css}'`,
+        critical: true,
+      });
+    }
+
+    return operations;
+  }
+
+  async validate(state: ProjectState): Promise<boolean> {
+    const hasRainbowKitDep = Object.keys(state.dependencies).includes('@rainbow-me/rainbowkit');
+    const hasRainbowKitImports = state.imports.some((i) => i.type === 'rainbowkit');
+
+    return hasRainbowKitDep || hasRainbowKitImports;
+  }
+
+  getEstimatedTime(): number {
+    return 150; // 2.5 minutes for RainbowKit replacement
+  }
+
+  getReviewIssues(): ValidationIssue[] {
+    return this.reviews;
+  }
+
+  private getParaImportReplacement(
+    importUsage: FileImport,
+    state: ProjectState,
+    buttonFile: string | null
+  ): string {
+    const semicolon = importUsage.import.trim().endsWith(';') ? ';' : '';
+    const quote = getQuote(importUsage.import);
+    const kept = getUnmappedHooks(importUsage, HOOK_REPLACEMENT_MAP['rainbowkit-to-para']);
+    const statements = [
+      rewriteImport(
+        importUsage.import,
+        {
+          ...HOOK_REPLACEMENT_MAP['rainbowkit-to-para'],
+          ...Object.fromEntries(kept.map((s) => [s.imported, ''])),
+          RainbowKitProvider: getProviderExports(this.sdk).join(', '),
+          ConnectButton: '',
+          getDefaultConfig: '',
+          darkTheme: '',
+          lightTheme: '',
+          midnightTheme: '',
+        },
+        this.sdk.packages.react
+      ),
+      /\bRainbowKitProvider\b/.test(importUsage.import)
+        ? renderEnvironmentImport(this.sdk, quote, semicolon)
+        : '',
+      renderKeptImport(importUsage, kept),
+    ];
+
+    // createConfig replaces getDefaultConfig - only import what the file doesn't have yet
+    if (/\bgetDefaultConfig\b/.test(importUsage.import)) {
+      const wagmiImports = state.imports
+        .filter((i) => i.file === importUsage.file && i.from === 'wagmi')
+        .map((i) => i.import)
+        .join('\n');
+      const missing = ['createConfig', 'http'].filter(
+        (name) => !new RegExp(`\\b${name}\\b`).test(wagmiImports)
+      );
+
+      if (missing.length > 0) {
+        statements.push(`import { ${missing.join(', ')} } from ${quote}wagmi${quote}${semicolon}`);
+      }
+    }
+
+    if (buttonFile && /\bConnectButton\b/.test(importUsage.import)) {
+      statements.push(
+        `import { ParaConnectButton as ConnectButton } from ${quote}${relativeImport(
+          importUsage.file,
+          buttonFile
+        )}${quote}${semicolon}`
+      );
+    }
+
+    return statements.filter(Boolean).join('\n');
+  }
+
+  private generateParaProvider(
+    provider: ProviderUsage,
+    state: ProjectState,
+    defaultConfig: ProviderUsage | undefined,
+    evmConnector: Record<string, string>
+  ): string {
+    const appName = defaultConfig?.props.appName;
+    const client = getParaClientDefaults(this.sdk, state, provider);
+    if (client.review) this.reviews.push(client.review);
+
+    const { config, review } = translateProviderConfig(
+      provider,
+      PROVIDER_REPLACEMENT_MAP['rainbowkit-to-para'].configMapping,
+      {
+        ...client.config,
+        ...(appName ? { 'config.appName': String(appName) } : {}),
+        'externalWalletConfig.wallets': '["METAMASK", "COINBASE", "WALLETCONNECT", "RAINBOW"]',
+        ...evmConnector,
+      },
+      getFileQuote(state, provider.file)
+    );
+    if (review) this.reviews.push(review);
+
+    return renderParaProvider(
+      this.sdk,
+      config,
+      provider.children,
+      provider.indent,
+      getMissingWrappers(this.sdk, state, provider)
+    );
+  }
+}
+
+/**
+ * ConnectKit to Para Replacement Strategy
+ * ConnectKit's useModal shares its name with Para's, so hooks are matched by import source
+ */
+export class ConnectKitToParaStrategy implements ReplacementStrategy {
+  strategy = MigrationStrategy.CONNECTKIT_TO_PARA;
+
+  private reviews: ValidationIssue[] = [];
+
+  constructor(private sdk: ParaSdkManifest = getParaSdkManifest()) {}
+
+  async execute(state: ProjectState): Promise<ReplacementOperation[]> {
+    const operations: ReplacementOperation[] = [];
+    this.reviews = [];
+    const connectKitImports = state.imports.filter((i) => i.from === 'connectkit');
+
+    // 1. Remove ConnectKit
+    if ('connectkit' in state.dependencies) {
+      operations.push({
+        id: 'remove-connectkit',
+        type: 'dependency',
+        oldValue: 'connectkit',
+        newValue: '',
+        critical: true,
+      });
+    }
+
+    // 2. Add Para dependency
+    operations.push({
+      id: 'add-para-react',
+      type: 'dependency',
+      oldValue: '',
+      newValue: this.sdk.packages.react,
+      critical: true,
+    });
+
+    // 3. Generate a ConnectKitButton replacement, including the .Custom render-prop form
+    const buttonImport = connectKitImports.find((i) => /\bConnectKitButton\b/.test(i.import));
+    const buttonFile = buttonImport ? getConnectButtonFile(buttonImport.file) : null;
+
+    if (buttonFile) {
+      operations.push({
+        id: 'add-para-connect-button',
+        type: 'file',
+        file: buttonFile,
+        oldValue: '',
+        newValue: generateConnectButton(this.sdk, buttonFile.endsWith('.tsx'), 'connectkit'),
+        critical: true,
+      });
+    }
+
+    // 4. Replace ConnectKit imports
+    const defaultConfigs = state.providers.filter(
+      (p) =>
+        p.provider === 'getDefaultConfig' &&
+        connectKitImports.some((i) => i.file === p.file && /\bgetDefaultConfig\b/.test(i.import))
+    );
+
+    for (const importUsage of connectKitImports) {
+      operations.push({
+        id: `replace-import-${importUsage.file}-${importUsage.line}`,
+        type: 'import',
+        file: importUsage.file,
+        line: importUsage.line,
+        oldValue: importUsage.import,
+        newValue: this.getParaImportReplacement(importUsage, state, defaultConfigs, buttonFile),
+        critical: true,
+      });
+    }
+
+    // 5. Unwrap getDefaultConfig - usually already inside createConfig(...) (CRITICAL)
+    for (const config of defaultConfigs) {
+      const { options, review } = renderWagmiConfig(config);
+      if (review) this.reviews.push(review);
+
+      operations.push({
+        id: `replace-config-${config.file}-${config.line}`,
+        type: 'provider',
+        file: config.file,
+        line: config.line,
+        oldValue: config.source,
+        newValue: this.isWrappedInCreateConfig(config, state)
+          ? options
+          : `createConfig(${options})`,
+        critical: true,
+      });
+    }
+
+    // 6. Replace ConnectKitProvider with ParaProvider + ParaModal (CRITICAL)
+    for (const provider of state.providers.filter((p) => p.provider === 'ConnectKitProvider')) {
+      // WagmiProvider wraps ConnectKitProvider - its config's chains go to the EVM connector
+      const wagmiProvider = state.providers.find(
+        (p) => p.provider === 'WagmiProvider' && p.file === provider.file
+      );
+      const evmConnector = getEvmConnectorConfig(
+        state,
+        String(wagmiProvider?.props.config || 'wagmiConfig'),
+        provider.file
+      );
+      if (evmConnector.review) this.reviews.push(evmConnector.review);
+
+      operations.push({
+        id: `replace-provider-${provider.file}-${provider.line}`,
+        type: 'provider',
+        file: provider.file,
+        line: provider.line,
+        oldValue: provider.source,
+        newValue: this.generateParaProvider(
+          provider,
+          state,
+          defaultConfigs[0],
+          evmConnector.config
+        ),
+        critical: true,
+      });
+      operations.push(...getWrapperSetupOperations(this.sdk, state, provider));
+      addNamedImports(operations, state, provider.file, evmConnector.imports);
+    }
+
+    // 7. Rewrite useModal calls - only those imported from connectkit
+    for (const hook of state.hooks.filter((h) => h.from === 'connectkit')) {
+      if (hook.hook !== 'useModal') {
+        this.reviews.push({
+          severity: 'warning',
+          code: 'HOOK_NEEDS_REVIEW',
+          message: `${hook.hook}() has no Para equivalent - it stays imported from connectkit, which the migration removes`,
+          file: hook.file,
+          line: hook.line,
+          fix: `Replace ${hook.hook}() with Para or wagmi hooks, or drop it`,
+        });
+        continue;
+      }
+      if (!isDestructured(hook)) {
+        this.reviews.push({
+          severity: 'warning',
+          code: 'HOOK_NEEDS_REVIEW',
+          message: `\`${hook.usage}\` keeps the ConnectKit modal object - setOpen and its other properties are not on Para useModal()`,
+          file: hook.file,
+          line: hook.line,
+          fix: 'Destructure { isOpen, openModal, closeModal } from useModal() and call them in place of setOpen',
+        });
+        continue;
+      }
+
+      operations.push({
+        id: `replace-hook-${hook.file}-${hook.line}`,
+        type: 'hook',
+        file: hook.file,
+        line: hook.line,
+        oldValue: hook.usage,
+        newValue: this.rewriteModalHook(hook),
+        critical: false, // hooks can be updated gradually
+      });
+    }
+
+    // 8. Add Para CSS imports (CRITICAL)
+    for (const entryPoint of state.entryPoints) {
+      operations.push({
+        id: `add-para-css-${entryPoint}`,
+        type: 'style',
+        file: entryPoint,
+        oldValue: '',
+        newValue: `import '${this.sdk.css}'`,
+        critical: true,
+      });
+    }
+
+    return operations;
+  }
+
+  async validate(state: ProjectState): Promise<boolean> {
+    const hasConnectKitDep = Object.keys(state.dependencies).includes('connectkit');
+    const hasConnectKitImports = state.imports.some((i) => i.type === 'connectkit');
+
+    return hasConnectKitDep || hasConnectKitImports;
+  }
+
+  getEstimatedTime(): number {
+    return 150; // 2.5 minutes for ConnectKit replacement
+  }
+
+  getReviewIssues(): ValidationIssue[] {
+    return this.reviews;
+  }
+
+  private getParaImportReplacement(
+    importUsage: FileImport,
+    state: ProjectState,
+    defaultConfigs: ProviderUsage[],
+    buttonFile: string | null
+  ): string {
+    const semicolon = importUsage.import.trim().endsWith(';') ? ';' : '';
+    const quote = getQuote(importUsage.import);
+    const kept = getUnmappedHooks(importUsage, HOOK_REPLACEMENT_MAP['connectkit-to-para']);
+    const statements = [
+      rewriteImport(
+        importUsage.import,
+        {
+          ...HOOK_REPLACEMENT_MAP['connectkit-to-para'],
+          ...Object.fromEntries(kept.map((s) => [s.imported, ''])),
+          ConnectKitProvider: getProviderExports(this.sdk).join(', '),
+          ConnectKitButton: '',
+          getDefaultConfig: '',
+        },
+        this.sdk.packages.react
+      ),
+      /\bConnectKitProvider\b/.test(importUsage.import)
+        ? renderEnvironmentImport(this.sdk, quote, semicolon)
+        : '',
+      renderKeptImport(importUsage, kept),
+    ];
+
+    // Only import the wagmi helpers the unwrapped config needs and the file lacks
+    const configs = defaultConfigs.filter((c) => c.file === importUsage.file);
+    if (configs.length > 0) {
+      const wagmiImports = state.imports
+        .filter((i) => i.file === importUsage.file && i.from === 'wagmi')
+        .map((i) => i.import)
+        .join('\n');
+      const needed = [
+        ...(configs.some((c) => !this.isWrappedInCreateConfig(c, state)) ? ['createConfig'] : []),
+        ...(configs.some((c) => !c.props.transports) ? ['http'] : []),
+      ];
+      const missing = needed.filter((name) => !new RegExp(`\\b${name}\\b`).test(wagmiImports));
+
+      if (missing.length > 0) {
+        statements.push(`import { ${missing.join(', ')} } from ${quote}wagmi${quote}${semicolon}`);
+      }
+    }
+
+    if (buttonFile && /\bConnectKitButton\b/.test(importUsage.import)) {
+      statements.push(
+        `import { ParaConnectButton as ConnectKitButton } from ${quote}${relativeImport(
+          importUsage.file,
+          buttonFile
+        )}${quote}${semicolon}`
+      );
+    }
+
+    return statements.filter(Boolean).join('\n');
+  }
+
+  private isWrappedInCreateConfig(config: ProviderUsage, state: ProjectState): boolean {
+    return state.providers.some(
+      (p) =>
+        p.provider === 'createConfig' && p.file === config.file && p.source.includes(config.source)
+    );
+  }
+
+  private generateParaProvider(
+    provider: ProviderUsage,
+    state: ProjectState,
+    defaultConfig: ProviderUsage | undefined,
+    evmConnector: Record<string, string>
+  ): string {
+    const appName = defaultConfig?.props.appName;
+    const client = getParaClientDefaults(this.sdk, state, provider);
+    if (client.review) this.reviews.push(client.review);
+
+    const { config, review } = translateProviderConfig(
+      provider,
+      PROVIDER_REPLACEMENT_MAP['connectkit-to-para'].configMapping,
+      {
+        ...client.config,
+        ...(appName ? { 'config.appName': String(appName) } : {}),
+        'externalWalletConfig.wallets': '["METAMASK", "COINBASE", "WALLETCONNECT"]',
+        ...evmConnector,
+      },
+      getFileQuote(state, provider.file)
+    );
+    if (review) this.reviews.push(review);
+
+    return renderParaProvider(
+      this.sdk,
+      config,
+      provider.children,
+      provider.indent,
+      getMissingWrappers(this.sdk, state, provider)
+    );
+  }
+
+  /**
+   * ConnectKit's `{ open, setOpen }` becomes Para's `{ isOpen, openModal, closeModal }`
+   * setOpen(boolean) is kept as a local function so existing call sites work unchanged
+   */
+  private rewriteModalHook(hook: HookUsage): string {
+    const usage = renameDestructured(hook.usage, {
+      open: 'isOpen',
+      openAbout: 'openModal',
+      openOnboarding: 'openModal',
+      openProfile: 'openModal',
+      openSwitchNetworks: 'openModal',
+    });
+
+    const setter = usage.match(/\{[^}]*\bsetOpen\b(?:\s*:\s*([\w$]+))?[^}]*\}\s*=/);
+    if (!setter) return usage;
+
+    const local = setter[1] ?? 'setOpen';
+    const parameter = /\.tsx?$/.test(hook.file) ? 'open: boolean' : 'open';
+    const semicolon = usage.trim().endsWith(';') ? ';' : '';
+
+    // Hooks sit at the top of a component body - one indentation level deep
+    return `${usage.replace(/\bsetOpen\b(\s*:\s*[\w$]+)?/, 'openModal, closeModal')}
+  const ${local} = (${parameter}) => (open ? openModal() : closeModal())${semicolon}`;
+  }
+}
+
+/**
+ * Dynamic to Para Replacement Strategy
+ * Translates DynamicContextProvider settings and splits useDynamicContext into Para hooks
+ */
+export class DynamicToParaStrategy implements ReplacementStrategy {
+  strategy = MigrationStrategy.DYNAMIC_TO_PARA;
+
+  // useDynamicContext property -> Para hook and the destructuring that replaces it
+  private static readonly CONTEXT_PROPERTIES: Record<string, { hook: string; key: string }> = {
+    primaryWallet: { hook: 'useWallet', key: 'data' },
+    user: { hook: 'useAccount', key: 'data' },
+    sdkHasLoaded: { hook: 'useAccount', key: 'isLoading' },
+    handleLogOut: { hook: 'useLogout', key: 'logoutAsync' },
+    setShowAuthFlow: { hook: 'useModal', key: 'openModal' },
+  };
+
+  // Dynamic settings.events -> ParaProvider callbacks
+  private static readonly EVENT_CALLBACKS: Record<string, string> = {
+    onAuthSuccess: 'onLogin',
+    onLogout: 'onLogout',
+    onEmbeddedWalletCreated: 'onWalletCreated',
+  };
+
+  private reviews: ValidationIssue[] = [];
+
+  constructor(private sdk: ParaSdkManifest = getParaSdkManifest()) {}
+
+  async execute(state: ProjectState): Promise<ReplacementOperation[]> {
+    const operations: ReplacementOperation[] = [];
+    this.reviews = [];
+    const dynamicImports = state.imports.filter((i) => i.type === 'dynamic');
+
+    // 1. Remove every Dynamic package
+    for (const dep of Object.keys(state.dependencies).filter((d) =>
+      d.startsWith('@dynamic-labs/')
+    )) {
+      operations.push({
+        id: `remove-${dep.replace(/[@/]/g, '-')}`,
+        type: 'dependency',
+        oldValue: dep,
+        newValue: '',
+        critical: true,
+      });
+    }
+
+    // 2. Add Para dependency
+    operations.push({
+      id: 'add-para-react',
+      type: 'dependency',
+      oldValue: '',
+      newValue: this.sdk.packages.react,
+      critical: true,
+    });
+
+    // 3. Generate a DynamicWidget replacement
+    const widgetImport = dynamicImports.find((i) => /\bDynamicWidget\b/.test(i.import));
+    const buttonFile = widgetImport ? getConnectButtonFile(widgetImport.file) : null;
+
+    if (buttonFile) {
+      operations.push({
+        id: 'add-para-connect-button',
+        type: 'file',
+        file: buttonFile,
+        oldValue: '',
+        newValue: generateConnectButton(this.sdk, buttonFile.endsWith('.tsx')),
+        critical: true,
+      });
+    }
+
+    // 4. Replace Dynamic imports - connector packages are only referenced from settings
+    const contextHooks = state.hooks.filter((h) => h.hook === 'useDynamicContext');
+
+    for (const importUsage of dynamicImports) {
+      operations.push({
+        id: `replace-import-${importUsage.file}-${importUsage.line}`,
+        type: 'import',
+        file: importUsage.file,
+        line: importUsage.line,
+        oldValue: importUsage.import,
+        newValue: this.getParaImportReplacement(importUsage, contextHooks, buttonFile),
+        critical: true,
+      });
+    }
+
+    // 5. Replace DynamicContextProvider with ParaProvider + ParaModal (CRITICAL)
+    for (const provider of state.providers.filter((p) => p.provider === 'DynamicContextProvider')) {
+      const wagmiProvider = state.providers.find(
+        (p) => p.provider === 'WagmiProvider' && p.file === provider.file
+      );
+      const evmConnector = getEvmConnectorConfig(
+        state,
+        String(wagmiProvider?.props.config || 'wagmiConfig'),
+        provider.file
+      );
+      const paraProvider = this.generateParaProvider(provider, state, evmConnector.config);
+
+      operations.push({
+        id: `replace-provider-${provider.file}-${provider.line}`,
+        type: 'provider',
+        file: provider.file,
+        line: provider.line,
+        oldValue: provider.source,
+        newValue: paraProvider,
+        critical: true,
+      });
+      operations.push(...getWrapperSetupOperations(this.sdk, state, provider));
+
+      // Settings without EVM wallet connectors get no EVM connector
+      if (paraProvider.includes('evmConnector: {')) {
+        if (evmConnector.review) this.reviews.push(evmConnector.review);
+        addNamedImports(operations, state, provider.file, evmConnector.imports);
+      }
+    }
+
+    // 6. Unwrap DynamicWagmiConnector - ParaProvider's EVM connector takes over (CRITICAL)
+    for (const connector of state.providers.filter((p) => p.provider === 'DynamicWagmiConnector')) {
+      operations.push({
+        id: `remove-wagmi-connector-${connector.file}-${connector.line}`,
+        type: 'provider',
+        file: connector.file,
+        line: connector.line,
+        oldValue: connector.source,
+        newValue: unwrapChildren(connector.children, connector.indent ?? ''),
+        critical: true,
+      });
+    }
+
+    // 7. Split useDynamicContext destructuring into Para hooks
+    for (const hook of contextHooks) {
+      const newUsage = this.rewriteContextHook(hook);
+      if (newUsage) {
+        operations.push({
+          id: `replace-hook-${hook.file}-${hook.line}`,
+          type: 'hook',
+          file: hook.file,
+          line: hook.line,
+          oldValue: hook.usage,
+          newValue: newUsage,
+          critical: false, // hooks can be updated gradually
+        });
+      } else {
+        this.reviews.push({
+          severity: 'warning',
+          code: 'HOOK_NEEDS_REVIEW',
+          message: `\`${hook.usage}\` could not be split into Para hooks - useDynamicContext() stays imported from ${hook.from}, which the migration removes`,
+          file: hook.file,
+          line: hook.line,
+          fix: 'Destructure the properties you read and move them onto Para useAccount(), useWallet(), useLogout() and useModal()',
+        });
+      }
+
+      // Para accounts carry no Dynamic user profile - fields read off `user` need a new source
+      const user = this.getContextBindings(hook.usage)?.find(([property]) => property === 'user');
+      for (const reference of hook.references ?? []) {
+        if (!user || reference.name !== user[1] || reference.expression === user[1]) continue;
+
+        this.reviews.push({
+          severity: 'warning',
+          code: 'HOOK_NEEDS_REVIEW',
+          message: `\`${reference.expression}\` reads the Dynamic user profile, which has no Para equivalent`,
+          file: hook.file,
+          line: reference.line,
+          fix: 'Read the wallet address from useWallet(), and profile fields from your own backend',
+        });
+      }
+    }
+
+    for (const hook of state.hooks.filter(
+      (h) => h.from.startsWith('@dynamic-labs/') && h.hook !== 'useDynamicContext'
+    )) {
+      this.reviews.push({
+        severity: 'warning',
+        code: 'HOOK_NEEDS_REVIEW',
+        message: `${hook.hook}() has no Para equivalent - it stays imported from ${hook.from}, which the migration removes`,
+        file: hook.file,
+        line: hook.line,
+        fix: `Replace ${hook.hook}() with Para or wagmi hooks, or drop it`,
+      });
+    }
+
+    // 8. Add Para CSS imports (CRITICAL)
+    for (const entryPoint of state.entryPoints) {
+      operations.push({
+        id: `add-para-css-${entryPoint}`,
+        type: 'style',
+        file: entryPoint,
+        oldValue: '',
+        newValue: `import '${this.sdk.css}'`,
+        critical: true,
+      });
+    }
+
+    return operations;
+  }
+
+  async validate(state: ProjectState): Promise<boolean> {
+    const hasDynamicDeps = Object.keys(state.dependencies).some((dep) =>
+      dep.startsWith('@dynamic-labs/')
+    );
+    const hasDynamicImports = state.imports.some((i) => i.type === 'dynamic');
+
+    return hasDynamicDeps || hasDynamicImports;
+  }
+
+  getEstimatedTime(): number {
+    return 180; // 3 minutes for Dynamic replacement
+  }
+
+  getReviewIssues(): ValidationIssue[] {
+    return this.reviews;
+  }
+
+  private getParaImportReplacement(
+    importUsage: FileImport,
+    contextHooks: HookUsage[],
+    buttonFile: string | null
+  ): string {
+    const fileHooks = contextHooks.filter((h) => h.file === importUsage.file);
+    const splitsContext = fileHooks.every((h) => this.getContextBindings(h.usage));
+
+    // Hooks without a Para equivalent stay on Dynamic for review
+    const kept = getUnmappedHooks(importUsage, splitsContext ? { useDynamicContext: '' } : {});
+    if (importUsage.from !== '@dynamic-labs/sdk-react-core') {
+      return renderKeptImport(importUsage, kept); // wallet connector and wagmi-connector packages
+    }
+
+    const semicolon = importUsage.import.trim().endsWith(';') ? ';' : '';
+    const quote = getQuote(importUsage.import);
+    const paraHooks = [
+      ...new Set(
+        fileHooks
+          .flatMap((h) => this.getContextBindings(h.usage) ?? [])
+          .map(([property]) => DynamicToParaStrategy.CONTEXT_PROPERTIES[property].hook)
+      ),
+    ];
+
+    const statements = [
+      rewriteImport(
+        importUsage.import,
+        {
+          ...Object.fromEntries(kept.map((s) => [s.imported, ''])),
+          DynamicContextProvider: getProviderExports(this.sdk).join(', '),
+          DynamicWidget: '',
+          useDynamicContext: paraHooks.join(', '),
+        },
+        this.sdk.packages.react
+      ),
+      /\bDynamicContextProvider\b/.test(importUsage.import)
+        ? renderEnvironmentImport(this.sdk, quote, semicolon)
+        : '',
+      renderKeptImport(importUsage, kept),
+    ];
+
+    if (buttonFile && /\bDynamicWidget\b/.test(importUsage.import)) {
+      statements.push(
+        `import { ParaConnectButton as DynamicWidget } from ${quote}${relativeImport(
+          importUsage.file,
+          buttonFile
+        )}${quote}${semicolon}`
+      );
+    }
+
+    return statements.filter(Boolean).join('\n');
+  }
+
+  private generateParaProvider(
+    provider: ProviderUsage,
+    state: ProjectState,
+    evmConnectorConfig: Record<string, string>
+  ): string {
+    const settings = parseObjectLiteral(String(provider.props.settings ?? ''));
+    const evmConnector = {
+      'externalWalletConfig.wallets': '["METAMASK", "COINBASE", "WALLETCONNECT"]',
+      ...evmConnectorConfig,
+    };
+
+    // events / eventsCallbacks: matching handlers move to ParaProvider callbacks
+    const translateEvents = (value: string): TransformedConfig | null => {
+      const events = parseObjectLiteral(value);
+      if (!events) return null;
+
+      const mapped = Object.keys(events).filter((e) => DynamicToParaStrategy.EVENT_CALLBACKS[e]);
+      return {
+        config: Object.fromEntries(
+          mapped.map((e) => [`callbacks.${DynamicToParaStrategy.EVENT_CALLBACKS[e]}`, events[e]])
+        ),
+        unmapped: Object.keys(events).filter((e) => !mapped.includes(e)),
+      };
+    };
+
+    const client = getParaClientDefaults(this.sdk, state, provider);
+    if (client.review) this.reviews.push(client.review);
+
+    const { config, review } = translateProviderConfig(
+      provider,
+      PROVIDER_REPLACEMENT_MAP['dynamic-to-para'].configMapping,
+      {
+        ...client.config,
+        ...(settings?.walletConnectors ? {} : evmConnector),
+      },
+      getFileQuote(state, provider.file),
+      apiKeyComment('Dynamic environmentId', settings?.environmentId),
+      {
+        // EVM connectors become Para's EVM connector on the existing wagmi config's chains
+        'settings.walletConnectors': (value) => {
+          const connectors = value
+            .replace(/^\[|\]$/g, '')
+            .split(',')
+            .map((connector) => connector.trim())
+            .filter(Boolean);
+          return {
+            config:
+              connectors.length === 0 || connectors.some((c) => c.startsWith('Ethereum'))
+                ? evmConnector
+                : {},
+            unmapped: connectors.filter((c) => !c.startsWith('Ethereum')),
+          };
+        },
+        'settings.events': translateEvents,
+        'settings.eventsCallbacks': translateEvents,
+      }
+    );
+    if (review) this.reviews.push(review);
+
+    return renderParaProvider(
+      this.sdk,
+      config,
+      provider.children,
+      provider.indent,
+      getMissingWrappers(this.sdk, state, provider)
+    );
+  }
+
+  /**
+   * [property, local name] pairs of a `const { ... } = useDynamicContext()` statement,
+   * null when the statement has any shape or property this strategy cannot translate
+   */
+  private getContextBindings(usage: string): Array<[string, string]> | null {
+    const match = usage.match(/^(?:const|let)\s*\{([^}]*)\}\s*=\s*useDynamicContext\(\)\s*;?$/);
+    if (!match) return null;
+
+    const bindings = match[1]
+      .split(',')
+      .map((element) => element.trim())
+      .filter(Boolean)
+      .map((element): [string, string] => {
+        const [property, local] = element.split(/\s*:\s*/);
+        return [property, local ?? property];
+      });
+
+    return bindings.every(([property]) => property in DynamicToParaStrategy.CONTEXT_PROPERTIES)
+      ? bindings
+      : null;
+  }
+
+  private rewriteContextHook(hook: HookUsage): string | null {
+    const bindings = this.getContextBindings(hook.usage);
+    if (!bindings) return null;
+
+    const typescript = /\.tsx?$/.test(hook.file);
+    const semicolon = hook.usage.trim().endsWith(';') ? ';' : '';
+    const destructured = new Map<string, string[]>();
+    const helpers: string[] = [];
+
+    for (const [property, local] of bindings) {
+      const { hook: paraHook, key } = DynamicToParaStrategy.CONTEXT_PROPERTIES[property];
+      const names = destructured.get(paraHook) ?? [];
+
+      if (property === 'setShowAuthFlow') {
+        names.push('openModal', 'closeModal');
+        helpers.push(
+          `const ${local} = (show${typescript ? ': boolean' : ''}) => (show ? openModal() : closeModal())${semicolon}`
+        );
+      } else if (property === 'sdkHasLoaded') {
+        names.push(`${key}: isParaLoading`);
+        helpers.push(`const ${local} = !isParaLoading${semicolon}`);
+      } else if (property === 'user') {
+        // Dynamic's user stays undefined until sign-in - keep that for `!user` checks
+        names.push(`${key}: paraAccount`);
+        helpers.push(
+          `const ${local} = paraAccount?.isConnected ? paraAccount : undefined${semicolon}`
+        );
+      } else {
+        names.push(`${key}: ${local}`);
+      }
+
+      destructured.set(paraHook, names);
+    }
+
+    const statements = [
+      ...[...destructured].map(
+        ([paraHook, names]) =>
+          `const { ${[...new Set(names)].join(', ')} } = ${paraHook}()${semicolon}`
+      ),
+      ...helpers,
+    ];
+
+    // Hooks sit at the top of a component body - one indentation level deep
+    return statements.join('\n  ');
+  }
+}
+
+/**
+ * Thirdweb to Para Replacement Strategy
+ * thirdweb manages chains without wagmi - a generated module holds the chains Para's EVM connector
+ * and the WagmiProvider the migrated hooks read are created from
+ */
+export class ThirdwebToParaStrategy implements ReplacementStrategy {
+  strategy = MigrationStrategy.THIRDWEB_TO_PARA;
+
+  // thirdweb/react exports -> Para replacements, '' where the export goes away
+  private static readonly REACT_EXPORTS: Record<string, string> = {
+    ThirdwebProvider: 'ParaProvider', // plus ParaModal on SDK lines that export it
+    ConnectButton: '',
+    useActiveAccount: '', // wagmi useAccount
+    useActiveWalletChain: '', // wagmi useAccount
+    useActiveWallet: 'useWallet',
+    useDisconnect: 'useLogout',
+  };
+
+  // thirdweb/chains names that differ from wagmi/chains
+  private static readonly CHAIN_NAMES: Record<string, string> = {
+    ethereum: 'mainnet',
+  };
+
+  private reviews: ValidationIssue[] = [];
+
+  constructor(private sdk: ParaSdkManifest = getParaSdkManifest()) {}
+
+  async execute(state: ProjectState): Promise<ReplacementOperation[]> {
+    const operations: ReplacementOperation[] = [];
+    this.reviews = [];
+    const thirdwebImports = state.imports.filter((i) => i.type === 'thirdweb');
+
+    // Hook calls without a rewrite keep their thirdweb/react import
+    const hookOperations = new Map(
+      state.hooks
+        .filter((h) => h.from === 'thirdweb/react')
+        .map((h) => [h, this.getHookOperations(h)] as const)
+    );
+    const keptHooks = [...hookOperations]
+      .filter(([, hookOps]) => hookOps.length === 0)
+      .map(([hook]) => hook);
+
+    // Contract reads, transactions, wallet factories etc. still need the thirdweb SDK
+    const keepsThirdweb = thirdwebImports.some((i) => !this.isTranslatable(i, keptHooks));
+    const clientFactories = state.providers.filter(
+      (p) => p.provider === 'createThirdwebClient' && !keepsThirdweb
+    );
+    const providers = state.providers.filter((p) => p.provider === 'ThirdwebProvider');
+
+    // 1. Remove thirdweb once nothing untranslated imports it
+    if ('thirdweb' in state.dependencies && !keepsThirdweb) {
+      operations.push({
+        id: 'remove-thirdweb',
+        type: 'dependency',
+        oldValue: 'thirdweb',
+        newValue: '',
+        critical: true,
+      });
+    }
+
+    // 2. Add Para plus the wagmi stack behind its EVM connector and the migrated hooks
+    operations.push({
+      id: 'add-para-react',
+      type: 'dependency',
+      oldValue: '',
+      newValue: this.sdk.packages.react,
+      critical: true,
+    });
+
+    for (const dep of ['wagmi', 'viem', '@tanstack/react-query'].filter(
+      (d) => !(d in state.dependencies)
+    )) {
+      operations.push({
+        id: `add-${dep}`,
+        type: 'dependency',
+        oldValue: '',
+        newValue: dep,
+        critical: true,
+      });
+    }
+
+    // 3. Generate the wagmi config next to the provider, and a ConnectButton replacement
+    const configFile = providers[0] ? getWagmiConfigFile(providers[0].file) : null;
+
+    if (configFile) {
+      const chains = this.getChains(thirdwebImports);
+      operations.push({
+        id: 'add-wagmi-config',
+        type: 'file',
+        file: configFile,
+        oldValue: '',
+        newValue: generateWagmiConfig(
+          'thirdweb',
+          chains,
+          chains.map((chain) => `[${chain}.id]: http(),`)
+        ),
+        critical: true,
+      });
+    }
+
+    const buttonImport = thirdwebImports.find(
+      (i) => i.from === 'thirdweb/react' && /\bConnectButton\b/.test(i.import)
+    );
+    const buttonFile = buttonImport ? getConnectButtonFile(buttonImport.file) : null;
+
+    if (buttonFile) {
+      operations.push({
+        id: 'add-para-connect-button',
+        type: 'file',
+        file: buttonFile,
+        oldValue: '',
+        newValue: generateConnectButton(this.sdk, buttonFile.endsWith('.tsx')),
+        critical: true,
+      });
+    }
+
+    // 4. Replace thirdweb imports
+    for (const importUsage of thirdwebImports) {
+      const newImport = this.getImportReplacement(importUsage, state, {
+        configFile,
+        buttonFile,
+        keepsThirdweb,
+        keptHooks,
+      });
+
+      if (newImport !== importUsage.import) {
+        operations.push({
+          id: `replace-import-${importUsage.file}-${importUsage.line}`,
+          type: 'import',
+          file: importUsage.file,
+          line: importUsage.line,
+          oldValue: importUsage.import,
+          newValue: newImport,
+          critical: true,
+        });
+      }
+    }
+
+    // 5. The thirdweb client only carried the clientId - keep a plain object for its references
+    for (const factory of clientFactories) {
+      operations.push({
+        id: `replace-client-${factory.file}-${factory.line}`,
+        type: 'provider',
+        file: factory.file,
+        line: factory.line,
+        oldValue: factory.source,
+        newValue: factory.source.replace(/^createThirdwebClient\(\s*([\s\S]*?),?\s*\)$/, '$1'),
+        critical: true,
+      });
+    }
+
+    // 6. Replace ThirdwebProvider with ParaProvider + ParaModal inside the WagmiProvider and
+    // QueryClientProvider the wagmi hooks read (CRITICAL)
+    for (const provider of providers) {
+      const wrappers = getMissingWrappers(this.sdk, state, provider, [
+        ...new Set([...this.sdk.providerWrappers, 'QueryClientProvider', 'WagmiProvider']),
+      ]);
+      operations.push({
+        id: `replace-provider-${provider.file}-${provider.line}`,
+        type: 'provider',
+        file: provider.file,
+        line: provider.line,
+        oldValue: provider.source,
+        newValue: this.generateParaProvider(provider, state, wrappers),
+        critical: true,
+      });
+      operations.push(...getWrapperSetupOperations(this.sdk, state, provider, wrappers));
+    }
+
+    // 7. Replace hooks and rewrite the account reads that depended on their return shape
+    for (const hookOps of hookOperations.values()) {
+      operations.push(...hookOps);
+    }
+
+    // ThirdwebProvider is gone, so the hooks left on thirdweb/react lose their context
+    for (const hook of keptHooks) {
+      this.reviews.push({
+        severity: 'warning',
+        code: 'HOOK_NEEDS_REVIEW',
+        message:
+          hook.hook in ThirdwebToParaStrategy.REACT_EXPORTS
+            ? `\`${hook.usage}\` does not bind the ${hook.hook}() result to a name - it stays on thirdweb/react`
+            : `${hook.hook}() has no Para equivalent - it stays on thirdweb/react without a ThirdwebProvider`,
+        file: hook.file,
+        line: hook.line,
+        fix: `Replace ${hook.hook}() with Para or wagmi hooks, or drop it`,
+      });
+    }
+
+    // 8. Add Para CSS imports (CRITICAL)
+    for (const entryPoint of state.entryPoints) {
+      operations.push({
+        id: `add-para-css-${entryPoint}`,
+        type: 'style',
+        file: entryPoint,
+        oldValue: '',
+        newValue: `import '${this.sdk.css}'`,
+        critical: true,
+      });
+    }
+
+    return operations;
+  }
+
+  async validate(state: ProjectState): Promise<boolean> {
+    const hasThirdwebDep = 'thirdweb' in state.dependencies;
+    const hasThirdwebReact = state.imports.some((i) => i.from === 'thirdweb/react');
+
+    return hasThirdwebDep || hasThirdwebReact;
+  }
+
+  getEstimatedTime(): number {
+    return 180; // 3 minutes for thirdweb replacement
+  }
+
+  getReviewIssues(): ValidationIssue[] {
+    return this.reviews;
+  }
+
+  private isChainExport(name: string): boolean {
+    return !/^(define|get|cache|convert)[A-Z]/.test(name);
+  }
+
+  private isTranslatable(importUsage: FileImport, keptHooks: HookUsage[] = []): boolean {
+    const specifiers = getNamedSpecifiers(importUsage.import);
+    if (!specifiers) return false;
+
+    switch (importUsage.from) {
+      case 'thirdweb':
+        return specifiers.every((s) => s.imported === 'createThirdwebClient');
+      case 'thirdweb/react':
+        return specifiers.every(
+          (s) =>
+            s.imported in ThirdwebToParaStrategy.REACT_EXPORTS &&
+            !keptHooks.some((h) => h.file === importUsage.file && h.hook === s.imported)
+        );
+      case 'thirdweb/chains':
+        return specifiers.every((s) => this.isChainExport(s.imported));
+      default:
+        return false;
+    }
+  }
+
+  private getImportReplacement(
+    importUsage: FileImport,
+    state: ProjectState,
+    generated: {
+      configFile: string | null;
+      buttonFile: string | null;
+      keepsThirdweb: boolean;
+      keptHooks: HookUsage[];
+    }
+  ): string {
+    const semicolon = importUsage.import.trim().endsWith(';') ? ';' : '';
+    const quote = getQuote(importUsage.import);
+    const specifiers = getNamedSpecifiers(importUsage.import);
+
+    if (importUsage.from === 'thirdweb') {
+      return generated.keepsThirdweb ? importUsage.import : '';
+    }
+
+    if (importUsage.from === 'thirdweb/chains') {
+      if (!specifiers || !this.isTranslatable(importUsage)) return importUsage.import;
+
+      const chains = specifiers.map(({ imported, local }) => {
+        const name = ThirdwebToParaStrategy.CHAIN_NAMES[imported] ?? imported;
+        return name === local ? name : `${name} as ${local}`;
+      });
+      return `import { ${chains.join(', ')} } from ${quote}wagmi/chains${quote}${semicolon}`;
+    }
+
+    if (importUsage.from !== 'thirdweb/react' || !specifiers) {
+      return importUsage.import;
+    }
+
+    // Untranslated thirdweb/react exports stay on thirdweb, as do hooks with a call left as is
+    const isKept = (name: string) =>
+      generated.keptHooks.some((h) => h.file === importUsage.file && h.hook === name);
+    const isDropped = (name: string) =>
+      !(name in ThirdwebToParaStrategy.REACT_EXPORTS) ||
+      (isKept(name) &&
+        !state.hooks.some(
+          (h) =>
+            h.file === importUsage.file &&
+            h.from === 'thirdweb/react' &&
+            h.hook === name &&
+            !generated.keptHooks.includes(h)
+        ));
+    const untranslated = specifiers.filter(
+      (s) => !(s.imported in ThirdwebToParaStrategy.REACT_EXPORTS) || isKept(s.imported)
+    );
+    const statements = [
+      rewriteImport(
+        importUsage.import,
+        {
+          ...ThirdwebToParaStrategy.REACT_EXPORTS,
+          ThirdwebProvider: getProviderExports(this.sdk).join(', '),
+          ...Object.fromEntries(
+            untranslated.filter((s) => isDropped(s.imported)).map((s) => [s.imported, ''])
+          ),
+        },
+        this.sdk.packages.react
+      ),
+      /\bThirdwebProvider\b/.test(importUsage.import)
+        ? renderEnvironmentImport(this.sdk, quote, semicolon)
+        : '',
+      renderKeptImport(importUsage, untranslated),
+    ];
+
+    const usesWagmiAccount = specifiers.some(
+      (s) =>
+        ['useActiveAccount', 'useActiveWalletChain'].includes(s.imported) && !isDropped(s.imported)
+    );
+    const hasWagmiAccount = state.imports.some(
+      (i) => i.file === importUsage.file && i.from === 'wagmi' && /\buseAccount\b/.test(i.import)
+    );
+    if (usesWagmiAccount && !hasWagmiAccount) {
+      statements.push(`import { useAccount } from ${quote}wagmi${quote}${semicolon}`);
+    }
+
+    const relocated: Array<[string, string | null, string]> = [
+      ['ThirdwebProvider', generated.configFile, '{ chains, transports, wagmiConfig }'],
+      ['ConnectButton', generated.buttonFile, '{ ParaConnectButton as ConnectButton }'],
+    ];
+    for (const [name, target, clause] of relocated) {
+      if (target && specifiers.some((s) => s.imported === name)) {
+        statements.push(
+          `import ${clause} from ${quote}${relativeImport(importUsage.file, target)}${quote}${semicolon}`
+        );
+      }
+    }
+
+    return statements.filter(Boolean).join('\n');
+  }
+
+  /**
+   * Every chain the project imported from thirdweb/chains
+   */
+  private getChains(thirdwebImports: FileImport[]): string[] {
+    const chains = [
+      ...new Set(
+        thirdwebImports
+          .filter((i) => i.from === 'thirdweb/chains')
+          .flatMap((i) => getNamedSpecifiers(i.import) ?? [])
+          .filter((s) => this.isChainExport(s.imported))
+          .map((s) => ThirdwebToParaStrategy.CHAIN_NAMES[s.imported] ?? s.imported)
+      ),
+    ];
+    return chains.length > 0 ? chains : ['mainnet'];
+  }
+
+  private generateParaProvider(
+    provider: ProviderUsage,
+    state: ProjectState,
+    wrappers: string[]
+  ): string {
+    const clientId = state.providers.find((p) => p.provider === 'createThirdwebClient')?.props
+      .clientId;
+    const client = getParaClientDefaults(this.sdk, state, provider);
+    if (client.review) this.reviews.push(client.review);
+
+    const { config, review } = translateProviderConfig(
+      provider,
+      PROVIDER_REPLACEMENT_MAP['thirdweb-to-para'].configMapping,
+      {
+        ...client.config,
+        'externalWalletConfig.wallets': '["METAMASK", "COINBASE", "WALLETCONNECT"]',
+        'externalWalletConfig.evmConnector.config.chains': 'chains',
+        'externalWalletConfig.evmConnector.config.transports': 'transports',
+      },
+      getFileQuote(state, provider.file),
+      apiKeyComment('thirdweb clientId', clientId)
+    );
+    if (review) this.reviews.push(review);
+
+    return renderParaProvider(this.sdk, config, provider.children, '', wrappers);
+  }
+
+  private getHookOperations(hook: HookUsage): ReplacementOperation[] {
+    const semicolon = hook.usage.trim().endsWith(';') ? ';' : '';
+    const local = hook.usage.match(/^(?:const|let)\s+([\w$]+)\s*=\s*\w+\(\)\s*;?$/)?.[1];
+    const references = hook.references ?? [];
+    const operations: ReplacementOperation[] = [];
+
+    const hookOperation = (newValue: string): ReplacementOperation => ({
+      id: `replace-hook-${hook.file}-${hook.line}`,
+      type: 'hook',
+      file: hook.file,
+      line: hook.line,
+      oldValue: hook.usage,
+      newValue,
+      critical: false, // hooks can be updated gradually
+    });
+    switch (hook.hook) {
+      case 'useActiveAccount': {
+        if (!local) break;
+
+        // account.address / account?.address.slice(...) -> accountAddress / accountAddress?.slice(...)
+        const address = `${local}Address`;
+        const addressAccess = new RegExp(`^${local}(\\?\\.|!?\\.)address(?![\\w$])`);
+        const others = references.filter((r) => !addressAccess.test(r.expression));
+        const statements = [`const { address: ${address} } = useAccount()${semicolon}`];
+
+        // Anything beyond .address (null checks, passing the account on) keeps a small stand-in
+        if (others.length > 0) {
+          statements.push(
+            `const ${local} = ${address} ? { address: ${address} } : undefined${semicolon}`
+          );
+        }
+
+        operations.push(hookOperation(statements.join('\n  ')));
+        references.forEach((reference) => {
+          const access = reference.expression.match(addressAccess);
+          if (!access) return;
+
+          const rest = reference.expression.slice(access[0].length);
+          const optional = access[1] === '?.' && rest.startsWith('.') ? '?' : '';
+          operations.push(rewriteReference(hook, reference, `${address}${optional}${rest}`));
+        });
+        break;
+      }
+
+      case 'useActiveWalletChain':
+        if (local) {
+          const binding = local === 'chain' ? 'chain' : `chain: ${local}`;
+          operations.push(hookOperation(`const { ${binding} } = useAccount()${semicolon}`));
+        }
+        break;
+
+      case 'useActiveWallet':
+        if (local) {
+          operations.push(hookOperation(`const { data: ${local} } = useWallet()${semicolon}`));
+        }
+        break;
+
+      case 'useDisconnect': {
+        // thirdweb disconnects a given wallet, Para logs the whole session out
+        operations.push(
+          hookOperation(
+            renameDestructured(hook.usage.replace(hook.hook, 'useLogout'), {
+              disconnect: 'logoutAsync',
+            })
+          )
+        );
+        references.forEach((reference) => {
+          if (/^[\w$]+\([\s\S]+\)$/.test(reference.expression)) {
+            operations.push(rewriteReference(hook, reference, `${reference.name}()`));
+          }
+        });
+        break;
+      }
+    }
+
+    return operations;
+  }
 }
 
 /**
- * Privy to Para Replacement Strategy
- * Complete replacement approach - no compatibility layer
+ * Web3Onboard to Para Replacement Strategy
+ * init({ wallets, chains, appMetadata }) becomes a Para config with a wagmi EVM connector - its
+ * chains go to a generated module the WagmiProvider the migrated hooks read is created from too
  */
-export class PrivyToParaStrategy implements ReplacementStrategy {
-  strategy = MigrationStrategy.PRIVY_TO_PARA;
+export class Web3OnboardToParaStrategy implements ReplacementStrategy {
+  strategy = MigrationStrategy.WEB3ONBOARD_TO_PARA;
+
+  // @web3-onboard wallet module packages -> Para external wallet names
+  private static readonly WALLET_MODULES: Record<string, string> = {
+    'injected-wallets': 'METAMASK',
+    walletconnect: 'WALLETCONNECT',
+    coinbase: 'COINBASE',
+  };
+
+  // Onboard chain IDs -> wagmi/chains exports
+  private static readonly CHAINS: Record<number, string> = {
+    1: 'mainnet',
+    10: 'optimism',
+    56: 'bsc',
+    100: 'gnosis',
+    137: 'polygon',
+    8453: 'base',
+    42161: 'arbitrum',
+    43114: 'avalanche',
+    80002: 'polygonAmoy',
+    84532: 'baseSepolia',
+    11155111: 'sepolia',
+  };
+
+  // Hooks the Onboard tuples are split into, and the package each comes from
+  private static readonly HOOK_SOURCES: Record<string, 'para' | 'wagmi'> = {
+    useWallet: 'para',
+    useModal: 'para',
+    useLogout: 'para',
+    useAccount: 'wagmi',
+    useSwitchChain: 'wagmi',
+  };
+
+  private reviews: ValidationIssue[] = [];
+
+  constructor(private sdk: ParaSdkManifest = getParaSdkManifest()) {}
 
   async execute(state: ProjectState): Promise<ReplacementOperation[]> {
     const operations: ReplacementOperation[] = [];
+    this.reviews = [];
+    const onboardImports = state.imports.filter((i) => i.type === 'web3onboard');
+    const initCalls = state.providers.filter(
+      (p) =>
+        p.provider === 'init' &&
+        onboardImports.some(
+          (i) => i.file === p.file && i.from === '@web3-onboard/react' && /\binit\b/.test(i.import)
+        )
+    );
+    const providers = state.providers.filter((p) => p.provider === 'Web3OnboardProvider');
+    const hookRewrites = new Map(
+      state.hooks
+        .filter((h) => h.from === '@web3-onboard/react')
+        .map((h) => [h, this.rewriteHook(h)] as const)
+    );
+    // Without a provider component, ParaProvider goes around the element the entry point renders
+    const root = providers.length === 0 ? this.getRenderedRoot(state, initCalls[0]) : null;
+    // The migrated wagmi hooks read a WagmiProvider, created from the init() chains like Para's
+    // EVM connector
+    const providerFiles = [...providers.map((p) => p.file), ...(root ? [root.element.file] : [])];
+    const configFile =
+      providerFiles.length > 0 && initCalls.length > 0
+        ? getWagmiConfigFile(providerFiles[0])
+        : null;
+    const wrappers = (replaced: ProviderUsage) =>
+      getMissingWrappers(this.sdk, state, replaced, [
+        ...new Set([...this.sdk.providerWrappers, 'QueryClientProvider', 'WagmiProvider']),
+      ]);
+    const configImports = (file: string) => {
+      const names = [
+        ...(initCalls.some((call) => call.file === file) ? ['chains', 'transports'] : []),
+        ...(providerFiles.includes(file) ? ['wagmiConfig'] : []),
+      ];
+      return configFile && names.length > 0
+        ? [`import { ${names.join(', ')} } from '${relativeImport(file, configFile)}'`]
+        : [];
+    };
+    const rootImports = root
+      ? [
+          `import { ${this.sdk.components.join(', ')} } from '${this.sdk.packages.react}'`,
+          ...(root.element.file !== initCalls[0].file
+            ? [
+                `import { ${root.binding} } from '${relativeImport(root.element.file, initCalls[0].file)}'`,
+              ]
+            : []),
+        ]
+      : [];
 
-    // 1. Remove Privy dependencies (CRITICAL)
-    operations.push({
-      id: 'remove-privy-deps',
-      type: 'dependency',
-      oldValue: '@privy-io/react-auth',
-      newValue: '', // remove completely
-      critical: true,
-    });
-
-    operations.push({
-      id: 'remove-privy-wagmi',
-      type: 'dependency',
-      oldValue: '@privy-io/wagmi',
-      newValue: '', // remove completely
-      critical: true,
-    });
+    // 1. Remove every Web3Onboard package, wallet modules included
+    for (const dep of Object.keys(state.dependencies).filter((d) =>
+      d.startsWith('@web3-onboard/')
+    )) {
+      operations.push({
+        id: `remove-${dep.replace(/[@/]/g, '-')}`,
+        type: 'dependency',
+        oldValue: dep,
+        newValue: '',
+        critical: true,
+      });
+    }
 
-    // 2. Add Para dependency (CRITICAL)
+    // 2. Add Para plus the wagmi stack behind its EVM connector and the migrated hooks
     operations.push({
       id: 'add-para-react',
       type: 'dependency',
       oldValue: '',
-      newValue: '@para-wallet/react',
+      newValue: this.sdk.packages.react,
       critical: true,
     });
 
-    // 3. Replace all imports atomically
-    for (const importUsage of state.imports.filter((i) => i.type === 'privy')) {
+    for (const dep of ['wagmi', 'viem', '@tanstack/react-query'].filter(
+      (d) => !(d in state.dependencies)
+    )) {
+      operations.push({
+        id: `add-${dep}`,
+        type: 'dependency',
+        oldValue: '',
+        newValue: dep,
+        critical: true,
+      });
+    }
+
+    // 3. Replace Web3Onboard imports - wallet module imports go away entirely
+    for (const importUsage of onboardImports) {
+      const semicolon = importUsage.import.trim().endsWith(';') ? ';' : '';
+      const quote = getQuote(importUsage.import);
+      const first = onboardImports.find((i) => i.file === importUsage.file) === importUsage;
+      const statements = [
+        this.getImportReplacement(importUsage, state, initCalls, hookRewrites, configFile),
+        ...(first
+          ? [
+              ...(importUsage.file === root?.element.file ? rootImports : []),
+              ...configImports(importUsage.file),
+            ].map((statement) => `${withQuote(statement, quote)}${semicolon}`)
+          : []),
+      ];
+
       operations.push({
         id: `replace-import-${importUsage.file}-${importUsage.line}`,
         type: 'import',
         file: importUsage.file,
         line: importUsage.line,
         oldValue: importUsage.import,
-        newValue: this.getParaImportReplacement(importUsage.import),
+        newValue: statements.filter(Boolean).join('\n'),
         critical: true,
       });
     }
 
-    // 4. Replace provider with ParaProvider + ParaModal (CRITICAL)
-    for (const provider of state.providers.filter((p) => p.provider === 'PrivyProvider')) {
+    // An entry point without Web3Onboard imports gets the root provider's after its last import
+    const anchor = state.imports
+      .filter((i) => i.file === root?.element.file)
+      .sort((a, b) => b.line - a.line)[0];
+
+    if (root && anchor && !onboardImports.some((i) => i.file === root.element.file)) {
+      const semicolon = anchor.import.trim().endsWith(';') ? ';' : '';
+      const quote = getQuote(anchor.import);
+      operations.push({
+        id: `add-para-import-${anchor.file}`,
+        type: 'import',
+        file: anchor.file,
+        line: anchor.line,
+        oldValue: anchor.import,
+        newValue: [
+          anchor.import,
+          ...[...rootImports, ...configImports(anchor.file)].map(
+            (statement) => `${withQuote(statement, quote)}${semicolon}`
+          ),
+        ].join('\n'),
+        critical: true,
+      });
+    }
+
+    // 4. Drop `const injected = injectedModule()` setup - the Para config lists the wallets
+    const walletModules = state.providers.filter(
+      (p) => p.statement && this.getWalletModule(p, onboardImports) !== null
+    );
+
+    for (const walletModule of walletModules) {
+      operations.push({
+        id: `remove-wallet-module-${walletModule.file}-${walletModule.line}`,
+        type: 'provider',
+        file: walletModule.file,
+        line: walletModule.line,
+        oldValue: walletModule.statement!,
+        newValue: '',
+        critical: true,
+      });
+    }
+
+    // 5. Turn init() into the Para config, and its chains into the generated wagmi config (CRITICAL)
+    if (configFile) {
+      const chains = this.getChains(initCalls[0]);
+      operations.push({
+        id: 'add-wagmi-config',
+        type: 'file',
+        file: configFile,
+        oldValue: '',
+        newValue: generateWagmiConfig('Web3Onboard', chains.names, chains.transports),
+        critical: true,
+      });
+    }
+
+    for (const init of initCalls) {
+      const config = this.generateParaConfig(
+        init,
+        onboardImports,
+        providers.length > 0 || root !== null,
+        state,
+        configFile
+      );
+      const semicolon = init.statement?.trim().endsWith(';') ? ';' : '';
+      const bare = init.statement?.startsWith(init.source);
+      // The entry point imports the config, so a module-private binding gets exported
+      const exported =
+        !root ||
+        root.element.file === init.file ||
+        init !== initCalls[0] ||
+        /^export\s/.test(init.statement!);
+
+      operations.push({
+        id: `replace-config-${init.file}-${init.line}`,
+        type: 'provider',
+        file: init.file,
+        line: init.line,
+        oldValue: bare || !exported ? init.statement! : init.source,
+        newValue: bare
+          ? `export const paraConfig = ${config}${semicolon}`
+          : exported
+            ? config
+            : `export ${init.statement!.replace(init.source, config)}`,
+        critical: true,
+      });
+    }
+
+    // 6. Replace Web3OnboardProvider with ParaProvider + ParaModal inside the WagmiProvider and
+    // QueryClientProvider the wagmi hooks read (CRITICAL)
+    for (const provider of providers) {
       operations.push({
         id: `replace-provider-${provider.file}-${provider.line}`,
         type: 'provider',
         file: provider.file,
         line: provider.line,
-        oldValue: this.generatePrivyProvider(provider.props),
-        newValue: this.generateParaProvider(provider.props),
+        oldValue: provider.source,
+        newValue: renderParaProvider(
+          this.sdk,
+          String(provider.props.web3Onboard || 'paraConfig'),
+          provider.children,
+          provider.indent,
+          wrappers(provider)
+        ),
         critical: true,
       });
+      operations.push(...getWrapperSetupOperations(this.sdk, state, provider, wrappers(provider)));
     }
 
-    // 5. Replace all hook usages
-    for (const hook of state.hooks.filter((h) => h.from.includes('privy'))) {
-      const newHook = this.getHookReplacement(hook.hook);
-      if (newHook) {
-        operations.push({
+    if (root) {
+      operations.push({
+        id: `add-provider-${root.element.file}-${root.element.line}`,
+        type: 'provider',
+        file: root.element.file,
+        line: root.element.line,
+        oldValue: root.element.source,
+        newValue: renderParaProvider(
+          this.sdk,
+          root.binding,
+          root.element.source,
+          root.element.indent,
+          wrappers(root.element)
+        ),
+        critical: true,
+      });
+      operations.push(
+        ...getWrapperSetupOperations(this.sdk, state, root.element, wrappers(root.element))
+      );
+    } else if (providers.length === 0 && initCalls.length > 0) {
+      this.reviews.push({
+        severity: 'warning',
+        code: 'NO_PARA_PROVIDER',
+        message: 'Web3Onboard had no provider component and no rendered root element was found',
+        file: initCalls[0].file,
+        line: initCalls[0].line,
+        fix: 'Wrap the app in <ParaProvider> with the generated config, as the comment in the config describes',
+      });
+    }
+
+    // 7. Split the Onboard tuple hooks into Para and wagmi hooks
+    for (const [hook, rewrite] of hookRewrites) {
+      if (!rewrite) {
+        this.reviews.push({
+          severity: 'warning',
+          code: 'HOOK_NEEDS_REVIEW',
+          message: `\`${hook.usage}\` could not be split into Para hooks - ${hook.hook}() stays imported from ${hook.from}, which the migration removes`,
+          file: hook.file,
+          line: hook.line,
+          fix: `Move the reads of ${hook.hook}() onto Para useWallet()/useModal() and wagmi hooks`,
+        });
+        continue;
+      }
+
+      operations.push(
+        {
           id: `replace-hook-${hook.file}-${hook.line}`,
           type: 'hook',
           file: hook.file,
           line: hook.line,
           oldValue: hook.usage,
-          newValue: hook.usage.replace(hook.hook, newHook),
+          newValue: rewrite.usage,
           critical: false, // hooks can be updated gradually
-        });
-      }
+        },
+        ...rewrite.references
+      );
     }
 
-    // 6. Add Para CSS imports (CRITICAL)
+    // 8. Add Para CSS imports (CRITICAL)
     for (const entryPoint of state.entryPoints) {
       operations.push({
         id: `add-para-css-${entryPoint}`,
         type: 'style',
         file: entryPoint,
         oldValue: '',
-        newValue: "import '@para-wallet/react/styles.css'",
+        newValue: `import '${this.sdk.css}'`,
         critical: true,
       });
     }
@@ -112,176 +5619,640 @@ export class PrivyToParaStrategy implements ReplacementStrategy {
   }
 
   async validate(state: ProjectState): Promise<boolean> {
-    // Validate that Privy dependencies are present
-    const hasPrivyAuth = Object.keys(state.dependencies).includes('@privy-io/react-auth');
-    const hasPrivyImports = state.imports.some((i) => i.type === 'privy');
+    const hasOnboardDeps = Object.keys(state.dependencies).some((dep) =>
+      dep.startsWith('@web3-onboard/')
+    );
+    const hasOnboardImports = state.imports.some((i) => i.type === 'web3onboard');
+
+    return hasOnboardDeps || hasOnboardImports;
+  }
+
+  getEstimatedTime(): number {
+    return 180; // 3 minutes for Web3Onboard replacement
+  }
+
+  getReviewIssues(): ValidationIssue[] {
+    return this.reviews;
+  }
+
+  /**
+   * Root element an entry point renders, with the name the init() config is exported under
+   */
+  private getRenderedRoot(
+    state: ProjectState,
+    init: ProviderUsage | undefined
+  ): { element: ProviderUsage; binding: string } | null {
+    const element = state.providers.find(
+      (p) => RENDER_CALLS.includes(p.provider) && state.entryPoints.includes(p.file)
+    );
+    if (!element || !init?.statement) return null;
+    if (init.statement.startsWith(init.source)) return { element, binding: 'paraConfig' };
+
+    const binding = init.statement.match(/^(?:export\s+)?(?:const|let|var)\s+([\w$]+)\s*=/)?.[1];
+    return binding ? { element, binding } : null;
+  }
+
+  /**
+   * Package suffix of the wallet module a factory call comes from, e.g. 'injected-wallets'
+   */
+  private getWalletModule(call: ProviderUsage, onboardImports: FileImport[]): string | null {
+    const source = onboardImports.find(
+      (i) =>
+        i.file === call.file &&
+        i.from !== '@web3-onboard/react' &&
+        new RegExp(`^import\\s+${call.provider}\\b`).test(i.import)
+    );
+    return source ? source.from.slice('@web3-onboard/'.length) : null;
+  }
+
+  private getImportReplacement(
+    importUsage: FileImport,
+    state: ProjectState,
+    initCalls: ProviderUsage[],
+    hookRewrites: Map<HookUsage, HookRewrite | null>,
+    configFile: string | null
+  ): string {
+    const specifiers = getNamedSpecifiers(importUsage.import);
+    if (importUsage.from !== '@web3-onboard/react' || !specifiers) {
+      return ''; // wallet modules and the core package
+    }
+
+    const semicolon = importUsage.import.trim().endsWith(';') ? ';' : '';
+    const quote = getQuote(importUsage.import);
+    const rewrites = [...hookRewrites].filter(([hook]) => hook.file === importUsage.file);
+    const neededHooks = rewrites.flatMap(([, rewrite]) => rewrite?.hooks ?? []);
+    const init = initCalls.find((call) => call.file === importUsage.file);
+
+    // Hooks that could not be split stay on Onboard for review
+    const translated = (name: string) =>
+      name === 'init' ||
+      name === 'Web3OnboardProvider' ||
+      (name in HOOK_REPLACEMENT_MAP['web3onboard-to-para'] &&
+        rewrites.every(([hook, rewrite]) => hook.hook !== name || rewrite));
+    const kept = specifiers.filter((s) => !translated(s.imported));
+    const paraNames = [
+      ...(specifiers.some((s) => s.imported === 'Web3OnboardProvider') ? this.sdk.components : []),
+      ...neededHooks.filter((hook) => Web3OnboardToParaStrategy.HOOK_SOURCES[hook] === 'para'),
+      // the Para config replaces init() in place
+      ...(init && this.sdk.environment.from === this.sdk.packages.react
+        ? [this.sdk.environment.name]
+        : []),
+    ];
+
+    const existingWagmi = state.imports
+      .filter((i) => i.file === importUsage.file && i.from === 'wagmi')
+      .map((i) => i.import)
+      .join('\n');
+    // The generated wagmi config holds the chains and transports, when there is one
+    const inlineChains = init && !configFile;
+    const wagmiNames = [
+      ...neededHooks.filter((hook) => Web3OnboardToParaStrategy.HOOK_SOURCES[hook] === 'wagmi'),
+      ...(inlineChains ? ['http'] : []),
+    ].filter((name) => !new RegExp(`\\b${name}\\b`).test(existingWagmi));
+
+    const statements = [
+      renderKeptImport(importUsage, kept),
+      paraNames.length > 0
+        ? `import { ${[...new Set(paraNames)].join(', ')} } from ${quote}${this.sdk.packages.react}${quote}${semicolon}`
+        : '',
+      init ? renderEnvironmentImport(this.sdk, quote, semicolon) : '',
+      wagmiNames.length > 0
+        ? `import { ${[...new Set(wagmiNames)].join(', ')} } from ${quote}wagmi${quote}${semicolon}`
+        : '',
+      inlineChains
+        ? `import { ${this.getChains(init).names.join(', ')} } from ${quote}wagmi/chains${quote}${semicolon}`
+        : '',
+    ];
+
+    return statements.filter(Boolean).join('\n');
+  }
+
+  /**
+   * wagmi chains and transports for the chains listed in init()
+   */
+  private getChains(init: ProviderUsage): {
+    names: string[];
+    transports: string[];
+    unmapped: string[];
+  } {
+    const chainsText = String(init.props.chains ?? '');
+    const names: string[] = [];
+    const transports: string[] = [];
+    const unmapped: string[] = [];
+
+    if (chainsText && !chainsText.startsWith('[')) {
+      unmapped.push(`chains (${chainsText} is not an inline list)`);
+    }
+
+    for (const chainText of chainsText.match(/\{[^{}]*\}/g) ?? []) {
+      const chain = parseObjectLiteral(chainText) ?? {};
+      const id = Number((chain.id ?? '').replace(/^(['"`])(.*)\1$/, '$2'));
+      const name = Web3OnboardToParaStrategy.CHAINS[id];
+
+      if (!name) {
+        unmapped.push(`chain ${chain.id ?? chainText}`);
+      } else if (!names.includes(name)) {
+        names.push(name);
+        transports.push(`[${name}.id]: http(${chain.rpcUrl ?? ''}),`);
+      }
+    }
+
+    if (names.length === 0) {
+      names.push('mainnet');
+      transports.push('[mainnet.id]: http(),');
+    }
+
+    return { names, transports, unmapped };
+  }
+
+  private generateParaConfig(
+    init: ProviderUsage,
+    onboardImports: FileImport[],
+    hasProvider: boolean,
+    state: ProjectState,
+    configFile: string | null
+  ): string {
+    const indent = init.source.match(/\n([ \t]*)\S[^\n]*$/)?.[1] ?? '';
+    const client = getParaClientDefaults(this.sdk, state, init);
+    if (client.review) this.reviews.push(client.review);
+    const chains = this.getChains(init);
+    const appMetadata = parseObjectLiteral(String(init.props.appMetadata ?? '')) ?? {};
+    const quote = getFileQuote(state, init.file);
+    const unmapped: string[] = [];
+
+    // Wallets follow the wallet module packages the project imports
+    const wallets: string[] = [];
+    for (const importUsage of onboardImports) {
+      const module = importUsage.from.slice('@web3-onboard/'.length);
+      if (!/^import\s+[\w$]+\s/.test(importUsage.import) || ['react', 'core'].includes(module)) {
+        continue;
+      }
+
+      const wallet = Web3OnboardToParaStrategy.WALLET_MODULES[module];
+      if (wallet) {
+        wallets.push(wallet);
+      } else {
+        unmapped.push(`wallet module ${importUsage.from}`);
+      }
+    }
+
+    unmapped.push(
+      ...chains.unmapped,
+      ...Object.keys(appMetadata)
+        .filter((key) => key !== 'name')
+        .map((key) => `appMetadata.${key}`),
+      ...Object.keys(init.props).filter(
+        (key) => !['wallets', 'chains', 'appMetadata'].includes(key)
+      )
+    );
+
+    const lines = [
+      ...(hasProvider
+        ? []
+        : [
+            '// Web3Onboard had no provider component - wrap the app in',
+            this.sdk.components.includes('ParaModal')
+              ? '// <ParaProvider {...paraConfig}> and render <ParaModal /> inside it'
+              : '// <ParaProvider {...paraConfig}>',
+          ]),
+      'paraClientConfig: {',
+      `  apiKey: ${client.config['paraClientConfig.apiKey']},`,
+      `  env: ${client.config['paraClientConfig.env']},`,
+      '},',
+      ...(appMetadata.name ? ['config: {', `  appName: ${appMetadata.name},`, '},'] : []),
+      'externalWalletConfig: {',
+      `  wallets: [${[...new Set(wallets.length > 0 ? wallets : ['METAMASK'])]
+        .map((wallet) => `${quote}${wallet}${quote}`)
+        .join(', ')}],`,
+      '  evmConnector: {',
+      '    config: {',
+      ...(configFile
+        ? ['      chains,', '      transports,']
+        : [
+            `      chains: [${chains.names.join(', ')}],`,
+            '      transports: {',
+            ...chains.transports.map((transport) => `        ${transport}`),
+            '      },',
+          ]),
+      '    },',
+      '  },',
+      '},',
+      ...(unmapped.length > 0
+        ? [`// Not mapped from Web3Onboard init - review manually: ${unmapped.join(', ')}`]
+        : []),
+    ];
+
+    if (unmapped.length > 0) {
+      this.reviews.push({
+        severity: 'warning',
+        code: 'UNMAPPED_PROVIDER_CONFIG',
+        message: `Web3Onboard init settings without a Para equivalent: ${unmapped.join(', ')}`,
+        file: init.file,
+        line: init.line,
+        fix: 'Port these settings to the Para config by hand, or drop them',
+      });
+    }
+
+    return `{\n${lines.map((line) => `${indent}  ${line}`).join('\n')}\n${indent}}`;
+  }
+
+  /**
+   * Split `const [{ wallet }, connect, disconnect] = useConnectWallet()` and friends into
+   * Para/wagmi hooks, null when the statement has a shape this strategy cannot translate
+   */
+  private rewriteHook(hook: HookUsage): HookRewrite | null {
+    const semicolon = hook.usage.trim().endsWith(';') ? ';' : '';
+    const references = hook.references ?? [];
+    const destructured = new Map<string, string[]>();
+    const shims: string[] = [];
+    const operations: ReplacementOperation[] = [];
+
+    const bind = (paraHook: string, key: string, local: string) =>
+      destructured.set(paraHook, [
+        ...(destructured.get(paraHook) ?? []),
+        key === local ? key : `${key}: ${local}`,
+      ]);
+    const dropCallArguments = (local: string) =>
+      references
+        .filter((r) => r.name === local && /^[\w$]+\([\s\S]+\)$/.test(r.expression))
+        .forEach((r) => operations.push(rewriteReference(hook, r, `${local}()`)));
+
+    const tuple = hook.usage.match(
+      /^(?:const|let)\s*\[\s*(?:\{([^}]*)\})?\s*(?:,\s*([\w$]*)\s*)?(?:,\s*([\w$]*)\s*)?\]\s*=\s*\w+\(\)\s*;?$/
+    );
+    const state = (tuple?.[1] ?? '')
+      .split(',')
+      .map((element) => element.trim())
+      .filter(Boolean)
+      .map((element): [string, string] => {
+        const [property, local] = element.split(/\s*:\s*/);
+        return [property, local ?? property];
+      });
+
+    switch (hook.hook) {
+      case 'useConnectWallet': {
+        if (!tuple || state.some(([property]) => !['wallet', 'connecting'].includes(property))) {
+          return null;
+        }
+
+        for (const [property, local] of state) {
+          if (property === 'connecting') {
+            bind('useAccount', 'isConnecting', local);
+            continue;
+          }
+
+          // wallet.accounts[0].address -> walletAddress, from wagmi's connected account
+          const address = `${local}Address`;
+          const addressAccess = new RegExp(
+            `^${local}(\\?\\.|!?\\.)accounts(\\?\\.|!)?\\[0\\](\\?\\.|!?\\.)address(?![\\w$])`
+          );
+          const walletReferences = references.filter((r) => r.name === local);
+
+          walletReferences.forEach((reference) => {
+            const access = reference.expression.match(addressAccess);
+            if (!access) return;
+
+            const rest = reference.expression.slice(access[0].length);
+            const optional = access[0].includes('?.') && rest.startsWith('.') ? '?' : '';
+            operations.push(rewriteReference(hook, reference, `${address}${optional}${rest}`));
+          });
+
+          if (walletReferences.some((r) => addressAccess.test(r.expression))) {
+            bind('useAccount', 'address', address);
+          }
+          if (walletReferences.some((r) => !addressAccess.test(r.expression))) {
+            bind('useWallet', 'data', local);
+          }
+        }
+
+        if (tuple[2]) {
+          bind('useModal', 'openModal', tuple[2]);
+          dropCallArguments(tuple[2]);
+        }
+        if (tuple[3]) {
+          bind('useLogout', 'logoutAsync', tuple[3]);
+          dropCallArguments(tuple[3]);
+        }
+        break;
+      }
 
-    return hasPrivyAuth || hasPrivyImports;
-  }
+      case 'useSetChain': {
+        const keys: Record<string, [string, string]> = {
+          chains: ['useSwitchChain', 'chains'],
+          connectedChain: ['useAccount', 'chain'],
+          settingChain: ['useSwitchChain', 'isPending'],
+        };
+        if (!tuple || tuple[3] !== undefined || state.some(([property]) => !keys[property])) {
+          return null;
+        }
 
-  getEstimatedTime(): number {
-    return 180; // 3 minutes for complete Privy replacement
-  }
+        for (const [property, local] of state) {
+          bind(keys[property][0], keys[property][1], local);
+        }
 
-  private getParaImportReplacement(privyImport: string): string {
-    // Transform Privy imports to Para imports
-    if (privyImport.includes('usePrivy')) {
-      return privyImport.replace('usePrivy', 'useAccount');
-    }
-    if (privyImport.includes('useWallets')) {
-      return privyImport.replace('useWallets', 'useWallet');
-    }
-    if (privyImport.includes('useLogin')) {
-      return privyImport.replace('useLogin', 'useConnect');
-    }
-    if (privyImport.includes('useLogout')) {
-      return privyImport.replace('useLogout', 'useDisconnect');
-    }
-    if (privyImport.includes('PrivyProvider')) {
-      return privyImport.replace('PrivyProvider', 'ParaProvider, ParaModal');
-    }
+        // Onboard takes hex chain IDs, wagmi takes numbers
+        const setChain = tuple[2];
+        if (setChain) {
+          bind('useSwitchChain', 'switchChain', setChain);
+          references
+            .filter((r) => r.name === setChain)
+            .forEach((reference) => {
+              const chainId = reference.expression.match(
+                /^[\w$]+\(\{\s*chainId:\s*([\s\S]+?)\s*,?\s*\}\)$/
+              )?.[1];
+              if (!chainId) return;
 
-    // Default replacement
-    return privyImport.replace('@privy-io/react-auth', '@para-wallet/react');
-  }
+              const literal = chainId.match(/^(['"`])(0x[\da-fA-F]+|\d+)\1$/)?.[2];
+              operations.push(
+                rewriteReference(
+                  hook,
+                  reference,
+                  `${setChain}({ chainId: ${literal ? Number(literal) : `Number(${chainId})`} })`
+                )
+              );
+            });
+        }
+        break;
+      }
 
-  private getHookReplacement(privyHook: string): string | null {
-    const replacements = HOOK_REPLACEMENT_MAP['privy-to-para'];
-    return replacements[privyHook as keyof typeof replacements] || null;
-  }
+      case 'useWallets': {
+        const local = hook.usage.match(/^(?:const|let)\s+([\w$]+)\s*=\s*useWallets\(\)\s*;?$/)?.[1];
+        if (!local) return null;
 
-  private generatePrivyProvider(props: Record<string, any>): string {
-    return `<PrivyProvider
-  appId={${props.appId || 'PRIVY_APP_ID'}}
-  clientId={${props.clientId || 'PRIVY_CLIENT_ID'}}
-  config={{...}}
->
-  {children}
-</PrivyProvider>`;
-  }
+        // Para exposes the active wallet - keep the list shape the component expects
+        bind('useWallet', 'data', 'paraWallet');
+        shims.push(`const ${local} = paraWallet ? [paraWallet] : []${semicolon}`);
+        break;
+      }
 
-  private generateParaProvider(props: Record<string, any>): string {
-    return `<ParaProvider
-  config={{
-    apiKey: ${props.appId || 'PARA_API_KEY'},
-    paraClientConfig: {
-      env: Environment.DEVELOPMENT,
-    },
-    embeddedWalletConfig: {
-      createOnLogin: "all-users",
-      showWalletUiOnLogin: true,
+      default:
+        return null;
     }
-  }}
->
-  {children}
-  {/* ⚠️ CRITICAL: ParaModal is REQUIRED - #1 missing piece in failed migrations */}
-  <ParaModal />
-</ParaProvider>`;
+
+    const statements = [...destructured].map(
+      ([paraHook, names]) => `const { ${names.join(', ')} } = ${paraHook}()${semicolon}`
+    );
+
+    return {
+      // Hooks sit at the top of a component body - one indentation level deep
+      usage: [...statements, ...shims].join('\n  '),
+      hooks: [...destructured.keys()],
+      references: operations,
+    };
   }
 }
 
 /**
- * ReOwn to Para Replacement Strategy
+ * Solana wallet-adapter to Para Replacement Strategy
+ * Para's Solana connector runs on @solana/wallet-adapter-react, so that package and
+ * useConnection stay - the providers, modal UI and useWallet move to Para
  */
-export class ReownToParaStrategy implements ReplacementStrategy {
-  strategy = MigrationStrategy.REOWN_TO_PARA;
+export class SolanaWalletAdapterToParaStrategy implements ReplacementStrategy {
+  strategy = MigrationStrategy.SOLANA_WALLET_ADAPTER_TO_PARA;
+
+  // Nested providers that collapse into one ParaProvider
+  private static readonly PROVIDERS = [
+    'ConnectionProvider',
+    'WalletProvider',
+    'WalletModalProvider',
+  ];
+
+  // wallet-adapter-react-ui buttons - all become ParaConnectButton
+  private static readonly BUTTONS = [
+    'WalletMultiButton',
+    'WalletConnectButton',
+    'WalletDisconnectButton',
+  ];
+
+  // Wallet adapter classes -> Para external wallet names
+  private static readonly WALLET_ADAPTERS: Record<string, string> = {
+    PhantomWalletAdapter: 'PHANTOM',
+    SolflareWalletAdapter: 'SOLFLARE',
+    BackpackWalletAdapter: 'BACKPACK',
+    GlowWalletAdapter: 'GLOW',
+  };
+
+  // useWallet properties served by Para hooks - publicKey and signing come from the signer.
+  // A third element derives the value from the key, which is bound to `paraAccount`
+  private static readonly WALLET_PROPERTIES: Record<
+    string,
+    [string, string, ((value: string) => string)?]
+  > = {
+    connected: ['useAccount', 'data', (account) => `!!${account}?.isConnected`],
+    connecting: ['useAccount', 'isLoading'],
+    disconnect: ['useLogout', 'logoutAsync'],
+    wallet: ['useWallet', 'data'],
+  };
+
+  private reviews: ValidationIssue[] = [];
+
+  constructor(private sdk: ParaSdkManifest = getParaSdkManifest()) {}
 
   async execute(state: ProjectState): Promise<ReplacementOperation[]> {
     const operations: ReplacementOperation[] = [];
+    this.reviews = [];
+    const adapterImports = state.imports.filter((i) => i.type === 'solana');
+    const providers = state.providers.filter(
+      (p) =>
+        SolanaWalletAdapterToParaStrategy.PROVIDERS.includes(p.provider) &&
+        adapterImports.some(
+          (i) => i.file === p.file && new RegExp(`\\b${p.provider}\\b`).test(i.import)
+        )
+    );
+    const outerProviders = providers.filter(
+      (p) =>
+        !providers.some(
+          (other) => other !== p && other.file === p.file && other.source.includes(p.source)
+        )
+    );
+    const hookRewrites = this.getHookRewrites(state);
+    const usesSigner = [...hookRewrites.values()].some((rewrite) =>
+      rewrite?.hooks.includes('useParaSolanaSigner')
+    );
 
-    // 1. Remove ALL ReOwn dependencies (complete cleanup)
-    const reownDependencies = [
-      '@reown/appkit',
-      '@reown/appkit-adapter-wagmi',
-      '@reown/appkit-react',
-      '@reown/appkit-siwe',
-      '@web3modal/wagmi',
-      '@web3modal/siwe',
-      '@web3modal/ethereum',
-    ];
+    // Adapter instances only vanish with the provider when WalletProvider lists them inline
+    const removesWalletAdapters = providers
+      .filter((p) => p.provider === 'WalletProvider')
+      .every((p) => String(p.props.wallets ?? '[]').startsWith('['));
 
-    reownDependencies.forEach((dep) => {
-      if (Object.keys(state.dependencies).includes(dep)) {
-        operations.push({
-          id: `remove-${dep.replace(/[@/]/g, '-')}`,
-          type: 'dependency',
-          oldValue: dep,
-          newValue: '',
-          critical: true,
-        });
-      }
-    });
+    // 1. Remove the modal UI package - and the wallet adapters when nothing else uses them
+    for (const dep of Object.keys(state.dependencies).filter(
+      (d) =>
+        d === '@solana/wallet-adapter-react-ui' ||
+        (removesWalletAdapters && this.isWalletAdapterPackage(d))
+    )) {
+      operations.push({
+        id: `remove-${dep.replace(/[@/]/g, '-')}`,
+        type: 'dependency',
+        oldValue: dep,
+        newValue: '',
+        critical: true,
+      });
+    }
 
-    // 2. Add Para dependency
+    // 2. Add Para, plus its @solana/web3.js integration when signing moves to Para
     operations.push({
       id: 'add-para-react',
       type: 'dependency',
       oldValue: '',
-      newValue: '@para-wallet/react',
+      newValue: this.sdk.packages.react,
       critical: true,
     });
 
-    // 3. Replace ALL ReOwn/Web3Modal imports
-    const reownImports = state.imports.filter(
-      (i) => i.type === 'reown' || i.from.includes('reown') || i.from.includes('web3modal')
+    if (usesSigner) {
+      operations.push({
+        id: 'add-para-solana-web3',
+        type: 'dependency',
+        oldValue: '',
+        newValue: this.sdk.packages.solanaWeb3,
+        critical: true,
+      });
+    }
+
+    // 3. Generate the connect button and the signer hook next to their first users
+    const buttonImport = adapterImports.find((i) =>
+      SolanaWalletAdapterToParaStrategy.BUTTONS.some((button) =>
+        new RegExp(`\\b${button}\\b`).test(i.import)
+      )
     );
+    const buttonFile = buttonImport ? getConnectButtonFile(buttonImport.file) : null;
+
+    if (buttonFile) {
+      operations.push({
+        id: 'add-para-connect-button',
+        type: 'file',
+        file: buttonFile,
+        oldValue: '',
+        newValue: generateConnectButton(this.sdk, buttonFile.endsWith('.tsx')),
+        critical: true,
+      });
+    }
+
+    const signerHook = [...hookRewrites].find(([, rewrite]) =>
+      rewrite?.hooks.includes('useParaSolanaSigner')
+    )?.[0];
+    const signerFile = signerHook
+      ? getGeneratedFile(
+          signerHook.file,
+          `useParaSolanaSigner${/\.tsx?$/.test(signerHook.file) ? '.ts' : '.js'}`,
+          'hooks'
+        )
+      : null;
+
+    if (signerFile) {
+      operations.push({
+        id: 'add-para-solana-signer',
+        type: 'file',
+        file: signerFile,
+        oldValue: '',
+        newValue: this.generateSignerHook(),
+        critical: true,
+      });
+    }
+
+    // 4. Replace wallet-adapter imports, one set of Para imports per file
+    const firstImports = new Map<string, FileImport>();
+    for (const importUsage of adapterImports) {
+      const first = firstImports.get(importUsage.file);
+      if (!first || importUsage.line < first.line) {
+        firstImports.set(importUsage.file, importUsage);
+      }
+    }
+
+    for (const importUsage of adapterImports) {
+      const newValue = this.getImportReplacement(importUsage, {
+        fileImports: adapterImports.filter((i) => i.file === importUsage.file),
+        first: firstImports.get(importUsage.file) === importUsage,
+        providers: outerProviders,
+        hookRewrites,
+        buttonFile,
+        signerFile,
+        removesWalletAdapters,
+      });
+      if (newValue === importUsage.import) continue;
 
-    for (const importUsage of reownImports) {
       operations.push({
         id: `replace-import-${importUsage.file}-${importUsage.line}`,
         type: 'import',
         file: importUsage.file,
         line: importUsage.line,
         oldValue: importUsage.import,
-        newValue: this.getParaImportReplacement(importUsage.import),
+        newValue,
         critical: true,
       });
     }
 
-    // 4. Replace ALL ReOwn providers (AppKit, Web3Modal, etc.)
-    const reownProviders = state.providers.filter(
-      (p) =>
-        p.provider.includes('AppKit') ||
-        p.provider.includes('Web3Modal') ||
-        p.provider.includes('createWeb3Modal')
-    );
+    // 5. Collapse ConnectionProvider > WalletProvider > WalletModalProvider into ParaProvider
+    for (const provider of outerProviders) {
+      const nested = providers.filter(
+        (p) => p.file === provider.file && provider.source.includes(p.source)
+      );
+      const innermost = nested.reduce((inner, p) =>
+        p.source.length < inner.source.length ? p : inner
+      );
 
-    for (const provider of reownProviders) {
       operations.push({
         id: `replace-provider-${provider.file}-${provider.line}`,
         type: 'provider',
         file: provider.file,
         line: provider.line,
-        oldValue: this.generateReownProvider(provider),
-        newValue: this.generateParaProvider(provider.props),
+        oldValue: provider.source,
+        newValue: renderParaProvider(
+          this.sdk,
+          this.generateParaConfig(nested, adapterImports, removesWalletAdapters, state),
+          this.outdentChildren(innermost.children, provider.children),
+          provider.indent,
+          getMissingWrappers(this.sdk, state, provider)
+        ),
         critical: true,
       });
+      operations.push(...getWrapperSetupOperations(this.sdk, state, provider));
     }
 
-    // 5. Replace ReOwn hooks
-    for (const hook of state.hooks.filter((h) => this.isReownHook(h.hook))) {
-      const newHook = this.getReownHookReplacement(hook.hook);
-      if (newHook) {
-        operations.push({
+    // 6. Move useWallet and useWalletModal onto Para
+    for (const [hook, rewrite] of hookRewrites) {
+      if (!rewrite) continue;
+
+      operations.push(
+        {
           id: `replace-hook-${hook.file}-${hook.line}`,
           type: 'hook',
           file: hook.file,
           line: hook.line,
           oldValue: hook.usage,
-          newValue: hook.usage.replace(hook.hook, newHook),
+          newValue: rewrite.usage,
           critical: false, // hooks can be updated gradually
-        });
-      }
+        },
+        ...rewrite.references
+      );
+    }
+
+    // 7. Swap the wallet-adapter-ui stylesheet, then make sure every entry point has Para CSS
+    const adapterStyles = state.styles.filter((s) =>
+      s.import.includes('@solana/wallet-adapter-react-ui/styles.css')
+    );
+
+    for (const style of adapterStyles) {
+      operations.push({
+        id: `replace-style-${style.file}-${style.line}`,
+        type: 'style',
+        file: style.file,
+        line: style.line,
+        oldValue: style.import,
+        newValue: style.import.replace('@solana/wallet-adapter-react-ui/styles.css', this.sdk.css),
+        critical: true,
+      });
     }
 
-    // 6. Add Para CSS imports (CRITICAL)
     for (const entryPoint of state.entryPoints) {
+      if (adapterStyles.some((s) => s.file === entryPoint)) continue;
+
       operations.push({
         id: `add-para-css-${entryPoint}`,
         type: 'style',
         file: entryPoint,
         oldValue: '',
-        newValue: "import '@para-wallet/react/styles.css'",
+        newValue: `import '${this.sdk.css}'`,
         critical: true,
       });
     }
@@ -290,244 +6261,550 @@ export class ReownToParaStrategy implements ReplacementStrategy {
   }
 
   async validate(state: ProjectState): Promise<boolean> {
-    const reownPatterns = ['reown', 'web3modal', 'appkit'];
-
-    const hasReownDeps = Object.keys(state.dependencies).some((dep) =>
-      reownPatterns.some((pattern) => dep.includes(pattern))
-    );
-
-    const hasReownImports = state.imports.some((i) =>
-      reownPatterns.some((pattern) => i.from.includes(pattern) || i.type === 'reown')
-    );
-
-    const hasReownProviders = state.providers.some((p) =>
-      reownPatterns.some((pattern) => p.provider.toLowerCase().includes(pattern))
+    const hasAdapterDeps = Object.keys(state.dependencies).some((dep) =>
+      dep.startsWith('@solana/wallet-adapter-')
     );
+    const hasAdapterImports = state.imports.some((i) => i.type === 'solana');
 
-    return hasReownDeps || hasReownImports || hasReownProviders;
+    return hasAdapterDeps || hasAdapterImports;
   }
 
   getEstimatedTime(): number {
-    return 150; // 2.5 minutes for ReOwn replacement
+    return 180; // 3 minutes for Solana wallet-adapter replacement
   }
 
-  private getParaImportReplacement(reownImport: string): string {
-    // ReOwn AppKit hook replacements
-    if (reownImport.includes('useAppKit')) {
-      return reownImport.replace('useAppKit', 'useModal');
-    }
-    if (reownImport.includes('useAppKitAccount')) {
-      return reownImport.replace('useAppKitAccount', 'useAccount');
-    }
-    if (reownImport.includes('useAppKitTheme')) {
-      return reownImport.replace('useAppKitTheme', 'useModal'); // Para handles theming differently
-    }
-    if (reownImport.includes('useAppKitState')) {
-      return reownImport.replace('useAppKitState', 'useAccount');
-    }
-    if (reownImport.includes('useAppKitEvents')) {
-      return reownImport.replace('useAppKitEvents', 'useWallet'); // Para event handling
-    }
+  getReviewIssues(): ValidationIssue[] {
+    return this.reviews;
+  }
 
-    // Web3Modal hook replacements
-    if (reownImport.includes('useWeb3Modal')) {
-      return reownImport.replace('useWeb3Modal', 'useModal');
-    }
-    if (reownImport.includes('useWeb3ModalAccount')) {
-      return reownImport.replace('useWeb3ModalAccount', 'useAccount');
-    }
-    if (reownImport.includes('useWeb3ModalTheme')) {
-      return reownImport.replace('useWeb3ModalTheme', 'useModal');
-    }
+  /**
+   * @solana/wallet-adapter-wallets or a single-wallet package such as -phantom
+   */
+  private isWalletAdapterPackage(dep: string): boolean {
+    return (
+      dep.startsWith('@solana/wallet-adapter-') &&
+      !['base', 'react', 'react-ui'].includes(dep.slice('@solana/wallet-adapter-'.length))
+    );
+  }
 
-    // Component replacements
-    if (reownImport.includes('createAppKit')) {
-      return reownImport.replace('createAppKit', 'ParaProvider, ParaModal');
-    }
-    if (reownImport.includes('createWeb3Modal')) {
-      return reownImport.replace('createWeb3Modal', 'ParaProvider, ParaModal');
-    }
-    if (reownImport.includes('defaultWagmiConfig')) {
-      return reownImport.replace('defaultWagmiConfig', 'wagmiConfig'); // Keep wagmi config
-    }
+  /**
+   * Hook rewrites keyed by hook; useWallet stays on the adapter for a whole file when one
+   * call can't be split, since Para's useWallet would shadow it
+   */
+  private getHookRewrites(state: ProjectState): Map<HookUsage, HookRewrite | null> {
+    const hooks = state.hooks.filter(
+      (h) =>
+        (h.from === '@solana/wallet-adapter-react' && h.hook === 'useWallet') ||
+        (h.from === '@solana/wallet-adapter-react-ui' && h.hook === 'useWalletModal')
+    );
+    const rewrites = new Map(hooks.map((h) => [h, this.rewriteHook(h)] as const));
 
-    // Package replacements
-    const packageMappings = {
-      '@reown/appkit': '@para-wallet/react',
-      '@reown/appkit-react': '@para-wallet/react',
-      '@reown/appkit-adapter-wagmi': '@para-wallet/react',
-      '@web3modal/wagmi': '@para-wallet/react',
-      '@web3modal/siwe': '@para-wallet/react',
-      '@web3modal/ethereum': '@para-wallet/react',
-    };
+    for (const [hook, rewrite] of rewrites) {
+      if (hook.hook === 'useWallet' && !rewrite) {
+        hooks
+          .filter((h) => h.file === hook.file && h.hook === 'useWallet')
+          .forEach((h) => rewrites.set(h, null));
 
-    for (const [oldPkg, newPkg] of Object.entries(packageMappings)) {
-      if (reownImport.includes(oldPkg)) {
-        return reownImport.replace(oldPkg, newPkg);
+        // WalletProvider is gone, so the adapter's useWallet no longer sees a wallet
+        this.reviews.push({
+          severity: 'critical',
+          code: 'HOOK_NEEDS_REVIEW',
+          message: `\`${hook.usage}\` could not be split into Para hooks - ${hook.file} stays on @solana/wallet-adapter-react's useWallet()`,
+          file: hook.file,
+          line: hook.line,
+          fix: 'Move the reads onto Para useAccount()/useWallet() and useParaSolanaSigner()',
+        });
+      } else if (!rewrite) {
+        this.reviews.push({
+          severity: 'warning',
+          code: 'HOOK_NEEDS_REVIEW',
+          message: `\`${hook.usage}\` keeps the wallet modal object - useWalletModal() stays imported from ${hook.from}, which the migration removes`,
+          file: hook.file,
+          line: hook.line,
+          fix: 'Destructure { isOpen, openModal, closeModal } from Para useModal() in place of visible and setVisible',
+        });
       }
     }
 
-    return reownImport; // fallback
+    // The adapter's other wallet hooks lose their WalletProvider as well
+    for (const hook of state.hooks.filter(
+      (h) =>
+        h.from === '@solana/wallet-adapter-react' &&
+        !['useWallet', 'useConnection'].includes(h.hook)
+    )) {
+      this.reviews.push({
+        severity: 'warning',
+        code: 'HOOK_NEEDS_REVIEW',
+        message: `${hook.hook}() has no Para equivalent and no WalletProvider above it once the migration runs`,
+        file: hook.file,
+        line: hook.line,
+        fix: `Replace ${hook.hook}() with Para useWallet() and useParaSolanaSigner(), or drop it`,
+      });
+    }
+
+    return rewrites;
   }
 
-  private generateReownProvider(provider: any): string {
-    if (provider.provider.includes('AppKit')) {
-      return `<AppKit 
-  projectId="${provider.props.projectId || 'REOWN_PROJECT_ID'}"
-  wagmiConfig={wagmiConfig}
-  metadata={metadata}
->
-  {children}
-</AppKit>`;
+  private getImportReplacement(
+    importUsage: FileImport,
+    context: {
+      fileImports: FileImport[];
+      first: boolean;
+      providers: ProviderUsage[];
+      hookRewrites: Map<HookUsage, HookRewrite | null>;
+      buttonFile: string | null;
+      signerFile: string | null;
+      removesWalletAdapters: boolean;
     }
+  ): string {
+    const { file } = importUsage;
+    const semicolon = importUsage.import.trim().endsWith(';') ? ';' : '';
+    const quote = getQuote(importUsage.import);
+    const rewrites = [...context.hookRewrites].filter(([hook]) => hook.file === file);
+    const keepsUseWallet = rewrites.some(
+      ([hook, rewrite]) => hook.hook === 'useWallet' && !rewrite
+    );
 
-    if (provider.provider.includes('Web3Modal')) {
-      return `<Web3Modal 
-  projectId="${provider.props.projectId || 'WEB3MODAL_PROJECT_ID'}"
-  wagmiConfig={wagmiConfig}
->
-  {children}
-</Web3Modal>`;
+    let rewritten = importUsage.import;
+    if (importUsage.from === '@solana/wallet-adapter-react') {
+      rewritten = rewriteImport(
+        importUsage.import,
+        {
+          ConnectionProvider: '',
+          WalletProvider: '',
+          ...(keepsUseWallet ? {} : { useWallet: '' }),
+        },
+        importUsage.from
+      );
+    } else if (importUsage.from === '@solana/wallet-adapter-react-ui') {
+      // The package is removed - only a modal hook left for review keeps its import
+      const keepsWalletModal = rewrites.some(
+        ([hook, rewrite]) => hook.hook === 'useWalletModal' && !rewrite
+      );
+      rewritten = renderKeptImport(
+        importUsage,
+        (getNamedSpecifiers(importUsage.import) ?? []).filter(
+          (s) => keepsWalletModal && s.imported === 'useWalletModal'
+        )
+      );
+    } else if (context.removesWalletAdapters && this.isWalletAdapterPackage(importUsage.from)) {
+      rewritten = '';
     }
 
-    return `${provider.provider} config={...}>{children}</${provider.provider}>`;
-  }
+    if (!context.first) return rewritten;
 
-  private generateParaProvider(props: Record<string, any>): string {
-    return `<ParaProvider
-  config={{
-    apiKey: ${props.projectId || 'PARA_API_KEY'},
-    paraClientConfig: {
-      env: Environment.DEVELOPMENT,
-    },
-    embeddedWalletConfig: {
-      createOnLogin: "all-users",
-      showWalletUiOnLogin: true,
-    },
-    wagmiConfig // Keep existing Wagmi config
-  }}
->
-  {children}
-  {/* ⚠️ CRITICAL: ParaModal is REQUIRED - #1 missing piece in failed migrations */}
-  <ParaModal />
-</ParaProvider>`;
-  }
+    // Para imports for the whole file ride on its first wallet-adapter import
+    const rendersProvider = context.providers.some((p) => p.file === file);
+    const paraNames = [
+      ...(rendersProvider ? getProviderExports(this.sdk) : []),
+      ...rewrites.flatMap(([, rewrite]) => rewrite?.hooks ?? []),
+    ].filter((name) => name !== 'useParaSolanaSigner');
+    const buttons = context.buttonFile
+      ? context.fileImports
+          .filter((i) => i.from === '@solana/wallet-adapter-react-ui')
+          .flatMap((i) => getNamedSpecifiers(i.import) ?? [])
+          .filter(({ imported }) => SolanaWalletAdapterToParaStrategy.BUTTONS.includes(imported))
+          .map(({ local }) => local)
+      : [];
 
-  private isReownHook(hookName: string): boolean {
-    const reownHooks = [
-      'useAppKit',
-      'useAppKitAccount',
-      'useAppKitTheme',
-      'useAppKitState',
-      'useAppKitEvents',
-      'useWeb3Modal',
-      'useWeb3ModalAccount',
-      'useWeb3ModalTheme',
-      'useWeb3ModalState',
+    const statements = [
+      paraNames.length > 0
+        ? `import { ${[...new Set(paraNames)].join(', ')} } from ${quote}${this.sdk.packages.react}${quote}${semicolon}`
+        : '',
+      rendersProvider ? renderEnvironmentImport(this.sdk, quote, semicolon) : '',
+      ...buttons.map(
+        (button) =>
+          `import { ParaConnectButton as ${button} } from ${quote}${relativeImport(
+            file,
+            context.buttonFile!
+          )}${quote}${semicolon}`
+      ),
+      context.signerFile &&
+      rewrites.some(([, rewrite]) => rewrite?.hooks.includes('useParaSolanaSigner'))
+        ? `import { useParaSolanaSigner } from ${quote}${relativeImport(file, context.signerFile)}${quote}${semicolon}`
+        : '',
+      rewritten,
     ];
-    return reownHooks.includes(hookName);
+
+    return statements.filter(Boolean).join('\n');
   }
 
-  private getReownHookReplacement(reownHook: string): string | null {
-    const replacements: Record<string, string> = {
-      useAppKit: 'useModal',
-      useAppKitAccount: 'useAccount',
-      useAppKitTheme: 'useModal',
-      useAppKitState: 'useAccount',
-      useAppKitEvents: 'useWallet',
-      useWeb3Modal: 'useModal',
-      useWeb3ModalAccount: 'useAccount',
-      useWeb3ModalTheme: 'useModal',
-      useWeb3ModalState: 'useAccount',
+  /**
+   * Re-indent the innermost provider's children to the level of the outermost one
+   */
+  private outdentChildren(children: string, outerChildren: string): string {
+    const indent = (text: string) => text.match(/\n([ \t]*)$/)?.[1].length ?? 0;
+    const depth = indent(children) - indent(outerChildren);
+    if (depth <= 0) return children;
+
+    return children.replace(new RegExp(`\\n[ \\t]{0,${depth}}`, 'g'), '\n');
+  }
+
+  private generateParaConfig(
+    nested: ProviderUsage[],
+    adapterImports: FileImport[],
+    removesWalletAdapters: boolean,
+    state: ProjectState
+  ): string {
+    const file = nested[0].file;
+    const notes: string[] = [];
+    const client = getParaClientDefaults(this.sdk, state, nested[0]);
+    if (client.review) this.reviews.push(client.review);
+
+    // Wallets follow the adapter classes the provider file imports
+    const wallets: string[] = [];
+    for (const importUsage of adapterImports.filter(
+      (i) => i.file === file && this.isWalletAdapterPackage(i.from)
+    )) {
+      for (const { imported } of getNamedSpecifiers(importUsage.import) ?? []) {
+        const wallet = SolanaWalletAdapterToParaStrategy.WALLET_ADAPTERS[imported];
+        if (wallet) {
+          wallets.push(wallet);
+        } else if (imported.endsWith('WalletAdapter')) {
+          notes.push(imported);
+        }
+      }
+    }
+
+    // The nested providers are translated as one, their props read as `<Provider>.<prop>`
+    const providers: ProviderUsage = {
+      ...nested[0],
+      provider: nested.map((p) => p.provider).join('/'),
+      props: Object.fromEntries(
+        nested.flatMap((p) =>
+          Object.entries(p.props).map(([key, value]) => [`${p.provider}.${key}`, value])
+        )
+      ),
     };
+    const { config, review } = translateProviderConfig(
+      providers,
+      PROVIDER_REPLACEMENT_MAP['solana-wallet-adapter-to-para'].configMapping,
+      {
+        ...client.config,
+        'externalWalletConfig.wallets': `[${[...new Set(wallets.length > 0 ? wallets : ['PHANTOM'])]
+          .map((wallet) => `"${wallet}"`)
+          .join(', ')}]`,
+        'externalWalletConfig.solanaConnector.config.endpoint': "clusterApiUrl('mainnet-beta')",
+      },
+      getFileQuote(state, file),
+      {},
+      {
+        'WalletProvider.wallets': (value) => ({
+          config: {},
+          unmapped: removesWalletAdapters
+            ? notes
+            : [...notes, `${value} still builds adapters - remove it once unused`],
+        }),
+      }
+    );
+    if (review) this.reviews.push(review);
 
-    return replacements[reownHook] || null;
+    return config;
   }
-}
 
-/**
- * Web3Modal to Para Replacement Strategy
- */
-export class Web3ModalToParaStrategy implements ReplacementStrategy {
-  strategy = MigrationStrategy.WEB3MODAL_TO_PARA;
+  /**
+   * Split `const { publicKey, signTransaction, connected } = useWallet()` into Para hooks and
+   * signer-backed locals, null when the statement has a shape this strategy cannot translate
+   */
+  private rewriteHook(hook: HookUsage): HookRewrite | null {
+    const semicolon = hook.usage.trim().endsWith(';') ? ';' : '';
 
-  async execute(state: ProjectState): Promise<ReplacementOperation[]> {
-    const operations: ReplacementOperation[] = [];
+    if (hook.hook === 'useWalletModal') {
+      if (!isDestructured(hook)) return null;
 
-    // Remove Web3Modal dependencies
-    operations.push({
-      id: 'remove-web3modal-wagmi',
-      type: 'dependency',
-      oldValue: '@web3modal/wagmi',
-      newValue: '',
-      critical: true,
-    });
+      // `{ visible, setVisible }` -> `{ isOpen, openModal, closeModal }` plus a setVisible shim
+      const usage = renameDestructured(hook.usage.replace(hook.hook, 'useModal'), {
+        visible: 'isOpen',
+      });
+      const setter = usage.match(/\{[^}]*\bsetVisible\b(?:\s*:\s*([\w$]+))?[^}]*\}\s*=/);
+      if (!setter) return { usage, hooks: ['useModal'], references: [] };
 
-    operations.push({
-      id: 'remove-web3modal-siwe',
-      type: 'dependency',
-      oldValue: '@web3modal/siwe',
-      newValue: '',
-      critical: true,
-    });
+      const parameter = /\.tsx?$/.test(hook.file) ? 'open: boolean' : 'open';
+      return {
+        // Hooks sit at the top of a component body - one indentation level deep
+        usage: `${usage.replace(/\bsetVisible\b(\s*:\s*[\w$]+)?/, 'openModal, closeModal')}
+  const ${setter[1] ?? 'setVisible'} = (${parameter}) => (open ? openModal() : closeModal())${semicolon}`,
+        hooks: ['useModal'],
+        references: [],
+      };
+    }
 
-    // Add Para dependency
-    operations.push({
-      id: 'add-para-react',
-      type: 'dependency',
-      oldValue: '',
-      newValue: '@para-wallet/react',
-      critical: true,
-    });
+    const destructuring = hook.usage.match(
+      /^(?:const|let)\s*\{([^}]*)\}\s*=\s*useWallet\(\)\s*;?$/
+    );
+    if (!destructuring) return null;
 
-    return operations;
-  }
+    const bindings = destructuring[1]
+      .split(',')
+      .map((element) => element.trim())
+      .filter(Boolean)
+      .map((element): [string, string] => {
+        const [property, name] = element.split(/\s*:\s*/);
+        return [property, name ?? property];
+      });
+    const destructured = new Map<string, string[]>();
+    const derivedLocals: string[] = [];
+    const signerLocals: string[] = [];
+    const message = /\.tsx?$/.test(hook.file) ? 'message: Uint8Array' : 'message';
+    const transaction = /\.tsx?$/.test(hook.file)
+      ? "transaction: Parameters<NonNullable<typeof solanaSigner>['sendTransaction']>[0]"
+      : 'transaction';
 
-  async validate(state: ProjectState): Promise<boolean> {
-    return Object.keys(state.dependencies).some((dep) => dep.includes('web3modal'));
+    for (const [property, name] of bindings) {
+      const paraProperty = SolanaWalletAdapterToParaStrategy.WALLET_PROPERTIES[property];
+
+      // wallet-adapter leaves signing functions undefined when unsupported - so do these
+      if (property === 'publicKey') {
+        signerLocals.push(`const ${name} = solanaSigner?.sender ?? null${semicolon}`);
+      } else if (property === 'signTransaction') {
+        signerLocals.push(
+          `const ${name} = solanaSigner ? solanaSigner.signTransaction.bind(solanaSigner) : undefined${semicolon}`
+        );
+      } else if (property === 'sendTransaction') {
+        // The signer sends through the useConnection() connection - the argument is ignored
+        signerLocals.push(
+          `const ${name} = (${transaction}, ..._options${/\.tsx?$/.test(hook.file) ? ': unknown[]' : ''}) => solanaSigner ? solanaSigner.sendTransaction(transaction) : Promise.reject(new Error('Wallet not connected'))${semicolon}`
+        );
+      } else if (property === 'signMessage') {
+        signerLocals.push(
+          `const ${name} = solanaSigner ? (${message}) => solanaSigner.signBytes(Buffer.from(message)) : undefined${semicolon}`
+        );
+      } else if (paraProperty?.[2]) {
+        const [paraHook, key, derive] = paraProperty;
+        const names = destructured.get(paraHook) ?? [];
+        if (!names.includes(`${key}: paraAccount`)) {
+          destructured.set(paraHook, [...names, `${key}: paraAccount`]);
+        }
+        derivedLocals.push(`const ${name} = ${derive('paraAccount')}${semicolon}`);
+      } else if (paraProperty) {
+        const [paraHook, key] = paraProperty;
+        destructured.set(paraHook, [
+          ...(destructured.get(paraHook) ?? []),
+          key === name ? key : `${key}: ${name}`,
+        ]);
+      } else {
+        return null;
+      }
+    }
+
+    const statements = [
+      ...[...destructured].map(
+        ([paraHook, names]) => `const { ${names.join(', ')} } = ${paraHook}()${semicolon}`
+      ),
+      ...derivedLocals,
+      ...(signerLocals.length > 0
+        ? [`const solanaSigner = useParaSolanaSigner()${semicolon}`, ...signerLocals]
+        : []),
+    ];
+
+    return {
+      // Hooks sit at the top of a component body - one indentation level deep
+      usage: statements.join('\n  '),
+      hooks: [...destructured.keys(), ...(signerLocals.length > 0 ? ['useParaSolanaSigner'] : [])],
+      references: [],
+    };
   }
 
-  getEstimatedTime(): number {
-    return 120; // 2 minutes for Web3Modal replacement
+  /**
+   * @solana/web3.js signer for the Para wallet, shared by every migrated useWallet call
+   */
+  private generateSignerHook(): string {
+    return `import { useMemo } from 'react';
+import { useConnection } from '@solana/wallet-adapter-react';
+import { ParaSolanaWeb3Signer } from '${this.sdk.packages.solanaWeb3}';
+import { useClient } from '${this.sdk.packages.react}';
+
+/**
+ * Signs with the connected Para wallet - replaces publicKey, signTransaction,
+ * signMessage and sendTransaction from wallet-adapter's useWallet
+ */
+export function useParaSolanaSigner() {
+  const para = useClient();
+  const { connection } = useConnection();
+
+  return useMemo(
+    () => (para ? new ParaSolanaWeb3Signer(para, connection) : null),
+    [para, connection]
+  );
+}
+`;
   }
 }
 
+export interface StrategyDetection {
+  strategy: MigrationStrategy;
+  confidence: number; // 0-1: dependencies 0.5, imports 0.3, providers 0.2
+  evidence: {
+    dependencies: string[];
+    imports: string[]; // module specifiers
+    providers: string[]; // `Provider (file:line)`
+  };
+}
+
+interface DetectionRule {
+  strategy: MigrationStrategy;
+  dependency: (dep: string) => boolean;
+  importSource: (from: string) => boolean;
+  providers: string[];
+  unless?: MigrationStrategy[]; // not reported next to these - they migrate the same code
+}
+
+/**
+ * Detection rules in priority order - earlier rules win ties and conflicting edits
+ * Built on demand: MigrationStrategy is not initialized yet while this module loads
+ */
+function getDetectionRules(): DetectionRule[] {
+  return [
+    {
+      strategy: MigrationStrategy.PRIVY_TO_PARA,
+      dependency: (dep) => dep.startsWith('@privy-io/'),
+      importSource: (from) => from.includes('privy'),
+      providers: ['PrivyProvider'],
+    },
+    {
+      strategy: MigrationStrategy.REOWN_TO_PARA,
+      dependency: (dep) => dep.includes('reown'),
+      importSource: (from) => from.includes('reown'),
+      providers: ['AppKit', 'createAppKit', 'appkit-button'],
+    },
+    {
+      strategy: MigrationStrategy.WEB3MODAL_TO_PARA,
+      dependency: (dep) => dep.includes('web3modal'),
+      importSource: (from) => from.includes('web3modal'),
+      providers: ['Web3Modal', 'createWeb3Modal', 'defaultWagmiConfig', 'w3m-button'],
+    },
+    {
+      strategy: MigrationStrategy.RAINBOWKIT_TO_PARA,
+      dependency: (dep) => dep === '@rainbow-me/rainbowkit',
+      importSource: (from) => from.startsWith('@rainbow-me/'),
+      providers: ['RainbowKitProvider'],
+    },
+    {
+      strategy: MigrationStrategy.CONNECTKIT_TO_PARA,
+      dependency: (dep) => dep === 'connectkit',
+      importSource: (from) => from === 'connectkit' || from.startsWith('connectkit/'),
+      providers: ['ConnectKitProvider'],
+    },
+    {
+      strategy: MigrationStrategy.DYNAMIC_TO_PARA,
+      dependency: (dep) => dep.startsWith('@dynamic-labs/'),
+      importSource: (from) => from.startsWith('@dynamic-labs/'),
+      providers: ['DynamicContextProvider', 'DynamicWagmiConnector'],
+    },
+    {
+      strategy: MigrationStrategy.THIRDWEB_TO_PARA,
+      dependency: (dep) => dep === 'thirdweb',
+      importSource: (from) => from === 'thirdweb/react',
+      providers: ['ThirdwebProvider', 'createThirdwebClient'],
+    },
+    {
+      strategy: MigrationStrategy.WEB3ONBOARD_TO_PARA,
+      dependency: (dep) => dep.startsWith('@web3-onboard/'),
+      importSource: (from) => from.startsWith('@web3-onboard/'),
+      providers: ['Web3OnboardProvider'],
+    },
+    {
+      strategy: MigrationStrategy.SOLANA_WALLET_ADAPTER_TO_PARA,
+      dependency: (dep) => dep.startsWith('@solana/wallet-adapter-'),
+      importSource: (from) => from.startsWith('@solana/wallet-adapter-'),
+      providers: ['ConnectionProvider', 'WalletModalProvider'],
+    },
+    {
+      // WalletConnect without a modal library - modal libraries bundle their own
+      strategy: MigrationStrategy.WALLETCONNECT_TO_PARA,
+      dependency: (dep) => dep.startsWith('@walletconnect/'),
+      importSource: (from) => from.startsWith('@walletconnect/'),
+      providers: ['walletConnect'],
+      unless: [
+        MigrationStrategy.REOWN_TO_PARA,
+        MigrationStrategy.WEB3MODAL_TO_PARA,
+        MigrationStrategy.RAINBOWKIT_TO_PARA,
+        MigrationStrategy.CONNECTKIT_TO_PARA,
+      ],
+    },
+  ];
+}
+
 /**
  * Strategy Factory
  */
 export class StrategyFactory {
-  static createStrategy(strategy: MigrationStrategy): ReplacementStrategy {
+  static createStrategy(
+    strategy: MigrationStrategy,
+    sdk: ParaSdkManifest = getParaSdkManifest()
+  ): ReplacementStrategy {
     switch (strategy) {
       case MigrationStrategy.PRIVY_TO_PARA:
-        return new PrivyToParaStrategy();
+        return new PrivyToParaStrategy(sdk);
       case MigrationStrategy.REOWN_TO_PARA:
-        return new ReownToParaStrategy();
+        return new ReownToParaStrategy(sdk);
       case MigrationStrategy.WEB3MODAL_TO_PARA:
-        return new Web3ModalToParaStrategy();
+        return new Web3ModalToParaStrategy(sdk);
+      case MigrationStrategy.WALLETCONNECT_TO_PARA:
+        return new WalletConnectToParaStrategy(sdk);
+      case MigrationStrategy.RAINBOWKIT_TO_PARA:
+        return new RainbowKitToParaStrategy(sdk);
+      case MigrationStrategy.CONNECTKIT_TO_PARA:
+        return new ConnectKitToParaStrategy(sdk);
+      case MigrationStrategy.DYNAMIC_TO_PARA:
+        return new DynamicToParaStrategy(sdk);
+      case MigrationStrategy.THIRDWEB_TO_PARA:
+        return new ThirdwebToParaStrategy(sdk);
+      case MigrationStrategy.WEB3ONBOARD_TO_PARA:
+        return new Web3OnboardToParaStrategy(sdk);
+      case MigrationStrategy.SOLANA_WALLET_ADAPTER_TO_PARA:
+        return new SolanaWalletAdapterToParaStrategy(sdk);
       default:
         throw new Error(`Unsupported migration strategy: ${strategy}`);
     }
   }
 
+  /**
+   * Most likely strategy - the first of detectStrategies()
+   */
   static detectStrategy(state: ProjectState): MigrationStrategy | null {
-    const deps = Object.keys(state.dependencies);
-    const imports = state.imports.map((i) => i.from);
+    return StrategyFactory.detectStrategies(state)[0]?.strategy ?? null;
+  }
 
-    // Check for Privy
-    if (deps.includes('@privy-io/react-auth') || imports.some((i) => i.includes('privy'))) {
-      return MigrationStrategy.PRIVY_TO_PARA;
-    }
+  /**
+   * Every strategy the project needs, most confident first
+   * Projects often combine libraries (Privy for auth, Web3Modal for external wallets) and
+   * each one has to be migrated
+   */
+  static detectStrategies(state: ProjectState): StrategyDetection[] {
+    const rules = getDetectionRules();
+    const detections = rules
+      .map((rule): StrategyDetection => {
+        const evidence = {
+          dependencies: Object.keys(state.dependencies).filter(rule.dependency),
+          imports: [...new Set(state.imports.map((i) => i.from).filter(rule.importSource))],
+          providers: state.providers
+            .filter((p) => rule.providers.includes(p.provider))
+            .map((p) => `${p.provider} (${p.file}:${p.line})`),
+        };
+        const confidence =
+          (evidence.dependencies.length > 0 ? 0.5 : 0) +
+          (evidence.imports.length > 0 ? 0.3 : 0) +
+          (evidence.providers.length > 0 ? 0.2 : 0);
 
-    // Check for ReOwn
-    if (deps.some((d) => d.includes('reown')) || imports.some((i) => i.includes('reown'))) {
-      return MigrationStrategy.REOWN_TO_PARA;
-    }
+        return {
+          strategy: rule.strategy,
+          confidence: Math.round(confidence * 100) / 100,
+          evidence,
+        };
+      })
+      .filter((detection) => detection.confidence > 0);
 
-    // Check for Web3Modal
-    if (deps.some((d) => d.includes('web3modal')) || imports.some((i) => i.includes('web3modal'))) {
-      return MigrationStrategy.WEB3MODAL_TO_PARA;
-    }
+    const detected = new Set(detections.map((d) => d.strategy));
 
-    return null;
+    // Stable sort - ties keep the rule order
+    return detections
+      .filter(
+        (d) =>
+          !rules
+            .find((rule) => rule.strategy === d.strategy)!
+            .unless?.some((other) => detected.has(other))
+      )
+      .sort((a, b) => b.confidence - a.confidence);
   }
 }
@@ -11,6 +11,8 @@ import { CodeGenerator } from './services/code-generator.js';
 import { ValidationService } from './services/validation-service.js';
 import { MigrationEngine, MigrationStrategy } from './core/migration-engine.js';
 import { StrategyFactory } from './core/replacement-strategy.js';
+import { DiffGenerator } from './core/diff-generator.js';
+import { PackageManager, PackageManagerName } from './core/package-manager.js';
 
 const server = new Server({
   name: 'mcp-reown-para-migration',
@@ -60,14 +62,62 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             },
             strategy: {
               type: 'string',
-              enum: ['privy-to-para', 'reown-to-para', 'web3modal-to-para', 'walletconnect-to-para'],
+              enum: [
+                'privy-to-para',
+                'reown-to-para',
+                'web3modal-to-para',
+                'walletconnect-to-para',
+                'rainbowkit-to-para',
+                'connectkit-to-para',
+                'dynamic-to-para',
+                'thirdweb-to-para',
+                'web3onboard-to-para',
+                'solana-wallet-adapter-to-para',
+              ],
               description: 'Migration strategy to use',
             },
+            strategies: {
+              type: 'array',
+              items: {
+                type: 'string',
+                enum: [
+                  'privy-to-para',
+                  'reown-to-para',
+                  'web3modal-to-para',
+                  'walletconnect-to-para',
+                  'rainbowkit-to-para',
+                  'connectkit-to-para',
+                  'dynamic-to-para',
+                  'thirdweb-to-para',
+                  'web3onboard-to-para',
+                  'solana-wallet-adapter-to-para',
+                ],
+              },
+              description: 'Several strategies to combine into one plan, highest priority first (defaults to every detected strategy)',
+            },
             dryRun: {
               type: 'boolean',
               description: 'Perform dry run without making changes',
               default: false,
             },
+            planId: {
+              type: 'string',
+              description: 'ID of a plan saved by a previous dry run - applies exactly that plan',
+            },
+            writePatch: {
+              type: 'boolean',
+              description: 'On dry run, also write the diff to .para-migration/<planId>.patch for `git apply`',
+              default: false,
+            },
+            updateLockfile: {
+              type: 'boolean',
+              description: 'Also update the lockfile offline from the local package cache (npm, yarn or pnpm, detected from the lockfile - bun has no offline mode and is refused)',
+              default: false,
+            },
+            targetSdkVersion: {
+              type: 'string',
+              description: 'Para SDK version to generate for, e.g. "2" or "^2.0.0" (defaults to the version the project already has installed, else 1.x)',
+            },
           },
           required: ['projectPath'],
         },
@@ -117,6 +167,15 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               description: 'Supported wallet types',
               default: ['METAMASK', 'COINBASE', 'WALLETCONNECT'],
             },
+            projectPath: {
+              type: 'string',
+              description: 'Project directory - its lockfile decides the package manager used in the commands',
+            },
+            packageManager: {
+              type: 'string',
+              enum: ['npm', 'yarn', 'pnpm', 'bun'],
+              description: 'Package manager for the commands when there is no project to detect it from',
+            },
           },
           required: ['paraApiKey'],
         },
@@ -136,6 +195,10 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               description: 'Generate TypeScript version',
               default: true,
             },
+            targetSdkVersion: {
+              type: 'string',
+              description: 'Para SDK version to generate for, e.g. "2" or "^2.0.0" (defaults to 1.x)',
+            },
           },
           required: ['config'],
         },
@@ -157,6 +220,10 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               description: 'Styling approach to use',
               default: 'tailwind',
             },
+            targetSdkVersion: {
+              type: 'string',
+              description: 'Para SDK version to generate for, e.g. "2" or "^2.0.0" (defaults to 1.x)',
+            },
           },
         },
       },
@@ -278,6 +345,10 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               description: 'Generate TypeScript version',
               default: true,
             },
+            targetSdkVersion: {
+              type: 'string',
+              description: 'Para SDK version to generate for, e.g. "2" or "^2.0.0" (defaults to 1.x)',
+            },
           },
         },
       },
@@ -317,10 +388,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
   try {
     switch (name) {
-      case 'analyze_project':
+      case 'analyze_project': {
         // Use new migration engine for analysis
         const projectState = await migrationEngine.scanProjectState(args.projectPath as string);
-        const detectedStrategy = StrategyFactory.detectStrategy(projectState);
+        const detectedStrategies = StrategyFactory.detectStrategies(projectState);
+        const detectedStrategy = detectedStrategies[0]?.strategy ?? null;
         
         return {
           content: [{
@@ -328,19 +400,36 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             text: JSON.stringify({
               projectState,
               detectedStrategy,
-              recommendations: detectedStrategy ? 
+              detectedStrategies,
+              recommendations: detectedStrategies.length > 1 ?
+                `Detected ${detectedStrategies.map((d) => d.strategy).join(', ')} migration patterns. Use execute_atomic_migration to migrate them together.` :
+                detectedStrategy ? 
                 `Detected ${detectedStrategy} migration pattern. Use execute_atomic_migration to proceed.` :
                 'No supported wallet provider detected for migration.'
             }, null, 2)
           }]
         };
+      }
 
-      case 'execute_atomic_migration':
-        const strategy = args.strategy as MigrationStrategy || StrategyFactory.detectStrategy(
-          await migrationEngine.scanProjectState(args.projectPath as string)
-        );
+      case 'execute_atomic_migration': {
+        if (args.planId && !args.dryRun) {
+          // Apply exactly the reviewed plan - refuses if the files changed since the dry run
+          const savedPlan = await migrationEngine.loadPlan(args.projectPath as string, args.planId as string);
+          const planResult = await migrationEngine.executeAtomicMigration({ updateLockfile: args.updateLockfile as boolean | undefined });
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({ planId: args.planId, ...planResult, manualReview: savedPlan.manualReview }, null, 2)
+            }],
+            isError: !planResult.success
+          };
+        }
+
+        const scannedState = await migrationEngine.scanProjectState(args.projectPath as string);
+        const strategies = (args.strategies as MigrationStrategy[] | undefined) ||
+          (args.strategy ? [args.strategy as MigrationStrategy] : StrategyFactory.detectStrategies(scannedState).map((d) => d.strategy));
         
-        if (!strategy) {
+        if (strategies.length === 0) {
           return {
             content: [{
               type: 'text',
@@ -350,28 +439,57 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
+        const plan = await migrationEngine.createReplacementPlan(strategies, {
+          targetSdkVersion: args.targetSdkVersion as string | undefined,
+        });
+
         if (args.dryRun) {
-          // Perform dry run
-          const plan = await migrationEngine.createReplacementPlan(strategy);
+          // Perform dry run - render what the plan would change as a unified diff
+          const diffGenerator = new DiffGenerator(args.projectPath as string);
+          const diff = await diffGenerator.generate(plan.replacements);
+          const patchFile = args.writePatch
+            ? await diffGenerator.writePatch(plan.id!, diff.patch)
+            : undefined;
+
           return {
-            content: [{
-              type: 'text',
-              text: `DRY RUN - Migration Plan:\n${JSON.stringify(plan, null, 2)}`
-            }]
+            content: [
+              {
+                type: 'text',
+                text: `DRY RUN - Migration Plan ${plan.id} (pass planId: "${plan.id}" to apply it):\n${JSON.stringify({
+                  strategies: plan.strategies,
+                  estimatedTime: plan.estimatedTime,
+                  operations: plan.replacements.map(({ id, type, file, line, critical }) => ({ id, type, file, line, critical })),
+                  validations: plan.validations.map(({ id, type, description }) => ({ id, type, description })),
+                  changedFiles: diff.files,
+                  patchFile,
+                  issues: diff.issues,
+                  conflicts: plan.conflicts,
+                  manualReview: plan.manualReview,
+                  installCommand: plan.installCommand,
+                }, null, 2)}`
+              },
+              {
+                type: 'text',
+                text: diff.patch || 'No file changes.'
+              }
+            ],
+            isError: diff.issues.some((issue) => issue.severity === 'critical')
           };
         } else {
           // Execute actual migration
-          const result = await migrationEngine.executeAtomicMigration();
+          const result = await migrationEngine.executeAtomicMigration({ updateLockfile: args.updateLockfile as boolean | undefined });
           return {
             content: [{
               type: 'text',
-              text: JSON.stringify(result, null, 2)
+              text: JSON.stringify({ ...result, manualReview: plan.manualReview }, null, 2)
             }],
             isError: !result.success
           };
         }
+      }
 
       case 'validate_migration_state':
+        await migrationEngine.scanProjectState(args.projectPath as string);
         const validationResult = await migrationEngine.validateCompletion();
         return {
           content: [{
@@ -394,18 +512,22 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           environment: (args.environment as 'development' | 'production') || 'development',
           supportedChains: (args.supportedChains as number[]) || [1],
           wallets: (args.wallets as ('METAMASK' | 'COINBASE' | 'WALLETCONNECT' | 'RAINBOW')[]) || ['METAMASK', 'COINBASE', 'WALLETCONNECT'],
+          packageManager: (args.packageManager as PackageManagerName | undefined) ||
+            (args.projectPath ? (await PackageManager.detect(args.projectPath as string)).name : 'npm'),
         });
 
       case 'generate_provider_component':
         return await codeGenerator.generateProviderComponent(
           args.config as any,
-          args.typescript as boolean | undefined
+          args.typescript as boolean | undefined,
+          args.targetSdkVersion as string | undefined
         );
 
       case 'generate_connect_button':
         return await codeGenerator.generateConnectButton(
           args.typescript as boolean | undefined,
-          args.styling as string | undefined
+          args.styling as string | undefined,
+          args.targetSdkVersion as string | undefined
         );
 
       case 'validate_migration':
@@ -443,7 +565,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       case 'generate_hooks_examples':
         return await codeGenerator.generateHooksExamples(
           args.fromProvider as string | undefined,
-          args.typescript as boolean | undefined
+          args.typescript as boolean | undefined,
+          args.targetSdkVersion as string | undefined
         );
 
       case 'quick_migration_mode':
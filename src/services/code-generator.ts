@@ -1,18 +1,28 @@
 import { MigrationConfig } from '../types.js';
+import { ConfigTranslator } from '../core/config-translator.js';
+import {
+  ParaSdkManifest,
+  getParaSdkManifest,
+  renderParaProvider,
+  renderProviderWrapperSetup,
+} from '../core/para-sdk.js';
 
 export class CodeGenerator {
+  constructor(private sdk: ParaSdkManifest = getParaSdkManifest()) {}
+
   async generateProviderComponent(
     config: MigrationConfig,
-    typescript: boolean = true
+    typescript: boolean = true,
+    targetSdkVersion?: string
   ): Promise<any> {
+    const sdk = this.getSdk(targetSdkVersion);
     const extension = typescript ? 'tsx' : 'jsx';
     const typeAnnotations = typescript ? ': React.ReactNode' : '';
-    const envType = typescript ? ' as "development" | "production"' : '';
+    const hasModalComponent = sdk.components.includes('ParaModal');
 
     const providerCode = `
 ${typescript ? 'import React from "react";' : ''}
-import { ParaProvider, ParaModal } from "@getpara/react-sdk";
-import { Environment } from "@getpara/core-sdk";
+${this.generateParaImports(sdk)}
 import { mainnet, polygon, arbitrum } from "viem/chains";
 import { http } from "viem";
 
@@ -20,34 +30,7 @@ interface AppProvidersProps {
   children${typeAnnotations};
 }
 
-export function AppProviders({ children }${typescript ? ': AppProvidersProps' : ''}) {
-  return (
-    <ParaProvider
-      paraClientConfig={{
-        apiKey: "${config.paraApiKey}",
-        env: Environment.${config.environment.toUpperCase()},
-      }}
-      externalWalletConfig={{
-        wallets: ${JSON.stringify(config.wallets)},
-        evmConnector: {
-          config: {
-            chains: [${this.generateChainImports(config.supportedChains)}],
-            transports: {
-              ${this.generateTransports(config.supportedChains)}
-            },
-          },
-        },
-      }}
-      embeddedWalletConfig={{
-        createOnLogin: "all-users",
-        showWalletUiOnLogin: true,
-      }}
-    >
-      {children}
-      <ParaModal />
-    </ParaProvider>
-  );
-}
+${this.generateProviderTree(sdk, config, typescript)}
 
 // Usage in your main App component:
 // import { AppProviders } from './providers/AppProviders';
@@ -69,19 +52,26 @@ export function AppProviders({ children }${typescript ? ': AppProvidersProps' :
             {
               filename: `AppProviders.${extension}`,
               code: providerCode,
-              dependencies: ['@getpara/react-sdk', '@getpara/core-sdk', 'viem'],
+              dependencies: [...sdk.dependencies, ...sdk.peerDependencies, 'viem'],
+              sdkVersion: `${sdk.major}.x`,
               notes: [
                 'Replace the API key with your actual Para API key',
                 'Adjust chains based on your application needs',
                 'Import this provider at the root of your application',
               ],
               criticalFixes: [
-                '❌ CRITICAL ISSUE #1: <ParaModal /> component is REQUIRED for modal to appear',
-                '   Fix: Add <ParaModal /> inside your <ParaProvider>',
-                '   Why: Without this component, openModal() will work but no UI appears',
+                ...(hasModalComponent
+                  ? [
+                      '❌ CRITICAL ISSUE #1: <ParaModal /> component is REQUIRED for modal to appear',
+                      '   Fix: Add <ParaModal /> inside your <ParaProvider>',
+                      '   Why: Without this component, openModal() will work but no UI appears',
+                    ]
+                  : [
+                      `ℹ️ ${sdk.major}.x renders the modal from <ParaProvider> - do not add <ParaModal />`,
+                    ]),
                 '',
                 '❌ CRITICAL ISSUE #2: Para SDK CSS must be imported',
-                '   Fix: Add import "@getpara/react-sdk/styles.css" to your main layout',
+                `   Fix: Add import "${sdk.css}" to your main layout`,
                 '   Why: Modal will appear but styling will be completely broken without this',
                 '',
                 '❌ CRITICAL ISSUE #3: Environment enum usage required',
@@ -90,7 +80,10 @@ export function AppProviders({ children }${typescript ? ': AppProvidersProps' :
               ],
               implementationChecklist: [
                 '[ ] Replace API key with your actual Para API key',
-                '[ ] Verify <ParaModal /> is inside <ParaProvider>',
+                ...(hasModalComponent ? ['[ ] Verify <ParaModal /> is inside <ParaProvider>'] : []),
+                ...sdk.providerWrappers.map(
+                  (wrapper) => `[ ] Verify <ParaProvider> is rendered inside <${wrapper}>`
+                ),
                 '[ ] Add CSS import to main entry point (layout.tsx/_app.tsx/main.tsx)',
                 '[ ] Use Environment.DEVELOPMENT enum not string',
                 '[ ] Test modal opens when clicking connect button',
@@ -107,13 +100,15 @@ export function AppProviders({ children }${typescript ? ': AppProvidersProps' :
 
   async generateConnectButton(
     typescript: boolean = true,
-    styling: string = 'tailwind'
+    styling: string = 'tailwind',
+    targetSdkVersion?: string
   ): Promise<any> {
+    const sdk = this.getSdk(targetSdkVersion);
     const extension = typescript ? 'tsx' : 'jsx';
 
     const baseCode = `
 ${typescript ? 'import React from "react";' : ''}
-import { useAccount, useModal, useWallet } from "@getpara/react-sdk";
+import { useAccount, useModal, useWallet } from "${sdk.packages.react}";
 
 ${this.generateStyleImports(styling)}
 
@@ -213,7 +208,8 @@ export function AdvancedConnectButton() {
               filename: `ConnectButton.${extension}`,
               code: baseCode,
               styling,
-              dependencies: ['@getpara/react-sdk'],
+              dependencies: [sdk.packages.react],
+              sdkVersion: `${sdk.major}.x`,
               notes: [
                 'Customize the styling classes based on your design system',
                 'The AdvancedConnectButton includes disconnect functionality',
@@ -244,7 +240,7 @@ export function AdvancedConnectButton() {
     const layoutCode = `
 import type { Metadata } from 'next'
 import '@/styles/globals.css'
-import '@getpara/react-sdk/styles.css'
+import '${this.sdk.css}'
 
 import { AppProviders } from '@/providers/AppProviders'
 
@@ -281,7 +277,7 @@ export default function RootLayout({
               dependencies: ['next'],
               notes: [
                 'This is a Next.js layout example',
-                '⚠️ CRITICAL: "@getpara/react-sdk/styles.css" import is REQUIRED',
+                `⚠️ CRITICAL: "${this.sdk.css}" import is REQUIRED`,
                 'Place this in your app/layout.tsx for Next.js App Router',
                 'For Pages Router, add the CSS import to _app.tsx',
               ],
@@ -294,6 +290,50 @@ export default function RootLayout({
     };
   }
 
+  private getSdk(targetSdkVersion?: string): ParaSdkManifest {
+    return targetSdkVersion ? getParaSdkManifest(targetSdkVersion) : this.sdk;
+  }
+
+  private generateParaImports(sdk: ParaSdkManifest): string {
+    const sameModule = sdk.environment.from === sdk.packages.react;
+    const reactExports = sameModule ? [...sdk.components, sdk.environment.name] : sdk.components;
+    const imports = [`import { ${reactExports.join(', ')} } from "${sdk.packages.react}";`];
+    if (!sameModule) {
+      imports.push(`import { ${sdk.environment.name} } from "${sdk.environment.from}";`);
+    }
+    imports.push(...renderProviderWrapperSetup(sdk.providerWrappers, '"', ';').imports);
+    return imports.join('\n');
+  }
+
+  /**
+   * The same ParaProvider template the migration strategies render, inside the SDK line's
+   * provider wrappers
+   */
+  private generateProviderTree(
+    sdk: ParaSdkManifest,
+    config: MigrationConfig,
+    typescript: boolean
+  ): string {
+    const props = typescript ? ': AppProvidersProps' : '';
+    const paraConfig = ConfigTranslator.render({
+      'paraClientConfig.apiKey': `"${config.paraApiKey}"`,
+      'paraClientConfig.env': `Environment.${config.environment.toUpperCase()}`,
+      'config.appName': '"Your App"',
+      'externalWalletConfig.wallets': JSON.stringify(config.wallets),
+      'externalWalletConfig.evmConnector.config.chains': `[${this.generateChainImports(config.supportedChains)}]`,
+      'externalWalletConfig.evmConnector.config.transports': `{ ${this.generateTransports(config.supportedChains)} }`,
+      'embeddedWalletConfig.createOnLogin': '"all-users"',
+      'embeddedWalletConfig.showWalletUiOnLogin': 'true',
+    });
+    const { setup } = renderProviderWrapperSetup(sdk.providerWrappers, '"', ';');
+
+    return `${[...setup, ''].join('\n\n')}export function AppProviders({ children }${props}) {
+  return (
+    ${renderParaProvider(sdk, paraConfig, '\n      {children}\n    ', '    ', sdk.providerWrappers)}
+  );
+}`;
+  }
+
   private generateChainImports(chainIds: number[]): string {
     const chainMap: Record<number, string> = {
       1: 'mainnet',
@@ -310,7 +350,7 @@ export default function RootLayout({
   }
 
   private generateTransports(chainIds: number[]): string {
-    return chainIds.map((id) => `[${id}]: http(),`).join('\n              ');
+    return chainIds.map((id) => `[${id}]: http()`).join(', ');
   }
 
   private generateStyleImports(styling: string): string {
@@ -456,7 +496,7 @@ export default function RootLayout({
       if (foundEntryPoint) {
         // Check if CSS import already exists
         const existingContent = await fs.readFile(foundEntryPoint, 'utf-8');
-        const hasParaStyles = existingContent.includes('@getpara/react-sdk/styles.css');
+        const hasParaStyles = existingContent.includes(this.sdk.css);
 
         if (hasParaStyles) {
           cssImportCode = '// ✅ Para SDK styles are already imported';
@@ -466,7 +506,7 @@ export default function RootLayout({
           cssImportCode = `// Add this import to ${relativeEntryPoint}
 // CRITICAL: Para SDK styles required for modal functionality  
 // Missing this = broken modal styling (#2 migration failure)
-import '@getpara/react-sdk/styles.css'`;
+import '${this.sdk.css}'`;
 
           instructions = `Add the CSS import to your ${entryPointType} entry point: ${relativeEntryPoint}`;
         }
@@ -474,7 +514,7 @@ import '@getpara/react-sdk/styles.css'`;
         cssImportCode = `// Para SDK CSS imports - add to your main entry point
 // CRITICAL: Para SDK styles required for modal functionality
 // Missing this = broken modal styling (#2 migration failure)
-import '@getpara/react-sdk/styles.css'
+import '${this.sdk.css}'
 
 // Common entry points to add this to:
 // - src/main.tsx (Vite/CRA)
@@ -502,8 +542,7 @@ import '@getpara/react-sdk/styles.css'
                   'This must be imported BEFORE your main App component renders',
                 ],
                 troubleshooting: {
-                  'Modal appears but looks broken':
-                    'Missing CSS import - add @getpara/react-sdk/styles.css',
+                  'Modal appears but looks broken': `Missing CSS import - add ${this.sdk.css}`,
                   'Modal has no styling':
                     'CSS import not in the right location - move to main entry point',
                   'Styles conflict with app':
@@ -526,7 +565,7 @@ import '@getpara/react-sdk/styles.css'
                 error: `Failed to generate CSS imports: ${error instanceof Error ? error.message : String(error)}`,
                 fallbackInstructions: [
                   'Add this import to your main entry point:',
-                  "import '@getpara/react-sdk/styles.css'",
+                  `import '${this.sdk.css}'`,
                   '',
                   'Common locations:',
                   '- src/main.tsx (Vite/CRA)',
@@ -545,8 +584,10 @@ import '@getpara/react-sdk/styles.css'
 
   async generateHooksExamples(
     fromProvider: string = 'privy',
-    typescript: boolean = true
+    typescript: boolean = true,
+    targetSdkVersion?: string
   ): Promise<any> {
+    const sdk = this.getSdk(targetSdkVersion);
     const extension = typescript ? 'tsx' : 'jsx';
 
     let beforeAfterCode = '';
@@ -577,7 +618,7 @@ export function WalletComponent() {
 }
 
 // ✅ NEW (Para pattern):
-import { useAccount, useModal, useWallet } from "@getpara/react-sdk";
+import { useAccount, useModal, useWallet } from "${sdk.packages.react}";
 
 export function WalletComponent() {
   const { openModal } = useModal();
@@ -656,7 +697,7 @@ export function WalletComponent() {
 }
 
 // ✅ NEW (Para pattern):
-import { useAccount, useModal, useWallet } from "@getpara/react-sdk";
+import { useAccount, useModal, useWallet } from "${sdk.packages.react}";
 
 export function WalletComponent() {
   const { openModal } = useModal();
@@ -734,7 +775,7 @@ export function AppProviders({ children }: { children: React.ReactNode }) {
 }
 
 // 2. Connection Logic
-import { useAccount, useModal, useWallet } from "@getpara/react-sdk";
+import { useAccount, useModal, useWallet } from "${sdk.packages.react}";
 
 export function ConnectWallet() {
   const { openModal } = useModal();
@@ -775,7 +816,7 @@ export function WalletInfo() {
           'Para works with existing Wagmi hooks - no major changes needed',
           'Always include <ParaModal /> inside <ParaProvider>',
           'Import Para SDK styles in your main app file',
-          'Use Environment enum from @getpara/core-sdk',
+          `Use Environment enum from ${sdk.environment.from}`,
           'Configure embeddedWalletConfig for better UX',
           'Replace provider-specific hooks with Para equivalents',
         ];
@@ -793,7 +834,7 @@ export function WalletInfo() {
               migrationNotes,
               criticalReminders: [
                 '⚠️ CRITICAL: Always include <ParaModal /> in your provider',
-                '⚠️ CRITICAL: Import @getpara/react-sdk/styles.css in main app file',
+                `⚠️ CRITICAL: Import ${sdk.css} in main app file`,
                 '⚠️ CRITICAL: Use Environment.DEVELOPMENT not "development" string',
                 '⚠️ CRITICAL: Test modal appearance before testing functionality',
               ],
@@ -848,8 +889,8 @@ export function WalletInfo() {
 // Target: <5 minutes migration time vs 40+ minutes before
 // Based on real-world migration optimizations from GoyoElevenlabs
 
-import { ParaProvider, ParaModal } from "@getpara/react-sdk";
-import { Environment } from "@getpara/core-sdk";
+import { ParaProvider, ParaModal } from "${this.sdk.packages.react}";
+import { Environment } from "${this.sdk.environment.from}";
 
 export function QuickParaProvider({ children }: { children: React.ReactNode }) {
   return (
@@ -1,20 +1,33 @@
 import { promises as fs } from 'fs';
 import path from 'path';
-import { MigrationConfig, MigrationConfigSchema } from '../types.js';
+import { MigrationConfigInput, MigrationConfigSchema } from '../types.js';
+import { ProjectScanner } from '../core/project-scanner.js';
+import { PackageManager } from '../core/package-manager.js';
+import { ParaSdkManifest, getParaSdkManifest } from '../core/para-sdk.js';
 
 export class MigrationService {
+  constructor(private sdk: ParaSdkManifest = getParaSdkManifest()) {}
+
   async analyzeProject(projectPath: string, packageJsonPath?: string): Promise<any> {
     try {
       const packagePath = packageJsonPath || path.join(projectPath, 'package.json');
       const packageContent = await fs.readFile(packagePath, 'utf-8');
       const packageJson = JSON.parse(packageContent);
 
+      // Workspaces: wallet dependencies usually sit in the app packages, not the root
+      const workspacePackages = packageJsonPath
+        ? null
+        : await new ProjectScanner().findWorkspacePackages(projectPath);
+      const dependencySource = workspacePackages
+        ? { dependencies: Object.assign({}, ...workspacePackages.map((pkg) => pkg.dependencies)) }
+        : packageJson;
+
       // Detect ReOwn/WalletConnect usage
-      const reownPackages = this.detectReownPackages(packageJson);
-      const walletConnectPackages = this.detectWalletConnectPackages(packageJson);
+      const reownPackages = this.detectReownPackages(dependencySource);
+      const walletConnectPackages = this.detectWalletConnectPackages(dependencySource);
 
       // Detect Privy usage
-      const privyPackages = this.detectPrivyPackages(packageJson);
+      const privyPackages = this.detectPrivyPackages(dependencySource);
 
       // Scan for usage patterns in source files
       const sourceFiles = await this.findSourceFiles(projectPath);
@@ -36,6 +49,7 @@ export class MigrationService {
               {
                 analysis: {
                   projectPath,
+                  workspaces: workspacePackages?.map(({ name, path }) => ({ name, path })),
                   packageJsonAnalysis: {
                     reownPackages,
                     walletConnectPackages,
@@ -69,18 +83,26 @@ export class MigrationService {
     }
   }
 
-  async generateMigrationConfig(config: MigrationConfig): Promise<any> {
+  async generateMigrationConfig(config: MigrationConfigInput): Promise<any> {
     try {
       const validatedConfig = MigrationConfigSchema.parse(config);
+      const packageManager = new PackageManager(validatedConfig.packageManager);
 
       const migrationSteps = [
         {
           step: 'Package Migration',
           description: 'Remove ReOwn/Privy packages and install Para SDK',
           commands: [
-            'npm uninstall @web3modal/wagmi @web3modal/siwe @privy-io/react-auth',
-            'npm install @getpara/react-sdk @getpara/core-sdk @getpara/evm-wallet-connectors',
-            'npm run postinstall',
+            packageManager.removeCommand([
+              '@web3modal/wagmi',
+              '@web3modal/siwe',
+              '@privy-io/react-auth',
+            ]),
+            packageManager.addCommand(
+              [...this.sdk.dependencies, this.sdk.packages.evmConnectors],
+              this.sdk
+            ),
+            packageManager.runCommand('postinstall'),
           ],
         },
         {
@@ -139,6 +161,7 @@ export class MigrationService {
     currentSetup?: any,
     targetConfig?: any
   ): Promise<any> {
+    const packageManager = await this.resolvePackageManager(currentSetup, targetConfig);
     const guide = {
       projectName,
       migrationGuide: {
@@ -160,13 +183,13 @@ export class MigrationService {
             ],
             code: `
 # Remove old packages
-npm uninstall @web3modal/wagmi @web3modal/siwe
+${packageManager.removeCommand(['@web3modal/wagmi', '@web3modal/siwe'])}
 
 # Install Para SDK
-npm install @getpara/react-sdk
+${packageManager.addCommand([this.sdk.packages.react], this.sdk)}
 
 # Run postinstall
-npm run postinstall
+${packageManager.runCommand('postinstall')}
             `,
           },
           {
@@ -235,22 +258,41 @@ PARA_ENVIRONMENT=development
     };
   }
 
+  /**
+   * The configured package manager, else the one detected from the analyzed project, else npm
+   */
+  private async resolvePackageManager(
+    currentSetup?: any,
+    targetConfig?: any
+  ): Promise<PackageManager> {
+    const configured = MigrationConfigSchema.shape.packageManager.safeParse(
+      targetConfig?.packageManager
+    );
+    if (targetConfig?.packageManager && configured.success) {
+      return new PackageManager(configured.data);
+    }
+    if (typeof currentSetup?.projectPath === 'string') {
+      return PackageManager.detect(currentSetup.projectPath);
+    }
+    return new PackageManager('npm');
+  }
+
   private detectReownPackages(packageJson: any): string[] {
-    const dependencies = { ...packageJson.dependencies, ...packageJson.devDependencies };
+    const dependencies = ProjectScanner.getDeclaredDependencies(packageJson);
     return Object.keys(dependencies).filter(
       (pkg) => pkg.includes('@web3modal') || pkg.includes('reown') || pkg.includes('@reown')
     );
   }
 
   private detectWalletConnectPackages(packageJson: any): string[] {
-    const dependencies = { ...packageJson.dependencies, ...packageJson.devDependencies };
+    const dependencies = ProjectScanner.getDeclaredDependencies(packageJson);
     return Object.keys(dependencies).filter(
       (pkg) => pkg.includes('@walletconnect') || pkg.includes('walletconnect')
     );
   }
 
   private detectPrivyPackages(packageJson: any): string[] {
-    const dependencies = { ...packageJson.dependencies, ...packageJson.devDependencies };
+    const dependencies = ProjectScanner.getDeclaredDependencies(packageJson);
     return Object.keys(dependencies).filter(
       (pkg) => pkg.includes('@privy-io') || pkg.includes('privy')
     );
@@ -352,7 +394,9 @@ PARA_ENVIRONMENT=development
     const recommendations: string[] = [];
 
     if (reownPackages.length > 0) {
-      recommendations.push('Remove all @web3modal packages and replace with @getpara/react-sdk');
+      recommendations.push(
+        `Remove all @web3modal packages and replace with ${this.sdk.packages.react}`
+      );
     }
 
     if (walletConnectPackages.length > 0) {
@@ -362,7 +406,7 @@ PARA_ENVIRONMENT=development
     }
 
     if (privyPackages.length > 0) {
-      recommendations.push('Remove @privy-io packages and replace with @getpara/react-sdk');
+      recommendations.push(`Remove @privy-io packages and replace with ${this.sdk.packages.react}`);
       recommendations.push('Replace PrivyProvider with ParaProvider from Para SDK');
     }
 
@@ -388,9 +432,9 @@ PARA_ENVIRONMENT=development
 
     // Critical findings from actual migration testing
     recommendations.push('⚠️ CRITICAL: Always include <ParaModal /> component inside ParaProvider');
-    recommendations.push('⚠️ CRITICAL: Import "@getpara/react-sdk/styles.css" in your layout');
+    recommendations.push(`⚠️ CRITICAL: Import "${this.sdk.css}" in your layout`);
     recommendations.push(
-      '⚠️ CRITICAL: Use Environment.DEVELOPMENT/PRODUCTION from @getpara/core-sdk'
+      `⚠️ CRITICAL: Use Environment.DEVELOPMENT/PRODUCTION from ${this.sdk.environment.from}`
     );
     recommendations.push('Configure embeddedWalletConfig for seamless wallet creation');
     recommendations.push('Test thoroughly in development before deploying to production');
@@ -413,8 +457,8 @@ PARA_ENVIRONMENT=development
 import { createWeb3Modal, defaultWagmiConfig } from '@web3modal/wagmi/react'
 
 // After (Para)
-import { ParaProvider, ParaModal } from "@getpara/react-sdk";
-import { Environment } from "@getpara/core-sdk";
+import { ParaProvider, ParaModal } from "${this.sdk.packages.react}";
+import { Environment } from "${this.sdk.environment.from}";
 
 export function AppProviders({ children }: { children: React.ReactNode }) {
   return (
@@ -449,7 +493,7 @@ export function AppProviders({ children }: { children: React.ReactNode }) {
 }
 
 // IMPORTANT: Add to your layout.tsx or _app.tsx:
-// import '@getpara/react-sdk/styles.css'
+// import '${this.sdk.css}'
     `;
   }
 
@@ -459,7 +503,7 @@ export function AppProviders({ children }: { children: React.ReactNode }) {
 <w3m-button />
 
 // After (Para)
-import { useAccount, useModal, useWallet } from "@getpara/react-sdk";
+import { useAccount, useModal, useWallet } from "${this.sdk.packages.react}";
 
 export function ConnectButton() {
   const { openModal } = useModal();
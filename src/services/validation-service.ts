@@ -1,8 +1,16 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import { MigrationConfig } from '../types.js';
+import {
+  ParaSdkManifest,
+  getInstalledParaSdkManifest,
+  getParaSdkManifest,
+} from '../core/para-sdk.js';
+import { ProjectScanner } from '../core/project-scanner.js';
 
 export class ValidationService {
+  constructor(private sdk: ParaSdkManifest = getParaSdkManifest()) {}
+
   async validateMigration(projectPath: string, config?: MigrationConfig): Promise<any> {
     const validationResults = {
       packageValidation: await this.validatePackages(projectPath),
@@ -102,10 +110,10 @@ export class ValidationService {
       const packageContent = await fs.readFile(packageJsonPath, 'utf-8');
       const packageJson = JSON.parse(packageContent);
 
-      const dependencies = { ...packageJson.dependencies, ...packageJson.devDependencies };
+      const dependencies = ProjectScanner.getDeclaredDependencies(packageJson);
 
       return {
-        hasParaSDK: !!dependencies['@getpara/react-sdk'],
+        hasParaSDK: !!dependencies[this.sdk.packages.react],
         hasReownPackages: Object.keys(dependencies).some(
           (pkg) => pkg.includes('@web3modal') || pkg.includes('reown')
         ),
@@ -347,7 +355,7 @@ export class ValidationService {
   }
 
   private getRequiredPackages(): string[] {
-    return ['@getpara/react-sdk', 'wagmi', 'viem'];
+    return [this.sdk.packages.react, 'wagmi', 'viem'];
   }
 
   private generateValidationRecommendations(results: any): string[] {
@@ -358,7 +366,7 @@ export class ValidationService {
     }
 
     if (!results.packageValidation.hasParaSDK) {
-      recommendations.push('Install @getpara/react-sdk package');
+      recommendations.push(`Install ${this.sdk.packages.react} package`);
     }
 
     if (results.packageValidation.conflictingPackages.length > 0) {
@@ -442,6 +450,22 @@ export class ValidationService {
     return Math.round((compatible / total) * 100);
   }
 
+  /**
+   * The SDK line the project has installed, falling back to the configured one
+   */
+  private async getInstalledSdk(projectPath: string): Promise<ParaSdkManifest> {
+    try {
+      const packageJson = JSON.parse(
+        await fs.readFile(path.join(projectPath, 'package.json'), 'utf-8')
+      );
+      return (
+        getInstalledParaSdkManifest(ProjectScanner.getDeclaredDependencies(packageJson)) ?? this.sdk
+      );
+    } catch (error) {
+      return this.sdk;
+    }
+  }
+
   async validateParaMigration(projectPath: string): Promise<any> {
     const { promises: fs } = await import('fs');
     const path = await import('path');
@@ -455,6 +479,8 @@ export class ValidationService {
     };
 
     try {
+      const sdk = await this.getInstalledSdk(projectPath);
+
       // Check 1: ParaModal component in provider files
       const providerFiles = await this.findProviderFiles(projectPath);
       let hasParaModalInProvider = false;
@@ -467,6 +493,15 @@ export class ValidationService {
           if (content.includes('ParaProvider') || content.includes('<ParaProvider')) {
             paraProviderFound = true;
 
+            if (!sdk.components.includes('ParaModal')) {
+              hasParaModalInProvider = true;
+              validationResults.paraModalCheck = {
+                status: 'pass',
+                details: `✅ Found ParaProvider in ${path.relative(projectPath, file)} - Para SDK ${sdk.major}.x renders the modal itself`,
+              };
+              break;
+            }
+
             if (content.includes('<ParaModal') || content.includes('ParaModal />')) {
               hasParaModalInProvider = true;
               validationResults.paraModalCheck = {
@@ -521,7 +556,7 @@ export class ValidationService {
           foundEntryPoints.push(entryPoint);
 
           const content = await fs.readFile(fullPath, 'utf-8');
-          if (content.includes('@getpara/react-sdk/styles.css')) {
+          if (content.includes(sdk.css)) {
             hasParaCSSImport = true;
             validationResults.cssImportCheck = {
               status: 'pass',
@@ -540,7 +575,7 @@ export class ValidationService {
           status: 'fail',
           details:
             foundEntryPoints.length > 0
-              ? `❌ CRITICAL: Missing "@getpara/react-sdk/styles.css" import in entry points: ${foundEntryPoints.join(', ')}`
+              ? `❌ CRITICAL: Missing "${sdk.css}" import in entry points: ${foundEntryPoints.join(', ')}`
               : '❌ CRITICAL: No main entry points found and Para SDK CSS not imported',
         };
       }
@@ -620,8 +655,10 @@ export class ValidationService {
                 criticalIssueCount: issues.length,
                 fixes: this.generateParaMigrationFixes(issues),
                 successCriteria: {
-                  paraModal: 'Add <ParaModal /> inside <ParaProvider>',
-                  cssImport: 'Add import "@getpara/react-sdk/styles.css" to main entry point',
+                  paraModal: sdk.components.includes('ParaModal')
+                    ? 'Add <ParaModal /> inside <ParaProvider>'
+                    : 'Render <ParaProvider> - it includes the modal',
+                  cssImport: `Add import "${sdk.css}" to main entry point`,
                   environmentEnum: 'Use Environment.DEVELOPMENT not "development" string',
                 },
                 nextSteps:
@@ -656,7 +693,7 @@ export class ValidationService {
                 error: `Validation failed: ${error instanceof Error ? error.message : String(error)}`,
                 fallbackChecklist: [
                   '[ ] Verify <ParaModal /> is inside <ParaProvider>',
-                  '[ ] Verify CSS import: import "@getpara/react-sdk/styles.css"',
+                  `[ ] Verify CSS import: import "${this.sdk.css}"`,
                   '[ ] Verify Environment enum: Environment.DEVELOPMENT',
                   '[ ] Check browser console for errors',
                   '[ ] Test modal opens when clicking connect button',
@@ -730,12 +767,12 @@ export class ValidationService {
       if (issue.includes('CSS')) {
         fixes.push('Fix: Add CSS import to your main entry point');
         fixes.push('Location: src/main.tsx, app/layout.tsx, or pages/_app.tsx');
-        fixes.push('Code: import "@getpara/react-sdk/styles.css"');
+        fixes.push(`Code: import "${this.sdk.css}"`);
       }
 
       if (issue.includes('Environment')) {
         fixes.push('Fix: Use Environment enum instead of string');
-        fixes.push('Import: import { Environment } from "@getpara/core-sdk"');
+        fixes.push(`Import: import { Environment } from "${this.sdk.environment.from}"`);
         fixes.push('Code: env: Environment.DEVELOPMENT (not "development")');
       }
     }
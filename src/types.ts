@@ -5,10 +5,12 @@ export const MigrationConfigSchema = z.object({
   paraApiKey: z.string().min(1, 'Para API key is required'),
   environment: z.enum(['development', 'production']).default('development'),
   supportedChains: z.array(z.number()).default([1]), // Ethereum mainnet by default
-  wallets: z.array(z.enum(['METAMASK', 'COINBASE', 'WALLETCONNECT', 'RAINBOW'])).default(['METAMASK', 'COINBASE', 'WALLETCONNECT']),
+  wallets: z.array(z.enum(['METAMASK', 'COINBASE', 'WALLETCONNECT', 'RAINBOW'])).readonly().default(['METAMASK', 'COINBASE', 'WALLETCONNECT']),
+  packageManager: z.enum(['npm', 'yarn', 'pnpm', 'bun']).default('npm'),
 });
 
 export type MigrationConfig = z.infer<typeof MigrationConfigSchema>;
+export type MigrationConfigInput = z.input<typeof MigrationConfigSchema>; // defaults may be left out
 
 // Wallet connection schema
 export const WalletConnectionSchema = z.object({
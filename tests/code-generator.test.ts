@@ -0,0 +1,32 @@
+import { describe, it, expect } from '@jest/globals';
+import { CodeGenerator } from '../src/services/code-generator.js';
+import { SUPPORTED_PARA_SDK_MAJORS } from '../src/core/para-sdk.js';
+import { MigrationConfigSchema } from '../src/types.js';
+
+describe('CodeGenerator', () => {
+  describe('generateProviderComponent', () => {
+    const config = MigrationConfigSchema.parse({
+      paraApiKey: 'para-api-key',
+      supportedChains: [1, 137],
+    });
+
+    it.each(SUPPORTED_PARA_SDK_MAJORS)(
+      'should render the ParaProvider props of the %i.x SDK line',
+      async (major) => {
+        const result = await new CodeGenerator().generateProviderComponent(
+          config,
+          true,
+          String(major)
+        );
+        const { code, sdkVersion } = JSON.parse(result.content[0].text);
+
+        expect(sdkVersion).toBe(`${major}.x`);
+        // Each setting group is a prop of its own - ParaProvider has no single config object
+        expect(code).toContain('paraClientConfig={{\n');
+        expect(code).toContain('externalWalletConfig={{\n');
+        expect(code).not.toMatch(/config=\{\{\s*apiKey/);
+        expect(code).toMatchSnapshot();
+      }
+    );
+  });
+});
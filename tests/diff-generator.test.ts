@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { execFileSync } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { DiffGenerator } from '../src/core/diff-generator.js';
+import { ReplacementOperation } from '../src/core/migration-engine.js';
+
+const APP = [
+  "import { PrivyProvider } from '@privy-io/react-auth';",
+  "import { Profile } from './Profile';",
+  '',
+  'export function App() {',
+  '  return (',
+  '    <PrivyProvider appId="app">',
+  '      <Profile />',
+  '    </PrivyProvider>',
+  '  );',
+  '}',
+].join('\n');
+
+describe('DiffGenerator', () => {
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'para-diff-'));
+    await fs.mkdir(path.join(projectPath, 'src'));
+    await fs.writeFile(path.join(projectPath, 'src/App.tsx'), APP);
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectPath, { recursive: true, force: true });
+  });
+
+  const replace = (
+    id: string,
+    line: number,
+    oldValue: string,
+    newValue: string
+  ): ReplacementOperation => ({
+    id,
+    type: 'import',
+    file: 'src/App.tsx',
+    line,
+    oldValue,
+    newValue,
+    critical: true,
+  });
+
+  it('should render a unified diff without touching the files', async () => {
+    const diff = await new DiffGenerator(projectPath).generate([
+      replace(
+        'import',
+        1,
+        "import { PrivyProvider } from '@privy-io/react-auth';",
+        "import { ParaProvider } from '@para-wallet/react';"
+      ),
+      replace('close', 8, '</PrivyProvider>', '</ParaProvider>'),
+    ]);
+
+    expect(diff.issues).toEqual([]);
+    expect(diff.files).toEqual(['src/App.tsx']);
+    expect(diff.patch).toBe(
+      [
+        'diff --git a/src/App.tsx b/src/App.tsx',
+        '--- a/src/App.tsx',
+        '+++ b/src/App.tsx',
+        '@@ -1,10 +1,10 @@',
+        "-import { PrivyProvider } from '@privy-io/react-auth';",
+        "+import { ParaProvider } from '@para-wallet/react';",
+        " import { Profile } from './Profile';",
+        ' ',
+        ' export function App() {',
+        '   return (',
+        '     <PrivyProvider appId="app">',
+        '       <Profile />',
+        '-    </PrivyProvider>',
+        '+    </ParaProvider>',
+        '   );',
+        ' }',
+        '\\ No newline at end of file',
+        '',
+      ].join('\n')
+    );
+    expect(await fs.readFile(path.join(projectPath, 'src/App.tsx'), 'utf-8')).toBe(APP);
+
+    await new DiffGenerator(projectPath).writePatch('abc123', diff.patch);
+    execFileSync('git', ['apply', '.para-migration/abc123.patch'], { cwd: projectPath });
+    expect(await fs.readFile(path.join(projectPath, 'src/App.tsx'), 'utf-8')).toContain(
+      '    </ParaProvider>\n'
+    );
+  });
+
+  it('should report operations that no longer apply', async () => {
+    const diff = await new DiffGenerator(projectPath).generate([
+      replace('missing', 1, 'WagmiProvider', 'ParaProvider'),
+    ]);
+
+    expect(diff.patch).toBe('');
+    expect(diff.issues[0]).toMatchObject({ code: 'OLD_VALUE_NOT_FOUND', severity: 'critical' });
+  });
+});
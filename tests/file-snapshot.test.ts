@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileSnapshot } from '../src/core/file-snapshot.js';
+
+describe('FileSnapshot', () => {
+  let projectPath: string;
+  let snapshot: FileSnapshot;
+
+  const file = (name: string) => path.join(projectPath, name);
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'para-snapshot-'));
+    snapshot = new FileSnapshot(projectPath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectPath, { recursive: true, force: true });
+  });
+
+  it('should restore changed files byte-for-byte and remove files created since', async () => {
+    const original = Buffer.from('﻿import a from "a";\r\nexport default a;\r\n');
+    await fs.writeFile(file('App.tsx'), original);
+    await snapshot.capture(['App.tsx', 'ParaConnectButton.tsx']);
+
+    await fs.writeFile(file('App.tsx'), 'export {};\n');
+    await fs.writeFile(file('ParaConnectButton.tsx'), 'export {};\n');
+
+    expect(await snapshot.restore('App.tsx')).toBe(true);
+    expect(await snapshot.restore('ParaConnectButton.tsx')).toBe(true);
+    expect((await fs.readFile(file('App.tsx'))).equals(original)).toBe(true);
+    await expect(fs.access(file('ParaConnectButton.tsx'))).rejects.toThrow();
+  });
+
+  it('should leave untouched files alone and refuse files it never captured', async () => {
+    await fs.writeFile(file('App.tsx'), 'export {};\n');
+    await snapshot.capture(['App.tsx']);
+
+    expect(await snapshot.restore('App.tsx')).toBe(false);
+    await expect(snapshot.restore('main.tsx')).rejects.toThrow('No snapshot taken for main.tsx');
+  });
+});
@@ -0,0 +1,770 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { MigrationEngine, MigrationStrategy } from '../src/core/migration-engine.js';
+import { StrategyFactory } from '../src/core/replacement-strategy.js';
+import { ValidationService } from '../src/services/validation-service.js';
+
+const PRIVY_PROJECT: Record<string, string> = {
+  'package.json': JSON.stringify(
+    { dependencies: { '@privy-io/react-auth': '^1.0.0', react: '^18.0.0' } },
+    null,
+    2
+  ),
+  'src/main.tsx': [
+    "import ReactDOM from 'react-dom/client';",
+    "import { App } from './App';",
+    '',
+    "ReactDOM.createRoot(document.getElementById('root')!).render(<App />);",
+    '',
+  ].join('\n'),
+  'src/App.tsx': [
+    "import { PrivyProvider } from '@privy-io/react-auth';",
+    "import { Profile } from './Profile';",
+    '',
+    'export function App() {',
+    '  return (',
+    '    <PrivyProvider appId={process.env.PRIVY_APP_ID!}>',
+    '      <Profile />',
+    '    </PrivyProvider>',
+    '  );',
+    '}',
+    '',
+  ].join('\n'),
+  'src/Profile.tsx': [
+    "import { usePrivy } from '@privy-io/react-auth';",
+    '',
+    'export function Profile() {',
+    '  const { ready } = usePrivy();',
+    '  return <div>{String(ready)}</div>;',
+    '}',
+    '',
+  ].join('\n'),
+};
+
+describe('MigrationEngine', () => {
+  let projectPath: string;
+  let engine: MigrationEngine;
+
+  const read = (file: string) => fs.readFile(path.join(projectPath, file), 'utf-8');
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'para-engine-'));
+    engine = new MigrationEngine();
+
+    for (const [file, content] of Object.entries(PRIVY_PROJECT)) {
+      await fs.mkdir(path.dirname(path.join(projectPath, file)), { recursive: true });
+      await fs.writeFile(path.join(projectPath, file), content);
+    }
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectPath, { recursive: true, force: true });
+  });
+
+  it('should plan operations from the scanned state', async () => {
+    await engine.scanProjectState(projectPath);
+    const plan = await engine.createReplacementPlan(MigrationStrategy.PRIVY_TO_PARA);
+
+    expect(plan.replacements.map((op) => op.id)).toEqual([
+      'remove-privy-deps',
+      'add-para-react',
+      'replace-import-src/App.tsx-1',
+      'replace-import-src/Profile.tsx-1',
+      'replace-provider-src/App.tsx-6',
+      'replace-hook-src/Profile.tsx-4',
+      'add-para-css-src/main.tsx',
+      'add-@getpara/core-sdk',
+    ]);
+    expect(plan.validations.map((v) => v.id)).toContain('post-para-modal');
+  });
+
+  it('should refuse strategies that do not match the project', async () => {
+    await engine.scanProjectState(projectPath);
+
+    await expect(engine.createReplacementPlan(MigrationStrategy.REOWN_TO_PARA)).rejects.toThrow(
+      'does not use reown-to-para providers'
+    );
+  });
+
+  it('should migrate a Privy project and pass post-migration validation', async () => {
+    await engine.scanProjectState(projectPath);
+    await engine.createReplacementPlan(MigrationStrategy.PRIVY_TO_PARA);
+    const result = await engine.executeAtomicMigration();
+
+    expect(result.issues).toEqual([]);
+    expect(result.success).toBe(true);
+    expect(result.rollbackExecuted).toBe(false);
+
+    const app = await read('src/App.tsx');
+    expect(app).toContain("import { ParaProvider, ParaModal } from '@getpara/react-sdk';");
+    expect(app).toContain('      <Profile />');
+    expect(app).toContain('      <ParaModal />\n    </ParaProvider>');
+    expect(await read('src/Profile.tsx')).toContain(
+      '  const { isLoading } = useAccount();\n  const ready = !isLoading;'
+    );
+    expect(await read('src/main.tsx')).toContain("import '@getpara/react-sdk/styles.css';");
+    expect(JSON.parse(await read('package.json')).dependencies).not.toHaveProperty(
+      '@privy-io/react-auth'
+    );
+
+    // Generators, strategies and validators agree on the Para package names
+    const validation = await new ValidationService().validateParaMigration(projectPath);
+    const { validationResults } = JSON.parse(validation.content[0].text);
+    expect(validationResults.paraModalCheck.status).toBe('pass');
+    expect(validationResults.cssImportCheck.status).toBe('pass');
+  });
+
+  it('should flag leftover thirdweb, WalletConnect and Solana UI code on completion', async () => {
+    await engine.scanProjectState(projectPath);
+    await engine.createReplacementPlan(MigrationStrategy.PRIVY_TO_PARA);
+    expect((await engine.executeAtomicMigration()).success).toBe(true);
+
+    const manifest = JSON.parse(await read('package.json'));
+    manifest.dependencies = {
+      ...manifest.dependencies,
+      thirdweb: '^5.0.0',
+      '@walletconnect/ethereum-provider': '^2.0.0',
+      '@solana/wallet-adapter-react': '^0.15.0',
+      '@solana/wallet-adapter-react-ui': '^0.9.0',
+    };
+    await fs.writeFile(path.join(projectPath, 'package.json'), JSON.stringify(manifest, null, 2));
+    await fs.writeFile(
+      path.join(projectPath, 'src/Leftovers.tsx'),
+      [
+        "import { createThirdwebClient } from 'thirdweb';",
+        "import { EthereumProvider } from '@walletconnect/ethereum-provider';",
+        "import { useConnection } from '@solana/wallet-adapter-react';",
+        "import { WalletMultiButton } from '@solana/wallet-adapter-react-ui';",
+        '',
+      ].join('\n')
+    );
+
+    const { issues } = await engine.validateCompletion();
+    expect(issues.filter((i) => i.code === 'OLD_IMPORT_PRESENT').map((i) => i.line)).toEqual([
+      1, 2, 4,
+    ]);
+    expect(issues.find((i) => i.code === 'OLD_DEPENDENCIES_PRESENT')?.message).toContain(
+      'thirdweb, @walletconnect/ethereum-provider, @solana/wallet-adapter-react-ui'
+    );
+  });
+
+  it('should target the Para SDK version requested for the plan', async () => {
+    await engine.scanProjectState(projectPath);
+    const plan = await engine.createReplacementPlan(MigrationStrategy.PRIVY_TO_PARA, {
+      targetSdkVersion: '2',
+    });
+    expect(plan.replacements.map((op) => op.newValue)).toEqual(
+      expect.arrayContaining(['@getpara/react-sdk@^2.0.0', '@tanstack/react-query@^5.0.0'])
+    );
+
+    const result = await engine.executeAtomicMigration();
+    expect(result.issues).toEqual([]);
+    expect(result.success).toBe(true);
+
+    // 2.x renders the modal from ParaProvider, inside a react-query client
+    const app = await read('src/App.tsx');
+    expect(app).toContain(
+      [
+        "import { ParaProvider, Environment } from '@getpara/react-sdk';",
+        "import { Profile } from './Profile';",
+        "import { QueryClient, QueryClientProvider } from '@tanstack/react-query';",
+        '',
+        'const queryClient = new QueryClient();',
+        '',
+        'export function App() {',
+        '  return (',
+        '    <QueryClientProvider client={queryClient}>',
+        '      <ParaProvider',
+      ].join('\n')
+    );
+    expect(app).toContain(
+      '        <Profile />\n      </ParaProvider>\n    </QueryClientProvider>\n  );'
+    );
+    expect(app).not.toContain('ParaModal');
+
+    const validation = await new ValidationService().validateParaMigration(projectPath);
+    const { validationResults } = JSON.parse(validation.content[0].text);
+    expect(validationResults.paraModalCheck.status).toBe('pass');
+  });
+
+  it('should render a 2.x QueryClientProvider around ParaProvider when one sits inside it', async () => {
+    await fs.writeFile(
+      path.join(projectPath, 'src/App.tsx'),
+      [
+        "import { PrivyProvider } from '@privy-io/react-auth';",
+        "import { QueryClient, QueryClientProvider } from '@tanstack/react-query';",
+        "import { Profile } from './Profile';",
+        '',
+        'const queryClient = new QueryClient();',
+        '',
+        'export function App() {',
+        '  return (',
+        '    <PrivyProvider appId={process.env.PRIVY_APP_ID!}>',
+        '      <QueryClientProvider client={queryClient}>',
+        '        <Profile />',
+        '      </QueryClientProvider>',
+        '    </PrivyProvider>',
+        '  );',
+        '}',
+        '',
+      ].join('\n')
+    );
+    await engine.scanProjectState(projectPath);
+    await engine.createReplacementPlan(MigrationStrategy.PRIVY_TO_PARA, { targetSdkVersion: '2' });
+    const result = await engine.executeAtomicMigration();
+    expect(result.issues).toEqual([]);
+    expect(result.success).toBe(true);
+
+    // The existing client and its imports are reused for the wrapper
+    const app = await read('src/App.tsx');
+    expect(app.match(/new QueryClient\(\)/g)).toHaveLength(1);
+    expect(app.match(/from '@tanstack\/react-query'/g)).toHaveLength(1);
+    expect(app).toContain(
+      [
+        '  return (',
+        '    <QueryClientProvider client={queryClient}>',
+        '      <ParaProvider',
+      ].join('\n')
+    );
+    expect(app).toContain(
+      [
+        '        <QueryClientProvider client={queryClient}>',
+        '          <Profile />',
+        '        </QueryClientProvider>',
+        '      </ParaProvider>',
+        '    </QueryClientProvider>',
+      ].join('\n')
+    );
+  });
+
+  it('should persist plans under a content-hashed ID and apply them from a fresh engine', async () => {
+    await engine.scanProjectState(projectPath);
+    const plan = await engine.createReplacementPlan(MigrationStrategy.PRIVY_TO_PARA);
+
+    expect(plan.id).toMatch(/^[a-f0-9]{16}$/);
+    await expect(
+      fs.access(path.join(projectPath, '.para-migration', 'plans', `${plan.id}.json`))
+    ).resolves.toBeUndefined();
+
+    const freshEngine = new MigrationEngine();
+    const loaded = await freshEngine.loadPlan(projectPath, plan.id!);
+    expect(loaded.replacements).toEqual(plan.replacements);
+
+    const result = await freshEngine.executeAtomicMigration();
+    expect(result.success).toBe(true);
+  });
+
+  it('should refuse a saved plan when its files changed since it was made', async () => {
+    await engine.scanProjectState(projectPath);
+    const plan = await engine.createReplacementPlan(MigrationStrategy.PRIVY_TO_PARA);
+
+    await fs.appendFile(path.join(projectPath, 'src/Profile.tsx'), '// edited\n');
+
+    await expect(new MigrationEngine().loadPlan(projectPath, plan.id!)).rejects.toThrow(
+      `Migration plan ${plan.id} is stale - files changed since it was created: src/Profile.tsx`
+    );
+  });
+
+  it('should restore every touched file byte-for-byte when a critical operation fails', async () => {
+    await engine.scanProjectState(projectPath);
+    await engine.createReplacementPlan(MigrationStrategy.PRIVY_TO_PARA);
+
+    // Provider changes after planning - the provider replacement can no longer apply
+    const editedApp = PRIVY_PROJECT['src/App.tsx'].replace('PRIVY_APP_ID', 'APP_ID');
+    await fs.writeFile(path.join(projectPath, 'src/App.tsx'), editedApp);
+
+    const result = await engine.executeAtomicMigration();
+
+    expect(result.success).toBe(false);
+    expect(result.rollbackExecuted).toBe(true);
+    expect(result.failedOperations).toEqual(['replace-provider-src/App.tsx-6']);
+    expect(result.issues[0]).toMatchObject({ code: 'OLD_VALUE_NOT_FOUND', file: 'src/App.tsx' });
+    expect([...result.restoredFiles].sort()).toEqual([
+      'package.json',
+      'src/App.tsx',
+      'src/Profile.tsx',
+    ]);
+
+    expect(await read('package.json')).toBe(PRIVY_PROJECT['package.json']);
+    expect(await read('src/App.tsx')).toBe(editedApp);
+    expect(await read('src/Profile.tsx')).toBe(PRIVY_PROJECT['src/Profile.tsx']);
+  });
+
+  it('should not restore an earlier run when a later run fails before writing', async () => {
+    await engine.scanProjectState(projectPath);
+    await engine.createReplacementPlan(MigrationStrategy.PRIVY_TO_PARA);
+    expect((await engine.executeAtomicMigration()).success).toBe(true);
+    const migratedApp = await read('src/App.tsx');
+
+    // Privy is gone now, so the same plan fails pre-flight validation
+    await engine.scanProjectState(projectPath);
+    const result = await engine.executeAtomicMigration();
+
+    expect(result.success).toBe(false);
+    expect(result.issues[0]).toMatchObject({ code: 'STRATEGY_NOT_APPLICABLE' });
+    expect(result.rollbackExecuted).toBe(false);
+    expect(result.restoredFiles).toEqual([]);
+    expect(await read('src/App.tsx')).toBe(migratedApp);
+  });
+
+  it('should pin Para versions and restore the lockfile when the offline update fails', async () => {
+    // Nothing is cached for the Para packages, so npm's offline resolution fails
+    const lockfile = JSON.stringify({ name: 'privy-app', lockfileVersion: 3, packages: {} });
+    await fs.writeFile(path.join(projectPath, 'package-lock.json'), lockfile);
+
+    await engine.scanProjectState(projectPath);
+    const plan = await engine.createReplacementPlan(MigrationStrategy.PRIVY_TO_PARA);
+    expect(plan.installCommand).toBe('npm install');
+    expect(plan.replacements.find((op) => op.id === 'add-para-react')?.newValue).toBe(
+      '@getpara/react-sdk@^1.10.0'
+    );
+
+    const result = await engine.executeAtomicMigration({ updateLockfile: true });
+
+    expect(result.success).toBe(false);
+    expect(result.lockfileUpdated).toBe(false);
+    expect(result.issues[0]).toMatchObject({ code: 'LOCKFILE_UPDATE_FAILED' });
+    expect(await read('package.json')).toBe(PRIVY_PROJECT['package.json']);
+    expect(await read('package-lock.json')).toBe(lockfile);
+  });
+
+  it('should refuse a bun lockfile update before writing anything', async () => {
+    await fs.writeFile(path.join(projectPath, 'bun.lock'), '{}\n');
+
+    await engine.scanProjectState(projectPath);
+    const plan = await engine.createReplacementPlan(MigrationStrategy.PRIVY_TO_PARA);
+    expect(plan.installCommand).toBe('bun install');
+
+    const result = await engine.executeAtomicMigration({ updateLockfile: true });
+
+    expect(result.success).toBe(false);
+    expect(result.issues[0]).toMatchObject({
+      code: 'LOCKFILE_UPDATE_UNSUPPORTED',
+      fix: 'Run without updateLockfile, then run: bun install',
+    });
+    expect(result.completedOperations).toEqual([]);
+    expect(await read('package.json')).toBe(PRIVY_PROJECT['package.json']);
+  });
+
+  it('should detect and merge Privy auth with Web3Modal external wallets', async () => {
+    const files: Record<string, string> = {
+      'package.json': JSON.stringify(
+        {
+          dependencies: {
+            '@privy-io/react-auth': '^1.0.0',
+            '@web3modal/wagmi': '^4.0.0',
+            react: '^18.0.0',
+            wagmi: '^2.5.0',
+          },
+        },
+        null,
+        2
+      ),
+      'src/App.tsx': [
+        "import { PrivyProvider } from '@privy-io/react-auth';",
+        "import { WagmiProvider } from 'wagmi';",
+        "import { createWeb3Modal, defaultWagmiConfig } from '@web3modal/wagmi/react';",
+        "import { Profile } from './Profile';",
+        '',
+        "const projectId = 'wc-project';",
+        'const wagmiConfig = defaultWagmiConfig({ chains: [mainnet], projectId, metadata });',
+        'createWeb3Modal({ wagmiConfig, projectId });',
+        '',
+        'export function App() {',
+        '  return (',
+        '    <PrivyProvider appId={process.env.PRIVY_APP_ID!}>',
+        '      <WagmiProvider config={wagmiConfig}>',
+        '        <Profile />',
+        '      </WagmiProvider>',
+        '    </PrivyProvider>',
+        '  );',
+        '}',
+        '',
+      ].join('\n'),
+      'src/Connect.tsx': [
+        "import { usePrivy } from '@privy-io/react-auth';",
+        "import { useWeb3Modal } from '@web3modal/wagmi/react';",
+        '',
+        'export function Connect() {',
+        '  const { login } = usePrivy();',
+        '  const { close } = useWeb3Modal();',
+        '  return <button onClick={() => (login(), close())}>Connect</button>;',
+        '}',
+        '',
+      ].join('\n'),
+    };
+    for (const [file, content] of Object.entries(files)) {
+      await fs.writeFile(path.join(projectPath, file), content);
+    }
+
+    const state = await engine.scanProjectState(projectPath);
+    const detections = StrategyFactory.detectStrategies(state);
+    expect(detections.map(({ strategy, confidence }) => ({ strategy, confidence }))).toEqual([
+      { strategy: MigrationStrategy.PRIVY_TO_PARA, confidence: 1 },
+      { strategy: MigrationStrategy.WEB3MODAL_TO_PARA, confidence: 1 },
+    ]);
+    expect(detections[1].evidence).toEqual({
+      dependencies: ['@web3modal/wagmi'],
+      imports: ['@web3modal/wagmi/react'],
+      providers: ['defaultWagmiConfig (src/App.tsx:7)', 'createWeb3Modal (src/App.tsx:8)'],
+    });
+
+    const plan = await engine.createReplacementPlan(detections.map((d) => d.strategy));
+    expect(plan.strategies).toEqual([
+      MigrationStrategy.PRIVY_TO_PARA,
+      MigrationStrategy.WEB3MODAL_TO_PARA,
+    ]);
+    expect(plan.replacements.filter((op) => op.id === 'add-para-react')).toHaveLength(1);
+    expect(plan.conflicts).toEqual([]);
+
+    const result = await engine.executeAtomicMigration();
+    expect(result.success).toBe(true);
+
+    const app = await read('src/App.tsx');
+    expect(app.match(/<ParaProvider/g)).toHaveLength(1);
+    expect(app.match(/<ParaModal \/>/g)).toHaveLength(1);
+    expect(app).toContain('embeddedWalletConfig={{');
+    expect(app).toContain('externalWalletConfig={{');
+    expect(app.match(/import \{[^}]*\bParaProvider\b/g)).toHaveLength(1);
+    expect(app).toContain("import { WagmiProvider, createConfig, http } from 'wagmi';");
+    expect(app).not.toContain('createWeb3Modal');
+    expect(await read('src/Connect.tsx')).toContain(
+      [
+        'export function Connect() {',
+        '  const { openModal, closeModal: close } = useModal();',
+        '  return <button onClick={() => (openModal(), close())}>Connect</button>;',
+      ].join('\n')
+    );
+    expect(Object.keys(JSON.parse(await read('package.json')).dependencies)).toEqual([
+      '@getpara/core-sdk',
+      '@getpara/react-sdk',
+      'react',
+      'wagmi',
+    ]);
+  });
+
+  it('should merge the Para settings both providers write under one key', async () => {
+    const files: Record<string, string> = {
+      'package.json': JSON.stringify({
+        dependencies: {
+          '@privy-io/react-auth': '^1.0.0',
+          '@web3modal/wagmi': '^4.0.0',
+          react: '^18.0.0',
+          wagmi: '^2.5.0',
+        },
+      }),
+      'src/App.tsx': [
+        "import { PrivyProvider } from '@privy-io/react-auth';",
+        "import { WagmiProvider } from 'wagmi';",
+        "import { createWeb3Modal, defaultWagmiConfig } from '@web3modal/wagmi/react';",
+        "import { Profile } from './Profile';",
+        '',
+        "const projectId = 'wc-project';",
+        'const wagmiConfig = defaultWagmiConfig({ chains: [mainnet], projectId, metadata });',
+        "createWeb3Modal({ wagmiConfig, projectId, themeVariables: { '--w3m-accent': '#7c3aed' } });",
+        '',
+        'export function App() {',
+        '  return (',
+        "    <PrivyProvider appId={process.env.PRIVY_APP_ID!} config={{ loginMethods: ['email', 'google'] }}>",
+        '      <WagmiProvider config={wagmiConfig}>',
+        '        <Profile />',
+        '      </WagmiProvider>',
+        '    </PrivyProvider>',
+        '  );',
+        '}',
+        '',
+      ].join('\n'),
+    };
+    for (const [file, content] of Object.entries(files)) {
+      await fs.writeFile(path.join(projectPath, file), content);
+    }
+
+    await engine.scanProjectState(projectPath);
+    const plan = await engine.createReplacementPlan([
+      MigrationStrategy.PRIVY_TO_PARA,
+      MigrationStrategy.WEB3MODAL_TO_PARA,
+    ]);
+    expect(plan.conflicts).toEqual([]);
+
+    const result = await engine.executeAtomicMigration();
+    expect(result.success).toBe(true);
+
+    const app = await read('src/App.tsx');
+    expect(app.match(/<ParaProvider/g)).toHaveLength(1);
+    expect(app.match(/paraModalConfig=\{\{/g)).toHaveLength(1);
+    expect(app).toContain("oAuthMethods: ['GOOGLE'],");
+    expect(app).toContain("accentColor: '#7c3aed',");
+    expect(app).toContain('externalWalletConfig={{');
+    expect(app).toContain('evmConnector: {');
+  });
+
+  it('should apply edits of both strategies that touch separate code on one line', async () => {
+    const files: Record<string, string> = {
+      'package.json': JSON.stringify({
+        dependencies: {
+          '@privy-io/react-auth': '^1.0.0',
+          '@web3modal/wagmi': '^4.0.0',
+          react: '^18.0.0',
+          wagmi: '^2.5.0',
+        },
+      }),
+      'src/App.tsx': [
+        "import { PrivyProvider } from '@privy-io/react-auth';",
+        "import { WagmiProvider } from 'wagmi';",
+        "import { createWeb3Modal, defaultWagmiConfig } from '@web3modal/wagmi/react';",
+        "import { Connect } from './Connect';",
+        '',
+        "const projectId = 'wc-project';",
+        'const wagmiConfig = defaultWagmiConfig({ chains: [mainnet], projectId, metadata });',
+        'createWeb3Modal({ wagmiConfig, projectId });',
+        '',
+        'export function App() {',
+        '  return (',
+        '    <PrivyProvider appId={process.env.PRIVY_APP_ID!}>',
+        '      <WagmiProvider config={wagmiConfig}>',
+        '        <Connect />',
+        '        <footer />',
+        '      </WagmiProvider>',
+        '    </PrivyProvider>',
+        '  );',
+        '}',
+        '',
+      ].join('\n'),
+      'src/Connect.tsx': [
+        "import { usePrivy } from '@privy-io/react-auth';",
+        '',
+        'export function Connect() {',
+        '  const { login, authenticated } = usePrivy();',
+        '  return <div>{authenticated ? <w3m-button /> : <button onClick={login}>Log in</button>}</div>;',
+        '}',
+        '',
+      ].join('\n'),
+    };
+    for (const [file, content] of Object.entries(files)) {
+      await fs.writeFile(path.join(projectPath, file), content);
+    }
+
+    await engine.scanProjectState(projectPath);
+    const plan = await engine.createReplacementPlan([
+      MigrationStrategy.PRIVY_TO_PARA,
+      MigrationStrategy.WEB3MODAL_TO_PARA,
+    ]);
+    expect(plan.conflicts).toEqual([]);
+
+    const result = await engine.executeAtomicMigration();
+    expect(result.failedOperations).toEqual([]);
+    expect(result.success).toBe(true);
+
+    expect(await read('src/Connect.tsx')).toContain(
+      [
+        "import { useModal, useAccount } from '@getpara/react-sdk';",
+        "import { ParaConnectButton } from './ParaConnectButton';",
+        '',
+        'export function Connect() {',
+        '  const { openModal } = useModal();',
+        '  const { data: account } = useAccount();',
+        '  const authenticated = !!account?.isConnected;',
+        '  return <div>{authenticated ? <ParaConnectButton /> : <button onClick={openModal}>Log in</button>}</div>;',
+      ].join('\n')
+    );
+    expect(await read('src/App.tsx')).toContain(
+      [
+        '      <WagmiProvider config={wagmiConfig}>',
+        '        <Connect />',
+        '        <footer />',
+        '      </WagmiProvider>',
+      ].join('\n')
+    );
+  });
+
+  it('should leave the SIWE helpers of a NextAuth route and keep their package installed', async () => {
+    const route = [
+      "import NextAuth from 'next-auth';",
+      "import credentialsProvider from 'next-auth/providers/credentials';",
+      'import {',
+      '  getAddressFromMessage,',
+      '  getChainIdFromMessage,',
+      '  verifySignature,',
+      "} from '@reown/appkit-siwe';",
+      '',
+      'const handler = NextAuth({',
+      '  providers: [',
+      '    credentialsProvider({',
+      '      async authorize(credentials) {',
+      '        const address = getAddressFromMessage(credentials.message);',
+      '        const chainId = getChainIdFromMessage(credentials.message);',
+      '        const { message, signature } = credentials;',
+      '        const valid = await verifySignature({ address, message, signature, chainId });',
+      '        return valid ? { id: `${chainId}:${address}` } : null;',
+      '      },',
+      '    }),',
+      '  ],',
+      '});',
+      '',
+      'export { handler as GET, handler as POST };',
+      '',
+    ].join('\n');
+    const files: Record<string, string> = {
+      'package.json': JSON.stringify({
+        dependencies: {
+          '@reown/appkit': '^1.6.0',
+          '@reown/appkit-adapter-wagmi': '^1.6.0',
+          '@reown/appkit-siwe': '^1.6.0',
+          'next-auth': '^4.24.0',
+          react: '^18.0.0',
+          wagmi: '^2.14.0',
+        },
+      }),
+      'src/App.tsx': [
+        "import { createAppKit } from '@reown/appkit/react';",
+        "import { mainnet } from '@reown/appkit/networks';",
+        "import { WagmiAdapter } from '@reown/appkit-adapter-wagmi';",
+        "import { WagmiProvider } from 'wagmi';",
+        "import { siweConfig } from './siwe';",
+        '',
+        "const projectId = 'wc-project';",
+        'const wagmiAdapter = new WagmiAdapter({ networks: [mainnet], projectId });',
+        'createAppKit({ adapters: [wagmiAdapter], networks: [mainnet], projectId, siweConfig });',
+        '',
+        'export function App() {',
+        '  return <WagmiProvider config={wagmiAdapter.wagmiConfig}>{null}</WagmiProvider>;',
+        '}',
+        '',
+      ].join('\n'),
+      'src/siwe.ts': [
+        "import { createSIWEConfig, formatMessage } from '@reown/appkit-siwe';",
+        "import { getCsrfToken, signIn } from 'next-auth/react';",
+        '',
+        'export const siweConfig = createSIWEConfig({',
+        '  createMessage: ({ address, ...args }) => formatMessage(args, address),',
+        '  getNonce: async () => (await getCsrfToken()) ?? "",',
+        "  verifyMessage: async (args) => !(await signIn('credentials', { ...args, redirect: false }))?.error,",
+        '});',
+        '',
+      ].join('\n'),
+      'app/api/auth/[...nextauth]/route.ts': route,
+    };
+    for (const [file, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(projectPath, file)), { recursive: true });
+      await fs.writeFile(path.join(projectPath, file), content);
+    }
+
+    await engine.scanProjectState(projectPath);
+    const plan = await engine.createReplacementPlan(MigrationStrategy.REOWN_TO_PARA);
+    expect(plan.manualReview).toContainEqual(
+      expect.objectContaining({
+        code: 'OLD_PACKAGE_KEPT',
+        message: '@reown/appkit-siwe stays installed - still imported by app/api/auth/[...nextauth]/route.ts',
+      })
+    );
+
+    const result = await engine.executeAtomicMigration();
+    expect(result.failedOperations).toEqual([]);
+    expect(await read('app/api/auth/[...nextauth]/route.ts')).toBe(route);
+    expect(await read('src/siwe.ts')).toContain(
+      "import { createSIWEConfig, formatMessage } from './useParaSiwe';"
+    );
+
+    const { dependencies } = JSON.parse(await read('package.json'));
+    expect(dependencies).toHaveProperty('@reown/appkit-siwe');
+    expect(dependencies).not.toHaveProperty('@reown/appkit');
+  });
+
+  it('should refuse a merged plan with a skipped critical edit before writing', async () => {
+    await engine.scanProjectState(projectPath);
+    const plan = await engine.createReplacementPlan(MigrationStrategy.PRIVY_TO_PARA);
+    const conflict = {
+      severity: 'critical' as const,
+      code: 'CONFLICTING_OPERATION',
+      message: 'Skipped replace-provider-src/App.tsx-6 (web3modal-to-para)',
+      file: 'src/App.tsx',
+      line: 6,
+    };
+    plan.conflicts.push(conflict);
+
+    const result = await engine.executeAtomicMigration();
+
+    expect(result.success).toBe(false);
+    expect(result.issues).toEqual([conflict]);
+    expect(result.rollbackExecuted).toBe(false);
+    expect(result.completedOperations).toEqual([]);
+    expect(await read('src/App.tsx')).toBe(PRIVY_PROJECT['src/App.tsx']);
+  });
+
+  it('should migrate a workspace app whose provider lives in a shared package', async () => {
+    await fs.rm(projectPath, { recursive: true, force: true });
+    await fs.mkdir(projectPath);
+
+    const files: Record<string, string> = {
+      'package.json': JSON.stringify({ name: 'acme', private: true }, null, 2),
+      'pnpm-workspace.yaml': "packages:\n  - 'apps/*'\n  - 'packages/*'\n",
+      'apps/web/package.json': JSON.stringify(
+        {
+          name: '@acme/web',
+          dependencies: {
+            '@acme/ui': 'workspace:*',
+            '@privy-io/react-auth': '^1.0.0',
+            react: '^18.0.0',
+          },
+        },
+        null,
+        2
+      ),
+      'apps/web/src/main.tsx': [
+        "import ReactDOM from 'react-dom/client';",
+        "import { WalletProvider } from '@acme/ui';",
+        '',
+        "ReactDOM.createRoot(document.getElementById('root')!).render(<WalletProvider />);",
+        '',
+      ].join('\n'),
+      'packages/ui/package.json': JSON.stringify(
+        {
+          name: '@acme/ui',
+          peerDependencies: { '@privy-io/react-auth': '^1.0.0', react: '^18.0.0' },
+        },
+        null,
+        2
+      ),
+      'packages/ui/src/WalletProvider.tsx': PRIVY_PROJECT['src/App.tsx'].replace(
+        'export function App()',
+        'export function WalletProvider()'
+      ),
+      'packages/ui/src/Profile.tsx': PRIVY_PROJECT['src/Profile.tsx'],
+    };
+    for (const [file, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(projectPath, file)), { recursive: true });
+      await fs.writeFile(path.join(projectPath, file), content);
+    }
+
+    const state = await engine.scanProjectState(projectPath);
+    expect(state.packages?.map((p) => p.path)).toEqual(['', 'apps/web', 'packages/ui']);
+    expect(state.entryPoints).toEqual(['apps/web/src/main.tsx']);
+
+    const plan = await engine.createReplacementPlan(MigrationStrategy.PRIVY_TO_PARA);
+    const dependencyTargets = plan.replacements
+      .filter((op) => op.type === 'dependency')
+      .map((op) => `${op.file}:${op.oldValue || op.newValue}`);
+    expect(dependencyTargets).toEqual([
+      'apps/web/package.json:@privy-io/react-auth',
+      'packages/ui/package.json:@privy-io/react-auth',
+      'apps/web/package.json:@getpara/react-sdk@^1.10.0',
+      'packages/ui/package.json:@getpara/react-sdk@^1.10.0',
+      'apps/web/package.json:@getpara/core-sdk@^1.10.0',
+      'packages/ui/package.json:@getpara/core-sdk@^1.10.0',
+    ]);
+
+    // ParaModal lives in @acme/ui and counts for the app that depends on it
+    const result = await engine.executeAtomicMigration();
+    expect(result.success).toBe(true);
+    expect(result.issues).toEqual([]);
+    expect(await read('apps/web/src/main.tsx')).toContain("import '@getpara/react-sdk/styles.css'");
+    const uiManifest = JSON.parse(await read('packages/ui/package.json'));
+    expect(uiManifest.dependencies).toEqual({
+      '@getpara/core-sdk': '^1.10.0',
+      '@getpara/react-sdk': '^1.10.0',
+    });
+    expect(uiManifest.peerDependencies).toEqual({ react: '^18.0.0' });
+  });
+});
@@ -2,14 +2,22 @@ import { describe, it, expect, beforeEach, jest } from '@jest/globals';
 import { promises as fs } from 'fs';
 import { MigrationService } from '../src/services/migration-service.js';
 
-// Mock fs module
-jest.mock('fs', () => ({
-  promises: {
-    readFile: jest.fn(),
-    readdir: jest.fn(),
-    access: jest.fn(),
-  },
-}));
+// Mock fs module - the rest of it stays real for typescript, which the scanner loads.
+// Files a test does not mock, such as pnpm-workspace.yaml, do not exist.
+jest.mock('fs', () => {
+  const actual = jest.requireActual<typeof import('fs')>('fs');
+  return {
+    ...actual,
+    promises: {
+      ...actual.promises,
+      readFile: jest.fn(() =>
+        Promise.reject(Object.assign(new Error('ENOENT'), { code: 'ENOENT' }))
+      ),
+      readdir: jest.fn(),
+      access: jest.fn(),
+    },
+  };
+});
 
 const mockFs = fs as jest.Mocked<typeof fs>;
 
@@ -115,6 +123,20 @@ describe('MigrationService', () => {
 
       expect(result.content[0].text).toContain('Test Project');
     });
+
+    it('should write package commands for the configured package manager', async () => {
+      const result = await migrationService.createMigrationGuide(
+        'Test Project',
+        {},
+        { paraApiKey: 'test-key', packageManager: 'pnpm' }
+      );
+      const [packageStep] = JSON.parse(result.content[0].text).migrationGuide.steps;
+
+      expect(packageStep.code).toContain('pnpm remove @web3modal/wagmi @web3modal/siwe');
+      expect(packageStep.code).toContain('pnpm add @getpara/react-sdk');
+      expect(packageStep.code).toContain('pnpm run postinstall');
+      expect(packageStep.code).not.toMatch(/^npm /m);
+    });
   });
 });
 
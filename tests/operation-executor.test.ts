@@ -0,0 +1,231 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { OperationExecutor, OperationError } from '../src/core/operation-executor.js';
+
+describe('OperationExecutor', () => {
+  let projectPath: string;
+  let executor: OperationExecutor;
+
+  const read = (file: string) => fs.readFile(path.join(projectPath, file), 'utf-8');
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'para-exec-'));
+    executor = new OperationExecutor(projectPath);
+
+    await fs.mkdir(path.join(projectPath, 'src'));
+    await fs.writeFile(
+      path.join(projectPath, 'package.json'),
+      JSON.stringify(
+        { dependencies: { '@privy-io/react-auth': '^1.0.0', react: '^18.0.0' } },
+        null,
+        4
+      ) + '\n'
+    );
+    await fs.writeFile(
+      path.join(projectPath, 'src/App.tsx'),
+      [
+        "'use client';",
+        "import { PrivyProvider } from '@privy-io/react-auth';",
+        "import { usePrivy } from '@privy-io/react-auth';",
+        '',
+        'export const a = usePrivy();',
+      ].join('\n')
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectPath, { recursive: true, force: true });
+  });
+
+  it('should remove and add dependencies while preserving formatting', async () => {
+    await executor.execute({
+      id: 'remove-privy',
+      type: 'dependency',
+      oldValue: '@privy-io/react-auth',
+      newValue: '',
+      critical: true,
+    });
+    await executor.execute({
+      id: 'add-para',
+      type: 'dependency',
+      oldValue: '',
+      newValue: '@para-wallet/react@^1.2.0',
+      critical: true,
+    });
+
+    const content = await read('package.json');
+    expect(JSON.parse(content).dependencies).toEqual({
+      '@para-wallet/react': '^1.2.0',
+      react: '^18.0.0',
+    });
+    expect(content).toContain('\n    "dependencies"');
+    expect(content.endsWith('\n')).toBe(true);
+  });
+
+  it('should add a dependency without reordering the existing ones', async () => {
+    await fs.writeFile(
+      path.join(projectPath, 'package.json'),
+      JSON.stringify({ dependencies: { react: '^18.0.0', wagmi: '^2.0.0', viem: '^2.0.0' } })
+    );
+    await executor.execute({
+      id: 'add-para',
+      type: 'dependency',
+      oldValue: '',
+      newValue: '@getpara/react-sdk@^1.2.0',
+      critical: true,
+    });
+
+    const { dependencies } = JSON.parse(await read('package.json'));
+    expect(Object.keys(dependencies)).toEqual(['@getpara/react-sdk', 'react', 'wagmi', 'viem']);
+  });
+
+  it('should fail with a clear issue when a dependency is no longer present', async () => {
+    const operation = {
+      id: 'remove-privy-wagmi',
+      type: 'dependency' as const,
+      oldValue: '@privy-io/wagmi',
+      newValue: '',
+      critical: true,
+    };
+
+    await expect(executor.execute(operation)).rejects.toBeInstanceOf(OperationError);
+    await expect(executor.execute(operation)).rejects.toMatchObject({
+      issue: { code: 'DEPENDENCY_NOT_FOUND', file: 'package.json' },
+    });
+  });
+
+  it('should replace source at the recorded line and remove emptied lines', async () => {
+    await executor.execute({
+      id: 'replace-import',
+      type: 'import',
+      file: 'src/App.tsx',
+      line: 2,
+      oldValue: "import { PrivyProvider } from '@privy-io/react-auth';",
+      newValue: "import { ParaProvider, ParaModal } from '@para-wallet/react';",
+      critical: true,
+    });
+    await executor.execute({
+      id: 'remove-import',
+      type: 'import',
+      file: 'src/App.tsx',
+      line: 3,
+      oldValue: "import { usePrivy } from '@privy-io/react-auth';",
+      newValue: '',
+      critical: true,
+    });
+
+    expect(await read('src/App.tsx')).toBe(
+      [
+        "'use client';",
+        "import { ParaProvider, ParaModal } from '@para-wallet/react';",
+        '',
+        'export const a = usePrivy();',
+      ].join('\n')
+    );
+  });
+
+  it('should refuse to rewrite when the old value is missing', async () => {
+    await expect(
+      executor.execute({
+        id: 'replace-hook',
+        type: 'hook',
+        file: 'src/App.tsx',
+        line: 5,
+        oldValue: 'const { user } = usePrivy();',
+        newValue: 'const { address } = useAccount();',
+        critical: false,
+      })
+    ).rejects.toMatchObject({ issue: { code: 'OLD_VALUE_NOT_FOUND', line: 5 } });
+  });
+
+  it('should insert style imports after existing imports exactly once', async () => {
+    const operation = {
+      id: 'add-para-css',
+      type: 'style' as const,
+      file: 'src/App.tsx',
+      oldValue: '',
+      newValue: "import '@para-wallet/react/styles.css'",
+      critical: true,
+    };
+
+    await executor.execute(operation);
+    await executor.execute(operation);
+
+    const lines = (await read('src/App.tsx')).split('\n');
+    expect(lines[3]).toBe("import '@para-wallet/react/styles.css';");
+    expect(lines.filter((l) => l.includes('styles.css'))).toHaveLength(1);
+  });
+
+  it('should insert an import with its module-level setup after existing imports once', async () => {
+    const operation = {
+      id: 'add-para-wrappers-src/App.tsx',
+      type: 'import' as const,
+      file: 'src/App.tsx',
+      oldValue: '',
+      newValue: [
+        "import { QueryClient, QueryClientProvider } from '@tanstack/react-query';",
+        '',
+        'const queryClient = new QueryClient();',
+      ].join('\n'),
+      critical: true,
+    };
+
+    await executor.execute(operation);
+    await executor.execute(operation);
+
+    expect((await read('src/App.tsx')).split('\n').slice(2)).toEqual([
+      "import { usePrivy } from '@privy-io/react-auth';",
+      "import { QueryClient, QueryClientProvider } from '@tanstack/react-query';",
+      '',
+      'const queryClient = new QueryClient();',
+      '',
+      'export const a = usePrivy();',
+    ]);
+  });
+
+  it('should follow double quotes and collapse the blank line a removed statement leaves', async () => {
+    await fs.writeFile(
+      path.join(projectPath, 'src/client.ts'),
+      [
+        'import { createThirdwebClient } from "thirdweb";',
+        '',
+        'export const client = 1;',
+        '',
+        'const injected = injectedModule();',
+        '',
+        'export const b = 2;',
+        '',
+      ].join('\n')
+    );
+    for (const [line, oldValue] of [
+      [1, 'import { createThirdwebClient } from "thirdweb";'],
+      [5, 'const injected = injectedModule();'],
+    ] as const) {
+      await executor.execute({
+        id: `remove-${line}`,
+        type: 'import',
+        file: 'src/client.ts',
+        line,
+        oldValue,
+        newValue: '',
+        critical: true,
+      });
+    }
+    await fs.writeFile(path.join(projectPath, 'src/main.tsx'), 'import { App } from "./App";\n');
+    await executor.execute({
+      id: 'add-para-css',
+      type: 'style',
+      file: 'src/main.tsx',
+      oldValue: '',
+      newValue: "import '@para-wallet/react/styles.css'",
+      critical: true,
+    });
+
+    expect(await read('src/client.ts')).toBe('export const client = 1;\n\nexport const b = 2;\n');
+    expect(await read('src/main.tsx')).toBe(
+      'import { App } from "./App";\nimport "@para-wallet/react/styles.css";\n'
+    );
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PackageManager } from '../src/core/package-manager.js';
+
+describe('PackageManager', () => {
+  let projectPath: string;
+
+  const write = (name: string, content: string) =>
+    fs.writeFile(path.join(projectPath, name), content);
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'para-package-manager-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectPath, { recursive: true, force: true });
+  });
+
+  describe('getLockfileCommand', () => {
+    it('should only update the lockfile of a Yarn Berry project', async () => {
+      await write('yarn.lock', '__metadata:\n  version: 8\n  cacheKey: 10c0\n');
+      const yarn = await PackageManager.detect(projectPath);
+
+      expect(yarn.name).toBe('yarn');
+      expect(await yarn.getLockfileCommand(projectPath, '/tmp/modules')).toEqual([
+        'yarn',
+        'install',
+        '--mode=update-lockfile',
+      ]);
+    });
+
+    it('should tell Yarn Berry from the packageManager field before its lockfile exists', async () => {
+      await write('package.json', JSON.stringify({ packageManager: 'yarn@4.1.0' }));
+
+      expect(
+        await new PackageManager('yarn').getLockfileCommand(projectPath, '/tmp/modules')
+      ).toEqual(['yarn', 'install', '--mode=update-lockfile']);
+    });
+
+    it('should install Yarn classic offline into a throwaway modules folder', async () => {
+      await write('yarn.lock', '# yarn lockfile v1\n\n');
+      await write('package.json', JSON.stringify({ packageManager: 'yarn@1.22.22' }));
+      const yarn = await PackageManager.detect(projectPath);
+
+      expect(await yarn.getLockfileCommand(projectPath, '/tmp/modules')).toEqual([
+        'yarn',
+        'install',
+        '--offline',
+        '--ignore-scripts',
+        '--modules-folder',
+        '/tmp/modules',
+      ]);
+    });
+
+    it('should refuse bun, which has no offline lockfile-only install', async () => {
+      await write('bun.lock', '{}\n');
+      const bun = await PackageManager.detect(projectPath);
+
+      expect(bun.name).toBe('bun');
+      expect(bun.canUpdateLockfileOffline()).toBe(false);
+      await expect(bun.getLockfileCommand(projectPath, '/tmp/modules')).rejects.toThrow(
+        'bun has no offline lockfile-only install'
+      );
+      await expect(bun.updateLockfile(projectPath)).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ProjectScanner } from '../src/core/project-scanner.js';
+
+async function writeProject(root: string, files: Record<string, string>): Promise<void> {
+  for (const [file, content] of Object.entries(files)) {
+    const fullPath = path.join(root, file);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, content);
+  }
+}
+
+describe('ProjectScanner', () => {
+  let projectPath: string;
+  let scanner: ProjectScanner;
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'para-scan-'));
+    scanner = new ProjectScanner();
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectPath, { recursive: true, force: true });
+  });
+
+  it('should record imports, providers, hooks, styles and entry points for a Privy app', async () => {
+    await writeProject(projectPath, {
+      'package.json': JSON.stringify({
+        dependencies: { '@privy-io/react-auth': '^1.0.0', react: '^18.0.0' },
+        devDependencies: { typescript: '^5.0.0' },
+      }),
+      'src/main.tsx': [
+        "import React from 'react';",
+        "import ReactDOM from 'react-dom/client';",
+        "import './index.css';",
+        "import { App } from './App';",
+        '',
+        "ReactDOM.createRoot(document.getElementById('root')!).render(<App />);",
+      ].join('\n'),
+      'src/App.tsx': [
+        "import { PrivyProvider } from '@privy-io/react-auth';",
+        "import { Profile } from './Profile';",
+        '',
+        'export function App() {',
+        '  return (',
+        '    <PrivyProvider appId="app-123" config={{ loginMethods: ["email"] }}>',
+        '      <Profile />',
+        '    </PrivyProvider>',
+        '  );',
+        '}',
+      ].join('\n'),
+      'src/Profile.tsx': [
+        "import { usePrivy } from '@privy-io/react-auth';",
+        '',
+        'export function Profile() {',
+        '  const { authenticated, user } = usePrivy();',
+        '  return <div>{authenticated ? user?.id : null}</div>;',
+        '}',
+      ].join('\n'),
+      'node_modules/ignored/index.js': "import { usePrivy } from '@privy-io/react-auth';",
+    });
+
+    const state = await scanner.scan(projectPath);
+
+    expect(state.dependencies).toEqual({
+      '@privy-io/react-auth': '^1.0.0',
+      react: '^18.0.0',
+      typescript: '^5.0.0',
+    });
+    expect(state.entryPoints).toEqual(['src/main.tsx']);
+    expect(state.styles).toEqual([
+      { file: 'src/main.tsx', line: 3, import: "import './index.css';", isParaStyle: false },
+    ]);
+
+    const privyImports = state.imports.filter((i) => i.type === 'privy');
+    expect(privyImports.map((i) => `${i.file}:${i.line}`)).toEqual([
+      'src/App.tsx:1',
+      'src/Profile.tsx:1',
+    ]);
+
+    expect(state.providers).toHaveLength(2);
+    expect(state.providers[0]).toMatchObject({
+      file: 'src/App.tsx',
+      line: 6,
+      provider: 'PrivyProvider',
+      props: { appId: '"app-123"', config: '{ loginMethods: ["email"] }' },
+    });
+    expect(state.providers[0].children.trim()).toBe('<Profile />');
+    // The element handed to render() is recorded under the render call
+    expect(state.providers[1]).toMatchObject({
+      file: 'src/main.tsx',
+      line: 6,
+      provider: 'render',
+      source: '<App />',
+    });
+
+    expect(state.hooks).toEqual([
+      {
+        file: 'src/Profile.tsx',
+        line: 4,
+        hook: 'usePrivy',
+        from: '@privy-io/react-auth',
+        usage: 'const { authenticated, user } = usePrivy();',
+        references: [
+          { line: 5, name: 'authenticated', expression: 'authenticated' },
+          { line: 5, name: 'user', expression: 'user?.id' },
+        ],
+        scope: 3,
+      },
+    ]);
+  });
+
+  it('should detect factory-configured modals and Next.js layouts', async () => {
+    await writeProject(projectPath, {
+      'package.json': JSON.stringify({ dependencies: { '@reown/appkit': '^1.0.0' } }),
+      'app/layout.tsx': [
+        "import '@getpara/react-sdk/styles.css';",
+        '',
+        'export default function RootLayout({ children }) {',
+        '  return <html><body>{children}</body></html>;',
+        '}',
+      ].join('\n'),
+      'config/appkit.ts': [
+        "import { createAppKit } from '@reown/appkit/react';",
+        '',
+        'createAppKit({',
+        '  projectId,',
+        "  metadata: { name: 'Demo' },",
+        '});',
+      ].join('\n'),
+    });
+
+    const state = await scanner.scan(projectPath);
+
+    expect(state.entryPoints).toEqual(['app/layout.tsx']);
+    expect(state.styles[0].isParaStyle).toBe(true);
+    expect(state.imports[0]).toMatchObject({ from: '@reown/appkit/react', type: 'reown' });
+    expect(state.providers).toEqual([
+      expect.objectContaining({
+        file: 'config/appkit.ts',
+        line: 3,
+        provider: 'createAppKit',
+        props: { projectId: 'projectId', metadata: "{ name: 'Demo' }" },
+      }),
+    ]);
+  });
+
+  it('should return an empty state when the project has no package.json or sources', async () => {
+    const state = await scanner.scan(projectPath);
+
+    expect(state).toEqual({
+      projectPath,
+      dependencies: {},
+      imports: [],
+      providers: [],
+      hooks: [],
+      styles: [],
+      entryPoints: [],
+      packageManager: 'npm',
+    });
+  });
+});
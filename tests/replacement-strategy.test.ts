@@ -0,0 +1,2320 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import ts from 'typescript';
+import { MigrationEngine, MigrationStrategy } from '../src/core/migration-engine.js';
+import { StrategyFactory } from '../src/core/replacement-strategy.js';
+
+describe('Replacement strategies', () => {
+  let projectPath: string;
+
+  const createProject = async (files: Record<string, string>) => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'para-strategy-'));
+    for (const [file, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(projectPath, file)), { recursive: true });
+      await fs.writeFile(path.join(projectPath, file), content);
+    }
+  };
+
+  const read = (file: string) => fs.readFile(path.join(projectPath, file), 'utf-8');
+
+  afterEach(async () => {
+    await fs.rm(projectPath, { recursive: true, force: true });
+  });
+
+  describe('PrivyToParaStrategy', () => {
+    const PRIVY_PROJECT: Record<string, string> = {
+      'package.json': JSON.stringify(
+        {
+          dependencies: { '@privy-io/react-auth': '^1.0.0', react: '^18.0.0' },
+          devDependencies: { vite: '^5.0.0' },
+        },
+        null,
+        2
+      ),
+      'src/main.tsx': [
+        "import ReactDOM from 'react-dom/client';",
+        "import { App } from './App';",
+        '',
+        "ReactDOM.createRoot(document.getElementById('root')!).render(<App />);",
+        '',
+      ].join('\n'),
+      'src/App.tsx': [
+        "import { PrivyProvider } from '@privy-io/react-auth';",
+        "import { Profile } from './Profile';",
+        '',
+        'export function App() {',
+        '  return (',
+        '    <PrivyProvider appId={process.env.PRIVY_APP_ID!}>',
+        '      <Profile />',
+        '    </PrivyProvider>',
+        '  );',
+        '}',
+        '',
+      ].join('\n'),
+      'src/Profile.tsx': [
+        "import { usePrivy } from '@privy-io/react-auth';",
+        '',
+        'export function Profile() {',
+        '  const { ready, authenticated, user, login, logout } = usePrivy();',
+        '  if (!ready) return null;',
+        "  if (!authenticated) return <button onClick={() => login({ loginMethods: ['email'] })}>Log in</button>;",
+        '  return <button onClick={logout}>{user?.wallet?.address.slice(0, 6)}</button>;',
+        '}',
+        '',
+      ].join('\n'),
+    };
+
+    it('should codemod hook call sites and report calls that lose their arguments', async () => {
+      await createProject(PRIVY_PROJECT);
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+
+      const plan = await engine.createReplacementPlan(MigrationStrategy.PRIVY_TO_PARA);
+      expect(plan.conflicts).toEqual([]);
+      expect(plan.manualReview).toEqual([
+        expect.objectContaining({
+          code: 'HOOK_NEEDS_REVIEW',
+          file: 'src/Profile.tsx',
+          line: 6,
+          message:
+            "`login({ loginMethods: ['email'] })` loses its arguments - the Para replacement for usePrivy() takes none",
+        }),
+      ]);
+
+      const result = await engine.executeAtomicMigration();
+      expect(result.success).toBe(true);
+
+      expect(await read('src/Profile.tsx')).toBe(
+        [
+          "import { useAccount, useWallet, useModal, useLogout } from '@getpara/react-sdk';",
+          '',
+          'export function Profile() {',
+          '  const { isLoading, data: account } = useAccount();',
+          '  const { data: wallet } = useWallet();',
+          '  const { openModal } = useModal();',
+          '  const { logoutAsync } = useLogout();',
+          '  const ready = !isLoading;',
+          '  const authenticated = !!account?.isConnected;',
+          '  const address = wallet?.address;',
+          '  if (!ready) return null;',
+          '  if (!authenticated) return <button onClick={() => openModal()}>Log in</button>;',
+          '  return <button onClick={logoutAsync}>{address?.slice(0, 6)}</button>;',
+          '}',
+          '',
+        ].join('\n')
+      );
+      expect(JSON.parse(await read('package.json')).dependencies).not.toHaveProperty(
+        '@privy-io/react-auth'
+      );
+    });
+
+    it('should block the migration while a call site has to stay on its Privy hook', async () => {
+      const email = [
+        "import { usePrivy } from '@privy-io/react-auth';",
+        '',
+        'export function Email() {',
+        '  const { user, logout } = usePrivy();',
+        '  return <button onClick={logout}>{user?.email?.address}</button>;',
+        '}',
+        '',
+      ].join('\n');
+      await createProject({ ...PRIVY_PROJECT, 'src/Email.tsx': email });
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+
+      const plan = await engine.createReplacementPlan(MigrationStrategy.PRIVY_TO_PARA);
+      expect(plan.conflicts).toEqual([
+        expect.objectContaining({
+          severity: 'critical',
+          code: 'HOOK_NEEDS_REVIEW',
+          file: 'src/Email.tsx',
+          line: 4,
+          message:
+            'usePrivy() cannot run once PrivyProvider is replaced - `user?.email?.address` has no Para equivalent',
+        }),
+      ]);
+
+      const result = await engine.executeAtomicMigration();
+      expect(result.success).toBe(false);
+      expect(result.completedOperations).toEqual([]);
+      expect(await read('src/Email.tsx')).toBe(email);
+      expect(await read('src/App.tsx')).toBe(PRIVY_PROJECT['src/App.tsx']);
+    });
+
+    it('should translate provider props with the config mapping and flag unmapped ones', async () => {
+      await createProject({
+        ...PRIVY_PROJECT,
+        'src/App.tsx': PRIVY_PROJECT['src/App.tsx'].replace(
+          '<PrivyProvider appId={process.env.PRIVY_APP_ID!}>',
+          '<PrivyProvider appId="privy-app" onSuccess={track}>'
+        ),
+      });
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+
+      const plan = await engine.createReplacementPlan(MigrationStrategy.PRIVY_TO_PARA);
+      expect(plan.manualReview).toContainEqual(
+        expect.objectContaining({ code: 'UNMAPPED_PROVIDER_CONFIG', file: 'src/App.tsx', line: 6 })
+      );
+
+      await engine.executeAtomicMigration();
+      const app = await read('src/App.tsx');
+      expect(app).toContain(
+        'apiKey: import.meta.env.VITE_PARA_API_KEY, // replaces Privy appId "privy-app"'
+      );
+      expect(app).toContain('// Not mapped from PrivyProvider - review manually: onSuccess');
+    });
+
+    it('should read the API key the way the framework exposes it and import Environment', async () => {
+      await createProject({
+        ...PRIVY_PROJECT,
+        'package.json': JSON.stringify({
+          dependencies: { '@privy-io/react-auth': '^1.0.0', next: '^14.0.0' },
+        }),
+      });
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+      await engine.createReplacementPlan(MigrationStrategy.PRIVY_TO_PARA, {
+        targetSdkVersion: '2',
+      });
+
+      await engine.executeAtomicMigration();
+      const app = await read('src/App.tsx');
+      expect(app).toContain("import { ParaProvider, Environment } from '@getpara/react-sdk';");
+      expect(app).toContain('apiKey: process.env.NEXT_PUBLIC_PARA_API_KEY,');
+      expect(app).toContain('env: Environment.DEVELOPMENT,');
+    });
+
+    it('should flag the API key read when the framework is unknown', async () => {
+      await createProject({
+        ...PRIVY_PROJECT,
+        'package.json': JSON.stringify({ dependencies: { '@privy-io/react-auth': '^1.0.0' } }),
+      });
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+
+      const plan = await engine.createReplacementPlan(MigrationStrategy.PRIVY_TO_PARA);
+      expect(plan.manualReview).toContainEqual(
+        expect.objectContaining({ code: 'PARA_API_KEY_ENV', file: 'src/App.tsx', line: 6 })
+      );
+
+      await engine.executeAtomicMigration();
+      const app = await read('src/App.tsx');
+      expect(app).toContain(
+        "import { ParaProvider, ParaModal } from '@getpara/react-sdk';\nimport { Environment } from '@getpara/core-sdk';"
+      );
+      expect(app).toContain('apiKey: process.env.PARA_API_KEY,');
+    });
+
+    it('should translate the Privy config object into Para settings', async () => {
+      await createProject({
+        ...PRIVY_PROJECT,
+        'src/App.tsx': PRIVY_PROJECT['src/App.tsx']
+          .replace(
+            "import { Profile } from './Profile';",
+            "import { base, mainnet } from 'viem/chains';\nimport { Profile } from './Profile';"
+          )
+          .replace(
+            '<PrivyProvider appId={process.env.PRIVY_APP_ID!}>',
+            [
+              '<PrivyProvider',
+              '      appId={process.env.PRIVY_APP_ID!}',
+              '      config={{',
+              "        loginMethods: ['email', 'google', 'github', 'wallet'],",
+              "        appearance: { theme: 'dark', accentColor: '#676FFF', landingHeader: 'Hi' },",
+              "        embeddedWallets: { createOnLogin: 'users-without-wallets' },",
+              '        defaultChain: base,',
+              '        supportedChains: [mainnet, base],',
+              '        externalWallets: { coinbaseWallet: { connectionOptions: "all" } },',
+              '      }}',
+              '    >',
+            ].join('\n')
+          ),
+      });
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+
+      const plan = await engine.createReplacementPlan(MigrationStrategy.PRIVY_TO_PARA);
+      expect(plan.manualReview).toContainEqual(
+        expect.objectContaining({
+          code: 'UNMAPPED_PROVIDER_CONFIG',
+          message: expect.stringContaining(
+            'config.loginMethods[github], config.appearance.landingHeader'
+          ),
+        })
+      );
+
+      await engine.executeAtomicMigration();
+      const app = await read('src/App.tsx');
+      expect(app).toContain("import { http } from 'wagmi';");
+      expect(app).toContain("oAuthMethods: ['GOOGLE'],");
+      expect(app).toContain('disablePhoneLogin: true,');
+      expect(app).toContain("authLayout: ['AUTH:FULL', 'EXTERNAL:FULL'],");
+      expect(app).toContain("mode: 'dark',");
+      expect(app).toContain("accentColor: '#676FFF',");
+      expect(app).toContain("createOnLogin: 'users-without-wallets',");
+      expect(app).toContain("wallets: ['COINBASE'],");
+      expect(app).toContain('chains: [base, mainnet],');
+      expect(app).toContain('transports: { [base.id]: http(), [mainnet.id]: http() },');
+    });
+  });
+
+  describe('ReownToParaStrategy', () => {
+    const REOWN_PROJECT: Record<string, string> = {
+      'package.json': JSON.stringify(
+        {
+          dependencies: {
+            '@reown/appkit': '^1.6.0',
+            '@reown/appkit-adapter-wagmi': '^1.6.0',
+            '@tanstack/react-query': '^5.0.0',
+            wagmi: '^2.14.0',
+          },
+          devDependencies: { vite: '^5.0.0' },
+        },
+        null,
+        2
+      ),
+      'src/main.tsx': [
+        "import ReactDOM from 'react-dom/client';",
+        "import { App } from './App';",
+        '',
+        "ReactDOM.createRoot(document.getElementById('root')!).render(<App />);",
+        '',
+      ].join('\n'),
+      'src/App.tsx': [
+        "import { createAppKit } from '@reown/appkit/react';",
+        "import { arbitrum, mainnet } from '@reown/appkit/networks';",
+        "import { WagmiAdapter } from '@reown/appkit-adapter-wagmi';",
+        "import { QueryClient, QueryClientProvider } from '@tanstack/react-query';",
+        "import { WagmiProvider } from 'wagmi';",
+        '',
+        'const queryClient = new QueryClient();',
+        "const projectId = 'wc-project';",
+        'const wagmiAdapter = new WagmiAdapter({ networks: [mainnet, arbitrum], projectId });',
+        '',
+        'createAppKit({',
+        '  adapters: [wagmiAdapter],',
+        '  networks: [mainnet, arbitrum],',
+        '  defaultNetwork: arbitrum,',
+        '  projectId,',
+        "  metadata: { name: 'My App', description: 'Demo', url: 'https://app.test', icons: [] },",
+        "  features: { email: false, socials: ['google', 'x', 'github'], analytics: true },",
+        "  themeMode: 'dark',",
+        "  themeVariables: { '--w3m-accent': '#000000', '--w3m-border-radius-master': '2px' },",
+        '});',
+        '',
+        'export function App() {',
+        '  return (',
+        '    <WagmiProvider config={wagmiAdapter.wagmiConfig}>',
+        '      <QueryClientProvider client={queryClient}>',
+        '        <main />',
+        '      </QueryClientProvider>',
+        '    </WagmiProvider>',
+        '  );',
+        '}',
+        '',
+      ].join('\n'),
+    };
+
+    it('should move createAppKit options onto a ParaProvider around the wagmi tree', async () => {
+      await createProject(REOWN_PROJECT);
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+
+      const plan = await engine.createReplacementPlan(MigrationStrategy.REOWN_TO_PARA);
+      expect(plan.manualReview).toContainEqual(
+        expect.objectContaining({
+          code: 'UNMAPPED_PROVIDER_CONFIG',
+          message: expect.stringContaining(
+            'features.socials[github], themeVariables[--w3m-border-radius-master]'
+          ),
+        })
+      );
+
+      await engine.executeAtomicMigration();
+      const app = await read('src/App.tsx');
+      expect(app).not.toContain('createAppKit({');
+      expect(app).toContain("import { WagmiProvider, http, createConfig } from 'wagmi';");
+      expect(app.match(/from 'wagmi'/g)).toHaveLength(1);
+      expect(app).toContain("appName: 'My App',");
+      expect(app).toContain('chains: [arbitrum, mainnet],');
+      expect(app).toContain('disableEmailLogin: true,');
+      expect(app).toContain("oAuthMethods: ['GOOGLE', 'TWITTER'],");
+      expect(app).toContain("mode: 'dark',");
+      expect(app).toContain("accentColor: '#000000',");
+      expect(app).toMatch(
+        /<ParaProvider[\s\S]*<WagmiProvider[\s\S]*<\/WagmiProvider>[\s\S]*<\/ParaProvider>/
+      );
+    });
+
+    it('should drop an AppKit instance nothing reads with the code only it used', async () => {
+      await createProject({
+        ...REOWN_PROJECT,
+        'src/siwe.ts': 'export const siweConfig = {};\n',
+        'src/App.tsx': REOWN_PROJECT['src/App.tsx']
+          .replace(
+            "import { WagmiProvider } from 'wagmi';",
+            "import { WagmiProvider } from 'wagmi';\nimport { siweConfig } from './siwe';"
+          )
+          .replace(
+            'createAppKit({',
+            "const metadata = { name: 'My App', description: 'Demo', url: '', icons: [] };\nconst modal = createAppKit({\n  siweConfig,"
+          )
+          .replace(/\n {2}metadata: \{[^\n]*/, '\n  metadata,'),
+      });
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+
+      const plan = await engine.createReplacementPlan(MigrationStrategy.REOWN_TO_PARA);
+      expect(plan.manualReview).not.toContainEqual(
+        expect.objectContaining({ code: 'APPKIT_INSTANCE_USED' })
+      );
+
+      const result = await engine.executeAtomicMigration();
+      expect(result.failedOperations).toEqual([]);
+      const app = await read('src/App.tsx');
+      expect(app).not.toContain('modal');
+      expect(app).not.toContain('const metadata');
+      expect(app).not.toContain('siweConfig');
+      expect(app).toContain('const queryClient = new QueryClient();');
+      expect(app).toMatch(/<ParaProvider[\s\S]*<WagmiProvider/);
+    });
+
+    it('should replace the AppKit web components with a ParaConnectButton', async () => {
+      await createProject({
+        ...REOWN_PROJECT,
+        'src/Header.tsx': [
+          "import { Logo } from './Logo';",
+          '',
+          'export function Header() {',
+          '  return (',
+          '    <header>',
+          '      <Logo />',
+          '      <appkit-network-button />',
+          '      <appkit-button></appkit-button>',
+          '    </header>',
+          '  );',
+          '}',
+          '',
+        ].join('\n'),
+      });
+      const engine = new MigrationEngine();
+      const state = await engine.scanProjectState(projectPath);
+
+      expect(StrategyFactory.detectStrategy(state)).toBe(MigrationStrategy.REOWN_TO_PARA);
+
+      await engine.createReplacementPlan(MigrationStrategy.REOWN_TO_PARA);
+      const result = await engine.executeAtomicMigration();
+      expect(result.failedOperations).toEqual([]);
+
+      const header = await read('src/Header.tsx');
+      expect(header).not.toContain('appkit-');
+      expect(header).toContain(
+        [
+          "import { Logo } from './Logo';",
+          "import { ParaConnectButton } from './ParaConnectButton';",
+        ].join('\n')
+      );
+      expect(header).toContain('      <ParaConnectButton />');
+      expect(header).toContain('      <ParaConnectButton></ParaConnectButton>');
+      expect(await read('src/ParaConnectButton.tsx')).toContain(
+        'export function ParaConnectButton'
+      );
+    });
+
+    it('should unwrap WagmiAdapter into a wagmi config and rewire the reads of it', async () => {
+      await createProject({
+        'package.json': REOWN_PROJECT['package.json'],
+        'app/layout.tsx': [
+          "import { headers } from 'next/headers';",
+          "import { ContextProvider } from '@/context';",
+          '',
+          'export default async function RootLayout({ children }) {',
+          "  const cookies = (await headers()).get('cookie');",
+          '  return <html><body><ContextProvider cookies={cookies}>{children}</ContextProvider></body></html>;',
+          '}',
+          '',
+        ].join('\n'),
+        'config/index.ts': [
+          "import { cookieStorage, createStorage } from 'wagmi';",
+          "import { WagmiAdapter } from '@reown/appkit-adapter-wagmi';",
+          "import { arbitrum, mainnet } from '@reown/appkit/networks';",
+          '',
+          "export const projectId = 'wc-project';",
+          'export const networks = [mainnet, arbitrum];',
+          '',
+          'export const wagmiAdapter = new WagmiAdapter({',
+          '  storage: createStorage({ storage: cookieStorage }),',
+          '  ssr: true,',
+          '  projectId,',
+          '  networks,',
+          '});',
+          '',
+        ].join('\n'),
+        'context/index.tsx': [
+          "import { createAppKit } from '@reown/appkit/react';",
+          "import { QueryClient, QueryClientProvider } from '@tanstack/react-query';",
+          "import { cookieToInitialState, WagmiProvider } from 'wagmi';",
+          "import { networks, projectId, wagmiAdapter } from '@/config';",
+          '',
+          'const queryClient = new QueryClient();',
+          '',
+          'createAppKit({ adapters: [wagmiAdapter], networks, projectId });',
+          '',
+          'export function ContextProvider({ children, cookies }) {',
+          '  const initialState = cookieToInitialState(wagmiAdapter.wagmiConfig, cookies);',
+          '  return (',
+          '    <WagmiProvider config={wagmiAdapter.wagmiConfig} initialState={initialState}>',
+          '      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>',
+          '    </WagmiProvider>',
+          '  );',
+          '}',
+          '',
+        ].join('\n'),
+      });
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+      await engine.createReplacementPlan(MigrationStrategy.REOWN_TO_PARA);
+
+      const result = await engine.executeAtomicMigration();
+      expect(result.success).toBe(true);
+
+      const config = await read('config/index.ts');
+      expect(config).not.toContain('WagmiAdapter');
+      expect(config).toContain(
+        "import { cookieStorage, createStorage, createConfig, http } from 'wagmi';"
+      );
+      expect(config).toContain(
+        [
+          'export const wagmiConfig = createConfig({',
+          '  chains: [networks[0], ...networks.slice(1)],',
+          '  transports: { [mainnet.id]: http(), [arbitrum.id]: http() },',
+          '  ssr: true,',
+          '  storage: createStorage({ storage: cookieStorage }),',
+          '});',
+        ].join('\n')
+      );
+
+      const context = await read('context/index.tsx');
+      expect(context).not.toContain('wagmiAdapter');
+      expect(context).toContain("import { networks, wagmiConfig } from '@/config';");
+      expect(context).toContain('cookieToInitialState(wagmiConfig, cookies)');
+      expect(context).toContain('<WagmiProvider config={wagmiConfig} initialState={initialState}>');
+    });
+
+    it('should flag WagmiAdapter networks it cannot list transports for', async () => {
+      await createProject({
+        'package.json': REOWN_PROJECT['package.json'],
+        'config/index.ts': [
+          "import { WagmiAdapter } from '@reown/appkit-adapter-wagmi';",
+          "import { networks } from './networks';",
+          '',
+          "export const wagmiAdapter = new WagmiAdapter({ projectId: 'wc-project', networks });",
+          '',
+        ].join('\n'),
+      });
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+
+      const plan = await engine.createReplacementPlan(MigrationStrategy.REOWN_TO_PARA);
+      expect(plan.manualReview).toContainEqual(
+        expect.objectContaining({ code: 'UNLISTED_CHAINS', file: 'config/index.ts', line: 4 })
+      );
+
+      const config = plan.replacements.find(
+        (op) => op.id === 'replace-adapter-config/index.ts-4'
+      )?.newValue;
+      expect(config).toContain('chains: [networks[0], ...networks.slice(1)],');
+      expect(config).toContain('transports: {},');
+      expect(config).not.toContain('Object.fromEntries');
+    });
+
+    it('should type AppKit networks as viem chains the generated wagmi config accepts', async () => {
+      await createProject({
+        'package.json': REOWN_PROJECT['package.json'],
+        'app/layout.tsx': [
+          "import { ContextProvider } from '@/context';",
+          '',
+          'export default function RootLayout({ children }) {',
+          '  return <html><body><ContextProvider>{children}</ContextProvider></body></html>;',
+          '}',
+          '',
+        ].join('\n'),
+        'context/index.tsx': [
+          "import { createAppKit } from '@reown/appkit/react';",
+          "import { WagmiProvider } from 'wagmi';",
+          "import { networks, wagmiAdapter } from '@/config';",
+          '',
+          "createAppKit({ adapters: [wagmiAdapter], networks, projectId: 'wc-project' });",
+          '',
+          'export function ContextProvider({ children }) {',
+          '  return <WagmiProvider config={wagmiAdapter.wagmiConfig}>{children}</WagmiProvider>;',
+          '}',
+          '',
+        ].join('\n'),
+        'config/index.ts': [
+          "import { WagmiAdapter } from '@reown/appkit-adapter-wagmi';",
+          "import { arbitrum, mainnet, type AppKitNetwork, type CaipNetworkId } from '@reown/appkit/networks';",
+          '',
+          'export const networks: AppKitNetwork[] = [mainnet, arbitrum];',
+          '',
+          "export const wagmiAdapter = new WagmiAdapter({ projectId: 'wc-project', networks });",
+          '',
+        ].join('\n'),
+        // The viem and wagmi signatures the generated config is checked against
+        'types.d.ts': [
+          "declare module 'viem' {",
+          '  export type Chain = { id: number; name: string };',
+          '  export type Transport = { type: string };',
+          '}',
+          "declare module 'viem/chains' {",
+          "  export const mainnet: { id: 1; name: 'Ethereum' };",
+          "  export const arbitrum: { id: 42161; name: 'Arbitrum One' };",
+          '}',
+          "declare module 'wagmi' {",
+          "  import type { Chain, Transport } from 'viem';",
+          '  export function http(url?: string): Transport;',
+          '  export function createConfig<const chains extends readonly [Chain, ...Chain[]]>(parameters: {',
+          '    chains: chains;',
+          "    transports: Record<chains[number]['id'], Transport>;",
+          '  }): { chains: chains };',
+          '}',
+          '',
+        ].join('\n'),
+      });
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+
+      const plan = await engine.createReplacementPlan(MigrationStrategy.REOWN_TO_PARA);
+      expect(plan.manualReview).toContainEqual(
+        expect.objectContaining({
+          code: 'UNMAPPED_NETWORK_TYPE',
+          file: 'config/index.ts',
+          line: 2,
+          message:
+            'viem has no equivalent for `CaipNetworkId` from @reown/appkit/networks - the import is dropped',
+        })
+      );
+
+      const result = await engine.executeAtomicMigration();
+      expect(result.success).toBe(true);
+
+      const config = await read('config/index.ts');
+      expect(config).toContain("import { arbitrum, mainnet } from 'viem/chains';");
+      expect(config).toContain("import type { Chain as AppKitNetwork } from 'viem';");
+      expect(config).toContain('chains: [networks[0], ...networks.slice(1)],');
+
+      const program = ts.createProgram(
+        [path.join(projectPath, 'config/index.ts'), path.join(projectPath, 'types.d.ts')],
+        { strict: true, noEmit: true, types: [], target: ts.ScriptTarget.ES2020 }
+      );
+      const diagnostics = ts
+        .getPreEmitDiagnostics(program)
+        .map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+      expect(diagnostics).toEqual([]);
+    });
+
+    it('should keep the SIWE callbacks and flag the server routes they call', async () => {
+      await createProject({
+        ...REOWN_PROJECT,
+        'src/siwe.ts': [
+          "import { createSIWEConfig, formatMessage, type SIWEVerifyMessageArgs } from '@reown/appkit-siwe';",
+          '',
+          'export const siweConfig = createSIWEConfig({',
+          '  createMessage: ({ address, ...args }) => formatMessage(args, address),',
+          "  getNonce: async () => (await fetch('/api/siwe/nonce')).text(),",
+          '  verifyMessage: async ({ message, signature }: SIWEVerifyMessageArgs) =>',
+          "    (await fetch('/api/siwe/verify', { method: 'POST', body: JSON.stringify({ message, signature }) })).ok,",
+          "  getSession: async () => (await fetch('/api/siwe/session')).json(),",
+          "  signOut: async () => (await fetch('/api/siwe/session', { method: 'DELETE' })).ok,",
+          '});',
+          '',
+        ].join('\n'),
+        'app/api/siwe/nonce/route.ts': [
+          "import { generateSiweNonce } from 'viem/siwe';",
+          '',
+          'export const GET = () => new Response(generateSiweNonce());',
+          '',
+        ].join('\n'),
+        'app/api/siwe/verify/route.ts': [
+          "import { getAddressFromMessage } from '@reown/appkit-siwe';",
+          '',
+          'export const POST = async (request: Request) =>',
+          '  Response.json({ address: getAddressFromMessage((await request.json()).message) });',
+          '',
+        ].join('\n'),
+        'app/api/health/route.ts': [
+          "import { NextResponse } from 'next/server';",
+          '',
+          'export const GET = () => NextResponse.json({ ok: true });',
+          '',
+        ].join('\n'),
+      });
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+
+      const plan = await engine.createReplacementPlan(MigrationStrategy.REOWN_TO_PARA);
+      const siweReviews = plan.manualReview.filter((issue) => issue.code.startsWith('SIWE_'));
+      expect(siweReviews.map(({ code, file }) => [code, file])).toEqual([
+        ['SIWE_SIGN_IN', 'src/siwe.ts'],
+        ['SIWE_HELPER_USED', 'app/api/siwe/verify/route.ts'],
+        ['SIWE_SERVER_ROUTE', 'app/api/siwe/nonce/route.ts'],
+      ]);
+
+      await engine.executeAtomicMigration();
+      const siwe = await read('src/siwe.ts');
+      expect(siwe).toContain(
+        "import { createSIWEConfig, formatMessage, type SIWEVerifyMessageArgs } from './useParaSiwe';"
+      );
+      expect(siwe).toContain("getNonce: async () => (await fetch('/api/siwe/nonce')).text(),");
+      expect(await read('src/useParaSiwe.ts')).toContain(
+        'const { signMessageAsync } = useSignMessage();'
+      );
+      expect(await read('app/api/siwe/verify/route.ts')).toContain(
+        "import { getAddressFromMessage } from '@reown/appkit-siwe';"
+      );
+    });
+  });
+
+  describe('WalletConnectToParaStrategy', () => {
+    const WALLETCONNECT_PROJECT: Record<string, string> = {
+      'package.json': JSON.stringify(
+        {
+          dependencies: {
+            '@walletconnect/ethereum-provider': '^2.11.0',
+            '@walletconnect/modal': '^2.6.0',
+            wagmi: '^2.5.0',
+          },
+          devDependencies: { vite: '^5.0.0' },
+        },
+        null,
+        2
+      ),
+      'src/main.tsx': [
+        "import ReactDOM from 'react-dom/client';",
+        "import { App } from './App';",
+        '',
+        "ReactDOM.createRoot(document.getElementById('root')!).render(<App />);",
+        '',
+      ].join('\n'),
+      'src/config.ts': [
+        "import { createConfig, http } from 'wagmi';",
+        "import { mainnet } from 'wagmi/chains';",
+        "import { injected, walletConnect } from 'wagmi/connectors';",
+        '',
+        'export const config = createConfig({',
+        '  chains: [mainnet],',
+        "  connectors: [walletConnect({ projectId: 'wc-project' }), injected()],",
+        '  transports: { [mainnet.id]: http() },',
+        '});',
+        '',
+      ].join('\n'),
+      'src/App.tsx': [
+        "import { WagmiProvider } from 'wagmi';",
+        "import { config } from './config';",
+        "import { Wallet } from './Wallet';",
+        '',
+        'export function App() {',
+        '  return (',
+        '    <WagmiProvider config={config}>',
+        '      <Wallet />',
+        '    </WagmiProvider>',
+        '  );',
+        '}',
+        '',
+      ].join('\n'),
+    };
+
+    it('should swap the walletConnect connector for the Para EVM connector', async () => {
+      await createProject(WALLETCONNECT_PROJECT);
+      const engine = new MigrationEngine();
+      const state = await engine.scanProjectState(projectPath);
+
+      expect(StrategyFactory.detectStrategy(state)).toBe(MigrationStrategy.WALLETCONNECT_TO_PARA);
+
+      await engine.createReplacementPlan(MigrationStrategy.WALLETCONNECT_TO_PARA);
+      const result = await engine.executeAtomicMigration();
+      expect(result.failedOperations).toEqual([]);
+
+      // ParaProvider creates the wagmi config - the app's createConfig moves into it
+      expect(await read('src/config.ts')).toBe('');
+
+      const app = await read('src/App.tsx');
+      expect(app).toContain("import { ParaProvider, ParaModal } from '@getpara/react-sdk';");
+      expect(app).toContain("import { http } from 'wagmi';");
+      expect(app).toContain("import { mainnet } from 'wagmi/chains';");
+      expect(app).toContain("import { injected } from 'wagmi/connectors';");
+      expect(app).not.toContain('WagmiProvider');
+      expect(app).not.toContain("from './config'");
+      expect(app).toContain('  return (\n    <ParaProvider\n');
+      expect(app).toContain(
+        '        evmConnector: {\n' +
+          '          config: {\n' +
+          '            chains: [mainnet],\n' +
+          '            connectors: [injected()],\n' +
+          '            transports: { [mainnet.id]: http() },\n' +
+          '          },\n' +
+          '        },'
+      );
+      expect(app).toContain('      <Wallet />');
+      expect(app).toContain('      <ParaModal />\n    </ParaProvider>\n  );');
+
+      const dependencies = JSON.parse(await read('package.json')).dependencies;
+      expect(Object.keys(dependencies)).toEqual([
+        '@getpara/core-sdk',
+        '@getpara/react-sdk',
+        'wagmi',
+      ]);
+    });
+
+    it('should block a wagmi config read outside WagmiProvider', async () => {
+      await createProject({
+        ...WALLETCONNECT_PROJECT,
+        'src/Wallet.tsx': [
+          "import { getAccount } from '@wagmi/core';",
+          "import { config } from './config';",
+          '',
+          'export const Wallet = () => <div>{getAccount(config).address}</div>;',
+          '',
+        ].join('\n'),
+      });
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+      const plan = await engine.createReplacementPlan(MigrationStrategy.WALLETCONNECT_TO_PARA);
+
+      expect(plan.conflicts).toContainEqual(
+        expect.objectContaining({
+          severity: 'critical',
+          code: 'WAGMI_CONFIG_READ',
+          file: 'src/config.ts',
+          line: 5,
+        })
+      );
+      expect((await engine.executeAtomicMigration()).success).toBe(false);
+      expect(await read('src/App.tsx')).toContain('<WagmiProvider config={config}>');
+    });
+
+    it('should keep the WalletConnect provider package while raw EthereumProvider code remains', async () => {
+      await createProject({
+        ...WALLETCONNECT_PROJECT,
+        'src/provider.ts': [
+          "import EthereumProvider from '@walletconnect/ethereum-provider';",
+          '',
+          "export const provider = EthereumProvider.init({ projectId: 'wc-project', chains: [1] });",
+          '',
+        ].join('\n'),
+      });
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+      const plan = await engine.createReplacementPlan(MigrationStrategy.WALLETCONNECT_TO_PARA);
+
+      const removed = plan.replacements
+        .filter((op) => op.type === 'dependency' && op.newValue === '')
+        .map((op) => op.oldValue);
+      expect(removed).toEqual(['@walletconnect/modal']);
+    });
+
+    it('should block an app that only drives EthereumProvider directly', async () => {
+      await createProject({
+        'package.json': WALLETCONNECT_PROJECT['package.json'],
+        'src/main.tsx': WALLETCONNECT_PROJECT['src/main.tsx'],
+        'src/App.tsx': [
+          "import EthereumProvider from '@walletconnect/ethereum-provider';",
+          '',
+          'export function App() {',
+          "  const connect = () => EthereumProvider.init({ projectId: 'wc-project', chains: [1] });",
+          '  return <button onClick={connect}>Connect</button>;',
+          '}',
+          '',
+        ].join('\n'),
+      });
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+      const plan = await engine.createReplacementPlan(MigrationStrategy.WALLETCONNECT_TO_PARA);
+
+      expect(plan.conflicts).toEqual([
+        expect.objectContaining({
+          severity: 'critical',
+          code: 'RAW_ETHEREUM_PROVIDER',
+          file: 'src/App.tsx',
+        }),
+      ]);
+
+      const result = await engine.executeAtomicMigration();
+      expect(result.success).toBe(false);
+      expect(result.completedOperations).toEqual([]);
+      expect(await read('src/App.tsx')).toContain('EthereumProvider.init');
+    });
+
+    it('should translate the walletConnect options and flag the ones Para has no setting for', async () => {
+      await createProject({
+        ...WALLETCONNECT_PROJECT,
+        'src/config.ts': WALLETCONNECT_PROJECT['src/config.ts'].replace(
+          "walletConnect({ projectId: 'wc-project' })",
+          "walletConnect({ projectId: 'wc-project', metadata: { name: 'My App', url: 'https://app.example' }, qrModalOptions: { themeMode: 'dark' } })"
+        ),
+      });
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+      const plan = await engine.createReplacementPlan(MigrationStrategy.WALLETCONNECT_TO_PARA);
+
+      expect(plan.manualReview).toEqual([
+        expect.objectContaining({
+          code: 'UNMAPPED_PROVIDER_CONFIG',
+          file: 'src/config.ts',
+          message: 'walletConnect settings without a Para equivalent: qrModalOptions',
+        }),
+      ]);
+
+      await engine.executeAtomicMigration();
+      const app = await read('src/App.tsx');
+      expect(app).toContain(
+        "apiKey: import.meta.env.VITE_PARA_API_KEY, // replaces WalletConnect projectId 'wc-project'"
+      );
+      expect(app).toContain("appName: 'My App',");
+      expect(app).toContain('// Not mapped from walletConnect - review manually: qrModalOptions');
+    });
+  });
+
+  describe('RainbowKitToParaStrategy', () => {
+    const RAINBOWKIT_PROJECT: Record<string, string> = {
+      'package.json': JSON.stringify(
+        {
+          dependencies: { '@rainbow-me/rainbowkit': '^2.1.0', wagmi: '^2.5.0' },
+          devDependencies: { vite: '^5.0.0' },
+        },
+        null,
+        2
+      ),
+      'src/main.tsx': [
+        "import '@rainbow-me/rainbowkit/styles.css';",
+        "import ReactDOM from 'react-dom/client';",
+        "import { App } from './App';",
+        '',
+        "ReactDOM.createRoot(document.getElementById('root')!).render(<App />);",
+        '',
+      ].join('\n'),
+      'src/App.tsx': [
+        "import { RainbowKitProvider, ConnectButton, getDefaultConfig, darkTheme } from '@rainbow-me/rainbowkit';",
+        "import { WagmiProvider } from 'wagmi';",
+        "import { mainnet, base } from 'wagmi/chains';",
+        "import { Header } from './Header';",
+        '',
+        'const config = getDefaultConfig({',
+        "  appName: 'My App',",
+        "  projectId: 'wc-project',",
+        '  chains: [mainnet, base],',
+        '});',
+        '',
+        'export function App() {',
+        '  return (',
+        '    <WagmiProvider config={config}>',
+        '      <RainbowKitProvider theme={darkTheme()}>',
+        '        <Header />',
+        '        <ConnectButton />',
+        '      </RainbowKitProvider>',
+        '    </WagmiProvider>',
+        '  );',
+        '}',
+        '',
+      ].join('\n'),
+      'src/Header.tsx': [
+        "import { useConnectModal } from '@rainbow-me/rainbowkit';",
+        '',
+        'export function Header() {',
+        '  const { openConnectModal } = useConnectModal();',
+        '  return <button onClick={openConnectModal}>Sign in</button>;',
+        '}',
+        '',
+      ].join('\n'),
+    };
+
+    it('should replace RainbowKit config, provider, button, hooks and styles', async () => {
+      await createProject(RAINBOWKIT_PROJECT);
+      const engine = new MigrationEngine();
+      const state = await engine.scanProjectState(projectPath);
+
+      expect(StrategyFactory.detectStrategy(state)).toBe(MigrationStrategy.RAINBOWKIT_TO_PARA);
+
+      await engine.createReplacementPlan(MigrationStrategy.RAINBOWKIT_TO_PARA);
+      const result = await engine.executeAtomicMigration();
+      expect(result.failedOperations).toEqual([]);
+      expect(result.success).toBe(true);
+
+      const app = await read('src/App.tsx');
+      expect(app).toContain("import { ParaProvider, ParaModal } from '@getpara/react-sdk';");
+      expect(app).toContain("import { WagmiProvider, createConfig, http } from 'wagmi';");
+      expect(app).toContain(
+        "import { ParaConnectButton as ConnectButton } from './ParaConnectButton';"
+      );
+      expect(app).toContain(
+        'const config = createConfig({\n  chains: [mainnet, base],\n  transports: { [mainnet.id]: http(), [base.id]: http() },\n});'
+      );
+      expect(app).toContain("  appName: 'My App',");
+      expect(app).toContain(
+        '            config: {\n' +
+          '              chains: [mainnet, base],\n' +
+          '              transports: { [mainnet.id]: http(), [base.id]: http() },\n' +
+          '            },'
+      );
+      expect(app).not.toContain('darkTheme');
+
+      const button = await read('src/ParaConnectButton.tsx');
+      expect(button).toContain('export function ParaConnectButton');
+      expect(button).toContain('ParaConnectButton.Custom = function Custom');
+      expect(button).toContain('openConnectModal: () => openModal(),');
+      expect(await read('src/Header.tsx')).toContain(
+        'const { openModal: openConnectModal } = useModal();'
+      );
+      expect(await read('src/main.tsx')).toContain("import '@getpara/react-sdk/styles.css';");
+      expect(JSON.parse(await read('package.json')).dependencies).not.toHaveProperty(
+        '@rainbow-me/rainbowkit'
+      );
+    });
+
+    it('should import http for the transports of a config declared in its own file', async () => {
+      await createProject({
+        ...RAINBOWKIT_PROJECT,
+        'src/wagmi.ts': [
+          "import { getDefaultConfig } from '@rainbow-me/rainbowkit';",
+          "import { mainnet, base } from 'wagmi/chains';",
+          '',
+          'export const config = getDefaultConfig({',
+          "  appName: 'My App',",
+          "  projectId: 'wc-project',",
+          '  chains: [mainnet, base],',
+          '});',
+          '',
+        ].join('\n'),
+        'src/App.tsx': [
+          "import { RainbowKitProvider } from '@rainbow-me/rainbowkit';",
+          "import { WagmiProvider } from 'wagmi';",
+          "import { config } from './wagmi';",
+          '',
+          'export function App() {',
+          '  return (',
+          '    <WagmiProvider config={config}>',
+          '      <RainbowKitProvider>',
+          '        <main />',
+          '      </RainbowKitProvider>',
+          '    </WagmiProvider>',
+          '  );',
+          '}',
+          '',
+        ].join('\n'),
+      });
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+      const plan = await engine.createReplacementPlan(MigrationStrategy.RAINBOWKIT_TO_PARA);
+      expect(plan.manualReview).not.toContainEqual(
+        expect.objectContaining({ code: 'UNRESOLVED_WAGMI_CONFIG' })
+      );
+
+      const result = await engine.executeAtomicMigration();
+      expect(result.success).toBe(true);
+
+      const app = await read('src/App.tsx');
+      expect(app).toContain("import { WagmiProvider, http } from 'wagmi';");
+      expect(app).toContain("import { mainnet, base } from 'wagmi/chains';");
+      expect(app).toContain(
+        '              chains: [mainnet, base],\n' +
+          '              transports: { [mainnet.id]: http(), [base.id]: http() },'
+      );
+    });
+
+    it('should generate the button outside the Next.js pages directory', async () => {
+      await createProject({
+        'package.json': JSON.stringify({
+          dependencies: { '@rainbow-me/rainbowkit': '^2.1.0', next: '^14.0.0', wagmi: '^2.5.0' },
+        }),
+        'pages/_app.tsx': RAINBOWKIT_PROJECT['src/App.tsx']
+          .replace("import { Header } from './Header';\n", '')
+          .replace('        <Header />\n', ''),
+        'pages/index.tsx': [
+          "import { ConnectButton } from '@rainbow-me/rainbowkit';",
+          '',
+          'export default function Home() {',
+          '  return <ConnectButton />;',
+          '}',
+          '',
+        ].join('\n'),
+      });
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+      const plan = await engine.createReplacementPlan(MigrationStrategy.RAINBOWKIT_TO_PARA);
+
+      const generated = plan.replacements.filter((op) => op.type === 'file').map((op) => op.file);
+      expect(generated).toEqual(['components/ParaConnectButton.tsx']);
+      expect(
+        plan.replacements.find((op) => op.type === 'import' && op.file === 'pages/index.tsx')
+          ?.newValue
+      ).toBe(
+        "import { ParaConnectButton as ConnectButton } from '../components/ParaConnectButton';"
+      );
+    });
+
+    it('should delete the generated button when the migration rolls back', async () => {
+      await createProject(RAINBOWKIT_PROJECT);
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+      await engine.createReplacementPlan(MigrationStrategy.RAINBOWKIT_TO_PARA);
+
+      await fs.writeFile(path.join(projectPath, 'src/App.tsx'), '// rewritten\n');
+      const result = await engine.executeAtomicMigration();
+
+      expect(result.rollbackExecuted).toBe(true);
+      expect(result.restoredFiles).toContain('src/ParaConnectButton.tsx');
+      await expect(
+        fs.access(path.join(projectPath, 'src/ParaConnectButton.tsx'))
+      ).rejects.toThrow();
+    });
+
+    it('should report the modal hooks it cannot convert and keep their imports', async () => {
+      await createProject({
+        ...RAINBOWKIT_PROJECT,
+        'src/Header.tsx': [
+          "import { useConnectModal, useAddRecentTransaction } from '@rainbow-me/rainbowkit';",
+          '',
+          'export function Header() {',
+          '  const connect = useConnectModal();',
+          '  const addRecentTransaction = useAddRecentTransaction();',
+          '  return <button onClick={connect.openConnectModal}>Sign in</button>;',
+          '}',
+          '',
+        ].join('\n'),
+      });
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+      const plan = await engine.createReplacementPlan(MigrationStrategy.RAINBOWKIT_TO_PARA);
+
+      expect(plan.manualReview).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ code: 'HOOK_NEEDS_REVIEW', file: 'src/Header.tsx', line: 4 }),
+          expect.objectContaining({ code: 'HOOK_NEEDS_REVIEW', file: 'src/Header.tsx', line: 5 }),
+        ])
+      );
+      expect(plan.replacements.filter((op) => op.type === 'hook')).toEqual([]);
+
+      expect((await engine.executeAtomicMigration()).success).toBe(true);
+      expect(await read('src/Header.tsx')).toContain(
+        [
+          "import { useModal } from '@getpara/react-sdk';",
+          "import { useAddRecentTransaction } from '@rainbow-me/rainbowkit';",
+        ].join('\n')
+      );
+      expect(JSON.parse(await read('package.json')).dependencies).toHaveProperty(
+        '@rainbow-me/rainbowkit'
+      );
+    });
+  });
+
+  describe('ConnectKitToParaStrategy', () => {
+    const CONNECTKIT_PROJECT: Record<string, string> = {
+      'package.json': JSON.stringify(
+        {
+          dependencies: { connectkit: '^1.7.0', wagmi: '^2.5.0' },
+          devDependencies: { vite: '^5.0.0' },
+        },
+        null,
+        2
+      ),
+      'src/main.tsx': [
+        "import ReactDOM from 'react-dom/client';",
+        "import { App } from './App';",
+        '',
+        "ReactDOM.createRoot(document.getElementById('root')!).render(<App />);",
+        '',
+      ].join('\n'),
+      'src/App.tsx': [
+        "import { ConnectKitProvider, ConnectKitButton, getDefaultConfig } from 'connectkit';",
+        "import { WagmiProvider, createConfig, http } from 'wagmi';",
+        "import { mainnet } from 'wagmi/chains';",
+        '',
+        'const config = createConfig(',
+        '  getDefaultConfig({',
+        '    chains: [mainnet],',
+        '    transports: { [mainnet.id]: http() },',
+        "    walletConnectProjectId: 'wc-project',",
+        "    appName: 'My App',",
+        '  })',
+        ');',
+        '',
+        'export function App() {',
+        '  return (',
+        '    <WagmiProvider config={config}>',
+        '      <ConnectKitProvider theme="auto">',
+        '        <ConnectKitButton.Custom>',
+        '          {({ show, truncatedAddress }) => <button onClick={show}>{truncatedAddress}</button>}',
+        '        </ConnectKitButton.Custom>',
+        '      </ConnectKitProvider>',
+        '    </WagmiProvider>',
+        '  );',
+        '}',
+        '',
+      ].join('\n'),
+      'src/Menu.tsx': [
+        "import { useModal } from 'connectkit';",
+        '',
+        'export function Menu() {',
+        '  const { open, setOpen } = useModal();',
+        '  return <button onClick={() => setOpen(!open)}>Wallet</button>;',
+        '}',
+        '',
+      ].join('\n'),
+    };
+
+    it('should replace ConnectKit and rewrite only the connectkit useModal', async () => {
+      await createProject(CONNECTKIT_PROJECT);
+      const engine = new MigrationEngine();
+      const state = await engine.scanProjectState(projectPath);
+
+      expect(StrategyFactory.detectStrategy(state)).toBe(MigrationStrategy.CONNECTKIT_TO_PARA);
+
+      await engine.createReplacementPlan(MigrationStrategy.CONNECTKIT_TO_PARA);
+      const result = await engine.executeAtomicMigration();
+      expect(result.failedOperations).toEqual([]);
+      expect(result.success).toBe(true);
+
+      const app = await read('src/App.tsx');
+      expect(app).toContain("import { ParaProvider, ParaModal } from '@getpara/react-sdk';");
+      expect(app).toContain(
+        "import { ParaConnectButton as ConnectKitButton } from './ParaConnectButton';"
+      );
+      expect(app).toContain(
+        'const config = createConfig(\n  {\n    chains: [mainnet],\n    transports: { [mainnet.id]: http() },\n  }\n);'
+      );
+      expect(app).toContain('<ConnectKitButton.Custom>');
+      expect(app).toContain("  appName: 'My App',");
+
+      expect(await read('src/ParaConnectButton.tsx')).toContain(
+        'ParaConnectButton.Custom = function Custom'
+      );
+
+      const menu = await read('src/Menu.tsx');
+      expect(menu).toContain("import { useModal } from '@getpara/react-sdk';");
+      expect(menu).toContain(
+        '  const { isOpen: open, openModal, closeModal } = useModal();\n' +
+          '  const setOpen = (open: boolean) => (open ? openModal() : closeModal());'
+      );
+    });
+
+    it('should write the imports it adds with the quotes of the file', async () => {
+      await createProject({
+        ...CONNECTKIT_PROJECT,
+        'src/App.tsx': CONNECTKIT_PROJECT['src/App.tsx'].replace(/from '([^']+)'/g, 'from "$1"'),
+      });
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+      await engine.createReplacementPlan(MigrationStrategy.CONNECTKIT_TO_PARA);
+      expect((await engine.executeAtomicMigration()).success).toBe(true);
+
+      const app = await read('src/App.tsx');
+      expect(app).toContain(
+        [
+          'import { ParaProvider, ParaModal } from "@getpara/react-sdk";',
+          'import { Environment } from "@getpara/core-sdk";',
+          'import { ParaConnectButton as ConnectKitButton } from "./ParaConnectButton";',
+        ].join('\n')
+      );
+      expect(app).not.toMatch(/from '/);
+    });
+
+    it('should indent inline provider children from the column of the replaced element', async () => {
+      await createProject({
+        ...CONNECTKIT_PROJECT,
+        'src/App.tsx': CONNECTKIT_PROJECT['src/App.tsx'].replace(
+          /      <ConnectKitProvider[\s\S]*<\/ConnectKitProvider>/,
+          '      <ConnectKitProvider theme="auto"><ConnectKitButton /></ConnectKitProvider>'
+        ),
+      });
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+      await engine.createReplacementPlan(MigrationStrategy.CONNECTKIT_TO_PARA);
+      await engine.executeAtomicMigration();
+
+      const app = await read('src/App.tsx');
+      expect(app).toContain('      <ParaProvider\n        paraClientConfig={{\n          apiKey:');
+      expect(app).toContain('      >\n        <ConnectKitButton />\n        {/*');
+      expect(app).toContain('        <ParaModal />\n      </ParaProvider>\n    </WagmiProvider>');
+    });
+
+    it('should leave a useModal result that is not destructured for review', async () => {
+      await createProject({
+        ...CONNECTKIT_PROJECT,
+        'src/Menu.tsx': [
+          "import { useModal, useIsMounted } from 'connectkit';",
+          '',
+          'export function Menu() {',
+          '  const modal = useModal();',
+          '  const mounted = useIsMounted();',
+          '  return mounted ? <button onClick={() => modal.setOpen(true)}>Wallet</button> : null;',
+          '}',
+          '',
+        ].join('\n'),
+      });
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+      const plan = await engine.createReplacementPlan(MigrationStrategy.CONNECTKIT_TO_PARA);
+
+      expect(plan.manualReview).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ code: 'HOOK_NEEDS_REVIEW', file: 'src/Menu.tsx', line: 4 }),
+          expect.objectContaining({ code: 'HOOK_NEEDS_REVIEW', file: 'src/Menu.tsx', line: 5 }),
+        ])
+      );
+      expect(plan.replacements.filter((op) => op.type === 'hook')).toEqual([]);
+
+      expect((await engine.executeAtomicMigration()).success).toBe(true);
+      expect(await read('src/Menu.tsx')).toContain(
+        [
+          "import { useModal } from '@getpara/react-sdk';",
+          "import { useIsMounted } from 'connectkit';",
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('DynamicToParaStrategy', () => {
+    const DYNAMIC_PROJECT: Record<string, string> = {
+      'package.json': JSON.stringify(
+        {
+          dependencies: {
+            '@dynamic-labs/sdk-react-core': '^3.0.0',
+            '@dynamic-labs/ethereum': '^3.0.0',
+            '@dynamic-labs/wagmi-connector': '^3.0.0',
+            wagmi: '^2.5.0',
+          },
+          devDependencies: { vite: '^5.0.0' },
+        },
+        null,
+        2
+      ),
+      'src/main.tsx': [
+        "import ReactDOM from 'react-dom/client';",
+        "import { App } from './App';",
+        '',
+        "ReactDOM.createRoot(document.getElementById('root')!).render(<App />);",
+        '',
+      ].join('\n'),
+      'src/App.tsx': [
+        "import { DynamicContextProvider, DynamicWidget } from '@dynamic-labs/sdk-react-core';",
+        "import { EthereumWalletConnectors } from '@dynamic-labs/ethereum';",
+        "import { DynamicWagmiConnector } from '@dynamic-labs/wagmi-connector';",
+        "import { WagmiProvider } from 'wagmi';",
+        "import { config } from './config';",
+        '',
+        'export function App() {',
+        '  return (',
+        '    <DynamicContextProvider',
+        '      settings={{',
+        "        environmentId: 'env-123',",
+        '        walletConnectors: [EthereumWalletConnectors],',
+        '        events: {',
+        '          onAuthSuccess: () => track("login"),',
+        '          onAuthFlowOpen: () => track("open"),',
+        '        },',
+        '      }}',
+        '    >',
+        '      <WagmiProvider config={config}>',
+        '        <DynamicWagmiConnector>',
+        '          <DynamicWidget />',
+        '        </DynamicWagmiConnector>',
+        '      </WagmiProvider>',
+        '    </DynamicContextProvider>',
+        '  );',
+        '}',
+        '',
+      ].join('\n'),
+      'src/config.ts': [
+        "import { createConfig, http } from 'wagmi';",
+        "import { mainnet } from 'wagmi/chains';",
+        '',
+        'export const config = createConfig({',
+        '  chains: [mainnet],',
+        '  transports: { [mainnet.id]: http() },',
+        '});',
+        '',
+      ].join('\n'),
+      'src/Account.tsx': [
+        "import { useDynamicContext } from '@dynamic-labs/sdk-react-core';",
+        '',
+        'export function Account() {',
+        '  const { primaryWallet, handleLogOut, setShowAuthFlow } = useDynamicContext();',
+        '  return primaryWallet ? (',
+        '    <button onClick={handleLogOut}>Log out</button>',
+        '  ) : (',
+        '    <button onClick={() => setShowAuthFlow(true)}>Log in</button>',
+        '  );',
+        '}',
+        '',
+      ].join('\n'),
+    };
+
+    it('should translate Dynamic settings, widget, wagmi connector and context hooks', async () => {
+      await createProject(DYNAMIC_PROJECT);
+      const engine = new MigrationEngine();
+      const state = await engine.scanProjectState(projectPath);
+
+      expect(StrategyFactory.detectStrategy(state)).toBe(MigrationStrategy.DYNAMIC_TO_PARA);
+
+      await engine.createReplacementPlan(MigrationStrategy.DYNAMIC_TO_PARA);
+      const result = await engine.executeAtomicMigration();
+      expect(result.failedOperations).toEqual([]);
+      expect(result.success).toBe(true);
+
+      const app = await read('src/App.tsx');
+      expect(app).not.toContain('@dynamic-labs');
+      expect(app).toContain("import { ParaProvider, ParaModal } from '@getpara/react-sdk';");
+      expect(app).toContain(
+        "import { ParaConnectButton as DynamicWidget } from './ParaConnectButton';"
+      );
+      expect(app).toContain(
+        "apiKey: import.meta.env.VITE_PARA_API_KEY, // replaces Dynamic environmentId 'env-123'"
+      );
+      expect(app).toContain("import { mainnet } from 'wagmi/chains';");
+      expect(app).toContain("import { WagmiProvider, http } from 'wagmi';");
+      expect(app).toContain(
+        'evmConnector: {\n' +
+          '          config: {\n' +
+          '            chains: [mainnet],\n' +
+          '            transports: { [mainnet.id]: http() },\n' +
+          '          },'
+      );
+      expect(app).toContain('onLogin: () => track("login"),');
+      expect(app).toContain(
+        '// Not mapped from DynamicContextProvider - review manually: settings.events[onAuthFlowOpen]'
+      );
+      expect(app).toContain(
+        '      <WagmiProvider config={config}>\n        <DynamicWidget />\n      </WagmiProvider>'
+      );
+
+      const account = await read('src/Account.tsx');
+      expect(account).toContain(
+        "import { useWallet, useLogout, useModal } from '@getpara/react-sdk';"
+      );
+      expect(account).toContain(
+        '  const { data: primaryWallet } = useWallet();\n' +
+          '  const { logoutAsync: handleLogOut } = useLogout();\n' +
+          '  const { openModal, closeModal } = useModal();\n' +
+          '  const setShowAuthFlow = (show: boolean) => (show ? openModal() : closeModal());'
+      );
+      expect(JSON.parse(await read('package.json')).dependencies).toEqual({
+        wagmi: '^2.5.0',
+        '@getpara/core-sdk': expect.any(String),
+        '@getpara/react-sdk': expect.any(String),
+      });
+    });
+
+    it('should keep `!user` meaning signed out and flag reads of user profile fields', async () => {
+      await createProject({
+        ...DYNAMIC_PROJECT,
+        'src/App.tsx': DYNAMIC_PROJECT['src/App.tsx'].replace(
+          '          <DynamicWidget />\n',
+          '          <DynamicWidget />\n          <Account />\n'
+        ),
+        'src/Account.tsx': [
+          "import { useDynamicContext } from '@dynamic-labs/sdk-react-core';",
+          '',
+          'export function Account() {',
+          '  const { user } = useDynamicContext();',
+          '  if (!user) return null;',
+          '  return <p>{user.email}</p>;',
+          '}',
+          '',
+        ].join('\n'),
+      });
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+
+      const plan = await engine.createReplacementPlan(MigrationStrategy.DYNAMIC_TO_PARA);
+      expect(plan.manualReview).toEqual([
+        expect.objectContaining({
+          code: 'UNMAPPED_PROVIDER_CONFIG',
+          file: 'src/App.tsx',
+          message: expect.stringContaining('settings.events[onAuthFlowOpen]'),
+        }),
+        expect.objectContaining({
+          code: 'HOOK_NEEDS_REVIEW',
+          file: 'src/Account.tsx',
+          line: 6,
+          message: expect.stringContaining('`user.email`'),
+        }),
+      ]);
+
+      await engine.executeAtomicMigration();
+      expect(await read('src/Account.tsx')).toContain(
+        '  const { data: paraAccount } = useAccount();\n' +
+          '  const user = paraAccount?.isConnected ? paraAccount : undefined;'
+      );
+      expect(await read('src/App.tsx')).toContain(
+        [
+          '      <WagmiProvider config={config}>',
+          '        <>',
+          '          <DynamicWidget />',
+          '          <Account />',
+          '        </>',
+          '      </WagmiProvider>',
+        ].join('\n')
+      );
+    });
+
+    it('should keep context hooks it cannot split on Dynamic and report them', async () => {
+      await createProject({
+        ...DYNAMIC_PROJECT,
+        'src/Account.tsx': [
+          "import { useDynamicContext, useUserWallets } from '@dynamic-labs/sdk-react-core';",
+          '',
+          'export function Account() {',
+          '  const context = useDynamicContext();',
+          '  const wallets = useUserWallets();',
+          '  return <p>{context.primaryWallet?.address ?? wallets.length}</p>;',
+          '}',
+          '',
+        ].join('\n'),
+      });
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+      const plan = await engine.createReplacementPlan(MigrationStrategy.DYNAMIC_TO_PARA);
+
+      expect(plan.manualReview).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ code: 'HOOK_NEEDS_REVIEW', file: 'src/Account.tsx', line: 4 }),
+          expect.objectContaining({ code: 'HOOK_NEEDS_REVIEW', file: 'src/Account.tsx', line: 5 }),
+        ])
+      );
+
+      expect((await engine.executeAtomicMigration()).success).toBe(true);
+      const account = await read('src/Account.tsx');
+      expect(account).toContain(
+        "import { useDynamicContext, useUserWallets } from '@dynamic-labs/sdk-react-core';"
+      );
+      expect(account).not.toContain('@getpara/react-sdk');
+    });
+  });
+
+  describe('ThirdwebToParaStrategy', () => {
+    const THIRDWEB_PROJECT: Record<string, string> = {
+      'package.json': JSON.stringify(
+        {
+          dependencies: { thirdweb: '^5.0.0', react: '^18.0.0' },
+          devDependencies: { vite: '^5.0.0' },
+        },
+        null,
+        2
+      ),
+      'src/main.tsx': [
+        "import ReactDOM from 'react-dom/client';",
+        "import { App } from './App';",
+        '',
+        "ReactDOM.createRoot(document.getElementById('root')!).render(<App />);",
+        '',
+      ].join('\n'),
+      'src/client.ts': [
+        "import { createThirdwebClient } from 'thirdweb';",
+        '',
+        "export const client = createThirdwebClient({ clientId: 'tw-client' });",
+        '',
+      ].join('\n'),
+      'src/App.tsx': [
+        "import { ThirdwebProvider, ConnectButton } from 'thirdweb/react';",
+        "import { ethereum, base } from 'thirdweb/chains';",
+        "import { client } from './client';",
+        "import { Account } from './Account';",
+        '',
+        'export function App() {',
+        '  return (',
+        '    <ThirdwebProvider>',
+        '      <ConnectButton client={client} chains={[ethereum, base]} />',
+        '      <Account />',
+        '    </ThirdwebProvider>',
+        '  );',
+        '}',
+        '',
+      ].join('\n'),
+      'src/Account.tsx': [
+        "import { useActiveAccount, useActiveWallet, useDisconnect, useActiveWalletChain } from 'thirdweb/react';",
+        '',
+        'export function Account() {',
+        '  const account = useActiveAccount();',
+        '  const wallet = useActiveWallet();',
+        '  const chain = useActiveWalletChain();',
+        '  const { disconnect } = useDisconnect();',
+        '  if (!account) return null;',
+        '  return (',
+        '    <button onClick={() => wallet && disconnect(wallet)}>',
+        '      {account.address.slice(0, 6)} on {chain?.name}',
+        '    </button>',
+        '  );',
+        '}',
+        '',
+      ].join('\n'),
+    };
+
+    it('should introduce a wagmi config and rewrite thirdweb account access', async () => {
+      await createProject(THIRDWEB_PROJECT);
+      const engine = new MigrationEngine();
+      const state = await engine.scanProjectState(projectPath);
+
+      expect(StrategyFactory.detectStrategy(state)).toBe(MigrationStrategy.THIRDWEB_TO_PARA);
+
+      await engine.createReplacementPlan(MigrationStrategy.THIRDWEB_TO_PARA);
+      const result = await engine.executeAtomicMigration();
+      expect(result.failedOperations).toEqual([]);
+      expect(result.success).toBe(true);
+
+      expect(await read('src/wagmiConfig.ts')).toContain(
+        "import { mainnet, base } from 'wagmi/chains';"
+      );
+      expect(await read('src/client.ts')).toBe(
+        "export const client = { clientId: 'tw-client' };\n"
+      );
+
+      const app = await read('src/App.tsx');
+      expect(app).toContain(
+        [
+          "import { ParaProvider, ParaModal } from '@getpara/react-sdk';",
+          "import { Environment } from '@getpara/core-sdk';",
+          "import { chains, transports, wagmiConfig } from './wagmiConfig';",
+          "import { ParaConnectButton as ConnectButton } from './ParaConnectButton';",
+          "import { mainnet as ethereum, base } from 'wagmi/chains';",
+        ].join('\n')
+      );
+      expect(app).toContain(
+        "apiKey: import.meta.env.VITE_PARA_API_KEY, // replaces thirdweb clientId 'tw-client'"
+      );
+      expect(app).toContain('config: {\n                chains,\n                transports,\n');
+      // the migrated wagmi hooks need a WagmiProvider and a QueryClientProvider above them
+      expect(app).toContain("import { WagmiProvider } from 'wagmi';");
+      expect(app).toContain(
+        '    <QueryClientProvider client={queryClient}>\n' +
+          '      <WagmiProvider config={wagmiConfig}>\n' +
+          '        <ParaProvider\n'
+      );
+
+      const account = await read('src/Account.tsx');
+      expect(account).toContain(
+        [
+          "import { useWallet, useLogout } from '@getpara/react-sdk';",
+          "import { useAccount } from 'wagmi';",
+          '',
+          'export function Account() {',
+          '  const { address: accountAddress } = useAccount();',
+          '  const account = accountAddress ? { address: accountAddress } : undefined;',
+          '  const { data: wallet } = useWallet();',
+          '  const { chain } = useAccount();',
+          '  const { logoutAsync: disconnect } = useLogout();',
+        ].join('\n')
+      );
+      expect(account).toContain('onClick={() => wallet && disconnect()}');
+      expect(account).toContain('{accountAddress.slice(0, 6)} on {chain?.name}');
+      expect(JSON.parse(await read('package.json')).dependencies).toEqual({
+        '@getpara/core-sdk': expect.any(String),
+        '@getpara/react-sdk': expect.any(String),
+        '@tanstack/react-query': expect.any(String),
+        react: '^18.0.0',
+        viem: expect.any(String),
+        wagmi: expect.any(String),
+      });
+    });
+
+    it('should keep thirdweb hooks it cannot rewrite on thirdweb/react and report them', async () => {
+      await createProject({
+        ...THIRDWEB_PROJECT,
+        'src/Account.tsx': [
+          "import { useActiveAccount, useActiveWallet, useWalletBalance } from 'thirdweb/react';",
+          '',
+          'export function Account() {',
+          '  const address = useActiveAccount()?.address;',
+          '  const wallet = useActiveWallet();',
+          '  const { data: balance } = useWalletBalance({ address });',
+          '  return <p>{wallet ? balance?.displayValue : address}</p>;',
+          '}',
+          '',
+        ].join('\n'),
+      });
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+      const plan = await engine.createReplacementPlan(MigrationStrategy.THIRDWEB_TO_PARA);
+
+      expect(plan.manualReview).toEqual([
+        expect.objectContaining({ code: 'HOOK_NEEDS_REVIEW', file: 'src/Account.tsx', line: 4 }),
+        expect.objectContaining({ code: 'HOOK_NEEDS_REVIEW', file: 'src/Account.tsx', line: 6 }),
+      ]);
+
+      expect((await engine.executeAtomicMigration()).success).toBe(true);
+      expect(await read('src/Account.tsx')).toContain(
+        [
+          "import { useWallet } from '@getpara/react-sdk';",
+          "import { useActiveAccount, useWalletBalance } from 'thirdweb/react';",
+          '',
+          'export function Account() {',
+          '  const address = useActiveAccount()?.address;',
+          '  const { data: wallet } = useWallet();',
+        ].join('\n')
+      );
+      expect(JSON.parse(await read('package.json')).dependencies).toHaveProperty('thirdweb');
+    });
+  });
+
+  describe('Web3OnboardToParaStrategy', () => {
+    const WEB3ONBOARD_PROJECT: Record<string, string> = {
+      'package.json': JSON.stringify(
+        {
+          dependencies: {
+            '@web3-onboard/injected-wallets': '^2.10.0',
+            '@web3-onboard/react': '^2.8.0',
+            '@web3-onboard/walletconnect': '^2.5.0',
+            react: '^18.0.0',
+          },
+          devDependencies: { vite: '^5.0.0' },
+        },
+        null,
+        2
+      ),
+      'src/main.tsx': [
+        "import ReactDOM from 'react-dom/client';",
+        "import { App } from './App';",
+        '',
+        "ReactDOM.createRoot(document.getElementById('root')!).render(<App />);",
+        '',
+      ].join('\n'),
+      'src/onboard.ts': [
+        "import { init } from '@web3-onboard/react';",
+        "import injectedModule from '@web3-onboard/injected-wallets';",
+        "import walletConnectModule from '@web3-onboard/walletconnect';",
+        '',
+        'const injected = injectedModule();',
+        "const walletConnect = walletConnectModule({ projectId: 'wc-project' });",
+        '',
+        'export const web3Onboard = init({',
+        '  wallets: [injected, walletConnect],',
+        '  chains: [',
+        "    { id: '0x1', token: 'ETH', label: 'Ethereum', rpcUrl: 'https://eth.example' },",
+        "    { id: 137, token: 'POL', label: 'Polygon' },",
+        '  ],',
+        "  appMetadata: { name: 'Legacy App', icon: '<svg />' },",
+        '});',
+        '',
+      ].join('\n'),
+      'src/App.tsx': [
+        "import { Web3OnboardProvider } from '@web3-onboard/react';",
+        "import { web3Onboard } from './onboard';",
+        "import { Wallet } from './Wallet';",
+        '',
+        'export function App() {',
+        '  return (',
+        '    <Web3OnboardProvider web3Onboard={web3Onboard}>',
+        '      <Wallet />',
+        '    </Web3OnboardProvider>',
+        '  );',
+        '}',
+        '',
+      ].join('\n'),
+      'src/Wallet.tsx': [
+        "import { useConnectWallet, useSetChain } from '@web3-onboard/react';",
+        '',
+        'export function Wallet() {',
+        '  const [{ wallet, connecting }, connect, disconnect] = useConnectWallet();',
+        '  const [{ connectedChain }, setChain] = useSetChain();',
+        '  if (!wallet) return <button onClick={() => connect()}>{connecting ? "…" : "Connect"}</button>;',
+        '  return (',
+        '    <div>',
+        '      {wallet.accounts[0].address} on {connectedChain?.id}',
+        "      <button onClick={() => setChain({ chainId: '0x89' })}>Polygon</button>",
+        '      <button onClick={() => disconnect(wallet)}>Disconnect</button>',
+        '    </div>',
+        '  );',
+        '}',
+        '',
+      ].join('\n'),
+    };
+
+    it('should convert init() into Para config and split the Onboard hooks', async () => {
+      await createProject(WEB3ONBOARD_PROJECT);
+      const engine = new MigrationEngine();
+      const state = await engine.scanProjectState(projectPath);
+
+      expect(StrategyFactory.detectStrategy(state)).toBe(MigrationStrategy.WEB3ONBOARD_TO_PARA);
+
+      await engine.createReplacementPlan(MigrationStrategy.WEB3ONBOARD_TO_PARA);
+      const result = await engine.executeAtomicMigration();
+      expect(result.failedOperations).toEqual([]);
+      expect(result.success).toBe(true);
+
+      expect(await read('src/onboard.ts')).toBe(
+        [
+          "import { Environment } from '@getpara/core-sdk';",
+          "import { chains, transports } from './wagmiConfig';",
+          '',
+          'export const web3Onboard = {',
+          '  paraClientConfig: {',
+          '    apiKey: import.meta.env.VITE_PARA_API_KEY,',
+          '    env: Environment.DEVELOPMENT,',
+          '  },',
+          '  config: {',
+          "    appName: 'Legacy App',",
+          '  },',
+          '  externalWalletConfig: {',
+          "    wallets: ['METAMASK', 'WALLETCONNECT'],",
+          '    evmConnector: {',
+          '      config: {',
+          '        chains,',
+          '        transports,',
+          '      },',
+          '    },',
+          '  },',
+          '  // Not mapped from Web3Onboard init - review manually: appMetadata.icon',
+          '};',
+          '',
+        ].join('\n')
+      );
+
+      const wagmiConfig = await read('src/wagmiConfig.ts');
+      expect(wagmiConfig).toContain("import { mainnet, polygon } from 'wagmi/chains';");
+      expect(wagmiConfig).toContain(
+        "  [mainnet.id]: http('https://eth.example'),\n  [polygon.id]: http(),\n"
+      );
+
+      const app = await read('src/App.tsx');
+      expect(app).toContain("import { ParaProvider, ParaModal } from '@getpara/react-sdk';");
+      expect(app).toContain("import { wagmiConfig } from './wagmiConfig';");
+      // the migrated wagmi hooks need a WagmiProvider and a QueryClientProvider above them
+      expect(app).toContain(
+        '    <QueryClientProvider client={queryClient}>\n' +
+          '      <WagmiProvider config={wagmiConfig}>\n' +
+          '        <ParaProvider\n' +
+          '          {...web3Onboard}\n'
+      );
+
+      const wallet = await read('src/Wallet.tsx');
+      expect(wallet).toContain(
+        [
+          "import { useWallet, useModal, useLogout } from '@getpara/react-sdk';",
+          "import { useAccount, useSwitchChain } from 'wagmi';",
+          '',
+          'export function Wallet() {',
+          '  const { address: walletAddress, isConnecting: connecting } = useAccount();',
+          '  const { data: wallet } = useWallet();',
+          '  const { openModal: connect } = useModal();',
+          '  const { logoutAsync: disconnect } = useLogout();',
+          '  const { chain: connectedChain } = useAccount();',
+          '  const { switchChain: setChain } = useSwitchChain();',
+        ].join('\n')
+      );
+      expect(wallet).toContain('{walletAddress} on {connectedChain?.id}');
+      expect(wallet).toContain('setChain({ chainId: 137 })');
+      expect(wallet).toContain('onClick={() => disconnect()}');
+      expect(Object.keys(JSON.parse(await read('package.json')).dependencies)).toEqual([
+        '@getpara/core-sdk',
+        '@getpara/react-sdk',
+        '@tanstack/react-query',
+        'react',
+        'viem',
+        'wagmi',
+      ]);
+    });
+
+    it('should render ParaProvider around the root element when init() has no provider', async () => {
+      await createProject({
+        ...WEB3ONBOARD_PROJECT,
+        'src/onboard.ts': WEB3ONBOARD_PROJECT['src/onboard.ts'].replace(
+          'export const web3Onboard = init({',
+          'const web3Onboard = init({'
+        ),
+        'src/App.tsx': [
+          "import { Wallet } from './Wallet';",
+          '',
+          'export function App() {',
+          '  return <Wallet />;',
+          '}',
+          '',
+        ].join('\n'),
+      });
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+
+      const plan = await engine.createReplacementPlan(MigrationStrategy.WEB3ONBOARD_TO_PARA);
+      expect(plan.manualReview).toContainEqual(
+        expect.objectContaining({
+          code: 'UNMAPPED_PROVIDER_CONFIG',
+          file: 'src/onboard.ts',
+          line: 8,
+        })
+      );
+
+      const result = await engine.executeAtomicMigration();
+      expect(result.success).toBe(true);
+      expect(await read('src/onboard.ts')).toContain('export const web3Onboard = {');
+      expect(await read('src/main.tsx')).toBe(
+        [
+          "import ReactDOM from 'react-dom/client';",
+          "import { App } from './App';",
+          "import { ParaProvider, ParaModal } from '@getpara/react-sdk';",
+          "import { web3Onboard } from './onboard';",
+          "import { wagmiConfig } from './wagmiConfig';",
+          "import { QueryClient, QueryClientProvider } from '@tanstack/react-query';",
+          "import { WagmiProvider } from 'wagmi';",
+          "import '@getpara/react-sdk/styles.css';",
+          '',
+          'const queryClient = new QueryClient();',
+          '',
+          "ReactDOM.createRoot(document.getElementById('root')!).render(<QueryClientProvider client={queryClient}>",
+          '  <WagmiProvider config={wagmiConfig}>',
+          '    <ParaProvider',
+          '      {...web3Onboard}',
+          '    >',
+          '      <App />',
+          '      {/* ⚠️ CRITICAL: ParaModal is REQUIRED - #1 missing piece in failed migrations */}',
+          '      <ParaModal />',
+          '    </ParaProvider>',
+          '  </WagmiProvider>',
+          '</QueryClientProvider>);',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should keep Onboard hooks it cannot split on their import and report them', async () => {
+      await createProject({
+        ...WEB3ONBOARD_PROJECT,
+        'src/Wallet.tsx': [
+          "import { useConnectWallet, useAccountCenter } from '@web3-onboard/react';",
+          '',
+          'export function Wallet() {',
+          '  const onboard = useConnectWallet();',
+          '  const updateAccountCenter = useAccountCenter();',
+          '  return <button onClick={() => onboard[1]()}>Connect</button>;',
+          '}',
+          '',
+        ].join('\n'),
+      });
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+      const plan = await engine.createReplacementPlan(MigrationStrategy.WEB3ONBOARD_TO_PARA);
+
+      expect(plan.manualReview).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ code: 'HOOK_NEEDS_REVIEW', file: 'src/Wallet.tsx', line: 4 }),
+          expect.objectContaining({ code: 'HOOK_NEEDS_REVIEW', file: 'src/Wallet.tsx', line: 5 }),
+        ])
+      );
+
+      expect((await engine.executeAtomicMigration()).success).toBe(true);
+      const wallet = await read('src/Wallet.tsx');
+      expect(wallet).toContain(
+        "import { useConnectWallet, useAccountCenter } from '@web3-onboard/react';"
+      );
+      expect(wallet).not.toContain('@getpara/react-sdk');
+    });
+  });
+
+  describe('Web3ModalToParaStrategy', () => {
+    const WEB3MODAL_PROJECT: Record<string, string> = {
+      'package.json': JSON.stringify(
+        {
+          dependencies: { '@web3modal/wagmi': '^4.1.0', react: '^18.0.0', wagmi: '^2.5.0' },
+          devDependencies: { vite: '^5.0.0' },
+        },
+        null,
+        2
+      ),
+      'src/main.tsx': [
+        "import ReactDOM from 'react-dom/client';",
+        "import { App } from './App';",
+        '',
+        "ReactDOM.createRoot(document.getElementById('root')!).render(<App />);",
+        '',
+      ].join('\n'),
+      'src/App.tsx': [
+        "import { createWeb3Modal } from '@web3modal/wagmi/react';",
+        "import { defaultWagmiConfig } from '@web3modal/wagmi/react/config';",
+        "import { WagmiProvider } from 'wagmi';",
+        "import { mainnet } from 'wagmi/chains';",
+        "import { Header } from './Header';",
+        '',
+        "const projectId = 'wc-project';",
+        'const config = defaultWagmiConfig({',
+        '  chains: [mainnet],',
+        '  projectId,',
+        "  metadata: { name: 'Demo', description: '', url: '', icons: [] },",
+        '});',
+        '',
+        'createWeb3Modal({',
+        '  wagmiConfig: config,',
+        '  projectId,',
+        "  themeMode: 'dark',",
+        "  themeVariables: { '--w3m-accent': '#7c3aed', '--w3m-z-index': 1000 },",
+        '  enableAnalytics: true,',
+        '});',
+        '',
+        'export function App() {',
+        '  return (',
+        '    <WagmiProvider config={config}>',
+        '      <Header />',
+        '    </WagmiProvider>',
+        '  );',
+        '}',
+        '',
+      ].join('\n'),
+      'src/Header.tsx': [
+        "import { useWeb3Modal, useWeb3ModalState } from '@web3modal/wagmi/react';",
+        '',
+        'export function Header() {',
+        '  const { open } = useWeb3Modal();',
+        '  const { open: isOpen, selectedNetworkId } = useWeb3ModalState();',
+        '  return (',
+        '    <header>',
+        '      <w3m-button />',
+        "      <button onClick={() => open({ view: 'Networks' })}>{selectedNetworkId}</button>",
+        '      {isOpen && <span>Modal open</span>}',
+        '    </header>',
+        '  );',
+        '}',
+        '',
+      ].join('\n'),
+    };
+
+    it('should rewrite createWeb3Modal, web components and hooks', async () => {
+      await createProject(WEB3MODAL_PROJECT);
+      const engine = new MigrationEngine();
+      const state = await engine.scanProjectState(projectPath);
+
+      expect(StrategyFactory.detectStrategy(state)).toBe(MigrationStrategy.WEB3MODAL_TO_PARA);
+
+      const plan = await engine.createReplacementPlan(MigrationStrategy.WEB3MODAL_TO_PARA);
+      expect(plan.manualReview).toContainEqual(
+        expect.objectContaining({
+          code: 'UNMAPPED_PROVIDER_CONFIG',
+          file: 'src/App.tsx',
+          message:
+            'createWeb3Modal settings without a Para equivalent: themeVariables[--w3m-z-index], enableAnalytics',
+        })
+      );
+      const result = await engine.executeAtomicMigration();
+      expect(result.failedOperations).toEqual([]);
+      expect(result.success).toBe(true);
+
+      const app = await read('src/App.tsx');
+      expect(app).not.toContain('web3modal');
+      expect(app).not.toContain('createWeb3Modal(');
+      expect(app).toContain("import { WagmiProvider, createConfig, http } from 'wagmi';");
+      expect(app).toContain("import { ParaProvider, ParaModal } from '@getpara/react-sdk';");
+      expect(app).toContain('const config = createConfig({\n  chains: [mainnet],');
+      expect(app).toContain(
+        [
+          '    <WagmiProvider config={config}>',
+          '      <ParaProvider',
+          '        paraClientConfig={{',
+          '          apiKey: import.meta.env.VITE_PARA_API_KEY, // replaces WalletConnect projectId',
+        ].join('\n')
+      );
+      expect(app).toContain("        theme: {\n            mode: 'dark',");
+      expect(app).toContain("accentColor: '#7c3aed',");
+      expect(app).toContain(
+        '// Not mapped from createWeb3Modal - review manually: themeVariables[--w3m-z-index], enableAnalytics'
+      );
+
+      const header = await read('src/Header.tsx');
+      expect(header).toContain(
+        [
+          "import { useModal } from '@getpara/react-sdk';",
+          "import { useAccount } from 'wagmi';",
+          "import { ParaConnectButton } from './ParaConnectButton';",
+          '',
+          'export function Header() {',
+          '  const { openModal: open } = useModal();',
+          '  const { isOpen } = useModal();',
+          '  const { chainId: selectedNetworkId } = useAccount();',
+        ].join('\n')
+      );
+      expect(header).toContain('      <ParaConnectButton />');
+      expect(header).toContain('onClick={() => open()}');
+      expect(plan.manualReview).toContainEqual(
+        expect.objectContaining({
+          code: 'HOOK_NEEDS_REVIEW',
+          file: 'src/Header.tsx',
+          line: 9,
+          message: expect.stringContaining("`open({ view: 'Networks' })` loses its arguments"),
+        })
+      );
+      expect(JSON.parse(await read('package.json')).dependencies).not.toHaveProperty(
+        '@web3modal/wagmi'
+      );
+    });
+
+    it('should keep hooks without a Para equivalent on their import for review', async () => {
+      await createProject({
+        ...WEB3MODAL_PROJECT,
+        'src/Header.tsx': [
+          "import { useWeb3Modal, useWeb3ModalTheme } from '@web3modal/wagmi/react';",
+          '',
+          'export function Header() {',
+          '  const { open } = useWeb3Modal();',
+          '  const { setThemeMode } = useWeb3ModalTheme();',
+          "  return <button onClick={() => { setThemeMode('light'); open(); }}>Connect</button>;",
+          '}',
+          '',
+        ].join('\n'),
+      });
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+      const plan = await engine.createReplacementPlan(MigrationStrategy.WEB3MODAL_TO_PARA);
+
+      expect(plan.manualReview).toContainEqual(
+        expect.objectContaining({ code: 'HOOK_NEEDS_REVIEW', file: 'src/Header.tsx', line: 5 })
+      );
+
+      const result = await engine.executeAtomicMigration();
+      expect(result.success).toBe(true);
+
+      const header = await read('src/Header.tsx');
+      expect(header).toContain(
+        [
+          "import { useWeb3ModalTheme } from '@web3modal/wagmi/react';",
+          "import { useModal } from '@getpara/react-sdk';",
+        ].join('\n')
+      );
+      expect(header).toContain('  const { openModal: open } = useModal();');
+      expect(header).toContain('  const { setThemeMode } = useWeb3ModalTheme();');
+    });
+  });
+
+  describe('SolanaWalletAdapterToParaStrategy', () => {
+    const SOLANA_PROJECT: Record<string, string> = {
+      'package.json': JSON.stringify(
+        {
+          dependencies: {
+            '@solana/wallet-adapter-react': '^0.15.35',
+            '@solana/wallet-adapter-react-ui': '^0.9.35',
+            '@solana/wallet-adapter-wallets': '^0.19.32',
+            '@solana/web3.js': '^1.95.0',
+            react: '^18.0.0',
+          },
+          devDependencies: { vite: '^5.0.0' },
+        },
+        null,
+        2
+      ),
+      'src/main.tsx': [
+        "import ReactDOM from 'react-dom/client';",
+        "import '@solana/wallet-adapter-react-ui/styles.css';",
+        "import { App } from './App';",
+        '',
+        "ReactDOM.createRoot(document.getElementById('root')!).render(<App />);",
+        '',
+      ].join('\n'),
+      'src/App.tsx': [
+        "import { ConnectionProvider, WalletProvider } from '@solana/wallet-adapter-react';",
+        "import { WalletModalProvider, WalletMultiButton } from '@solana/wallet-adapter-react-ui';",
+        "import { PhantomWalletAdapter, SolflareWalletAdapter } from '@solana/wallet-adapter-wallets';",
+        "import { Wallet } from './Wallet';",
+        '',
+        "const endpoint = 'https://api.devnet.solana.com';",
+        '',
+        'export function App() {',
+        '  return (',
+        '    <ConnectionProvider endpoint={endpoint}>',
+        '      <WalletProvider wallets={[new PhantomWalletAdapter(), new SolflareWalletAdapter()]} autoConnect>',
+        '        <WalletModalProvider>',
+        '          <WalletMultiButton />',
+        '          <Wallet />',
+        '        </WalletModalProvider>',
+        '      </WalletProvider>',
+        '    </ConnectionProvider>',
+        '  );',
+        '}',
+        '',
+      ].join('\n'),
+      'src/Wallet.tsx': [
+        "import { useConnection, useWallet } from '@solana/wallet-adapter-react';",
+        "import { useWalletModal } from '@solana/wallet-adapter-react-ui';",
+        '',
+        'export function Wallet() {',
+        '  const { connection } = useConnection();',
+        '  const { publicKey, signTransaction, connected, disconnect } = useWallet();',
+        '  const { setVisible } = useWalletModal();',
+        '  if (!connected) return <button onClick={() => setVisible(true)}>Connect</button>;',
+        '  return (',
+        '    <div>',
+        '      {publicKey?.toBase58()} on {connection.rpcEndpoint}',
+        '      <button onClick={() => disconnect()}>Disconnect</button>',
+        '      {signTransaction && <span>Can sign</span>}',
+        '    </div>',
+        '  );',
+        '}',
+        '',
+      ].join('\n'),
+    };
+
+    it('should collapse the adapter providers and move useWallet onto Para', async () => {
+      await createProject(SOLANA_PROJECT);
+      const engine = new MigrationEngine();
+      const state = await engine.scanProjectState(projectPath);
+
+      expect(StrategyFactory.detectStrategy(state)).toBe(
+        MigrationStrategy.SOLANA_WALLET_ADAPTER_TO_PARA
+      );
+
+      await engine.createReplacementPlan(MigrationStrategy.SOLANA_WALLET_ADAPTER_TO_PARA);
+      const result = await engine.executeAtomicMigration();
+      expect(result.failedOperations).toEqual([]);
+      expect(result.success).toBe(true);
+
+      const app = await read('src/App.tsx');
+      expect(app).toContain(
+        [
+          "import { ParaProvider, ParaModal } from '@getpara/react-sdk';",
+          "import { Environment } from '@getpara/core-sdk';",
+          "import { ParaConnectButton as WalletMultiButton } from './ParaConnectButton';",
+          "import { Wallet } from './Wallet';",
+        ].join('\n')
+      );
+      expect(app).toContain(
+        [
+          '        solanaConnector: {',
+          '          config: {',
+          '            endpoint,',
+          '          },',
+          '        },',
+          '      }}',
+          '    >',
+          '      <WalletMultiButton />',
+          '      <Wallet />',
+        ].join('\n')
+      );
+      expect(app).not.toMatch(/WalletModalProvider|ConnectionProvider|wallet-adapter-wallets/);
+
+      expect(await read('src/Wallet.tsx')).toContain(
+        [
+          "import { useAccount, useLogout, useModal } from '@getpara/react-sdk';",
+          "import { useParaSolanaSigner } from './useParaSolanaSigner';",
+          "import { useConnection } from '@solana/wallet-adapter-react';",
+          '',
+          'export function Wallet() {',
+          '  const { connection } = useConnection();',
+          '  const { data: paraAccount } = useAccount();',
+          '  const { logoutAsync: disconnect } = useLogout();',
+          '  const connected = !!paraAccount?.isConnected;',
+          '  const solanaSigner = useParaSolanaSigner();',
+          '  const publicKey = solanaSigner?.sender ?? null;',
+          '  const signTransaction = solanaSigner ? solanaSigner.signTransaction.bind(solanaSigner) : undefined;',
+          '  const { openModal, closeModal } = useModal();',
+          '  const setVisible = (open: boolean) => (open ? openModal() : closeModal());',
+        ].join('\n')
+      );
+      expect(await read('src/useParaSolanaSigner.ts')).toContain(
+        'new ParaSolanaWeb3Signer(para, connection)'
+      );
+      expect(await read('src/main.tsx')).toContain("import '@getpara/react-sdk/styles.css';");
+
+      const dependencies = JSON.parse(await read('package.json')).dependencies;
+      expect(Object.keys(dependencies)).toEqual([
+        '@getpara/core-sdk',
+        '@getpara/react-sdk',
+        '@getpara/solana-web3.js-v1-integration',
+        '@solana/wallet-adapter-react',
+        '@solana/web3.js',
+        'react',
+      ]);
+    });
+
+    it('should map sendTransaction, swap required styles and flag useWallet it cannot split', async () => {
+      await createProject({
+        ...SOLANA_PROJECT,
+        'src/main.tsx': SOLANA_PROJECT['src/main.tsx'].replace(
+          "import '@solana/wallet-adapter-react-ui/styles.css';\n",
+          ''
+        ),
+        'src/App.tsx': SOLANA_PROJECT['src/App.tsx'].replace(
+          "import { Wallet } from './Wallet';",
+          "import { Wallet } from './Wallet';\nrequire('@solana/wallet-adapter-react-ui/styles.css');"
+        ),
+        'src/Wallet.tsx': [
+          "import { useWallet } from '@solana/wallet-adapter-react';",
+          '',
+          'export function Wallet() {',
+          '  const { publicKey, sendTransaction } = useWallet();',
+          '  return <button onClick={() => sendTransaction(tx, connection)}>{publicKey?.toBase58()}</button>;',
+          '}',
+          '',
+        ].join('\n'),
+        'src/Status.tsx': [
+          "import { useWallet } from '@solana/wallet-adapter-react';",
+          '',
+          'export function Status() {',
+          '  const { wallets, select } = useWallet();',
+          '  return <button onClick={() => select(wallets[0].adapter.name)}>Select</button>;',
+          '}',
+          '',
+        ].join('\n'),
+      });
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+
+      const plan = await engine.createReplacementPlan(
+        MigrationStrategy.SOLANA_WALLET_ADAPTER_TO_PARA
+      );
+      expect(plan.manualReview).toEqual([
+        expect.objectContaining({ code: 'HOOK_NEEDS_REVIEW', file: 'src/Status.tsx', line: 4 }),
+      ]);
+
+      await engine.executeAtomicMigration();
+      expect(await read('src/App.tsx')).toContain("require('@getpara/react-sdk/styles.css');");
+      // the swapped stylesheet already imports the Para CSS for the app
+      expect(await read('src/main.tsx')).not.toContain('@getpara/react-sdk/styles.css');
+      expect(await read('src/App.tsx')).not.toContain('wallet-adapter-react-ui');
+      expect(await read('src/Wallet.tsx')).toContain(
+        [
+          '  const solanaSigner = useParaSolanaSigner();',
+          '  const publicKey = solanaSigner?.sender ?? null;',
+          "  const sendTransaction = (transaction: Parameters<NonNullable<typeof solanaSigner>['sendTransaction']>[0], ..._options: unknown[]) => solanaSigner ? solanaSigner.sendTransaction(transaction) : Promise.reject(new Error('Wallet not connected'));",
+        ].join('\n')
+      );
+      expect(await read('src/Status.tsx')).toContain(
+        "import { useWallet } from '@solana/wallet-adapter-react';"
+      );
+    });
+
+    it('should keep a useWalletModal result that is not destructured for review', async () => {
+      await createProject({
+        ...SOLANA_PROJECT,
+        'src/Wallet.tsx': [
+          "import { useAnchorWallet } from '@solana/wallet-adapter-react';",
+          "import { useWalletModal } from '@solana/wallet-adapter-react-ui';",
+          '',
+          'export function Wallet() {',
+          '  const modal = useWalletModal();',
+          '  const anchorWallet = useAnchorWallet();',
+          '  if (!anchorWallet) return <button onClick={() => modal.setVisible(true)}>Connect</button>;',
+          '  return <p>{anchorWallet.publicKey.toBase58()}</p>;',
+          '}',
+          '',
+        ].join('\n'),
+      });
+      const engine = new MigrationEngine();
+      await engine.scanProjectState(projectPath);
+      const plan = await engine.createReplacementPlan(
+        MigrationStrategy.SOLANA_WALLET_ADAPTER_TO_PARA
+      );
+
+      expect(plan.manualReview).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ code: 'HOOK_NEEDS_REVIEW', file: 'src/Wallet.tsx', line: 5 }),
+          expect.objectContaining({ code: 'HOOK_NEEDS_REVIEW', file: 'src/Wallet.tsx', line: 6 }),
+        ])
+      );
+
+      expect((await engine.executeAtomicMigration()).success).toBe(true);
+      const wallet = await read('src/Wallet.tsx');
+      expect(wallet).toContain(
+        [
+          "import { useAnchorWallet } from '@solana/wallet-adapter-react';",
+          "import { useWalletModal } from '@solana/wallet-adapter-react-ui';",
+        ].join('\n')
+      );
+      expect(wallet).toContain('  const modal = useWalletModal();');
+    });
+  });
+});